@@ -10,11 +10,13 @@
  * 4. If nothing configured -> throw structured error
  *
  * Results are cached for the session to avoid repeated health checks.
+ * A workspace with its own API token gets its own Input API backend.
  */
 import { ConfigManager } from '../config/manager';
 import { InputApiBackend } from './input-api-backend';
 import { LocalApiBackend } from './local-api-backend';
 import { LocalApiClient } from './local-api-client';
+import { MutationJournal } from './mutation-journal';
 import { StructuredError } from '../utils/structured-errors';
 import type { TanaBackend } from './backend';
 
@@ -22,7 +24,8 @@ import type { TanaBackend } from './backend';
 // Cache
 // =============================================================================
 
-let cachedBackend: TanaBackend | null = null;
+/** Resolved backends by workspace API token ('' for the global token) */
+const cachedBackends = new Map<string, TanaBackend>();
 
 // =============================================================================
 // Public API
@@ -35,29 +38,38 @@ let cachedBackend: TanaBackend | null = null;
  * 1. Return cached backend if available (unless forceRefresh)
  * 2. If useInputApiFallback is set and no local API token -> Input API
  * 3. If local API configured with token -> try health check
- *    a. Healthy -> LocalApiBackend (cached)
+ *    a. Healthy -> LocalApiBackend with mutation journal (cached)
  *    b. Not healthy + fallback enabled -> InputApiBackend (cached)
  *    c. Not healthy + no fallback -> throw LOCAL_API_UNAVAILABLE
  * 4. No local API configured -> InputApiBackend (requires apiToken)
  *
  * @param options - Optional settings
  * @param options.forceRefresh - Bypass cache and re-resolve
+ * @param options.workspace - Workspace alias or ID (its apiToken override is used for the Input API)
  * @returns Resolved TanaBackend instance
  * @throws StructuredError with code LOCAL_API_UNAVAILABLE or API_KEY_MISSING
  */
 export async function resolveBackend(
-  options?: { forceRefresh?: boolean },
+  options?: { forceRefresh?: boolean; workspace?: string },
 ): Promise<TanaBackend> {
-  if (cachedBackend && !options?.forceRefresh) {
-    return cachedBackend;
+  const configManager = ConfigManager.getInstance();
+  const workspaceToken = options?.workspace
+    ? configManager.getWorkspace(options.workspace)?.config.apiToken
+    : undefined;
+  const cacheKey = workspaceToken ?? '';
+
+  const cached = cachedBackends.get(cacheKey);
+  if (cached && !options?.forceRefresh) {
+    return cached;
   }
 
-  const configManager = ConfigManager.getInstance();
-  const config = configManager.getConfig();
+  const config = workspaceToken
+    ? { ...configManager.getConfig(), apiToken: workspaceToken }
+    : configManager.getConfig();
 
   // If useInputApiFallback is explicitly set and localApi not configured, use Input API directly
   if (config.useInputApiFallback && !config.localApi?.bearerToken) {
-    return resolveInputApiBackend(config);
+    return resolveInputApiBackend(config, cacheKey);
   }
 
   // Try Local API first if configured
@@ -71,13 +83,14 @@ export async function resolveBackend(
     // Health check - is Tana Desktop running with Local API enabled?
     const healthy = await client.health();
     if (healthy) {
-      cachedBackend = new LocalApiBackend(client);
-      return cachedBackend;
+      const backend = new LocalApiBackend(client, new MutationJournal());
+      cachedBackends.set(cacheKey, backend);
+      return backend;
     }
 
     // Local API not available - try fallback to Input API
     if (config.useInputApiFallback) {
-      return resolveInputApiBackend(config);
+      return resolveInputApiBackend(config, cacheKey);
     }
 
     // No fallback configured - fail with actionable error
@@ -97,7 +110,7 @@ export async function resolveBackend(
   }
 
   // No local API configured - fall back to Input API
-  return resolveInputApiBackend(config);
+  return resolveInputApiBackend(config, cacheKey);
 }
 
 // =============================================================================
@@ -108,11 +121,13 @@ export async function resolveBackend(
  * Resolve to InputApiBackend, validating that an API token is available.
  *
  * @param config - Current Tana configuration
+ * @param cacheKey - Cache key of the resolved backend
  * @returns InputApiBackend instance (cached)
  * @throws StructuredError with code API_KEY_MISSING if no token configured
  */
 function resolveInputApiBackend(
   config: { apiToken?: string; apiEndpoint: string },
+  cacheKey: string,
 ): TanaBackend {
   if (!config.apiToken) {
     throw new StructuredError(
@@ -126,8 +141,9 @@ function resolveInputApiBackend(
     );
   }
 
-  cachedBackend = new InputApiBackend(config.apiToken, config.apiEndpoint);
-  return cachedBackend;
+  const backend = new InputApiBackend(config.apiToken, config.apiEndpoint);
+  cachedBackends.set(cacheKey, backend);
+  return backend;
 }
 
 // =============================================================================
@@ -139,5 +155,5 @@ function resolveInputApiBackend(
  * Call this after config changes or for testing.
  */
 export function clearBackendCache(): void {
-  cachedBackend = null;
+  cachedBackends.clear();
 }
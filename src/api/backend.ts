@@ -60,6 +60,17 @@ export interface TanaBackend {
    */
   supportsMutations(): boolean;
 
+  /**
+   * Import a Tana Paste document under a parent node.
+   * Only the local-api backend implements this; callers fall back to
+   * createNodes() when it is undefined.
+   *
+   * @param parentNodeId - Parent node ID (INBOX, SCHEMA, or specific node)
+   * @param content - Tana Paste text
+   * @returns Created node IDs
+   */
+  importTanaPaste?(parentNodeId: string, content: string): Promise<ImportResponse>;
+
   // =========================================================================
   // Mutation operations (only local-api supports these)
   // InputApiBackend throws MUTATIONS_NOT_SUPPORTED for all of these
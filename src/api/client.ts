@@ -17,8 +17,8 @@ function getLogger(): Logger {
   return createLogger({ level: "debug", mode: "pretty" }).child("api");
 }
 
-const MAX_NODES_PER_REQUEST = 100;
-const MAX_PAYLOAD_SIZE = 5000; // characters (Tana API limit per https://tana.inc/docs/input-api)
+export const MAX_NODES_PER_REQUEST = 100;
+export const MAX_PAYLOAD_SIZE = 5000; // characters (Tana API limit per https://tana.inc/docs/input-api)
 
 /**
  * Tana API Client
@@ -23,9 +23,11 @@ import type {
   FieldOptionResponse,
   DoneResponse,
   TrashResponse,
+  ImportResponse,
 } from '../types/local-api';
 import type { TanaBackend } from './backend';
 import type { LocalApiClient } from './local-api-client';
+import { createSnapshot, type MutationJournal, type NodeSnapshot, type PlannedMutation } from './mutation-journal';
 
 // =============================================================================
 // Tana Paste Conversion
@@ -227,17 +229,23 @@ export function convertNodesToTanaPaste(nodes: TanaApiNode[]): string {
  *
  * Capabilities:
  * - createNodes: converts to Tana Paste, then calls importTanaPaste()
+ * - importTanaPaste: imports a Tana Paste document as-is
  * - Full mutation support: update, tag, field, check, trash
  *
+ * With a journal, every mutation is recorded with the node's before-state
+ * so it can be reverted with `supertag undo`.
+ *
  * The Local API runs on Tana Desktop (default: http://localhost:8262).
  */
 export class LocalApiBackend implements TanaBackend {
   readonly type = 'local-api' as const;
 
   private client: LocalApiClient;
+  private journal?: MutationJournal;
 
-  constructor(client: LocalApiClient) {
+  constructor(client: LocalApiClient, journal?: MutationJournal) {
     this.client = client;
+    this.journal = journal;
   }
 
   async createNodes(
@@ -255,6 +263,13 @@ export class LocalApiBackend implements TanaBackend {
     };
   }
 
+  async importTanaPaste(
+    parentNodeId: string,
+    content: string,
+  ): Promise<ImportResponse> {
+    return this.client.importTanaPaste(parentNodeId, content);
+  }
+
   supportsMutations(): boolean {
     return true;
   }
@@ -263,21 +278,30 @@ export class LocalApiBackend implements TanaBackend {
     nodeId: string,
     update: { name?: string | null; description?: string | null },
   ): Promise<UpdateResponse> {
-    return this.client.updateNode(nodeId, update);
+    return this.journaled({ operation: 'updateNode', nodeId, params: update }, () =>
+      this.client.updateNode(nodeId, update));
   }
 
   async addTags(
     nodeId: string,
     tagIds: string[],
   ): Promise<TagOperationResponse> {
-    return this.client.addTags(nodeId, tagIds);
+    return this.journaled(
+      { operation: 'addTags', nodeId, params: { tagIds } },
+      () => this.client.addTags(nodeId, tagIds),
+      changedTagIds,
+    );
   }
 
   async removeTags(
     nodeId: string,
     tagIds: string[],
   ): Promise<TagOperationResponse> {
-    return this.client.removeTags(nodeId, tagIds);
+    return this.journaled(
+      { operation: 'removeTags', nodeId, params: { tagIds } },
+      () => this.client.removeTags(nodeId, tagIds),
+      changedTagIds,
+    );
   }
 
   async setFieldContent(
@@ -285,7 +309,8 @@ export class LocalApiBackend implements TanaBackend {
     attributeId: string,
     content: string,
   ): Promise<FieldContentResponse> {
-    return this.client.setFieldContent(nodeId, attributeId, content);
+    return this.journaled({ operation: 'setFieldContent', nodeId, params: { attributeId, content } }, () =>
+      this.client.setFieldContent(nodeId, attributeId, content));
   }
 
   async setFieldOption(
@@ -293,18 +318,75 @@ export class LocalApiBackend implements TanaBackend {
     attributeId: string,
     optionId: string,
   ): Promise<FieldOptionResponse> {
-    return this.client.setFieldOption(nodeId, attributeId, optionId);
+    return this.journaled({ operation: 'setFieldOption', nodeId, params: { attributeId, optionId } }, () =>
+      this.client.setFieldOption(nodeId, attributeId, optionId));
   }
 
   async checkNode(nodeId: string): Promise<DoneResponse> {
-    return this.client.checkNode(nodeId);
+    return this.journaled({ operation: 'checkNode', nodeId, params: {} }, () =>
+      this.client.checkNode(nodeId));
   }
 
   async uncheckNode(nodeId: string): Promise<DoneResponse> {
-    return this.client.uncheckNode(nodeId);
+    return this.journaled({ operation: 'uncheckNode', nodeId, params: {} }, () =>
+      this.client.uncheckNode(nodeId));
   }
 
   async trashNode(nodeId: string): Promise<TrashResponse> {
-    return this.client.trashNode(nodeId);
+    return this.journaled({ operation: 'trashNode', nodeId, params: {} }, () =>
+      this.client.trashNode(nodeId));
+  }
+
+  // ===========================================================================
+  // Journaling
+  // ===========================================================================
+
+  /**
+   * Run a mutation, recording it in the journal (if any) in two phases:
+   * begin with the before-state, then commit or fail.
+   */
+  private async journaled<T>(
+    mutation: PlannedMutation,
+    apply: () => Promise<T>,
+    changed?: (result: T) => string[],
+  ): Promise<T> {
+    if (!this.journal) {
+      return apply();
+    }
+
+    const id = this.journal.begin(mutation, await this.readBefore(mutation));
+    try {
+      const result = await apply();
+      this.journal.commit(id, changed?.(result));
+      return result;
+    } catch (error) {
+      this.journal.fail(id, error);
+      throw error;
+    }
   }
+
+  /**
+   * Read the node's current state. Failures are not fatal: the mutation
+   * still runs, but without a before-state it may not be undoable.
+   */
+  private async readBefore(mutation: PlannedMutation): Promise<NodeSnapshot | null> {
+    const attributeId = mutation.params.attributeId as string | undefined;
+    try {
+      const node = await this.client.readNode(mutation.nodeId, attributeId ? 1 : 0);
+      if (!attributeId) {
+        return createSnapshot(node);
+      }
+      const field = await this.client.readNode(attributeId, 0).catch(() => null);
+      return createSnapshot(node, { attributeId, name: field?.name });
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Tag IDs a tag operation actually changed
+ */
+function changedTagIds(result: TagOperationResponse): string[] {
+  return result.results.filter((r) => r.success).map((r) => r.tagId);
 }
@@ -0,0 +1,446 @@
+/**
+ * Mutation Journal
+ *
+ * Local undo log for Local API mutations. Every mutation is recorded in two
+ * phases in an append-only JSONL file:
+ *
+ *   1. begin  - before the API call, with the node's before-state
+ *               (read via LocalApiClient.readNode)
+ *   2. commit - after the call succeeded (or fail, with the error)
+ *
+ * An entry left in `pending` means the process died mid-mutation and the
+ * node state is unknown. `undo` records link an entry to the journaled
+ * inverse mutations that reverted it.
+ *
+ * Trashing is journaled but cannot be undone: the Local API has no endpoint
+ * that moves a node out of the trash or to another owner, and re-creating
+ * it from the before-state would give it a new ID and leave every reference
+ * pointing at the trashed node. Undo reports the node to restore in Tana.
+ *
+ * Usage:
+ *   supertag history
+ *   supertag undo 42
+ *   supertag undo --last 3
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { TANA_DATA_DIR, ensureDir } from '../config/paths';
+import { StructuredError } from '../utils/structured-errors';
+import type { TanaBackend } from './backend';
+
+/** Default journal location */
+export const MUTATION_JOURNAL_FILE = join(TANA_DATA_DIR, 'mutation-journal.jsonl');
+
+/**
+ * Backend mutation methods that are journaled
+ */
+export type MutationOperation =
+  | 'updateNode'
+  | 'addTags'
+  | 'removeTags'
+  | 'setFieldContent'
+  | 'setFieldOption'
+  | 'checkNode'
+  | 'uncheckNode'
+  | 'trashNode';
+
+export type MutationStatus = 'pending' | 'applied' | 'failed';
+
+/**
+ * Node state captured before a mutation
+ */
+export interface NodeSnapshot {
+  name?: string;
+  description?: string | null;
+  /** Node content as returned by readNode */
+  markdown: string;
+  /** Checkbox state parsed from the markdown (null if the node has no checkbox) */
+  done: boolean | null;
+  /** Previous value of the field being set (field mutations only) */
+  field?: { attributeId: string; name?: string; value: string | null };
+}
+
+export interface JournalEntry {
+  id: number;
+  timestamp: string;
+  operation: MutationOperation;
+  nodeId: string;
+  params: Record<string, unknown>;
+  before: NodeSnapshot | null;
+  status: MutationStatus;
+  /** Tag IDs the API reported as changed (tag operations) */
+  changed?: string[];
+  error?: string;
+  /** Entries that reverted this one */
+  undoneBy?: number[];
+  /** Entry this one reverted */
+  undoOf?: number;
+}
+
+/**
+ * A mutation to apply through the backend
+ */
+export interface PlannedMutation {
+  operation: MutationOperation;
+  nodeId: string;
+  params: Record<string, unknown>;
+}
+
+export interface UndoResult {
+  id: number;
+  operation: MutationOperation;
+  nodeId: string;
+  /** Inverse mutations applied (empty if the node was already in its before-state) */
+  inverse: PlannedMutation[];
+  /** Journal IDs of the inverse mutations */
+  undoneBy: number[];
+}
+
+type JournalRecord =
+  | { phase: 'begin'; entry: Omit<JournalEntry, 'status'> }
+  | { phase: 'commit'; id: number; changed?: string[] }
+  | { phase: 'fail'; id: number; error: string }
+  | { phase: 'undo'; id: number; by: number[] };
+
+/**
+ * Append-only journal of Local API mutations
+ */
+export class MutationJournal {
+  constructor(private filePath: string = MUTATION_JOURNAL_FILE) {}
+
+  /**
+   * Record the begin phase of a mutation
+   *
+   * @returns The new entry's ID
+   */
+  begin(mutation: PlannedMutation, before: NodeSnapshot | null): number {
+    const id = this.lastId() + 1;
+    this.append({
+      phase: 'begin',
+      entry: { id, timestamp: new Date().toISOString(), ...mutation, before },
+    });
+    return id;
+  }
+
+  /**
+   * Mark a mutation as applied
+   */
+  commit(id: number, changed?: string[]): void {
+    this.append({ phase: 'commit', id, ...(changed ? { changed } : {}) });
+  }
+
+  /**
+   * Mark a mutation as failed
+   */
+  fail(id: number, error: unknown): void {
+    this.append({ phase: 'fail', id, error: error instanceof Error ? error.message : String(error) });
+  }
+
+  /**
+   * Link an entry to the inverse mutations that reverted it
+   */
+  markUndone(id: number, by: number[]): void {
+    this.append({ phase: 'undo', id, by });
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  entries(): JournalEntry[] {
+    const byId = new Map<number, JournalEntry>();
+    for (const record of this.readRecords()) {
+      if (record.phase === 'begin') {
+        byId.set(record.entry.id, { ...record.entry, status: 'pending' });
+        continue;
+      }
+      const entry = byId.get(record.id);
+      if (!entry) continue;
+      if (record.phase === 'commit') {
+        entry.status = 'applied';
+        if (record.changed) entry.changed = record.changed;
+      } else if (record.phase === 'fail') {
+        entry.status = 'failed';
+        entry.error = record.error;
+      } else {
+        entry.undoneBy = [...(entry.undoneBy ?? []), ...record.by];
+        for (const undoId of record.by) {
+          const undo = byId.get(undoId);
+          if (undo) undo.undoOf = record.id;
+        }
+      }
+    }
+    return [...byId.values()].sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Get an entry by ID
+   */
+  get(id: number): JournalEntry | undefined {
+    return this.entries().find((e) => e.id === id);
+  }
+
+  /**
+   * Most recent applied mutations that have not been undone and are not
+   * themselves undo operations, newest first
+   */
+  undoable(limit: number): JournalEntry[] {
+    return this.entries()
+      .filter((e) => e.status === 'applied' && !e.undoneBy && e.undoOf === undefined)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  /**
+   * Highest entry ID in the journal (0 if empty)
+   */
+  lastId(): number {
+    let last = 0;
+    for (const record of this.readRecords()) {
+      if (record.phase === 'begin' && record.entry.id > last) last = record.entry.id;
+    }
+    return last;
+  }
+
+  private append(record: JournalRecord): void {
+    ensureDir(dirname(this.filePath));
+    appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+  }
+
+  private readRecords(): JournalRecord[] {
+    if (!existsSync(this.filePath)) return [];
+    const records: JournalRecord[] = [];
+    for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as JournalRecord);
+      } catch {
+        // Skip a torn line from an interrupted write
+      }
+    }
+    return records;
+  }
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+/**
+ * Build a snapshot from a readNode response
+ *
+ * @param fieldName - Name of the field being set, to capture its current value
+ */
+export function createSnapshot(
+  node: { markdown: string; name?: string; description?: string | null },
+  field?: { attributeId: string; name?: string },
+): NodeSnapshot {
+  const snapshot: NodeSnapshot = {
+    name: node.name,
+    description: node.description,
+    markdown: node.markdown,
+    done: parseDoneState(node.markdown),
+  };
+  if (field) {
+    snapshot.field = {
+      ...field,
+      value: field.name ? parseFieldValue(node.markdown, field.name) : null,
+    };
+  }
+  return snapshot;
+}
+
+/**
+ * Checkbox state of the first markdown line (`- [x] Name`)
+ */
+export function parseDoneState(markdown: string): boolean | null {
+  const first = markdown.split('\n').find((line) => line.trim() !== '') ?? '';
+  const match = first.match(/^\s*(?:[-*]\s+)?\[( |x|X)\]/);
+  if (!match) return null;
+  return match[1].toLowerCase() === 'x';
+}
+
+/**
+ * Value of a field line (`- Field:: value` or `- **Field**: value`)
+ */
+export function parseFieldValue(markdown: string, fieldName: string): string | null {
+  const name = fieldName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`^\\s*(?:[-*]\\s+)?(?:${name}::|\\*\\*${name}\\*\\*:)\\s*(.*)$`);
+  for (const line of markdown.split('\n')) {
+    const match = line.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+// =============================================================================
+// Undo
+// =============================================================================
+
+/**
+ * Compute the mutations that restore an entry's before-state
+ *
+ * @throws StructuredError if the entry was not applied, was already undone,
+ *         or cannot be reverted through the Local API
+ */
+export function inverseOf(entry: JournalEntry): PlannedMutation[] {
+  if (entry.status !== 'applied') {
+    throw new StructuredError('INVALID_PARAMETER', `Mutation #${entry.id} was not applied (status: ${entry.status})`, {
+      suggestion: 'Only applied mutations can be undone. Check with: supertag history',
+    });
+  }
+  if (entry.undoneBy) {
+    throw new StructuredError('INVALID_PARAMETER', `Mutation #${entry.id} was already undone by #${entry.undoneBy.join(', #')}`);
+  }
+
+  const { nodeId, params, before } = entry;
+  const tagIds = entry.changed ?? (params.tagIds as string[] | undefined) ?? [];
+
+  switch (entry.operation) {
+    case 'updateNode': {
+      const restored = (['name', 'description'] as const).filter((key) => key in params);
+      const snapshot = requireSnapshot(entry, restored);
+      const update: Record<string, unknown> = {};
+      for (const key of restored) update[key] = snapshot[key];
+      return [{ operation: 'updateNode', nodeId, params: update }];
+    }
+    case 'addTags':
+      return tagIds.length > 0 ? [{ operation: 'removeTags', nodeId, params: { tagIds } }] : [];
+    case 'removeTags':
+      return tagIds.length > 0 ? [{ operation: 'addTags', nodeId, params: { tagIds } }] : [];
+    case 'setFieldContent': {
+      const field = requireSnapshot(entry, ['field']).field!;
+      // Without the field name the previous value could not be read from the markdown
+      if (field.name === undefined) {
+        throw notReversible(entry, 'the previous field value was not recorded');
+      }
+      return [{
+        operation: 'setFieldContent',
+        nodeId,
+        params: { attributeId: params.attributeId, content: field.value ?? '' },
+      }];
+    }
+    case 'setFieldOption': {
+      // Options can only be restored when the previous value carries its node ID ([[Name^id]])
+      const optionId = before?.field?.value?.match(/\^([A-Za-z0-9_-]+)\]\]/)?.[1];
+      if (!optionId) {
+        throw notReversible(entry, `previous option is unknown (was: ${before?.field?.value ?? 'empty'})`);
+      }
+      return [{ operation: 'setFieldOption', nodeId, params: { attributeId: params.attributeId, optionId } }];
+    }
+    case 'checkNode':
+      return before?.done === true ? [] : [{ operation: 'uncheckNode', nodeId, params: {} }];
+    case 'uncheckNode':
+      return before?.done === false ? [] : [{ operation: 'checkNode', nodeId, params: {} }];
+    case 'trashNode': {
+      const name = before?.name ? `"${before.name}" (${nodeId})` : nodeId;
+      throw notReversible(
+        entry,
+        'the Local API has no endpoint to move a node out of the trash',
+        `Restore ${name} from the trash in Tana`,
+      );
+    }
+  }
+}
+
+/**
+ * Apply a planned mutation through a backend
+ */
+export async function applyMutation(backend: TanaBackend, mutation: PlannedMutation): Promise<void> {
+  const { nodeId, params } = mutation;
+  switch (mutation.operation) {
+    case 'updateNode':
+      await backend.updateNode(nodeId, params as { name?: string | null; description?: string | null });
+      return;
+    case 'addTags':
+      await backend.addTags(nodeId, params.tagIds as string[]);
+      return;
+    case 'removeTags':
+      await backend.removeTags(nodeId, params.tagIds as string[]);
+      return;
+    case 'setFieldContent':
+      await backend.setFieldContent(nodeId, params.attributeId as string, params.content as string);
+      return;
+    case 'setFieldOption':
+      await backend.setFieldOption(nodeId, params.attributeId as string, params.optionId as string);
+      return;
+    case 'checkNode':
+      await backend.checkNode(nodeId);
+      return;
+    case 'uncheckNode':
+      await backend.uncheckNode(nodeId);
+      return;
+    case 'trashNode':
+      await backend.trashNode(nodeId);
+      return;
+  }
+}
+
+/**
+ * Revert journal entries, newest first
+ *
+ * The inverse mutations go through the backend, so a journaling backend
+ * records them as new entries; they are linked to the reverted entry.
+ */
+export async function undoMutations(
+  journal: MutationJournal,
+  backend: TanaBackend,
+  ids: number[],
+): Promise<UndoResult[]> {
+  if (!backend.supportsMutations()) {
+    throw new StructuredError('MUTATIONS_NOT_SUPPORTED', 'Undo requires the local API backend', {
+      suggestion: 'Configure with: supertag config --bearer-token <token>',
+    });
+  }
+
+  const entries = ids.map((id) => {
+    const entry = journal.get(id);
+    if (!entry) {
+      throw new StructuredError('INVALID_PARAMETER', `No mutation #${id} in the journal`, {
+        suggestion: 'List recorded mutations with: supertag history',
+      });
+    }
+    return entry;
+  });
+
+  // Validate everything before touching any node
+  const plans = entries
+    .sort((a, b) => b.id - a.id)
+    .map((entry) => ({ entry, inverse: inverseOf(entry) }));
+
+  const results: UndoResult[] = [];
+  for (const { entry, inverse } of plans) {
+    const firstId = journal.lastId() + 1;
+    for (const mutation of inverse) {
+      await applyMutation(backend, mutation);
+    }
+    const lastId = journal.lastId();
+    const undoneBy = Array.from({ length: Math.max(0, lastId - firstId + 1) }, (_, i) => firstId + i);
+    journal.markUndone(entry.id, undoneBy);
+    results.push({ id: entry.id, operation: entry.operation, nodeId: entry.nodeId, inverse, undoneBy });
+  }
+  return results;
+}
+
+/**
+ * Before-state of an entry, with every property that is restored
+ *
+ * @throws StructuredError if there is no before-state or a property is missing from it
+ */
+function requireSnapshot(entry: JournalEntry, keys: Array<keyof NodeSnapshot>): NodeSnapshot {
+  if (!entry.before) {
+    throw notReversible(entry, 'no before-state was recorded');
+  }
+  const missing = keys.filter((key) => entry.before![key] === undefined);
+  if (missing.length > 0) {
+    throw notReversible(entry, `the before-state has no ${missing.join(', ')}`);
+  }
+  return entry.before;
+}
+
+function notReversible(entry: JournalEntry, reason: string, suggestion?: string): StructuredError {
+  return new StructuredError('INVALID_PARAMETER', `Mutation #${entry.id} (${entry.operation}) cannot be undone: ${reason}`, {
+    details: { before: entry.before },
+    suggestion: suggestion ?? 'Inspect the recorded before-state with: supertag history --json',
+  });
+}
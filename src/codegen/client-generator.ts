@@ -0,0 +1,382 @@
+/**
+ * Typed Client Generator
+ *
+ * Generates a self-contained TypeScript module with the declarations of the
+ * TypeScript generator plus a client with helpers per supertag:
+ * - create<Tag>(input)           create a tagged node (TanaBackend.createNodes)
+ * - find<Tags>(where, options)   query nodes (webhook server POST /query)
+ * - set<Tag><Field>(id, value)   set a field (TanaBackend.setFieldOption/Content)
+ *
+ * Supertag, field attribute and option IDs are baked in, so application
+ * code does not hard-code them.
+ */
+
+import type { CodegenField, CodegenOptions, CodegenSupertag, GeneratedFile } from "./types";
+import { toClassName } from "./naming";
+import {
+  collectDeclarations,
+  fileHeader,
+  formatJsDoc,
+  referenceBrandName,
+  toIdBrandName,
+  type EnumDeclaration,
+} from "./declarations";
+import { generateTypeScriptBrands, generateTypeScriptInterface } from "./typescript-generator";
+
+/** Default webhook server URL (supertag server start) */
+export const DEFAULT_CLIENT_SERVER_URL = "http://localhost:3000";
+
+/**
+ * Plural of a class name for find helpers (Task → Tasks, Company → Companies).
+ */
+function pluralize(name: string): string {
+  if (/[^aeiou]y$/i.test(name)) return `${name.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/i.test(name)) return `${name}es`;
+  return `${name}s`;
+}
+
+/**
+ * Own and inherited fields of a supertag (ancestors first, generated ones only).
+ */
+function allFields(tag: CodegenSupertag, byClassName: Map<string, CodegenSupertag>): CodegenField[] {
+  const chain: CodegenSupertag[] = [];
+  const seen = new Set<string>();
+  for (let t: CodegenSupertag | undefined = tag; t && !seen.has(t.className); t = byClassName.get(t.parentClassName ?? "")) {
+    seen.add(t.className);
+    chain.unshift(t);
+  }
+  return chain.flatMap((t) => t.fields);
+}
+
+/**
+ * Client-side value type of a field (inputs and setters).
+ */
+function inputType(field: CodegenField, enumDecl?: EnumDeclaration): string {
+  if (enumDecl) return enumDecl.name;
+  switch (field.dataType) {
+    case "number":
+      return "number";
+    case "checkbox":
+      return "boolean";
+    case "date":
+      return "string | Date";
+    case "reference":
+      return referenceBrandName(field);
+    default:
+      return "string";
+  }
+}
+
+/**
+ * Query condition type of a field (references are matched by name).
+ */
+function conditionType(field: CodegenField, enumDecl?: EnumDeclaration): string {
+  if (enumDecl) return `Condition<${enumDecl.name}>`;
+  return field.dataType === "number" ? "Condition<number>" : "Condition";
+}
+
+/**
+ * Generate the SUPERTAGS table with the baked-in IDs.
+ */
+function generateSupertagTable(tags: CodegenSupertag[], byClassName: Map<string, CodegenSupertag>): string {
+  const lines = [
+    formatJsDoc(["Supertag, field attribute and option IDs (from the index at generation time)"]) +
+      "export const SUPERTAGS = {",
+  ];
+  for (const tag of tags) {
+    lines.push(`  ${tag.className}: {`);
+    lines.push(`    id: ${JSON.stringify(tag.id)},`);
+    lines.push(`    name: ${JSON.stringify(tag.name)},`);
+    lines.push("    fields: {");
+    for (const field of allFields(tag, byClassName)) {
+      const parts = [
+        `name: ${JSON.stringify(field.originalName)}`,
+        `attributeId: ${JSON.stringify(field.attributeId ?? "")}`,
+        `type: ${JSON.stringify(field.dataType ?? null)}`,
+      ];
+      if (field.optionIds && Object.keys(field.optionIds).length > 0) {
+        parts.push(`options: ${JSON.stringify(field.optionIds)}`);
+      }
+      lines.push(`      ${field.propertyName}: { ${parts.join(", ")} },`);
+    }
+    lines.push("    },");
+    lines.push("  },");
+  }
+  lines.push("} as const;");
+  return lines.join("\n");
+}
+
+/**
+ * Generate the input and where types of a supertag.
+ */
+function generateClientTypes(
+  tag: CodegenSupertag,
+  byClassName: Map<string, CodegenSupertag>,
+  enums: Map<CodegenField, EnumDeclaration>
+): string {
+  // Fields named "name" are shadowed by the node name
+  const fields = allFields(tag, byClassName).filter((f) => f.propertyName !== "name");
+  const lines = [
+    formatJsDoc([`Input for create${tag.className}`]) + `export interface ${tag.className}Input {`,
+    formatJsDoc(["Node name"], "  ") + "  name: string;",
+  ];
+  for (const field of fields) {
+    const type = inputType(field, enums.get(field));
+    const comment = field.comment ? formatJsDoc([field.comment], "  ") : "";
+    lines.push(`${comment}  ${field.propertyName}?: ${field.dataType === "reference" ? `${type} | ${type}[]` : type};`);
+  }
+  lines.push("}");
+  lines.push("");
+
+  lines.push(formatJsDoc([`Conditions for find${pluralize(tag.className)} (all must match)`]) + `export interface ${tag.className}Where {`);
+  lines.push("  name?: Condition;");
+  lines.push("  created?: Condition;");
+  lines.push("  updated?: Condition;");
+  for (const field of fields) {
+    if (field.propertyName === "created" || field.propertyName === "updated") continue;
+    lines.push(`  ${field.propertyName}?: ${conditionType(field, enums.get(field))};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Generate the helpers of a supertag inside createSupertagClient.
+ */
+function generateClientHelpers(tag: CodegenSupertag, enums: Map<CodegenField, EnumDeclaration>): string {
+  const id = toIdBrandName(tag.className);
+  const spec = `SUPERTAGS.${tag.className}`;
+  const lines = [
+    formatJsDoc([`Create a #${tag.name} node`], "    ") +
+      `    create${tag.className}: (input: ${tag.className}Input) => create(${spec}, input) as Promise<${id}>,`,
+    formatJsDoc([`Find #${tag.name} nodes`], "    ") +
+      `    find${pluralize(tag.className)}: (where: ${tag.className}Where = {}, findOptions: FindOptions = {}) =>\n` +
+      `      find(${spec}, where, findOptions) as Promise<FoundNode<${id}>[]>,`,
+  ];
+  for (const field of tag.fields) {
+    const type = inputType(field, enums.get(field));
+    lines.push(
+      formatJsDoc([`Set the ${field.originalName} field of a #${tag.name} node`], "    ") +
+        `    set${tag.className}${toClassName(field.originalName)}: (id: ${id}, value: ${type}) =>\n` +
+        `      set(id, ${spec}.fields.${field.propertyName}, value),`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Client types and runtime shared by all supertags.
+ */
+const CLIENT_RUNTIME = `/** Field condition: a value (equals) or operators, as accepted by POST /query */
+export type Condition<T extends string | number = string> =
+  | T
+  | {
+      eq?: T;
+      neq?: T;
+      contains?: string;
+      after?: string;
+      before?: string;
+      gt?: number;
+      gte?: number;
+      lt?: number;
+      lte?: number;
+      exists?: boolean;
+    };
+
+/** Paging and order of find helpers (orderBy: Tana field name, "-" prefix for descending) */
+export interface FindOptions {
+  orderBy?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/** Node returned by find helpers */
+export interface FoundNode<Id extends NodeId = NodeId> {
+  id: Id;
+  name: string | null;
+  created: number | null;
+  updated: number | null;
+}
+
+/** Field value node, as accepted by TanaBackend.createNodes */
+export type ClientValueNode = { name: string; dataType?: "date" | "url" } | { dataType: "reference"; id: string };
+
+/** Node to create, as accepted by TanaBackend.createNodes */
+export interface ClientNode {
+  name: string;
+  supertags?: { id: string }[];
+  children?: { type: "field"; attributeId: string; children: ClientValueNode[] }[];
+}
+
+/** Write operations of the client (a subset of supertag-cli's TanaBackend) */
+export interface ClientBackend {
+  createNodes(targetNodeId: string, nodes: ClientNode[]): Promise<{ success: boolean; nodeIds?: string[]; error?: string }>;
+  setFieldContent(nodeId: string, attributeId: string, content: string): Promise<unknown>;
+  setFieldOption(nodeId: string, attributeId: string, optionId: string): Promise<unknown>;
+}
+
+export interface SupertagClientOptions {
+  /** Backend for create/set helpers, e.g. resolveBackend() from supertag-cli */
+  backend?: ClientBackend;
+  /** Webhook server for find helpers (default: ${DEFAULT_CLIENT_SERVER_URL}) */
+  serverUrl?: string;
+  /** API key of the webhook server */
+  apiKey?: string;
+  /** Workspace alias (default: the server's default workspace) */
+  workspace?: string;
+  /** Node new nodes are created under (default: INBOX) */
+  target?: string;
+  fetch?: typeof fetch;
+}
+
+interface FieldSpec {
+  readonly name: string;
+  readonly attributeId: string;
+  readonly type: string | null;
+  readonly options?: Readonly<Record<string, string>>;
+}
+
+interface SupertagSpec {
+  readonly id: string;
+  readonly name: string;
+  readonly fields: Readonly<Record<string, FieldSpec>>;
+}
+
+function toText(field: FieldSpec, value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (field.type === "checkbox") return value ? "true" : "false";
+  return String(value);
+}
+
+function toValueNodes(field: FieldSpec, value: unknown): ClientValueNode[] {
+  return (Array.isArray(value) ? value : [value]).map((v): ClientValueNode => {
+    const optionId = field.options?.[String(v)];
+    if (optionId) return { dataType: "reference", id: optionId };
+    switch (field.type) {
+      case "reference":
+        return { dataType: "reference", id: String(v) };
+      case "date":
+        return { dataType: "date", name: toText(field, v) };
+      case "url":
+        return { dataType: "url", name: String(v) };
+      default:
+        return { name: toText(field, v) };
+    }
+  });
+}`;
+
+/**
+ * Generate the createSupertagClient factory.
+ */
+function generateClientFactory(tags: CodegenSupertag[], enums: Map<string, Map<CodegenField, EnumDeclaration>>): string {
+  const helpers = tags.map((t) => generateClientHelpers(t, enums.get(t.className) ?? new Map()));
+  return `/**
+ * Create a client with typed helpers per supertag
+ *
+ * @example
+ * const tana = createSupertagClient({ backend: await resolveBackend() });
+ */
+export function createSupertagClient(options: SupertagClientOptions = {}) {
+  const serverUrl = (options.serverUrl ?? "${DEFAULT_CLIENT_SERVER_URL}").replace(/\\/$/, "");
+  const request = options.fetch ?? fetch;
+
+  function backend(): ClientBackend {
+    if (!options.backend) {
+      throw new Error("No backend configured: pass { backend } to createSupertagClient");
+    }
+    return options.backend;
+  }
+
+  async function create(tag: SupertagSpec, input: { name: string }): Promise<string> {
+    const values = input as unknown as Record<string, unknown>;
+    const children: NonNullable<ClientNode["children"]> = [];
+    for (const [key, field] of Object.entries(tag.fields)) {
+      const value = values[key];
+      if (key === "name" || value === undefined || value === null || (Array.isArray(value) && value.length === 0)) continue;
+      children.push({ type: "field", attributeId: field.attributeId, children: toValueNodes(field, value) });
+    }
+    const response = await backend().createNodes(options.target ?? "INBOX", [
+      { name: input.name, supertags: [{ id: tag.id }], children },
+    ]);
+    if (!response.success || !response.nodeIds?.[0]) {
+      throw new Error(\`Creating #\${tag.name} node failed: \${response.error ?? "no node ID returned"}\`);
+    }
+    return response.nodeIds[0];
+  }
+
+  async function find(tag: SupertagSpec, where: object, findOptions: FindOptions): Promise<FoundNode[]> {
+    const conditions: Record<string, unknown> = {};
+    for (const [key, condition] of Object.entries(where)) {
+      if (condition !== undefined) conditions[tag.fields[key]?.name ?? key] = condition;
+    }
+    const response = await request(\`\${serverUrl}/query\`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey && { Authorization: \`Bearer \${options.apiKey}\` }),
+      },
+      body: JSON.stringify({
+        find: tag.name,
+        where: conditions,
+        ...findOptions,
+        ...(options.workspace && { workspace: options.workspace }),
+      }),
+    });
+    const body = (await response.json()) as { results?: FoundNode[]; error?: string };
+    if (!response.ok) {
+      throw new Error(\`Query for #\${tag.name} failed: \${body.error ?? \`HTTP \${response.status}\`}\`);
+    }
+    return (body.results ?? []).map(({ id, name, created, updated }) => ({ id, name, created, updated }));
+  }
+
+  async function set(nodeId: string, field: FieldSpec, value: unknown): Promise<void> {
+    const optionId = field.options?.[String(value)];
+    if (optionId || field.type === "reference") {
+      await backend().setFieldOption(nodeId, field.attributeId, optionId ?? String(value));
+    } else {
+      await backend().setFieldContent(nodeId, field.attributeId, toText(field, value));
+    }
+  }
+
+  return {
+${helpers.join("\n")}
+  };
+}
+
+export type SupertagClient = ReturnType<typeof createSupertagClient>;`;
+}
+
+/**
+ * Generate the complete client module.
+ *
+ * @param tags - Supertags to include, parents before children
+ * @param options - Generation options
+ * @returns Complete TypeScript file content
+ */
+export function generateClientFile(tags: CodegenSupertag[], options: CodegenOptions): string {
+  const { brands, enums } = collectDeclarations(tags);
+  const byClassName = new Map(tags.map((t) => [t.className, t]));
+
+  const lines = [...fileHeader(), generateTypeScriptBrands(brands)];
+  for (const tag of tags) {
+    lines.push("", generateTypeScriptInterface(tag, options, enums.get(tag.className)));
+  }
+  lines.push("", CLIENT_RUNTIME);
+  for (const tag of tags) {
+    lines.push("", generateClientTypes(tag, byClassName, enums.get(tag.className) ?? new Map()));
+  }
+  lines.push("", generateSupertagTable(tags, byClassName), "", generateClientFactory(tags, enums));
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Generate the output file. The client is always a single module.
+ *
+ * @throws Error in split mode
+ */
+export function generateClientFiles(tags: CodegenSupertag[], options: CodegenOptions): GeneratedFile[] {
+  if (options.split) {
+    throw new Error("--split is not supported with --client (the client is a single module)");
+  }
+  return [{ path: options.outputPath, content: generateClientFile(tags, options) }];
+}
@@ -0,0 +1,147 @@
+/**
+ * Shared Declarations for the Zod, TypeScript and JSON Schema Generators
+ *
+ * Besides one type per supertag, these formats declare:
+ * - ID brands: NodeId, and per supertag <Class>Id derived from its parent's
+ *   brand (so an EmployeeId is also a PersonId and a NodeId). Reference
+ *   fields pointing to a generated supertag use its brand, others NodeId.
+ * - Enums: one per options field with known option values, named
+ *   <Class><Field> (e.g. TaskStatus).
+ */
+
+import type { CodegenField, CodegenOptions, CodegenSupertag } from "./types";
+import { toClassName } from "./naming";
+
+/** Base brand of all node IDs */
+export const NODE_ID_BRAND = "NodeId";
+
+export interface IdBrand {
+  /** Brand name, e.g. PersonId */
+  name: string;
+  /** Brand this one derives from (NodeId or the parent tag's brand) */
+  parentName: string;
+  /** Supertag the brand identifies */
+  tagName: string;
+}
+
+export interface EnumDeclaration {
+  name: string;
+  values: string[];
+}
+
+export interface CodegenDeclarations {
+  /** Brands per supertag, parents before children */
+  brands: IdBrand[];
+  /** Enums by field, per supertag class name */
+  enums: Map<string, Map<CodegenField, EnumDeclaration>>;
+}
+
+/**
+ * Brand name for a supertag's node IDs.
+ */
+export function toIdBrandName(className: string): string {
+  return `${className}Id`;
+}
+
+/**
+ * Brand of the nodes a reference field points to.
+ */
+export function referenceBrandName(field: CodegenField): string {
+  return field.targetClassName ? toIdBrandName(field.targetClassName) : NODE_ID_BRAND;
+}
+
+/**
+ * Whether a field is generated as an enum.
+ */
+export function isEnumField(field: CodegenField): boolean {
+  return field.dataType !== "reference" && (field.optionValues?.length ?? 0) > 0;
+}
+
+/**
+ * Collect the brands and enums for a set of supertags (in generation order).
+ * Enum names colliding with a class, brand or other enum get an "Option" suffix.
+ */
+export function collectDeclarations(tags: CodegenSupertag[]): CodegenDeclarations {
+  const used = new Set<string>([NODE_ID_BRAND]);
+  const brands: IdBrand[] = [];
+  for (const tag of tags) {
+    const name = toIdBrandName(tag.className);
+    brands.push({
+      name,
+      parentName: tag.parentClassName ? toIdBrandName(tag.parentClassName) : NODE_ID_BRAND,
+      tagName: tag.name,
+    });
+    used.add(tag.className);
+    used.add(name);
+  }
+
+  const enums = new Map<string, Map<CodegenField, EnumDeclaration>>();
+  for (const tag of tags) {
+    const tagEnums = new Map<CodegenField, EnumDeclaration>();
+    for (const field of tag.fields) {
+      if (!isEnumField(field)) continue;
+      let name = `${tag.className}${toClassName(field.originalName)}`;
+      while (used.has(name)) name += "Option";
+      used.add(name);
+      tagEnums.set(field, { name, values: field.optionValues! });
+    }
+    enums.set(tag.className, tagEnums);
+  }
+
+  return { brands, enums };
+}
+
+/**
+ * Path of a file in split mode: the output path without its extension
+ * becomes the directory.
+ */
+export function splitFilePath(options: CodegenOptions, fileName: string): string {
+  return options.outputPath.replace(/\.[^./]+$/, "") + `/${fileName}`;
+}
+
+/**
+ * Brands a supertag's schema uses: its own and those of its reference fields.
+ */
+export function usedBrandNames(tag: CodegenSupertag): string[] {
+  const names = new Set([toIdBrandName(tag.className)]);
+  for (const field of tag.fields) {
+    if (field.dataType === "reference") names.add(referenceBrandName(field));
+  }
+  return [...names].sort();
+}
+
+/**
+ * Header lines of a generated TypeScript file.
+ */
+export function fileHeader(): string[] {
+  return [
+    "/**",
+    " * Generated by supertag-cli codegen",
+    " * DO NOT EDIT - This file is auto-generated",
+    ` * Generated at: ${new Date().toISOString()}`,
+    " */",
+    "",
+  ];
+}
+
+/**
+ * Generate a JSDoc comment block with the given indentation.
+ */
+export function formatJsDoc(lines: string[], indent = ""): string {
+  if (lines.length === 0) return "";
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map((l) => `${indent} * ${l}`).join("\n")}\n${indent} */\n`;
+}
+
+/**
+ * Metadata lines for a supertag's doc comment.
+ */
+export function metadataLines(tag: CodegenSupertag): string[] {
+  return [
+    `Generated from Tana supertag: ${tag.name}`,
+    `Supertag ID: ${tag.metadata.tagId}`,
+    `Last synced: ${tag.metadata.syncedAt}`,
+  ];
+}
@@ -18,6 +18,10 @@ import type {
 import { toClassName, toPropertyName } from "./naming";
 import { mapDataTypeToEffect } from "./type-mapper";
 import { generateEffectFile, type GenerateFileOptions } from "./effect-generator";
+import { generateZodFiles } from "./zod-generator";
+import { generateTypeScriptFiles } from "./typescript-generator";
+import { generateJsonSchemaFiles } from "./json-schema-generator";
+import { generateClientFiles } from "./client-generator";
 import type { DataType } from "../utils/infer-data-type";
 
 /**
@@ -25,13 +29,15 @@ import type { DataType } from "../utils/infer-data-type";
  *
  * @param supertag - Supertag from UnifiedSchemaService
  * @param options - Generation options
- * @param idToClassName - Map from tag ID to class name (for resolving parent references)
+ * @param idToClassName - Map from tag ID to class name (for resolving parent and reference targets)
+ * @param optionValues - Option values by "<tag ID>:<field attribute ID>" (see loadOptionValues)
  * @returns Transformed supertag ready for code generation
  */
 export function transformSupertag(
   supertag: UnifiedSupertag,
   options: CodegenOptions,
-  idToClassName?: Map<string, string>
+  idToClassName?: Map<string, string>,
+  optionValues?: Map<string, string[]>
 ): CodegenSupertag {
   const fields: CodegenField[] = supertag.fields.map((field) => {
     // All Tana fields are optional by nature
@@ -46,6 +52,10 @@ export function transformSupertag(
       effectSchema,
       comment: field.description || undefined,
       isOptional: true,
+      attributeId: field.attributeId,
+      dataType: field.dataType as DataType | null,
+      optionValues: optionValues?.get(`${supertag.id}:${field.attributeId}`),
+      targetClassName: field.targetSupertagId ? idToClassName?.get(field.targetSupertagId) : undefined,
     };
   });
 
@@ -70,6 +80,71 @@ export function transformSupertag(
   };
 }
 
+/**
+ * Load the option values of options fields, keyed by "<tag ID>:<field
+ * attribute ID>". Databases indexed before option values were extracted
+ * lack the column and yield an empty map.
+ */
+function loadOptionValues(db: Database): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+  const columns = db.query("PRAGMA table_info(supertag_fields)").all() as { name: string }[];
+  if (!columns.some((c) => c.name === "option_values")) {
+    return values;
+  }
+
+  const rows = db
+    .query("SELECT tag_id, field_label_id, option_values FROM supertag_fields WHERE option_values IS NOT NULL")
+    .all() as { tag_id: string; field_label_id: string; option_values: string }[];
+  for (const row of rows) {
+    const parsed = JSON.parse(row.option_values) as unknown;
+    if (Array.isArray(parsed) && parsed.length > 0) {
+      values.set(`${row.tag_id}:${row.field_label_id}`, parsed.map(String));
+    }
+  }
+  return values;
+}
+
+/**
+ * Generate Effect Schema files (one file, or one per supertag plus an index).
+ */
+function generateEffectFiles(codegenTags: CodegenSupertag[], options: CodegenOptions): GeneratedFile[] {
+  const files: GeneratedFile[] = [];
+
+  if (options.split) {
+    // Multi-file mode: one file per supertag
+    for (const tag of codegenTags) {
+      // If this tag has a parent, we need to import it
+      const fileOptions = tag.parentClassName
+        ? { parentImports: [{ className: tag.parentClassName, from: `./${tag.parentClassName}` }] }
+        : undefined;
+      const content = generateEffectFile([tag], options, fileOptions);
+      const fileName = `${tag.className}.ts`;
+      files.push({
+        path: options.outputPath.replace(/\.ts$/, `/${fileName}`),
+        content,
+      });
+    }
+
+    // Generate index file
+    const indexContent = codegenTags
+      .map((t) => `export * from "./${t.className}";`)
+      .join("\n");
+    files.push({
+      path: options.outputPath.replace(/\.ts$/, "/index.ts"),
+      content: indexContent,
+    });
+  } else {
+    // Single file mode
+    const content = generateEffectFile(codegenTags, options);
+    files.push({
+      path: options.outputPath,
+      content,
+    });
+  }
+
+  return files;
+}
+
 /**
  * Topologically sort supertags so parents come before children.
  *
@@ -135,7 +210,7 @@ function topologicalSort(supertags: UnifiedSupertag[]): UnifiedSupertag[] {
 }
 
 /**
- * Generate Effect Schema files from database.
+ * Generate schema files from database in the requested format.
  *
  * @param db - SQLite database with supertag metadata
  * @param options - Generation options
@@ -168,7 +243,21 @@ export async function generateSchemas(
   }
 
   // Transform supertags
-  const codegenTags = supertags.map((s) => transformSupertag(s, options, idToClassName));
+  const optionValues = loadOptionValues(db);
+  const codegenTags = supertags.map((s) => transformSupertag(s, options, idToClassName, optionValues));
+
+  // The client sets options by ID
+  if (options.client) {
+    for (const field of codegenTags.flatMap((t) => t.fields)) {
+      if (!field.optionValues || !field.attributeId) continue;
+      const optionIds: Record<string, string> = {};
+      for (const value of field.optionValues) {
+        const id = service.resolveFieldOption(value, field.attributeId);
+        if (id) optionIds[value] = id;
+      }
+      field.optionIds = optionIds;
+    }
+  }
 
   // Count total fields
   const totalFields = codegenTags.reduce(
@@ -177,38 +266,22 @@ export async function generateSchemas(
   );
 
   // Generate output
-  const files: GeneratedFile[] = [];
-
-  if (options.split) {
-    // Multi-file mode: one file per supertag
-    for (const tag of codegenTags) {
-      // If this tag has a parent, we need to import it
-      const fileOptions = tag.parentClassName
-        ? { parentImports: [{ className: tag.parentClassName, from: `./${tag.parentClassName}` }] }
-        : undefined;
-      const content = generateEffectFile([tag], options, fileOptions);
-      const fileName = `${tag.className}.ts`;
-      files.push({
-        path: options.outputPath.replace(/\.ts$/, `/${fileName}`),
-        content,
-      });
-    }
-
-    // Generate index file
-    const indexContent = codegenTags
-      .map((t) => `export * from "./${t.className}";`)
-      .join("\n");
-    files.push({
-      path: options.outputPath.replace(/\.ts$/, "/index.ts"),
-      content: indexContent,
-    });
-  } else {
-    // Single file mode
-    const content = generateEffectFile(codegenTags, options);
-    files.push({
-      path: options.outputPath,
-      content,
-    });
+  let files: GeneratedFile[];
+  switch (options.client ? "client" : options.format) {
+    case "client":
+      files = generateClientFiles(codegenTags, options);
+      break;
+    case "zod":
+      files = generateZodFiles(codegenTags, options);
+      break;
+    case "typescript":
+      files = generateTypeScriptFiles(codegenTags, options);
+      break;
+    case "json-schema":
+      files = generateJsonSchemaFiles(codegenTags, options);
+      break;
+    default:
+      files = generateEffectFiles(codegenTags, options);
   }
 
   return {
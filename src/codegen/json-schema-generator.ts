@@ -0,0 +1,130 @@
+/**
+ * JSON Schema Generator
+ *
+ * Generates a single JSON Schema (draft 2020-12) document with one entry
+ * in $defs per supertag. Child supertags combine their parent's definition
+ * with their own fields via allOf; IDs and options fields get their own
+ * definitions, mirroring the brands and enums of the other generators.
+ */
+
+import type { CodegenField, CodegenOptions, CodegenSupertag, GeneratedFile } from "./types";
+import {
+  collectDeclarations,
+  metadataLines,
+  referenceBrandName,
+  toIdBrandName,
+  NODE_ID_BRAND,
+  type EnumDeclaration,
+} from "./declarations";
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+export type JsonSchema = Record<string, unknown>;
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/$defs/${name}` };
+}
+
+/**
+ * Map a field to a JSON Schema (without optional handling).
+ */
+function getBaseJsonSchema(field: CodegenField, enumDecl?: EnumDeclaration): JsonSchema {
+  if (enumDecl) return ref(enumDecl.name);
+
+  switch (field.dataType) {
+    case "number":
+      return { type: "number" };
+    case "date":
+      // ISO 8601 date, optionally with time
+      return { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}" };
+    case "checkbox":
+      return { type: "boolean" };
+    case "url":
+      return { type: "string", format: "uri" };
+    case "email":
+      return { type: "string", format: "email" };
+    case "reference":
+      return ref(referenceBrandName(field));
+    default:
+      return { type: "string" };
+  }
+}
+
+/**
+ * Generate the object schema of a single supertag.
+ *
+ * Optional fields are left out of "required"; with the nullable strategy
+ * they are required but may be null (like the other generators).
+ */
+export function generateJsonSchemaDefinition(
+  tag: CodegenSupertag,
+  options: CodegenOptions,
+  enums: Map<CodegenField, EnumDeclaration> = new Map()
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {
+    id: { ...ref(toIdBrandName(tag.className)), description: "Tana node ID" },
+  };
+  const required = ["id"];
+
+  for (const field of tag.fields) {
+    let schema = getBaseJsonSchema(field, enums.get(field));
+    if (field.isOptional && options.optionalStrategy === "nullable") {
+      schema = { anyOf: [schema, { type: "null" }] };
+    }
+    if (!field.isOptional || options.optionalStrategy === "nullable") {
+      required.push(field.propertyName);
+    }
+    properties[field.propertyName] = field.comment ? { ...schema, description: field.comment } : schema;
+  }
+
+  const own: JsonSchema = { type: "object", properties, required };
+  const definition: JsonSchema = tag.parentClassName
+    ? { title: tag.name, allOf: [ref(tag.parentClassName), own] }
+    : { title: tag.name, ...own };
+  if (options.includeMetadata) {
+    definition.$comment = metadataLines(tag).join("; ");
+  }
+  return definition;
+}
+
+/**
+ * Generate the JSON Schema document for a set of supertags.
+ *
+ * @param tags - Supertags to include
+ * @param options - Generation options
+ * @returns JSON Schema with all definitions in $defs
+ */
+export function generateJsonSchema(tags: CodegenSupertag[], options: CodegenOptions): JsonSchema {
+  const { brands, enums } = collectDeclarations(tags);
+  const defs: Record<string, JsonSchema> = {
+    [NODE_ID_BRAND]: { type: "string", description: "Tana node ID" },
+  };
+  for (const brand of brands) {
+    defs[brand.name] = { ...ref(brand.parentName), description: `ID of a #${brand.tagName} node` };
+  }
+  for (const tag of tags) {
+    for (const decl of enums.get(tag.className)?.values() ?? []) {
+      defs[decl.name] = { type: "string", enum: decl.values };
+    }
+    defs[tag.className] = generateJsonSchemaDefinition(tag, options, enums.get(tag.className));
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $comment: `Generated by supertag-cli codegen - DO NOT EDIT - Generated at: ${new Date().toISOString()}`,
+    $defs: defs,
+  };
+}
+
+/**
+ * Generate the output file. JSON Schema output is always a single
+ * document, as definitions reference each other within $defs.
+ *
+ * @throws Error in split mode
+ */
+export function generateJsonSchemaFiles(tags: CodegenSupertag[], options: CodegenOptions): GeneratedFile[] {
+  if (options.split) {
+    throw new Error("--split is not supported for json-schema output (all supertags go into one document's $defs)");
+  }
+  return [{ path: options.outputPath, content: JSON.stringify(generateJsonSchema(tags, options), null, 2) + "\n" }];
+}
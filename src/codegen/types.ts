@@ -1,9 +1,19 @@
 /**
  * T-1.1: Codegen Types
  *
- * Type definitions for the Effect Schema code generator.
+ * Type definitions for the code generators (Effect Schema, Zod,
+ * TypeScript, JSON Schema).
  */
 
+import type { DataType } from "../utils/infer-data-type";
+
+/**
+ * Output formats.
+ */
+export const CODEGEN_FORMATS = ["effect", "zod", "typescript", "json-schema"] as const;
+
+export type CodegenFormat = (typeof CODEGEN_FORMATS)[number];
+
 /**
  * Options for code generation.
  */
@@ -14,8 +24,8 @@ export interface CodegenOptions {
   /** Optional filter to specific supertag names */
   tags?: string[];
 
-  /** Output format (currently only 'effect' supported) */
-  format: "effect";
+  /** Output format */
+  format: CodegenFormat;
 
   /** How to represent optional fields */
   optionalStrategy: "option" | "undefined" | "nullable";
@@ -31,6 +41,9 @@ export interface CodegenOptions {
 
   /** Include inherited fields from parent supertags */
   includeInherited: boolean;
+
+  /** Generate a typed client module (TypeScript declarations plus helpers) instead */
+  client?: boolean;
 }
 
 /**
@@ -51,6 +64,21 @@ export interface CodegenField {
 
   /** Whether this field is optional */
   isOptional: boolean;
+
+  /** Tana data type (used by the non-Effect generators) */
+  dataType?: DataType | null;
+
+  /** Allowed values of an options field (generated as an enum) */
+  optionValues?: string[];
+
+  /** Class name of the supertag a reference field points to (when generated too) */
+  targetClassName?: string;
+
+  /** Field attribute ID in Tana (used by the client generator) */
+  attributeId?: string;
+
+  /** Option node IDs by option value (client generator, resolved from the index) */
+  optionIds?: Record<string, string>;
 }
 
 /**
@@ -0,0 +1,153 @@
+/**
+ * TypeScript Interface Generator
+ *
+ * Generates plain interfaces (no runtime dependency) from CodegenSupertag.
+ * Child supertags extend their parent's interface; IDs are branded strings,
+ * options fields use string literal unions backed by a const array.
+ */
+
+import type { CodegenField, CodegenOptions, CodegenSupertag, GeneratedFile } from "./types";
+import {
+  collectDeclarations,
+  fileHeader,
+  formatJsDoc,
+  metadataLines,
+  referenceBrandName,
+  splitFilePath,
+  toIdBrandName,
+  usedBrandNames,
+  NODE_ID_BRAND,
+  type EnumDeclaration,
+  type IdBrand,
+} from "./declarations";
+
+/**
+ * Map a field to a TypeScript type.
+ */
+function getBaseTypeScriptType(field: CodegenField, enumDecl?: EnumDeclaration): string {
+  if (enumDecl) return enumDecl.name;
+
+  switch (field.dataType) {
+    case "number":
+      return "number";
+    case "checkbox":
+      return "boolean";
+    case "reference":
+      return referenceBrandName(field);
+    default:
+      // text, date (ISO string), url, email, options without known values
+      return "string";
+  }
+}
+
+/**
+ * Generate the Brand helper, the base NodeId brand and the supertag brands.
+ */
+export function generateTypeScriptBrands(brands: IdBrand[]): string {
+  const lines = [
+    "declare const brand: unique symbol;",
+    "",
+    formatJsDoc(["Nominal type: T tagged with brand B (brands accumulate)"]) +
+      "export type Brand<T, B extends string> = T & { readonly [brand]: { readonly [K in B]: true } };",
+    "",
+    formatJsDoc(["Tana node ID"]) + `export type ${NODE_ID_BRAND} = Brand<string, "${NODE_ID_BRAND}">;`,
+  ];
+  for (const brand of brands) {
+    lines.push(
+      formatJsDoc([`ID of a #${brand.tagName} node`]) +
+        `export type ${brand.name} = Brand<${brand.parentName}, "${brand.name}">;`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Generate the enums and the interface of a single supertag.
+ *
+ * @param tag - Supertag to generate the interface for
+ * @param options - Generation options
+ * @param enums - Enums of the supertag's options fields
+ * @returns TypeScript declarations
+ */
+export function generateTypeScriptInterface(
+  tag: CodegenSupertag,
+  options: CodegenOptions,
+  enums: Map<CodegenField, EnumDeclaration> = new Map()
+): string {
+  const lines: string[] = [];
+
+  for (const decl of enums.values()) {
+    lines.push(`export const ${decl.name} = ${JSON.stringify(decl.values)} as const;`);
+    lines.push(`export type ${decl.name} = (typeof ${decl.name})[number];`);
+    lines.push("");
+  }
+
+  const doc = options.includeMetadata ? formatJsDoc(metadataLines(tag)) : "";
+  const heritage = tag.parentClassName ? ` extends ${tag.parentClassName}` : "";
+  lines.push(`${doc}export interface ${tag.className}${heritage} {`);
+  lines.push(formatJsDoc(["Tana node ID"], "  ") + `  id: ${toIdBrandName(tag.className)};`);
+  for (const field of tag.fields) {
+    const type = getBaseTypeScriptType(field, enums.get(field));
+    const comment = field.comment ? formatJsDoc([field.comment], "  ") : "";
+    const declaration = !field.isOptional
+      ? `${field.propertyName}: ${type}`
+      : options.optionalStrategy === "nullable"
+        ? `${field.propertyName}: ${type} | null`
+        : `${field.propertyName}?: ${type}`;
+    lines.push(`${comment}  ${declaration};`);
+  }
+  lines.push("}");
+
+  return lines.join("\n");
+}
+
+/**
+ * Generate a complete TypeScript file with all brands, enums and interfaces.
+ *
+ * @param tags - Supertags to include, parents before children
+ * @param options - Generation options
+ * @returns Complete TypeScript file content
+ */
+export function generateTypeScriptFile(tags: CodegenSupertag[], options: CodegenOptions): string {
+  const { brands, enums } = collectDeclarations(tags);
+  const lines = [...fileHeader(), generateTypeScriptBrands(brands)];
+  for (const tag of tags) {
+    lines.push("");
+    lines.push(generateTypeScriptInterface(tag, options, enums.get(tag.className)));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Generate the output files: a single file, or in split mode ids.ts (all
+ * brands), one file per supertag and an index.
+ */
+export function generateTypeScriptFiles(tags: CodegenSupertag[], options: CodegenOptions): GeneratedFile[] {
+  if (!options.split) {
+    return [{ path: options.outputPath, content: generateTypeScriptFile(tags, options) }];
+  }
+
+  const { brands, enums } = collectDeclarations(tags);
+  const files: GeneratedFile[] = [
+    {
+      path: splitFilePath(options, "ids.ts"),
+      content: [...fileHeader(), generateTypeScriptBrands(brands)].join("\n"),
+    },
+  ];
+
+  for (const tag of tags) {
+    const lines = fileHeader();
+    lines.push(`import type { ${usedBrandNames(tag).join(", ")} } from "./ids";`);
+    if (tag.parentClassName) {
+      lines.push(`import type { ${tag.parentClassName} } from "./${tag.parentClassName}";`);
+    }
+    lines.push("", generateTypeScriptInterface(tag, options, enums.get(tag.className)));
+    files.push({ path: splitFilePath(options, `${tag.className}.ts`), content: lines.join("\n") });
+  }
+
+  files.push({
+    path: splitFilePath(options, "index.ts"),
+    content: ['export * from "./ids";', ...tags.map((t) => `export * from "./${t.className}";`)].join("\n"),
+  });
+  return files;
+}
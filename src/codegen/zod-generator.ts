@@ -0,0 +1,163 @@
+/**
+ * Zod Schema Generator
+ *
+ * Generates Zod object schemas (and inferred types) from CodegenSupertag.
+ * Child supertags extend their parent's schema; IDs are branded strings.
+ */
+
+import type { CodegenField, CodegenOptions, CodegenSupertag, GeneratedFile } from "./types";
+import {
+  collectDeclarations,
+  fileHeader,
+  formatJsDoc,
+  metadataLines,
+  referenceBrandName,
+  splitFilePath,
+  toIdBrandName,
+  usedBrandNames,
+  NODE_ID_BRAND,
+  type EnumDeclaration,
+  type IdBrand,
+} from "./declarations";
+
+/**
+ * Map a field to a Zod schema expression (without optional handling).
+ */
+function getBaseZodType(field: CodegenField, enumDecl?: EnumDeclaration): string {
+  if (enumDecl) return `${enumDecl.name}Schema`;
+
+  switch (field.dataType) {
+    case "number":
+      return "z.number()";
+    case "date":
+      return "z.coerce.date()";
+    case "checkbox":
+      return "z.boolean()";
+    case "url":
+      return "z.string().url()";
+    case "email":
+      return "z.string().email()";
+    case "reference":
+      return `${referenceBrandName(field)}Schema`;
+    default:
+      return "z.string()";
+  }
+}
+
+/**
+ * Wrap a Zod expression with optional handling ("option" has no Zod
+ * equivalent and behaves like "undefined").
+ */
+function wrapZodOptional(expr: string, options: CodegenOptions): string {
+  return options.optionalStrategy === "nullable" ? `${expr}.nullable()` : `${expr}.optional()`;
+}
+
+/**
+ * Generate the schemas of the base NodeId brand and the supertag brands.
+ */
+export function generateZodBrands(brands: IdBrand[]): string {
+  const lines = [
+    formatJsDoc(["Tana node ID"]) + `export const ${NODE_ID_BRAND}Schema = z.string().brand<"${NODE_ID_BRAND}">();`,
+    `export type ${NODE_ID_BRAND} = z.infer<typeof ${NODE_ID_BRAND}Schema>;`,
+  ];
+  for (const brand of brands) {
+    lines.push("");
+    lines.push(
+      formatJsDoc([`ID of a #${brand.tagName} node`]) +
+        `export const ${brand.name}Schema = ${brand.parentName}Schema.brand<"${brand.name}">();`
+    );
+    lines.push(`export type ${brand.name} = z.infer<typeof ${brand.name}Schema>;`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Generate the enums and the object schema of a single supertag.
+ *
+ * @param tag - Supertag to generate the schema for
+ * @param options - Generation options
+ * @param enums - Enums of the supertag's options fields
+ * @returns TypeScript declarations
+ */
+export function generateZodSchema(
+  tag: CodegenSupertag,
+  options: CodegenOptions,
+  enums: Map<CodegenField, EnumDeclaration> = new Map()
+): string {
+  const lines: string[] = [];
+
+  for (const decl of enums.values()) {
+    lines.push(`export const ${decl.name}Schema = z.enum(${JSON.stringify(decl.values)});`);
+    lines.push(`export type ${decl.name} = z.infer<typeof ${decl.name}Schema>;`);
+    lines.push("");
+  }
+
+  const doc = options.includeMetadata ? formatJsDoc(metadataLines(tag)) : "";
+  // Children extend their parent's schema and narrow the ID brand
+  const base = tag.parentClassName ? `${tag.parentClassName}Schema.extend` : "z.object";
+  lines.push(`${doc}export const ${tag.className}Schema = ${base}({`);
+  lines.push(formatJsDoc(["Tana node ID"], "  ") + `  id: ${toIdBrandName(tag.className)}Schema,`);
+  for (const field of tag.fields) {
+    const expr = getBaseZodType(field, enums.get(field));
+    const comment = field.comment ? formatJsDoc([field.comment], "  ") : "";
+    lines.push(`${comment}  ${field.propertyName}: ${field.isOptional ? wrapZodOptional(expr, options) : expr},`);
+  }
+  lines.push("});");
+  lines.push(`export type ${tag.className} = z.infer<typeof ${tag.className}Schema>;`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Generate a complete Zod file with all brands, enums and schemas.
+ *
+ * @param tags - Supertags to include, parents before children
+ * @param options - Generation options
+ * @returns Complete TypeScript file content
+ */
+export function generateZodFile(tags: CodegenSupertag[], options: CodegenOptions): string {
+  const { brands, enums } = collectDeclarations(tags);
+  const lines = [...fileHeader(), 'import { z } from "zod";', "", generateZodBrands(brands)];
+  for (const tag of tags) {
+    lines.push("");
+    lines.push(generateZodSchema(tag, options, enums.get(tag.className)));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Generate the output files: a single file, or in split mode ids.ts (all
+ * brands, so schemas referencing each other need no circular imports), one
+ * file per supertag and an index.
+ */
+export function generateZodFiles(tags: CodegenSupertag[], options: CodegenOptions): GeneratedFile[] {
+  if (!options.split) {
+    return [{ path: options.outputPath, content: generateZodFile(tags, options) }];
+  }
+
+  const { brands, enums } = collectDeclarations(tags);
+  const files: GeneratedFile[] = [
+    {
+      path: splitFilePath(options, "ids.ts"),
+      content: [...fileHeader(), 'import { z } from "zod";', "", generateZodBrands(brands)].join("\n"),
+    },
+  ];
+
+  for (const tag of tags) {
+    const body = generateZodSchema(tag, options, enums.get(tag.className));
+    const lines = fileHeader();
+    if (body.includes("z.")) lines.push('import { z } from "zod";');
+    lines.push(`import { ${usedBrandNames(tag).map((b) => `${b}Schema`).join(", ")} } from "./ids";`);
+    if (tag.parentClassName) {
+      lines.push(`import { ${tag.parentClassName}Schema } from "./${tag.parentClassName}";`);
+    }
+    lines.push("", body);
+    files.push({ path: splitFilePath(options, `${tag.className}.ts`), content: lines.join("\n") });
+  }
+
+  files.push({
+    path: splitFilePath(options, "index.ts"),
+    content: ['export * from "./ids";', ...tags.map((t) => `export * from "./${t.className}";`)].join("\n"),
+  });
+  return files;
+}
@@ -4,12 +4,16 @@
  * Provides batch operations for efficient multi-node access:
  * - batch get <ids...>   - Fetch multiple nodes by ID
  * - batch create         - Create multiple nodes (T-3.6)
+ * - batch plan <file>    - Validate mixed mutations and show a diff
+ * - batch apply <plan>   - Execute a plan (resumable)
  *
  * Usage:
  *   supertag batch get id1 id2 id3           # Fetch nodes by ID
  *   supertag batch get id1 id2 --depth 2     # Include children
  *   supertag batch get --stdin < ids.txt     # Read IDs from stdin
  *   echo "id1\nid2" | supertag batch get --stdin
+ *   supertag batch plan ops.json --out plan.json
+ *   supertag batch apply plan.json           # Re-run to resume after failures
  *
  * Spec: 062-batch-operations
  */
@@ -27,6 +31,20 @@ import {
   applyProjection,
 } from '../utils/select-projection';
 import { batchGetNodes, batchCreateNodes, type BatchCreateResult, type BatchError } from '../services/batch-operations';
+import {
+  parseBatchOps,
+  parseBatchPlan,
+  planBatch,
+  applyBatchPlan,
+  summarizeBatchPlan,
+  type BatchPlan,
+  type BatchPlanSummary,
+  type PlannedBatchOp,
+} from '../services/batch-mutations';
+import { resolveBackend } from '../api/backend-resolver';
+import { withDatabase } from '../db/with-database';
+import { exitWithError } from '../utils/errors';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { resolveOutputFormat } from '../utils/output-options';
 import { createFormatter, type OutputFormat } from '../utils/output-formatter';
 import { formatDateISO } from '../utils/format';
@@ -83,6 +101,20 @@ export interface BatchCreateNodeInput {
   children?: ChildNodeInput[];
 }
 
+export interface BatchPlanOptions {
+  workspace?: string;
+  dbPath?: string;
+  out?: string;
+  json?: boolean;
+}
+
+export interface BatchApplyOptions {
+  retries?: string;
+  continueOnError?: boolean;
+  skipInvalid?: boolean;
+  json?: boolean;
+}
+
 /**
  * Read stdin content (for testing, can be mocked via _stdinContent)
  */
@@ -446,5 +478,130 @@ export function createBatchCommand(): Command {
     }
   });
 
+  // batch plan <file>
+  batch
+    .command('plan <file>')
+    .description('Validate a batch of update/tag/untag/set-field/check/uncheck/trash operations and show the diff')
+    .option('-w, --workspace <alias>', 'Workspace alias or nodeid')
+    .option('--db-path <path>', 'Database path (overrides workspace)')
+    .option('-o, --out <path>', 'Write the plan to a file for batch apply')
+    .option('--json', 'Output the plan as JSON')
+    .action(async (file: string, options: BatchPlanOptions) => {
+      try {
+        const dbPath = resolveDbPath(options);
+        if (!checkDb(dbPath, options.workspace)) {
+          process.exit(1);
+        }
+        if (!existsSync(file)) {
+          console.error(`❌ File not found: ${file}`);
+          process.exit(1);
+        }
+
+        const inputs = parseBatchOps(readFileSync(file, 'utf-8'));
+        const plan = await withDatabase({ dbPath, readonly: true }, (ctx) => planBatch(ctx.db, inputs));
+
+        if (options.out) {
+          writeFileSync(options.out, formatJsonOutput(plan), 'utf-8');
+        }
+
+        if (options.json) {
+          console.log(formatJsonOutput(plan));
+          return;
+        }
+
+        console.log(`\n📋 Batch Plan: ${plan.ops.length} operation(s)\n`);
+        for (const op of plan.ops) {
+          printPlannedOp(op);
+        }
+        printSummary(summarizeBatchPlan(plan));
+        if (options.out) {
+          console.log(`\nPlan written to ${options.out}. Apply with: supertag batch apply ${options.out}`);
+        }
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  // batch apply <plan>
+  batch
+    .command('apply <plan>')
+    .description('Execute a batch plan; re-run to resume after a partial failure (requires local API)')
+    .option('--retries <n>', 'Retries per operation for transient errors', '2')
+    .option('--continue-on-error', 'Keep going after an operation fails')
+    .option('--skip-invalid', 'Apply the valid operations of a plan with invalid ones')
+    .option('--json', 'Output as JSON')
+    .action(async (planFile: string, options: BatchApplyOptions) => {
+      try {
+        if (!existsSync(planFile)) {
+          console.error(`❌ File not found: ${planFile}`);
+          process.exit(1);
+        }
+
+        const retries = parseInt(options.retries ?? '2', 10);
+        if (isNaN(retries) || retries < 0) {
+          console.error(`❌ Invalid --retries: ${options.retries}`);
+          process.exit(1);
+        }
+
+        const plan: BatchPlan = parseBatchPlan(readFileSync(planFile, 'utf-8'));
+        const backend = await resolveBackend();
+        const summary = await applyBatchPlan(plan, backend, {
+          retries,
+          continueOnError: options.continueOnError,
+          skipInvalid: options.skipInvalid,
+          onProgress: (op) => {
+            // Persist after every operation so a crash or failure can resume
+            writeFileSync(planFile, formatJsonOutput(plan), 'utf-8');
+            if (!options.json) printPlannedOp(op);
+          },
+        });
+
+        if (options.json) {
+          console.log(formatJsonOutput({ summary, ops: plan.ops }));
+        } else {
+          printSummary(summary);
+          if (summary.failed > 0 || summary.pending > 0) {
+            console.log(`\nResume with: supertag batch apply ${planFile}`);
+          }
+        }
+
+        if (summary.failed > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
   return batch;
 }
+
+const STATUS_SYMBOLS: Record<PlannedBatchOp['status'], string> = {
+  pending: '~',
+  noop: '=',
+  invalid: '✗',
+  applied: '✓',
+  failed: '✗',
+};
+
+/**
+ * Print one planned operation with its diff or error
+ */
+function printPlannedOp(op: PlannedBatchOp): void {
+  const name = op.nodeName ? ` "${op.nodeName}"` : '';
+  const attempts = op.attempts && op.attempts > 1 ? ` (${op.attempts} attempts)` : '';
+  console.log(`${STATUS_SYMBOLS[op.status]} [${op.index}] ${op.input?.op} ${op.input?.nodeId}${name} ${op.status}${attempts}`);
+  for (const line of op.diff) {
+    console.log(`    ${line}`);
+  }
+  if (op.error) {
+    console.log(`    Error: ${op.error}`);
+  }
+}
+
+function printSummary(summary: BatchPlanSummary): void {
+  const parts = (['pending', 'applied', 'noop', 'invalid', 'failed'] as const)
+    .filter((status) => summary[status] > 0)
+    .map((status) => `${summary[status]} ${status}`);
+  console.log(`\n${summary.total} operation(s): ${parts.join(', ') || 'none'}`);
+}
@@ -1,7 +1,9 @@
 /**
  * T-3.1: Codegen CLI Command
  *
- * Generate Effect Schema classes from supertag definitions.
+ * Generate Effect Schema classes, Zod schemas, TypeScript interfaces or a
+ * JSON Schema from supertag definitions, or a typed client module (--client).
+ * --at generates from the schema as of an earlier sync (schema history).
  */
 
 import { Command } from "commander";
@@ -11,8 +13,9 @@ import { getDatabasePath, createSimpleLogger } from "../config/paths";
 import { resolveWorkspaceContext } from "../config/workspace-resolver";
 import { withDatabase } from "../db/with-database";
 import { generateSchemas } from "../codegen/index";
+import { openSchemaAt } from "../services/schema-history";
 import { UnifiedSchemaService } from "../services/unified-schema-service";
-import type { CodegenOptions, GenerationResult } from "../codegen/types";
+import { CODEGEN_FORMATS, type CodegenFormat, type CodegenOptions, type GenerationResult } from "../codegen/types";
 
 const logger = createSimpleLogger("codegen");
 
@@ -21,7 +24,7 @@ const logger = createSimpleLogger("codegen");
  */
 export interface CodegenCommandOptions {
   output: string;
-  format: "effect";
+  format: CodegenFormat;
   workspace?: string;
   tags?: string[];
   optional: "option" | "undefined" | "nullable";
@@ -29,6 +32,9 @@ export interface CodegenCommandOptions {
   split: boolean;
   dryRun: boolean;
   noMetadata: boolean;
+  client?: boolean;
+  /** Use the schema as of this date (stored schema versions) */
+  at?: string;
 }
 
 /**
@@ -42,6 +48,13 @@ export async function codegenCommand(
   options: CodegenCommandOptions,
   dbPathOverride?: string
 ): Promise<GenerationResult> {
+  if (!CODEGEN_FORMATS.includes(options.format)) {
+    throw new Error(`Unknown format: ${options.format} (use ${CODEGEN_FORMATS.join(", ")})`);
+  }
+  if (options.at && options.client) {
+    throw new Error("--at is not supported with --client (option IDs are not part of the schema history)");
+  }
+
   // Resolve database path
   let dbPath: string;
   if (dbPathOverride) {
@@ -68,11 +81,21 @@ export async function codegenCommand(
     includeMetadata: !options.noMetadata,
     split: options.split,
     includeInherited: true,
+    client: options.client,
   };
 
   // Generate schemas within database context
   const result = await withDatabase({ dbPath, readonly: true }, async (ctx) => {
-    return generateSchemas(ctx.db, codegenOptions);
+    if (!options.at) {
+      return generateSchemas(ctx.db, codegenOptions);
+    }
+    const historic = await openSchemaAt(ctx.db, options.at);
+    try {
+      logger.info(`Using schema v${historic.version.version} (${new Date(historic.version.createdAt).toISOString()})`);
+      return await generateSchemas(historic.db, codegenOptions);
+    } finally {
+      historic.db.close();
+    }
   });
 
   // Write files outside database context (doesn't need db)
@@ -109,25 +132,27 @@ export async function codegenCommand(
  */
 export function createCodegenCommand(): Command {
   const codegen = new Command("codegen")
-    .description("Generate Effect Schema classes from supertags");
+    .description("Generate Effect, Zod, TypeScript or JSON Schema definitions from supertags");
 
   codegen
     .command("generate")
-    .description("Generate Effect Schema classes from supertag definitions")
-    .requiredOption("-o, --output <path>", "Output file path (e.g., ./generated/schemas.ts)")
+    .description("Generate schema definitions from supertag definitions")
+    .requiredOption("-o, --output <path>", "Output file path (e.g., ./generated/schemas.ts, ./schema.json)")
     .option("-w, --workspace <alias>", "Workspace alias or nodeid")
     .option("-t, --tags <tags...>", "Filter to specific supertags")
-    .option("-f, --format <format>", "Output format (effect)", "effect")
+    .option("-f, --format <format>", `Output format: ${CODEGEN_FORMATS.join(", ")}`, "effect")
     .option("--optional <strategy>", "Optional field strategy: option, undefined, nullable", "option")
     .option("--naming <convention>", "Naming convention: camelCase, PascalCase, snake_case", "camelCase")
     .option("--split", "Generate separate file per supertag", false)
+    .option("--client", "Generate a typed client module (create/find/set helpers per supertag)", false)
+    .option("--at <date>", "Use the schema as of a date (stored schema versions, e.g. 2026-01-15 or 30d)")
     .option("--no-metadata", "Exclude metadata comments")
     .option("-d, --dry-run", "Preview without writing files", false)
     .action(async (options) => {
       try {
         await codegenCommand({
           output: options.output,
-          format: options.format as "effect",
+          format: options.format as CodegenFormat,
           workspace: options.workspace,
           tags: options.tags,
           optional: options.optional as "option" | "undefined" | "nullable",
@@ -135,6 +160,8 @@ export function createCodegenCommand(): Command {
           split: options.split,
           dryRun: options.dryRun,
           noMetadata: !options.metadata, // Commander converts --no-metadata to metadata=false
+          client: options.client,
+          at: options.at,
         });
       } catch (error) {
         logger.error((error as Error).message);
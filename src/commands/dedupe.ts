@@ -0,0 +1,214 @@
+/**
+ * Dedupe Command
+ *
+ * Find near-duplicate nodes of a supertag and merge them.
+ *
+ * Usage:
+ *   supertag dedupe --tag person                  # List duplicate clusters
+ *   supertag dedupe --tag company --threshold 0.9 # Stricter name matching
+ *   supertag dedupe --tag person --no-semantic    # Names only, skip embeddings
+ *   supertag dedupe --tag person --merge          # Offer to merge each cluster (requires local API)
+ */
+
+import { Command } from 'commander';
+import { existsSync } from 'fs';
+import { resolveBackend } from '../api/backend-resolver';
+import { ConfigManager } from '../config/manager';
+import { resolveWorkspaceContext } from '../config/workspace-resolver';
+import { withDatabase } from '../db/with-database';
+import {
+  findDuplicates,
+  planMerge,
+  applyMerge,
+  DEFAULT_NAME_THRESHOLD,
+  DEFAULT_SEMANTIC_THRESHOLD,
+  type DuplicateCluster,
+  type MergePlan,
+  type MergeResult,
+} from '../services/dedupe';
+import type { TanaEmbeddingService } from '../embeddings/tana-embedding-service';
+import { exitWithError } from '../utils/errors';
+import { StructuredError } from '../utils/structured-errors';
+import { resolveDbPath, checkDb, formatJsonOutput } from './helpers';
+
+interface DedupeCommandOptions {
+  tag: string;
+  threshold?: string;
+  semanticThreshold?: string;
+  semantic?: boolean;
+  merge?: boolean;
+  confirm?: boolean;
+  limit?: string;
+  workspace?: string;
+  dbPath?: string;
+  json?: boolean;
+}
+
+export function createDedupeCommand(): Command {
+  const dedupe = new Command('dedupe');
+  dedupe
+    .description('Find near-duplicate nodes of a supertag and merge them')
+    .requiredOption('-t, --tag <tagname>', 'Supertag to check (e.g. person, company)')
+    .option('--threshold <ratio>', `Minimum name similarity (0-1, default: ${DEFAULT_NAME_THRESHOLD})`)
+    .option('--semantic-threshold <ratio>', `Minimum embedding similarity (0-1, default: ${DEFAULT_SEMANTIC_THRESHOLD})`)
+    .option('--no-semantic', 'Match on names only, without embeddings')
+    .option('--merge', 'Offer to merge each cluster into its suggested winner (requires local API)')
+    .option('--confirm', 'With --merge: skip confirmation prompts')
+    .option('-l, --limit <n>', 'Maximum clusters to show', '20')
+    .option('-w, --workspace <alias>', 'Workspace alias or nodeid')
+    .option('--db-path <path>', 'Database path (overrides workspace)')
+    .option('--json', 'Output as JSON')
+    .action(async (options: DedupeCommandOptions) => {
+      let embeddingService: TanaEmbeddingService | undefined;
+      try {
+        const dbPath = resolveDbPath(options);
+        if (!checkDb(dbPath, options.workspace)) {
+          process.exit(1);
+        }
+
+        const threshold = parseRatio(options.threshold, '--threshold');
+        const semanticThreshold = parseRatio(options.semanticThreshold, '--semantic-threshold');
+        const limit = parseInt(options.limit ?? '20', 10);
+
+        // Embeddings are optional: fall back to names when there are none
+        if (options.semantic !== false) {
+          const workspace = resolveWorkspaceContext({ workspace: options.workspace, requireDatabase: false });
+          const lanceDbPath = workspace.dbPath.replace(/\.db$/, '.lance');
+          if (existsSync(lanceDbPath)) {
+            const { TanaEmbeddingService } = await import('../embeddings/tana-embedding-service');
+            embeddingService = new TanaEmbeddingService(lanceDbPath, ConfigManager.getInstance().getEmbeddingConfig(workspace.alias));
+          } else if (!options.json) {
+            console.log('ℹ️  No embeddings for this workspace, matching on names only');
+          }
+        }
+
+        const result = await withDatabase({ dbPath, readonly: true }, (ctx) =>
+          findDuplicates(ctx.db, { tag: options.tag, threshold, semanticThreshold, index: embeddingService })
+        );
+        const clusters = result.clusters.slice(0, limit);
+
+        if (!options.merge) {
+          if (options.json) {
+            console.log(formatJsonOutput({ ...result, clusters }));
+            return;
+          }
+          console.log(`\n🔁 Duplicate #${result.tag} nodes: ${result.clusters.length} cluster(s) among ${result.candidates} node(s)\n`);
+          clusters.forEach((cluster, i) => printCluster(cluster, i + 1));
+          if (clusters.length > 0) {
+            console.log(`Merge with: supertag dedupe --tag ${result.tag} --merge`);
+          }
+          return;
+        }
+
+        const backend = await resolveBackend();
+        if (!backend.supportsMutations()) {
+          console.error('Error: Merging nodes requires the local API backend.');
+          console.error('Configure with: supertag config --bearer-token <token>');
+          process.exit(1);
+        }
+
+        const merges: Array<MergePlan & Partial<MergeResult>> = [];
+        for (const [i, cluster] of clusters.entries()) {
+          const loserIds = cluster.members.filter((m) => m.id !== cluster.winnerId).map((m) => m.id);
+          const merge = await withDatabase({ dbPath, readonly: true }, (ctx) => planMerge(ctx.db, cluster.winnerId, loserIds));
+
+          if (!options.json) {
+            printCluster(cluster, i + 1);
+            printMergePlan(merge);
+          }
+
+          if (!options.confirm) {
+            const readline = await import('readline');
+            const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+            const winner = cluster.members[0].name;
+            const answer = await new Promise<string>((resolve) => {
+              rl.question(`Merge ${loserIds.length} node(s) into "${winner}"? [y/N] `, resolve);
+            });
+            rl.close();
+            if (answer.toLowerCase() !== 'y') {
+              console.log('Skipped.\n');
+              merges.push(merge);
+              continue;
+            }
+          }
+
+          const { summary, kept } = await applyMerge(merge, backend);
+          merges.push({ ...merge, summary, kept });
+          if (!options.json) {
+            console.log(`Applied: ${summary.applied}, unchanged: ${summary.noop}, invalid: ${summary.invalid}, failed: ${summary.failed}`);
+            if (kept.length > 0) {
+              console.log(`Kept (references not re-pointed, not trashed): ${kept.join(', ')}`);
+            }
+            console.log('');
+          }
+        }
+
+        if (options.json) {
+          console.log(formatJsonOutput({ tag: result.tag, merges }));
+        }
+        if (merges.some((m) => (m.summary?.failed ?? 0) > 0 || (m.kept?.length ?? 0) > 0)) {
+          process.exit(1);
+        }
+      } catch (error) {
+        exitWithError(error);
+      } finally {
+        embeddingService?.close();
+      }
+    });
+
+  return dedupe;
+}
+
+/**
+ * Parse an optional 0-1 ratio option
+ */
+function parseRatio(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const ratio = parseFloat(value);
+  if (isNaN(ratio) || ratio < 0 || ratio > 1) {
+    throw new StructuredError('INVALID_PARAMETER', `${flag} must be between 0 and 1, got: ${value}`);
+  }
+  return ratio;
+}
+
+/**
+ * Print a cluster with its field values side by side
+ */
+function printCluster(cluster: DuplicateCluster, position: number): void {
+  console.log(`[${position}] ${cluster.members.length} nodes`);
+  for (const member of cluster.members) {
+    const marker = member.id === cluster.winnerId ? '★' : ' ';
+    const created = member.created ? new Date(member.created).toISOString().slice(0, 10) : '-';
+    console.log(`  ${marker} ${member.name} (${member.id})  refs: ${member.references}  created: ${created}`);
+  }
+  const reasons = [...new Set(cluster.matches.map((m) => `${m.reason} ${m.score.toFixed(2)}`))];
+  console.log(`    matched: ${reasons.join(', ')}`);
+
+  if (cluster.fields.length > 0) {
+    const width = Math.max(...cluster.fields.map((f) => f.field.length));
+    for (const field of cluster.fields) {
+      const values = cluster.members.map((m) => field.values[m.id] ?? '—').join(' | ');
+      console.log(`    ${field.conflict ? '≠' : ' '} ${field.field.padEnd(width)}  ${values}`);
+    }
+  }
+  console.log('');
+}
+
+/**
+ * Print the operations and unresolved references of a merge
+ */
+function printMergePlan(merge: MergePlan): void {
+  for (const op of merge.plan.ops) {
+    const name = op.nodeName ? ` "${op.nodeName}"` : '';
+    console.log(`    ${op.status === 'invalid' ? '✗' : '~'} ${op.input.op} ${op.input.nodeId}${name}`);
+    for (const line of op.diff) {
+      console.log(`        ${line}`);
+    }
+    if (op.error) {
+      console.log(`        Error: ${op.error}`);
+    }
+  }
+  for (const ref of merge.unresolved) {
+    console.log(`    ⚠️  ${ref.fromNodeId} keeps a ${ref.type} reference to ${ref.loserId} (re-point it in Tana)`);
+  }
+}
@@ -46,8 +46,86 @@ import {
 } from "./show";
 import { findMeaningfulAncestor } from "../embeddings/ancestor-resolution";
 import { batchContextualizeNodes, contextualizeNodesWithFields } from "../embeddings/contextualize";
+import {
+  expandChunks,
+  findStaleVectorIds,
+  getTranscriptNodes,
+  parseChunkId,
+  resolveChunking,
+  saveChunks,
+  type EmbeddingChunk,
+} from "../embeddings/chunking";
+import { hasEmbeddingChunks } from "../db/migrate";
+import {
+  checkFreshness,
+  findOrphanedVectorIds,
+  getEmbedModeKey,
+  getEmbeddingState,
+  hashEmbeddingItems,
+  recordEmbeddingState,
+  removeEmbeddingState,
+  selectChangedNodes,
+} from "../embeddings/freshness";
 import { filterAndDeduplicateResults, getOverfetchLimit } from "../embeddings/search-filter";
 import { existsSync } from "node:fs";
+import { DEFAULT_RERANK, parseRerankStrategy, parseTagPriority } from "../embeddings/rerank";
+import type { ChunkingConfig, EmbeddingConfig, RerankConfig } from "../types";
+import { exitWithError } from "../utils/errors";
+import { StructuredError } from "../utils/structured-errors";
+
+interface EmbedConfigOptions {
+  show?: boolean;
+  chunking?: string;
+  chunkSize?: string;
+  chunkOverlap?: string;
+  transcriptWindow?: string;
+  rerank?: string;
+  rerankCandidates?: string;
+  rerankModel?: string;
+  tagPriority?: string;
+  provider?: string;
+  model?: string;
+  endpoint?: string;
+  apiKey?: string;
+  dimensions?: string;
+  batchSize?: string;
+  workspace?: string;
+  pretty?: boolean;
+  json?: boolean;
+}
+
+/**
+ * One-line summary of chunking settings
+ */
+function formatChunking(chunking: ChunkingConfig | undefined): string {
+  if (!chunking?.enabled) return "off";
+  const { maxChars, overlap, transcriptLines } = resolveChunking(chunking);
+  return `on (${maxChars} chars, ${overlap} overlap, ${transcriptLines} transcript lines)`;
+}
+
+/**
+ * One-line summary of re-ranking settings
+ */
+function formatRerank(rerank: RerankConfig | undefined): string {
+  const strategy = rerank?.strategy ?? "none";
+  if (strategy === "none") return "none";
+  const details = [`top ${rerank?.candidates ?? DEFAULT_RERANK.candidates}`];
+  if (strategy === "cross-encoder") details.push(rerank?.model ?? DEFAULT_RERANK.model);
+  const priorities = Object.entries(rerank?.tagPriority ?? {});
+  if (priorities.length > 0) details.push(priorities.map(([tag, w]) => `#${tag}=${w}`).join(" "));
+  return `${strategy} (${details.join(", ")})`;
+}
+
+/**
+ * Parse a positive integer CLI option
+ */
+function parsePositiveInt(value: string, flag: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new StructuredError("INVALID_PARAMETER", `${flag} must be a positive integer, got: ${value}`);
+  }
+  return parsed;
+}
 
 /**
  * Get workspace context for display
@@ -67,25 +145,56 @@ export function createEmbedCommand(): Command {
   embed.description("Manage vector embeddings for semantic search");
 
   /**
-   * embed config - Configure embedding model (uses ConfigManager, not database)
+   * embed config - Configure embedding provider and model (uses ConfigManager, not database)
    */
   const configCmd = embed
     .command("config")
-    .description("Configure embedding model for semantic search")
+    .description("Configure embedding provider and model for semantic search")
     .option("-s, --show", "Show current configuration")
+    .option("-p, --provider <provider>", "Provider: ollama, openai (any /v1/embeddings server), transformers (in-process)")
     .option("-m, --model <model>", "Model name (e.g., mxbai-embed-large)")
-    .option("-e, --endpoint <url>", "Custom Ollama endpoint URL");
-
+    .option("-e, --endpoint <url>", "Provider endpoint URL")
+    .option("--api-key <key>", "API key for OpenAI-compatible servers")
+    .option("--dimensions <n>", "Vector dimensions (required for models unknown to supertag)")
+    .option("--batch-size <n>", "Texts per embedding request")
+    .option("--chunking <on|off>", "Split long nodes and transcripts into multiple vectors")
+    .option("--chunk-size <chars>", "Maximum characters per subtree chunk (default: 1500)")
+    .option("--chunk-overlap <chars>", "Characters shared by consecutive chunks (default: 200)")
+    .option("--transcript-window <lines>", "Transcript lines per chunk (default: 12)")
+    .option("--rerank <strategy>", "Default re-ranking for semantic search: none, heuristic, cross-encoder")
+    .option("--rerank-candidates <n>", "Top semantic hits to re-rank (default: 50)")
+    .option("--rerank-model <model>", `Cross-encoder model (default: ${DEFAULT_RERANK.model})`)
+    .option("--tag-priority <tag=weight,...>", "Re-ranking boost per supertag, -1 to 1 (e.g. project=1,day=-0.5)");
+
+  // -w/--workspace (from standard options) reads and stores workspace-specific overrides
   addStandardOptions(configCmd, { defaultLimit: "1" });
 
-  configCmd.action(async (options: { show?: boolean; model?: string; endpoint?: string; pretty?: boolean; json?: boolean }) => {
+  configCmd.action(async (options: EmbedConfigOptions) => {
       const configManager = ConfigManager.getInstance();
       const outputOpts = resolveOutputOptions(options);
+      const {
+        getEmbeddingDimensions,
+        validateEmbeddingModel,
+        formatEmbeddingConfigDisplay,
+      } = await import("../embeddings/embed-config-new");
+      const {
+        DEFAULT_PROVIDER_ENDPOINTS,
+        DEFAULT_TRANSFORMERS_MODEL,
+        KNOWN_MODEL_DIMENSIONS,
+        OpenAICompatibleProvider,
+        getProviderType,
+        parseProviderType,
+      } = await import("../embeddings/providers");
+
+      const workspace = options.workspace ? getWorkspaceContext(options.workspace).alias : undefined;
+      const hasUpdates = options.provider || options.model || options.endpoint || options.apiKey
+        || options.dimensions || options.batchSize || options.chunking || options.chunkSize
+        || options.chunkOverlap || options.transcriptWindow || options.rerank || options.rerankCandidates
+        || options.rerankModel || options.tagPriority;
 
       // Show current configuration
-      if (options.show || (!options.model && !options.endpoint)) {
-        const { getModelDimensionsFromResona } = await import("../embeddings/embed-config-new");
-        const embeddingConfig = configManager.getEmbeddingConfig();
+      if (options.show || !hasUpdates) {
+        const embeddingConfig = configManager.getEmbeddingConfig(workspace);
 
         if (options.json) {
           console.log(JSON.stringify(embeddingConfig || { status: "not_configured" }, null, 2));
@@ -94,7 +203,6 @@ export function createEmbedCommand(): Command {
 
         if (!embeddingConfig) {
           if (outputOpts.pretty) {
-            const { formatEmbeddingConfigDisplay } = await import("../embeddings/embed-config-new");
             console.log(formatEmbeddingConfigDisplay(embeddingConfig));
           } else {
             console.log(tsv("status", "not_configured"));
@@ -102,39 +210,115 @@ export function createEmbedCommand(): Command {
           return;
         }
 
-        const dimensions = getModelDimensionsFromResona(embeddingConfig.model);
+        const provider = getProviderType(embeddingConfig);
+        const dimensions = getEmbeddingDimensions(embeddingConfig);
+        const endpoint = embeddingConfig.endpoint || DEFAULT_PROVIDER_ENDPOINTS[provider] || "in-process";
 
         if (outputOpts.pretty) {
-          console.log(`\n${header(EMOJI.embeddings, "Embedding Configuration")}:\n`);
+          console.log(`\n${header(EMOJI.embeddings, "Embedding Configuration")}${workspace ? ` [${workspace}]` : ""}:\n`);
+          console.log(`   Provider: ${provider}`);
           console.log(`   Model: ${embeddingConfig.model}`);
           console.log(`   Dimensions: ${dimensions || "auto-detect"}`);
-          console.log(`   Endpoint: ${embeddingConfig.endpoint || "http://localhost:11434"}`);
+          console.log(`   Endpoint: ${endpoint}`);
+          if (embeddingConfig.batchSize) console.log(`   Batch size: ${embeddingConfig.batchSize}`);
+          console.log(`   Chunking: ${formatChunking(embeddingConfig.chunking)}`);
+          console.log(`   Re-ranking: ${formatRerank(embeddingConfig.rerank)}`);
           console.log(`   Storage: LanceDB (via resona)`);
           console.log("");
         } else {
           // Unix mode: TSV key-value output
+          console.log(tsv("provider", provider));
           console.log(tsv("model", embeddingConfig.model));
           console.log(tsv("dimensions", dimensions || "auto"));
-          console.log(tsv("endpoint", embeddingConfig.endpoint || "http://localhost:11434"));
+          console.log(tsv("endpoint", endpoint));
+          if (embeddingConfig.batchSize) console.log(tsv("batch_size", embeddingConfig.batchSize));
+          console.log(tsv("chunking", embeddingConfig.chunking?.enabled ? "on" : "off"));
+          console.log(tsv("rerank", embeddingConfig.rerank?.strategy ?? "none"));
         }
         return;
       }
 
       // Update configuration
-      const updates: { model?: string; endpoint?: string } = {};
+      const updates: Partial<EmbeddingConfig> = {};
+
+      try {
+        if (options.provider) {
+          updates.provider = parseProviderType(options.provider);
+          // Switching providers invalidates the previous provider's model and endpoint
+          if (!options.model) {
+            updates.model = updates.provider === "transformers" ? DEFAULT_TRANSFORMERS_MODEL : "bge-m3";
+          }
+          if (!options.endpoint) {
+            updates.endpoint = DEFAULT_PROVIDER_ENDPOINTS[updates.provider];
+          }
+          console.log(`✓ Provider: ${updates.provider}`);
+        }
+
+        if (options.dimensions) {
+          updates.dimensions = parsePositiveInt(options.dimensions, "--dimensions");
+        }
+
+        if (options.batchSize) {
+          updates.batchSize = parsePositiveInt(options.batchSize, "--batch-size");
+          console.log(`✓ Batch size: ${updates.batchSize}`);
+        }
+
+        if (options.chunking || options.chunkSize || options.chunkOverlap || options.transcriptWindow) {
+          const chunking = { ...configManager.getEmbeddingConfig(workspace).chunking };
+          if (options.chunking) {
+            if (options.chunking !== "on" && options.chunking !== "off") {
+              throw new StructuredError("INVALID_PARAMETER", `--chunking must be "on" or "off", got: ${options.chunking}`);
+            }
+            chunking.enabled = options.chunking === "on";
+          }
+          if (options.chunkSize) chunking.maxChars = parsePositiveInt(options.chunkSize, "--chunk-size");
+          if (options.chunkOverlap) chunking.overlap = parseInt(options.chunkOverlap, 10) || 0;
+          if (options.transcriptWindow) {
+            chunking.transcriptLines = parsePositiveInt(options.transcriptWindow, "--transcript-window");
+          }
+          resolveChunking(chunking);
+          updates.chunking = chunking;
+          console.log(`✓ Chunking: ${formatChunking(chunking)}`);
+        }
+
+        if (options.rerank || options.rerankCandidates || options.rerankModel || options.tagPriority) {
+          const rerank = { ...configManager.getEmbeddingConfig(workspace).rerank };
+          if (options.rerank) rerank.strategy = parseRerankStrategy(options.rerank);
+          if (options.rerankCandidates) {
+            rerank.candidates = parsePositiveInt(options.rerankCandidates, "--rerank-candidates");
+          }
+          if (options.rerankModel) rerank.model = options.rerankModel;
+          if (options.tagPriority) rerank.tagPriority = parseTagPriority(options.tagPriority);
+          updates.rerank = rerank;
+          console.log(`✓ Re-ranking: ${formatRerank(rerank)}`);
+        }
+      } catch (error) {
+        exitWithError(error);
+      }
+
+      const current = configManager.getEmbeddingConfig(workspace);
+      const provider = updates.provider ?? getProviderType(current);
 
       if (options.model) {
-        const { validateEmbeddingModel, getModelDimensionsFromResona } = await import("../embeddings/embed-config-new");
+        updates.model = options.model;
+        // A new model has its own dimensions unless given alongside it
+        if (!options.dimensions) {
+          updates.dimensions = undefined;
+        }
 
-        if (!validateEmbeddingModel(options.model)) {
+        const known = provider === "ollama"
+          ? validateEmbeddingModel(options.model)
+          : options.model in KNOWN_MODEL_DIMENSIONS;
+        if (known || options.dimensions) {
+          const dims = getEmbeddingDimensions({ ...current, ...updates });
+          console.log(`✓ Model: ${options.model} (${dims} dimensions)`);
+        } else if (provider === "ollama") {
           console.log(`⚠️  Warning: Model "${options.model}" is not a known model.`);
           console.log("   Dimensions will be auto-detected when generating embeddings.");
           console.log("");
         } else {
-          const dims = getModelDimensionsFromResona(options.model);
-          console.log(`✓ Model: ${options.model} (${dims} dimensions)`);
+          console.log(`✓ Model: ${options.model}`);
         }
-        updates.model = options.model;
       }
 
       if (options.endpoint) {
@@ -142,17 +326,35 @@ export function createEmbedCommand(): Command {
         updates.endpoint = options.endpoint;
       }
 
-      if (Object.keys(updates).length > 0) {
-        configManager.setEmbeddingConfig(updates);
-        console.log("");
-        console.log("✅ Configuration updated");
-        console.log("");
+      if (options.apiKey) {
+        console.log("✓ API key set");
+        updates.apiKey = options.apiKey;
+      }
 
-        // Show updated config
-        const { formatEmbeddingConfigDisplay } = await import("../embeddings/embed-config-new");
-        const embeddingConfig = configManager.getEmbeddingConfig();
-        console.log(formatEmbeddingConfigDisplay(embeddingConfig));
+      // OpenAI-compatible servers host arbitrary models: probe once for the dimensions
+      const merged = { ...current, ...updates };
+      if (provider === "openai" && !getEmbeddingDimensions(merged)) {
+        try {
+          const probe = new OpenAICompatibleProvider(merged.model, 0, merged.endpoint, merged.apiKey);
+          const [vector] = await probe.embed(["dimension probe"]);
+          updates.dimensions = vector.length;
+          console.log(`✓ Dimensions: ${vector.length} (detected)`);
+        } catch (error) {
+          console.log(`⚠️  Warning: Could not detect dimensions: ${(error as Error).message}`);
+          console.log("   Set them with: supertag embed config --dimensions <n>");
+          console.log("");
+        }
       }
+
+      if (!configManager.setEmbeddingConfig(updates, workspace)) {
+        exitWithError(new StructuredError("WORKSPACE_NOT_FOUND", `Workspace not found: ${options.workspace}`));
+      }
+      console.log("");
+      console.log(`✅ Configuration updated${workspace ? ` for workspace "${workspace}"` : ""}`);
+      console.log("");
+
+      // Show updated config
+      console.log(formatEmbeddingConfigDisplay(configManager.getEmbeddingConfig(workspace)));
     });
 
   /**
@@ -172,6 +374,9 @@ export function createEmbedCommand(): Command {
     .option("--include-system", "Include system docTypes (tuple, metanode, etc.)")
     .option("--include-transcripts", "Include transcript content (90K+ lines, normally excluded)")
     .option("--include-fields", "Include field values in embedding context")
+    .option("--chunk", "Split long nodes and transcripts into chunks (overrides config)")
+    .option("--no-chunk", "Embed one vector per node (overrides config)")
+    .option("--stale-only", "Only embed nodes that changed since the last run, and remove orphaned vectors")
     .option("-v, --verbose", "Verbose output")
     .option("--lance-batch-size <n>", "LanceDB write batch size (default: 5000)")
     .action(async (options) => {
@@ -206,9 +411,9 @@ export function createEmbedCommand(): Command {
   async function processWorkspaceEmbeddings(workspace: string | undefined, options: any) {
     const wsContext = getWorkspaceContext(workspace);
 
-    // Get embedding config from ConfigManager (not database)
+    // Get embedding config from ConfigManager (not database), with workspace overrides
     const configManager = ConfigManager.getInstance();
-    const embeddingConfig = configManager.getEmbeddingConfig();
+    const embeddingConfig = configManager.getEmbeddingConfig(wsContext.alias);
 
     if (options.verbose) {
       console.log(`   Workspace: ${wsContext.alias}`);
@@ -216,48 +421,30 @@ export function createEmbedCommand(): Command {
       console.log("");
     }
 
-    // Get model dimensions from resona
-    const { getModelDimensionsFromResona } = await import("../embeddings/embed-config-new");
-    const dimensions = getModelDimensionsFromResona(embeddingConfig.model);
+    const { getEmbeddingDimensions } = await import("../embeddings/embed-config-new");
+    const { checkEmbeddingProvider, getProviderType, DEFAULT_PROVIDER_ENDPOINTS } = await import("../embeddings/providers");
+    const provider = getProviderType(embeddingConfig);
+    const dimensions = getEmbeddingDimensions(embeddingConfig);
 
     console.log(`📊 Embedding Configuration`);
+    console.log(`   Provider: ${provider}`);
     console.log(`   Model: ${embeddingConfig.model}`);
     console.log(`   Dimensions: ${dimensions || "auto-detect"}`);
-    console.log(`   Endpoint: ${embeddingConfig.endpoint || "http://localhost:11434"}`);
+    console.log(`   Endpoint: ${embeddingConfig.endpoint || DEFAULT_PROVIDER_ENDPOINTS[provider] || "in-process"}`);
     console.log(`   Storage: LanceDB (via resona)`);
     console.log("");
 
-    // Check Ollama health before starting
-    try {
-      const endpoint = embeddingConfig.endpoint || "http://localhost:11434";
-      const response = await fetch(`${endpoint}/api/tags`);
-      if (!response.ok) {
-        console.log("❌ Ollama not available");
-        console.log("");
-        console.log("Make sure Ollama is running:");
-        console.log("  ollama serve");
-        return;
-      }
-
-      // Check if model is available
-      const data = await response.json() as { models: Array<{ name: string }> };
-      const modelName = embeddingConfig.model;
-      const modelAvailable = data.models?.some((m: { name: string }) =>
-        m.name === modelName || m.name.startsWith(`${modelName}:`)
-      );
-
-      if (!modelAvailable) {
-        console.log(`❌ Model "${modelName}" not found in Ollama`);
+    // Check the provider before starting
+    const health = await checkEmbeddingProvider(embeddingConfig);
+    if (!health.ok) {
+      console.log(`❌ ${health.message}`);
+      if (health.hints.length > 0) {
         console.log("");
-        console.log("Install the model with:");
-        console.log(`  ollama pull ${modelName}`);
-        return;
+        console.log("To fix:");
+        for (const hint of health.hints) {
+          console.log(`  ${hint}`);
+        }
       }
-    } catch (error) {
-      console.log("❌ Cannot connect to Ollama");
-      console.log("");
-      console.log("Make sure Ollama is running:");
-      console.log("  ollama serve");
       return;
     }
 
@@ -280,16 +467,33 @@ export function createEmbedCommand(): Command {
       includeAll: options.includeAll,
     };
 
+    // Chunking: --chunk/--no-chunk override the (workspace) config
+    const chunking = embeddingConfig.chunking ?? {};
+    const chunkingEnabled = options.chunk ?? chunking.enabled ?? false;
+    if (chunkingEnabled) {
+      try {
+        resolveChunking(chunking);
+      } catch (error) {
+        exitWithError(error);
+      }
+    }
+
     // Query nodes and contextualize within database context
-    const contextualizedNodes = await withDatabase({ dbPath: wsContext.dbPath, readonly: true }, (ctx) => {
+    const prepared = await withDatabase({ dbPath: wsContext.dbPath, readonly: true }, (ctx) => {
       // Build query with content filters
       const { query, params } = buildContentFilterQuery(filterOptions);
 
-      const nodes = ctx.db.query(query).all(...params) as Array<{
+      let nodes = ctx.db.query(query).all(...params) as Array<{
         id: string;
         name: string;
       }>;
 
+      // Chunked transcripts are embedded via their container, whatever its name
+      if (chunkingEnabled && options.includeTranscripts && !options.tag) {
+        const seen = new Set(nodes.map((n) => n.id));
+        nodes = nodes.concat(getTranscriptNodes(ctx.db).filter((n) => !seen.has(n.id)));
+      }
+
       if (nodes.length === 0) {
         return null;
       }
@@ -334,23 +538,47 @@ export function createEmbedCommand(): Command {
       if (options.includeFields) {
         console.log(`   Field enrichment: enabled`);
       }
+
+      if (!chunkingEnabled) {
+        console.log("");
+        return { items: contextualized, chunks: [] as EmbeddingChunk[], nodeIds: nodes.map((n) => n.id) };
+      }
+
+      console.log("   Chunking long nodes and transcripts...");
+      const { items, chunks } = expandChunks(ctx.db, contextualized, chunking);
+      const chunkedNodes = new Set(chunks.map((c) => c.nodeId)).size;
+      console.log(`   Chunked: ${chunkedNodes.toLocaleString()} nodes → ${chunks.length.toLocaleString()} chunks`);
       console.log("");
 
-      return contextualized;
+      return { items, chunks, nodeIds: nodes.map((n) => n.id) };
     });
 
-    if (!contextualizedNodes) {
+    if (!prepared) {
       console.log("No nodes found to embed");
       return;
     }
 
+    const embedMode = getEmbedModeKey({ chunking: chunkingEnabled ? chunking : undefined, includeFields: options.includeFields });
+    if (options.staleOnly) {
+      // Keep only nodes whose embedding text, model or mode changed since they were last embedded
+      const changed = await withDatabase({ dbPath: wsContext.dbPath, readonly: true }, (ctx) =>
+        selectChangedNodes(hashEmbeddingItems(prepared.items), getEmbeddingState(ctx.db), {
+          model: embeddingConfig.model,
+          mode: embedMode,
+        })
+      );
+      console.log(`   Changed since last run: ${changed.size.toLocaleString()} of ${prepared.nodeIds.length.toLocaleString()} nodes`);
+      console.log("");
+      prepared.items = prepared.items.filter((n) => changed.has(n.nodeId));
+      prepared.chunks = prepared.chunks.filter((c) => changed.has(c.nodeId));
+      prepared.nodeIds = prepared.nodeIds.filter((id) => changed.has(id));
+    }
+    const contextualizedNodes = prepared.items;
+
     // Create TanaEmbeddingService (uses resona/LanceDB) - separate from SQLite
     const { TanaEmbeddingService } = await import("../embeddings/tana-embedding-service");
     const lanceDbPath = wsContext.dbPath.replace(/\.db$/, ".lance");
-    const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-      model: embeddingConfig.model,
-      endpoint: embeddingConfig.endpoint,
-    });
+    const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
     try {
       // Process with progress reporting
@@ -404,6 +632,34 @@ export function createEmbedCommand(): Command {
       }
       console.log(`   Duration: ${(duration / 1000).toFixed(1)}s`);
 
+      // Record chunk offsets and content hashes, drop vectors the re-embedded nodes no longer have
+      const nodeIds = new Set(prepared.nodeIds);
+      const embeddedIds = await embeddingService.getEmbeddedIds();
+      const orphaned = await withDatabase({ dbPath: wsContext.dbPath }, (ctx) => {
+        if (chunkingEnabled || hasEmbeddingChunks(ctx.db)) {
+          saveChunks(ctx.db, prepared.nodeIds, prepared.chunks);
+        }
+        // A failed item keeps its old vector, which must not be recorded as current
+        if (result.errors === 0) {
+          recordEmbeddingState(ctx.db, contextualizedNodes, new Set(embeddedIds), { model: embeddingConfig.model, mode: embedMode });
+        }
+        return options.staleOnly ? findOrphanedVectorIds(ctx.db, embeddedIds) : [];
+      });
+      if (result.errors > 0) {
+        console.log("   Content hashes not recorded because of errors; the next --stale-only run retries these nodes");
+      }
+      const currentIds = new Set(contextualizedNodes.map((n) => n.chunkId ?? n.nodeId));
+      const stale = new Set([...findStaleVectorIds(embeddedIds, nodeIds, currentIds), ...orphaned]);
+      if (stale.size > 0) {
+        const removed = await embeddingService.cleanup(embeddedIds.filter((id) => !stale.has(id)));
+        console.log(`   Removed: ${removed.toLocaleString()} outdated vectors`);
+        if (orphaned.length > 0) {
+          await withDatabase({ dbPath: wsContext.dbPath }, (ctx) =>
+            removeEmbeddingState(ctx.db, [...new Set(orphaned.map((id) => parseChunkId(id).nodeId))])
+          );
+        }
+      }
+
       const stats = await embeddingService.getStats();
       console.log(`   Total embeddings: ${stats.totalEmbeddings.toLocaleString()}`);
     } finally {
@@ -426,11 +682,10 @@ export function createEmbedCommand(): Command {
 
       // Get embedding config from ConfigManager
       const configManager = ConfigManager.getInstance();
-      const embeddingConfig = configManager.getEmbeddingConfig();
+      const embeddingConfig = configManager.getEmbeddingConfig(wsContext.alias);
 
-      // Get model dimensions from resona
-      const { getModelDimensionsFromResona } = await import("../embeddings/embed-config-new");
-      const dimensions = getModelDimensionsFromResona(embeddingConfig.model);
+      const { getEmbeddingDimensions } = await import("../embeddings/embed-config-new");
+      const dimensions = getEmbeddingDimensions(embeddingConfig);
 
       // Check if databases exist
       if (!existsSync(wsContext.dbPath)) {
@@ -458,10 +713,7 @@ export function createEmbedCommand(): Command {
 
       // Create TanaEmbeddingService for stats
       const { TanaEmbeddingService } = await import("../embeddings/tana-embedding-service");
-      const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-        model: embeddingConfig.model,
-        endpoint: embeddingConfig.endpoint,
-      });
+      const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
       try {
         const stats = await embeddingService.getStats();
@@ -494,6 +746,28 @@ export function createEmbedCommand(): Command {
           `Coverage:     ${stats.totalEmbeddings}/${dbStats.nodeCount.count} (${coverage}%)`
         );
 
+        // Compare vectors with current node content (same filters as embed generate defaults)
+        const embeddedIds = await embeddingService.getEmbeddedIds();
+        const freshness = await withDatabase({ dbPath: wsContext.dbPath, readonly: true }, (ctx) =>
+          checkFreshness(ctx.db, embeddedIds, {
+            model: embeddingConfig.model,
+            filter: { minLength: 15, excludeTimestamps: true, excludeSystemTypes: true },
+            chunking: embeddingConfig.chunking,
+          })
+        );
+        console.log("");
+        console.log("Freshness:");
+        console.log(`  Up to date:        ${freshness.fresh.toLocaleString()} nodes`);
+        console.log(`  Stale:             ${freshness.stale.length.toLocaleString()} nodes (changed since embedded)`);
+        console.log(`  Missing:           ${freshness.missing.length.toLocaleString()} nodes (never embedded)`);
+        console.log(`  Orphaned:          ${freshness.orphaned.length.toLocaleString()} vectors (node deleted)`);
+        if (freshness.untracked.length > 0) {
+          console.log(`  Untracked:         ${freshness.untracked.length.toLocaleString()} nodes (embedded before hashes were recorded)`);
+        }
+        if (freshness.stale.length + freshness.missing.length + freshness.orphaned.length + freshness.untracked.length > 0) {
+          console.log("  Update with:       supertag embed generate --stale-only");
+        }
+
         // Show content filter stats
         console.log("");
         console.log("Content Filter Stats:");
@@ -610,7 +884,7 @@ export function createEmbedCommand(): Command {
 
       // Get embedding config from ConfigManager
       const configManager = ConfigManager.getInstance();
-      const embeddingConfig = configManager.getEmbeddingConfig();
+      const embeddingConfig = configManager.getEmbeddingConfig(wsContext.alias);
 
       console.log(`🔧 Running maintenance [${wsContext.alias}]`);
       console.log("");
@@ -626,10 +900,7 @@ export function createEmbedCommand(): Command {
 
       // Create TanaEmbeddingService
       const { TanaEmbeddingService } = await import("../embeddings/tana-embedding-service");
-      const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-        model: embeddingConfig.model,
-        endpoint: embeddingConfig.endpoint,
-      });
+      const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
       try {
         // Show diagnostics before maintenance
@@ -0,0 +1,88 @@
+/**
+ * Export Command Group
+ *
+ * Export the indexed graph to other formats:
+ * - export markdown  - Markdown/Obsidian vault, one file per tagged node
+ *
+ * Usage:
+ *   supertag export markdown --out ~/vault
+ *   supertag export markdown --out ~/vault --tag meeting --tag project
+ *   supertag export markdown --out ~/vault --force   # Re-render every file
+ */
+
+import { Command } from "commander";
+import { resolve } from "path";
+import { withDatabase } from "../db/with-database";
+import { resolveDbPath, checkDb, formatJsonOutput } from "./helpers";
+import { exportMarkdown } from "../services/markdown-export";
+import { EMOJI, formatNumber } from "../utils/format";
+import { exitWithError } from "../utils/errors";
+
+interface MarkdownExportCommandOptions {
+  out: string;
+  workspace?: string;
+  dbPath?: string;
+  tag?: string[];
+  depth?: string;
+  force?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Create the export command group
+ */
+export function createExportCommand(): Command {
+  const exportCmd = new Command("export");
+  exportCmd.description("Export the indexed graph to other formats");
+
+  // export markdown
+  exportCmd
+    .command("markdown")
+    .description("Export tagged nodes as a Markdown/Obsidian vault (incremental)")
+    .requiredOption("-o, --out <dir>", "Output directory (vault folder)")
+    .option("-w, --workspace <alias>", "Workspace alias or nodeid")
+    .option("--db-path <path>", "Database path (overrides workspace)")
+    .option("-t, --tag <tags...>", "Only export nodes with these supertags")
+    .option("--depth <n>", "Maximum nesting depth of child bullets", "10")
+    .option("--force", "Re-render all files, ignoring unchanged checksums")
+    .option("--json", "Output as JSON")
+    .action(async (options: MarkdownExportCommandOptions) => {
+      try {
+        const dbPath = resolveDbPath(options);
+        if (!checkDb(dbPath, options.workspace)) {
+          process.exit(1);
+        }
+
+        const maxDepth = parseInt(options.depth ?? "10", 10);
+        if (isNaN(maxDepth) || maxDepth < 0) {
+          console.error(`❌ Invalid --depth: ${options.depth}`);
+          process.exit(1);
+        }
+
+        const result = await withDatabase({ dbPath, readonly: true }, (ctx) =>
+          exportMarkdown(ctx.db, {
+            outDir: resolve(options.out),
+            tags: options.tag,
+            maxDepth,
+            force: options.force,
+          })
+        );
+
+        if (options.json) {
+          console.log(formatJsonOutput(result));
+          return;
+        }
+
+        console.log(`${EMOJI.success} Exported ${formatNumber(result.total)} node(s) to ${result.outDir}`);
+        console.log(`   Written:   ${formatNumber(result.written)}`);
+        console.log(`   Unchanged: ${formatNumber(result.unchanged)}`);
+        if (result.removed > 0) {
+          console.log(`   Removed:   ${formatNumber(result.removed)}`);
+        }
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  return exportCmd;
+}
@@ -0,0 +1,162 @@
+/**
+ * History/Undo Commands - Inspect and revert Local API mutations
+ *
+ * Mutations made through the Local API backend (edit, tag, set-field,
+ * trash, done/undone, and the MCP mutation tools) are recorded in the
+ * mutation journal together with the node's before-state.
+ *
+ * Usage:
+ *   supertag history                # Recent mutations
+ *   supertag history --node <id>    # Mutations of one node
+ *   supertag undo                   # Revert the most recent mutation
+ *   supertag undo 42                # Revert mutation #42
+ *   supertag undo --last 3          # Revert the three most recent mutations
+ */
+import { Command } from 'commander';
+import { resolveBackend } from '../api/backend-resolver';
+import { MutationJournal, undoMutations, type JournalEntry } from '../api/mutation-journal';
+import { exitWithError } from '../utils/errors';
+import { table } from '../utils/format';
+import { formatJsonOutput } from './helpers';
+
+interface HistoryOptions {
+  limit?: string;
+  node?: string;
+  json?: boolean;
+}
+
+interface UndoOptions {
+  last?: string;
+  json?: boolean;
+}
+
+export function createHistoryCommand(): Command {
+  const history = new Command('history');
+  history
+    .description('Show recorded Local API mutations (for supertag undo)')
+    .option('-l, --limit <n>', 'Number of entries to show', '20')
+    .option('--node <nodeId>', 'Only show mutations of this node')
+    .option('--json', 'Output as JSON (includes before-state)')
+    .action((options: HistoryOptions) => {
+      try {
+        const limit = parseInt(options.limit ?? '20', 10);
+        let entries = new MutationJournal().entries();
+        if (options.node) {
+          entries = entries.filter((e) => e.nodeId === options.node);
+        }
+        entries = entries.reverse().slice(0, isNaN(limit) ? 20 : limit);
+
+        if (options.json) {
+          console.log(formatJsonOutput(entries));
+          return;
+        }
+
+        if (entries.length === 0) {
+          console.log('No mutations recorded.');
+          return;
+        }
+
+        console.log(table(
+          ['ID', 'Time', 'Operation', 'Node', 'Status', 'Change'],
+          entries.map((e) => [
+            String(e.id),
+            e.timestamp.replace('T', ' ').slice(0, 19),
+            e.operation,
+            e.nodeId,
+            formatStatus(e),
+            formatChange(e),
+          ]),
+          { align: ['right'] },
+        ));
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  return history;
+}
+
+export function createUndoCommand(): Command {
+  const undo = new Command('undo');
+  undo
+    .description('Revert recorded mutations by applying their inverse (requires local API)')
+    .argument('[id]', 'Journal ID of the mutation to revert (see: supertag history)')
+    .option('--last <n>', 'Revert the N most recent mutations')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string | undefined, options: UndoOptions) => {
+      try {
+        if (id && options.last) {
+          console.error('Error: Use either an ID or --last, not both');
+          process.exit(1);
+        }
+
+        const journal = new MutationJournal();
+        let ids: number[];
+        if (id) {
+          const parsed = parseInt(id, 10);
+          if (isNaN(parsed)) {
+            console.error(`Error: Invalid mutation ID: ${id}`);
+            process.exit(1);
+          }
+          ids = [parsed];
+        } else {
+          const last = parseInt(options.last ?? '1', 10);
+          if (isNaN(last) || last < 1) {
+            console.error(`Error: Invalid --last: ${options.last}`);
+            process.exit(1);
+          }
+          ids = journal.undoable(last).map((e) => e.id);
+        }
+
+        if (ids.length === 0) {
+          console.log('Nothing to undo.');
+          return;
+        }
+
+        const backend = await resolveBackend();
+        const results = await undoMutations(journal, backend, ids);
+
+        if (options.json) {
+          console.log(formatJsonOutput(results));
+          return;
+        }
+
+        for (const result of results) {
+          const applied = result.inverse.length > 0
+            ? result.inverse.map((m) => m.operation).join(', ')
+            : 'already in previous state';
+          console.log(`Undone #${result.id} ${result.operation} on ${result.nodeId} (${applied})`);
+        }
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  return undo;
+}
+
+function formatStatus(entry: JournalEntry): string {
+  if (entry.undoneBy) return `undone (#${entry.undoneBy.join(', #') || '-'})`;
+  if (entry.undoOf !== undefined) return `${entry.status} (undo #${entry.undoOf})`;
+  return entry.status;
+}
+
+function formatChange(entry: JournalEntry): string {
+  const p = entry.params;
+  switch (entry.operation) {
+    case 'updateNode':
+      return [
+        'name' in p ? `name: "${entry.before?.name ?? '?'}" → "${p.name}"` : '',
+        'description' in p ? 'description' : '',
+      ].filter(Boolean).join(', ');
+    case 'addTags':
+    case 'removeTags':
+      return ((entry.changed ?? p.tagIds) as string[]).join(', ');
+    case 'setFieldContent':
+      return `${entry.before?.field?.name ?? p.attributeId}: "${entry.before?.field?.value ?? ''}" → "${p.content}"`;
+    case 'setFieldOption':
+      return `${entry.before?.field?.name ?? p.attributeId} → ${p.optionId}`;
+    default:
+      return entry.before?.name ?? '';
+  }
+}
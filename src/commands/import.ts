@@ -0,0 +1,141 @@
+/**
+ * Import Command - Create node trees from a Tana Paste file
+ *
+ * Resolves #supertags, fields and [[references]] against the local index,
+ * then creates the tree through the active backend (Local API import, or
+ * chunked Input API requests).
+ *
+ * Usage:
+ *   supertag import notes.tana                 # Import into the default target
+ *   supertag import notes.tana --target <id>   # Import under a node
+ *   supertag import notes.tana --dry-run       # Show resolved paste + report
+ */
+import { Command } from 'commander';
+import { existsSync, readFileSync } from 'fs';
+import { resolveBackend } from '../api/backend-resolver';
+import type { BackendType } from '../api/backend';
+import { ConfigManager } from '../config/manager';
+import { resolveWorkspaceContext } from '../config/workspace-resolver';
+import { withDatabase } from '../db/with-database';
+import {
+  planImport,
+  planToTanaPaste,
+  executeImport,
+  createIndexResolver,
+  type ImportReport,
+} from '../services/tana-paste-import';
+import { exitWithError } from '../utils/errors';
+import { formatJsonOutput } from './helpers';
+
+interface ImportOptions {
+  workspace?: string;
+  target?: string;
+  dryRun?: boolean;
+  json?: boolean;
+  verbose?: boolean;
+}
+
+export function createImportCommand(): Command {
+  const importCmd = new Command('import');
+  importCmd
+    .description('Import a Tana Paste file, resolving [[references]] against the local index')
+    .argument('<file>', 'Tana Paste file to import')
+    .option('-w, --workspace <alias>', 'Workspace to import into (resolves tags, fields and references; API token and target overrides)')
+    .option('-t, --target <nodeId>', 'Target node ID (INBOX, SCHEMA, or node ID; default: workspace, then config)')
+    .option('--dry-run', 'Resolve and show what would be imported without creating nodes')
+    .option('--json', 'Output as JSON')
+    .option('-v, --verbose', 'Verbose output')
+    .action(async (file: string, options: ImportOptions) => {
+      try {
+        if (!existsSync(file)) {
+          console.error(`❌ File not found: ${file}`);
+          process.exit(1);
+        }
+        const content = readFileSync(file, 'utf-8');
+
+        const ws = resolveWorkspaceContext({ workspace: options.workspace, requireDatabase: false });
+        const plan = existsSync(ws.dbPath)
+          ? await withDatabase({ dbPath: ws.dbPath, readonly: true }, ({ db }) =>
+              planImport(content, createIndexResolver(db)))
+          : planImport(content);
+
+        if (!existsSync(ws.dbPath) && !options.json) {
+          console.error(`⚠️  No index for workspace "${ws.alias}"; tags, fields and references are not resolved.`);
+          console.error('   Run: supertag sync index');
+        }
+
+        const configManager = ConfigManager.getInstance();
+        const target = options.target
+          || configManager.getWorkspace(ws.alias)?.config.targetNode
+          || configManager.getConfig().defaultTargetNode
+          || 'INBOX';
+
+        if (options.dryRun) {
+          const tanaPaste = planToTanaPaste(plan);
+          if (options.json) {
+            console.log(formatJsonOutput({ dryRun: true, target, report: plan.report, tanaPaste }));
+          } else {
+            console.log(`🔍 Dry run: would import ${plan.report.nodeCount} node(s) into ${target}\n`);
+            console.log(tanaPaste);
+            console.log('');
+            printReport(plan.report);
+          }
+          return;
+        }
+
+        const backend = await resolveBackend({ workspace: ws.alias });
+        const result = await executeImport(plan, backend, target, options.verbose);
+
+        if (options.json) {
+          console.log(formatJsonOutput({ ...result, report: plan.report }));
+          return;
+        }
+
+        const via = result.backend === 'local-api'
+          ? 'Local API'
+          : `Input API, ${result.requests} request(s)`;
+        console.log(`✅ Imported ${plan.report.nodeCount} node(s) into ${target} (${via})`);
+        if (options.verbose && result.nodeIds.length > 0) {
+          console.log(`   Created: ${result.nodeIds.join(', ')}`);
+        }
+        printReport(plan.report, result.backend);
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  return importCmd;
+}
+
+/**
+ * Print resolution summary, listing anything not found in the index
+ *
+ * @param backend - Backend that ran the import (omitted for dry runs)
+ */
+function printReport(report: ImportReport, backend?: BackendType): void {
+  const ambiguous = report.ambiguousReferences.length > 0 ? `, ${report.ambiguousReferences.length} ambiguous` : '';
+  console.log(`References: ${report.resolvedReferences} resolved, ${report.unresolvedReferences.length} unresolved${ambiguous}`);
+  if (report.unresolvedReferences.length > 0) {
+    console.log('\n⚠️  Unresolved references (no node with this name in the index):');
+    for (const name of report.unresolvedReferences) {
+      console.log(`   [[${name}]]`);
+    }
+  }
+  if (report.ambiguousReferences.length > 0) {
+    console.log('\n⚠️  Ambiguous references (several nodes with this name, left unlinked):');
+    for (const ref of report.ambiguousReferences) {
+      console.log(`   [[${ref.name}]]: ${ref.nodeIds.join(', ')}`);
+    }
+  }
+  if (report.unresolvedTags.length > 0) {
+    const effect = backend === 'local-api'
+      ? 'created by the import'
+      : backend === 'input-api'
+        ? 'not applied; the Input API cannot create supertags'
+        : 'created with the Local API, dropped with the Input API';
+    console.log(`\n⚠️  Unknown supertags (${effect}): ${report.unresolvedTags.map((t) => `#${t}`).join(', ')}`);
+  }
+  if (report.unresolvedFields.length > 0) {
+    console.log(`\n⚠️  Fields not defined on the node's supertags: ${report.unresolvedFields.join(', ')}`);
+  }
+}
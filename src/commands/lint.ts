@@ -0,0 +1,116 @@
+/**
+ * Lint Command
+ *
+ * Check the field values of a supertag's nodes against its schema.
+ *
+ * Usage:
+ *   supertag lint --tag task                                # Report invalid field values
+ *   supertag lint --tag task --require "Status,Due date"    # Also report missing values
+ *   supertag lint --tag task --require "Status" --save      # Store required fields for #task
+ *   supertag lint --tag task --json                         # Issues as JSON
+ */
+
+import { Command } from 'commander';
+import { getLintRulesPath } from '../config/paths';
+import { resolveWorkspaceContext } from '../config/workspace-resolver';
+import { withDatabase } from '../db/with-database';
+import {
+  getRequiredFields,
+  lintTag,
+  loadLintRules,
+  saveRequiredFields,
+  LINT_RULES,
+  type LintResult,
+} from '../services/lint';
+import { exitWithError } from '../utils/errors';
+import { StructuredError } from '../utils/structured-errors';
+import { resolveDbPath, checkDb, formatJsonOutput } from './helpers';
+
+interface LintCommandOptions {
+  tag: string;
+  require?: string;
+  save?: boolean;
+  workspace?: string;
+  dbPath?: string;
+  json?: boolean;
+}
+
+export function createLintCommand(): Command {
+  const lint = new Command('lint');
+  lint
+    .description('Check field values of a supertag against its schema')
+    .requiredOption('-t, --tag <tagname>', 'Supertag to check (e.g. task)')
+    .option('--require <fields>', 'Required fields, comma-separated (default: stored for the tag)')
+    .option('--save', 'Store --require as the required fields of the tag (empty to clear)')
+    .option('-w, --workspace <alias>', 'Workspace alias or nodeid')
+    .option('--db-path <path>', 'Database path (overrides workspace)')
+    .option('--json', 'Output as JSON')
+    .action(async (options: LintCommandOptions) => {
+      try {
+        const dbPath = resolveDbPath(options);
+        if (!checkDb(dbPath, options.workspace)) {
+          process.exit(1);
+        }
+
+        if (options.save && options.require === undefined) {
+          throw new StructuredError('INVALID_PARAMETER', '--save needs --require', {
+            suggestion: `supertag lint --tag ${options.tag} --require "Status,Due date" --save`,
+          });
+        }
+        // Stored rules belong to the workspace (only resolved when needed, so --db-path works without one)
+        const rulesPath = () =>
+          getLintRulesPath(resolveWorkspaceContext({ workspace: options.workspace, requireDatabase: false }).alias);
+        const required =
+          options.require !== undefined
+            ? options.require.split(',').map((f) => f.trim()).filter(Boolean)
+            : getRequiredFields(loadLintRules(rulesPath()), options.tag);
+
+        const result = await withDatabase({ dbPath, readonly: true }, (ctx) => lintTag(ctx.db, { tag: options.tag, required }));
+
+        if (options.save) {
+          saveRequiredFields(rulesPath(), result.tag, result.required);
+          if (!options.json) {
+            console.log(
+              result.required.length > 0
+                ? `✅ Required fields of #${result.tag}: ${result.required.join(', ')}`
+                : `✅ Cleared required fields of #${result.tag}`
+            );
+          }
+        }
+
+        if (options.json) {
+          console.log(formatJsonOutput(result));
+          return;
+        }
+        printResult(result);
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  return lint;
+}
+
+/**
+ * Print issues grouped by node, followed by counts per rule
+ */
+function printResult(result: LintResult): void {
+  const required = result.required.length > 0 ? `, required: ${result.required.join(', ')}` : '';
+  console.log(`\n🔎 #${result.tag}: ${result.issues.length} issue(s) in ${result.nodes} node(s)${required}\n`);
+
+  let nodeId: string | null = null;
+  for (const issue of result.issues) {
+    if (issue.nodeId !== nodeId) {
+      if (nodeId !== null) console.log('');
+      nodeId = issue.nodeId;
+      console.log(`  ${issue.nodeName || '(unnamed)'} (${issue.nodeId})`);
+    }
+    console.log(`    ✗ ${issue.rule.padEnd(17)}  ${issue.message}`);
+  }
+  if (result.issues.length > 0) console.log('');
+
+  const counts = LINT_RULES.filter((rule) => result.counts[rule] > 0).map((rule) => `${rule}: ${result.counts[rule]}`);
+  if (counts.length > 0) {
+    console.log(counts.join(', '));
+  }
+}
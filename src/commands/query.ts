@@ -9,13 +9,20 @@
  *   supertag query "find task where Status = Done order by -created limit 20"
  *   supertag query "find meeting where Attendees ~ John and created > 7d"
  *   supertag query "find * where name ~ project"
+ *   supertag query "find task where Status != Done group by Owner select Owner, count()"
+ *   supertag query save open-by-owner "find task where Owner = $owner and Status != Done"
+ *   supertag query run open-by-owner --param owner=Alice
  */
 
 import { Command } from "commander";
 import { Database } from "bun:sqlite";
 import { parseQuery, ParseError } from "../query/parser";
-import { UnifiedQueryEngine } from "../query/unified-query-engine";
+import { UnifiedQueryEngine, type QueryExplanation } from "../query/unified-query-engine";
+import { SavedQueryStore, parseParamPairs } from "../query/saved-queries";
+import { prepareSearchBackends } from "../query/search-backends";
+import type { QueryAST } from "../query/types";
 import { resolveWorkspaceContext } from "../config/workspace-resolver";
+import { getSavedQueriesPath } from "../config/paths";
 import { resolveOutputOptions, resolveOutputFormat } from "../utils/output-options";
 import { createFormatter, type OutputFormat } from "../utils/output-formatter";
 import { addStandardOptions } from "./helpers";
@@ -25,6 +32,47 @@ import type { StandardOptions } from "../types";
 interface QueryOptions extends StandardOptions {
   format?: OutputFormat;
   header?: boolean;
+  explain?: boolean;
+}
+
+interface RunOptions extends QueryOptions {
+  param?: string[];
+}
+
+/**
+ * Collect repeated option values into an array
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Resolve the workspace or exit with an error
+ */
+function resolveWorkspaceOrExit(workspace?: string, requireDatabase = true) {
+  try {
+    return resolveWorkspaceContext({ workspace, requireDatabase });
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print a query syntax error with usage help and exit
+ */
+function exitWithSyntaxError(error: ParseError): never {
+  console.error(`❌ Query syntax error: ${error.message}`);
+  console.error("");
+  console.error("Query syntax:");
+  console.error("  find <tag> [where <conditions>] [group by <field>] [order by <field>] [limit N] [offset N] [select <fields>]");
+  console.error("");
+  console.error("Examples:");
+  console.error('  find task where Status = Done');
+  console.error('  find meeting where Attendees ~ John and created > 7d');
+  console.error('  find task where (Status = Done or Status = Active) order by -created limit 20');
+  console.error('  find task group by Owner select Owner, count(), avg(Points)');
+  process.exit(1);
 }
 
 /**
@@ -39,163 +87,349 @@ export function createQueryCommand(): Command {
 
   // Add standard options (workspace, limit, json, format, etc.)
   addStandardOptions(query, { defaultLimit: "100" });
+  query.option("--explain", "Show resolved fields, generated SQL and query plan instead of results");
+  // Options after a subcommand name belong to the subcommand (query run x -w work),
+  // not to the ad-hoc query's identical options
+  query.enablePositionalOptions();
 
   query.action(async (queryStr: string, options: QueryOptions) => {
-    const format = resolveOutputFormat(options);
-    const outputOpts = resolveOutputOptions(options);
-
-    // Parse the query string
     let ast;
     try {
       ast = parseQuery(queryStr);
     } catch (error) {
-      if (error instanceof ParseError) {
-        console.error(`❌ Query syntax error: ${error.message}`);
-        console.error("");
-        console.error("Query syntax:");
-        console.error("  find <tag> [where <conditions>] [order by <field>] [limit N] [offset N]");
-        console.error("");
-        console.error("Examples:");
-        console.error('  find task where Status = Done');
-        console.error('  find meeting where Attendees ~ John and created > 7d');
-        console.error('  find task where (Status = Done or Status = Active) order by -created limit 20');
-        process.exit(1);
-      }
+      if (error instanceof ParseError) exitWithSyntaxError(error);
       throw error;
     }
 
-    // Override limit from CLI options only if query doesn't specify one
-    // This allows 'find person limit 10' to work while still respecting --limit flag
-    if (options.limit && ast.limit === undefined) {
-      ast.limit = parseInt(String(options.limit));
-    }
+    await executeQuery(ast, queryStr, options);
+  });
+
+  query
+    .command("save")
+    .description("Save a query under a name (use $name placeholders for parameters)")
+    .argument("<name>", "Saved query name")
+    .argument("<query>", "Query string (e.g., 'find task where Owner = $owner')")
+    .option("-w, --workspace <alias>", "Workspace alias or nodeid")
+    .option("-d, --description <text>", "Description of the saved query")
+    .action((name: string, queryStr: string, options: { workspace?: string; description?: string }) => {
+      const wsContext = resolveWorkspaceOrExit(options.workspace, false);
+      const store = new SavedQueryStore(getSavedQueriesPath(wsContext.alias));
+      try {
+        const saved = store.save(name, queryStr, options.description);
+        const params = saved.params.length > 0 ? ` (params: ${saved.params.map((p) => `$${p}`).join(", ")})` : "";
+        console.log(`✅ Saved query '${saved.name}'${params}`);
+      } catch (error) {
+        if (error instanceof ParseError) exitWithSyntaxError(error);
+        console.error(`❌ ${(error as Error).message}`);
+        process.exit(1);
+      }
+    });
 
-    // Resolve workspace and database
-    let wsContext;
+  const run = query
+    .command("run")
+    .description("Run a saved query")
+    .argument("<name>", "Saved query name")
+    .option("-p, --param <name=value>", "Parameter value (repeatable)", collect, []);
+  addStandardOptions(run, { defaultLimit: "100" });
+  run.option("--explain", "Show resolved fields, generated SQL and query plan instead of results");
+  run.action(async (name: string, options: RunOptions) => {
+    const wsContext = resolveWorkspaceOrExit(options.workspace);
+    const store = new SavedQueryStore(getSavedQueriesPath(wsContext.alias));
+
+    let resolved;
     try {
-      wsContext = resolveWorkspaceContext({ workspace: options.workspace });
+      resolved = store.resolve(name, parseParamPairs(options.param ?? []));
     } catch (error) {
+      if (error instanceof ParseError) exitWithSyntaxError(error);
       console.error(`❌ ${(error as Error).message}`);
       process.exit(1);
     }
 
-    // Execute query
-    const db = new Database(wsContext.dbPath, { readonly: true });
-    const engine = new UnifiedQueryEngine(db);
-    const startTime = performance.now();
+    await executeQuery(resolved.ast, resolved.saved.query, options);
+  });
 
-    try {
-      const result = await engine.execute(ast);
-      const queryTime = performance.now() - startTime;
-
-      // Handle empty results
-      if (result.count === 0) {
-        if (format === "json" || format === "jsonl" || format === "minimal") {
-          console.log("[]");
-        } else if (format === "ids" || format === "csv") {
-          // Empty output for machine formats
-        } else {
-          console.log(`No results found for: ${queryStr}`);
-        }
+  query
+    .command("list")
+    .description("List saved queries")
+    .option("-w, --workspace <alias>", "Workspace alias or nodeid")
+    .option("--json", "Output as JSON")
+    .action((options: { workspace?: string; json?: boolean }) => {
+      const wsContext = resolveWorkspaceOrExit(options.workspace, false);
+      const saved = new SavedQueryStore(getSavedQueriesPath(wsContext.alias)).list();
+
+      if (options.json) {
+        console.log(JSON.stringify(saved, null, 2));
+        return;
+      }
+      if (saved.length === 0) {
+        console.log("No saved queries. Create one with: supertag query save <name> \"<query>\"");
         return;
       }
 
-      // Create formatter
-      const formatter = createFormatter({
-        format,
-        noHeader: options.header === false,
-        humanDates: outputOpts.humanDates,
-        verbose: outputOpts.verbose,
-      });
+      console.log(`\n${header(EMOJI.search, `Saved queries (${saved.length})`)}:\n`);
+      console.log(table(
+        ["Name", "Params", "Query"],
+        saved.map((q) => [q.name, q.params.map((p) => `$${p}`).join(", "), q.query]),
+      ));
+    });
 
-      // Determine if we have field output
-      const hasFields = result.fieldNames && result.fieldNames.length > 0;
-      const fieldNames = result.fieldNames || [];
+  query
+    .command("delete")
+    .description("Delete a saved query")
+    .argument("<name>", "Saved query name")
+    .option("-w, --workspace <alias>", "Workspace alias or nodeid")
+    .action((name: string, options: { workspace?: string }) => {
+      const wsContext = resolveWorkspaceOrExit(options.workspace, false);
+      const store = new SavedQueryStore(getSavedQueriesPath(wsContext.alias));
+      if (!store.delete(name)) {
+        console.error(`❌ Saved query not found: ${name}`);
+        process.exit(1);
+      }
+      console.log(`✅ Deleted saved query '${name}'`);
+    });
 
-      // Table format: pretty output
-      if (format === "table") {
-        const headerText = outputOpts.verbose
-          ? `Query results (${result.count}) in ${queryTime.toFixed(0)}ms`
-          : `Query results (${result.count})`;
-        console.log(`\n${header(EMOJI.search, headerText)}:\n`);
-
-        // Filter out core field names from custom fields to avoid duplicate columns
-        const tableCoreFieldNames = new Set(["id", "name", "created", "updated"]);
-        const tableCustomFieldNames = fieldNames.filter((f) => !tableCoreFieldNames.has(f.toLowerCase()));
-
-        // Build table headers - core fields + custom fields
-        const tableHeaders = ["#", "Name", "ID", "Created", ...tableCustomFieldNames];
-        const tableAligns: ("left" | "right")[] = ["right", "left", "left", "left", ...tableCustomFieldNames.map(() => "left" as const)];
-
-        const tableRows = result.results.map((node, i) => {
-          const created = node.created
-            ? (outputOpts.humanDates
-              ? new Date(node.created as number).toLocaleDateString()
-              : formatDateISO(node.created as number))
-            : "";
-          const row = [
-            String(i + 1),
-            ((node.name as string) || "(unnamed)").substring(0, 50),
-            node.id as string,
-            created,
-          ];
-
-          // Add custom field values (excluding core fields already included above)
-          if (hasFields) {
-            const fields = (node as any).fields || {};
-            for (const fieldName of tableCustomFieldNames) {
-              row.push(String(fields[fieldName] || ""));
-            }
-          }
+  return query;
+}
 
-          return row;
-        });
+/**
+ * Execute a parsed query and print results in the requested format
+ */
+async function executeQuery(ast: QueryAST, queryStr: string, options: QueryOptions): Promise<void> {
+  const format = resolveOutputFormat(options);
+  const outputOpts = resolveOutputOptions(options);
 
-        console.log(table(tableHeaders, tableRows, { align: tableAligns }));
+  // Override limit from CLI options only if query doesn't specify one
+  // This allows 'find person limit 10' to work while still respecting --limit flag
+  if (options.limit && ast.limit === undefined) {
+    ast.limit = parseInt(String(options.limit));
+  }
 
-        if (result.hasMore) {
-          console.log(tip(`More results available. Use 'limit' and 'offset' for pagination.`));
-        }
+  // Resolve workspace and database
+  const wsContext = resolveWorkspaceOrExit(options.workspace);
+
+  // Execute query
+  // Build the FTS index / load embeddings if search predicates are used
+  let backends;
+  try {
+    backends = await prepareSearchBackends(ast, wsContext.dbPath, wsContext.alias);
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const db = new Database(wsContext.dbPath, { readonly: true });
+  const engine = new UnifiedQueryEngine(db, backends.engineOptions);
+  const startTime = performance.now();
 
+  try {
+    if (options.explain) {
+      const explanation = await engine.explain(ast);
+      if (format === "json" || format === "jsonl" || format === "minimal") {
+        console.log(JSON.stringify(explanation, null, 2));
+      } else {
+        printExplanation(explanation);
+      }
+      return;
+    }
+
+    const result = await engine.execute(ast);
+    const queryTime = performance.now() - startTime;
+
+    // Handle empty results
+    if (result.count === 0) {
+      if (format === "json" || format === "jsonl" || format === "minimal") {
+        console.log("[]");
+      } else if (format === "ids" || format === "csv") {
+        // Empty output for machine formats
+      } else {
+        console.log(`No results found for: ${queryStr}`);
+      }
+      return;
+    }
+
+    // Create formatter
+    const formatter = createFormatter({
+      format,
+      noHeader: options.header === false,
+      humanDates: outputOpts.humanDates,
+      verbose: outputOpts.verbose,
+    });
+
+    // Grouped/aggregated results: one row per group with dynamic columns
+    if (result.columns) {
+      const columns = result.columns;
+      const rows = result.results.map((row) =>
+        columns.map((col) => {
+          const value = row[col];
+          return value === null || value === undefined ? "" : (value as string | number);
+        })
+      );
+
+      if (format === "table") {
+        console.log(`\n${header(EMOJI.aggregate, `Query results (${result.count} groups)`)}:\n`);
+        const aligns = columns.map((_, i) =>
+          rows.some((r) => typeof r[i] === "number") ? "right" as const : "left" as const
+        );
+        console.log(table(columns, rows.map((r) => r.map(String)), { align: aligns }));
         if (outputOpts.verbose) {
           console.log(`\nQuery time: ${queryTime.toFixed(1)}ms`);
         }
         return;
       }
 
-      // Other formats: use formatter with dynamic columns
+      formatter.table(columns, rows);
+      formatter.finalize();
+      return;
+    }
+
+    // Determine if we have field output
+    const hasFields = result.fieldNames && result.fieldNames.length > 0;
+    const fieldNames = result.fieldNames || [];
+
+    // Ranked results (text ~ / similar to) carry a combined score
+    const hasScore = result.results.some((node) => typeof node.score === "number");
+
+    // Table format: pretty output
+    if (format === "table") {
+      const headerText = outputOpts.verbose
+        ? `Query results (${result.count}) in ${queryTime.toFixed(0)}ms`
+        : `Query results (${result.count})`;
+      console.log(`\n${header(EMOJI.search, headerText)}:\n`);
+
       // Filter out core field names from custom fields to avoid duplicate columns
-      const coreFieldNames = new Set(["id", "name", "created", "updated"]);
-      const customFieldNames = fieldNames.filter((f) => !coreFieldNames.has(f.toLowerCase()));
-      const headers = ["id", "name", "created", "updated", ...customFieldNames];
-      const rows = result.results.map((node) => {
+      const tableCoreFieldNames = new Set(["id", "name", "created", "updated"]);
+      const tableCustomFieldNames = fieldNames.filter((f) => !tableCoreFieldNames.has(f.toLowerCase()));
+
+      // Build table headers - core fields + custom fields
+      const tableHeaders = ["#", "Name", "ID", "Created", ...tableCustomFieldNames, ...(hasScore ? ["Score"] : [])];
+      const tableAligns: ("left" | "right")[] = [
+        "right", "left", "left", "left",
+        ...tableCustomFieldNames.map(() => "left" as const),
+        ...(hasScore ? ["right" as const] : []),
+      ];
+
+      const tableRows = result.results.map((node, i) => {
+        const created = node.created
+          ? (outputOpts.humanDates
+            ? new Date(node.created as number).toLocaleDateString()
+            : formatDateISO(node.created as number))
+          : "";
         const row = [
-          String(node.id),
-          String(node.name || ""),
-          node.created ? formatDateISO(node.created as number) : "",
-          node.updated ? formatDateISO(node.updated as number) : "",
+          String(i + 1),
+          ((node.name as string) || "(unnamed)").substring(0, 50),
+          node.id as string,
+          created,
         ];
 
         // Add custom field values (excluding core fields already included above)
         if (hasFields) {
           const fields = (node as any).fields || {};
-          for (const fieldName of customFieldNames) {
+          for (const fieldName of tableCustomFieldNames) {
             row.push(String(fields[fieldName] || ""));
           }
         }
 
+        if (hasScore) {
+          row.push((node.score as number).toFixed(3));
+        }
+
         return row;
       });
 
-      formatter.table(headers, rows);
-      formatter.finalize();
-    } catch (error) {
-      console.error(`❌ Query execution error: ${(error as Error).message}`);
-      process.exit(1);
-    } finally {
-      db.close();
+      console.log(table(tableHeaders, tableRows, { align: tableAligns }));
+
+      if (result.hasMore) {
+        console.log(tip(`More results available. Use 'limit' and 'offset' for pagination.`));
+      }
+
+      if (outputOpts.verbose) {
+        console.log(`\nQuery time: ${queryTime.toFixed(1)}ms`);
+      }
+      return;
     }
-  });
 
-  return query;
+    // Other formats: use formatter with dynamic columns
+    // Filter out core field names from custom fields to avoid duplicate columns
+    const coreFieldNames = new Set(["id", "name", "created", "updated"]);
+    const customFieldNames = fieldNames.filter((f) => !coreFieldNames.has(f.toLowerCase()));
+    const headers = ["id", "name", "created", "updated", ...customFieldNames, ...(hasScore ? ["score"] : [])];
+    const rows = result.results.map((node) => {
+      const row = [
+        String(node.id),
+        String(node.name || ""),
+        node.created ? formatDateISO(node.created as number) : "",
+        node.updated ? formatDateISO(node.updated as number) : "",
+      ];
+
+      // Add custom field values (excluding core fields already included above)
+      if (hasFields) {
+        const fields = (node as any).fields || {};
+        for (const fieldName of customFieldNames) {
+          row.push(String(fields[fieldName] || ""));
+        }
+      }
+
+      if (hasScore) {
+        row.push(String(node.score));
+      }
+
+      return row;
+    });
+
+    formatter.table(headers, rows);
+    formatter.finalize();
+  } catch (error) {
+    console.error(`❌ Query execution error: ${(error as Error).message}`);
+    process.exit(1);
+  } finally {
+    db.close();
+    backends.close();
+  }
+}
+
+/**
+ * Print a query explanation for humans
+ */
+function printExplanation(explanation: QueryExplanation): void {
+  console.log(`\n${header(EMOJI.search, "Query plan")}:\n`);
+
+  console.log("AST:");
+  console.log(JSON.stringify(explanation.ast, null, 2));
+
+  const { tag, nodes } = explanation.find;
+  console.log(`\nFind: ${tag === "*" ? "all nodes" : `#${tag} (${nodes} tagged nodes)`}`);
+
+  if (explanation.fields.length > 0) {
+    console.log("\nFields:");
+    console.log(table(
+      ["Field", "Used in", "Kind", "Resolves to", "Values"],
+      explanation.fields.map((f) => [f.field, f.usage, f.kind, f.target, f.values === undefined ? "" : String(f.values)]),
+    ));
+  }
+
+  if (explanation.dates.length > 0) {
+    console.log("\nDates:");
+    console.log(table(
+      ["Field", "Input", "Resolved"],
+      explanation.dates.map((d) => [d.field, d.input, `${d.iso} (${d.resolved})`]),
+    ));
+  }
+
+  console.log("\nSQL:");
+  console.log(`  ${explanation.sql}`);
+  console.log(`\nParams: ${JSON.stringify(explanation.params)}`);
+
+  // Render plan as a tree using parent ids
+  console.log("\nSQLite plan:");
+  const depth = new Map<number, number>();
+  for (const step of explanation.plan) {
+    const level = (depth.get(step.parent) ?? -1) + 1;
+    depth.set(step.id, level);
+    console.log(`  ${"  ".repeat(level)}${step.detail}`);
+  }
+
+  const scans = explanation.plan.filter((s) => /^SCAN /.test(s.detail) && !/USING (COVERING )?INDEX/.test(s.detail));
+  if (scans.length > 0) {
+    console.log(tip(`Full table scans: ${scans.map((s) => s.detail.replace(/^SCAN /, "")).join(", ")}`));
+  }
 }
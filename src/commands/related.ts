@@ -9,10 +9,18 @@
  *   supertag related <nodeId> --direction out    # Outgoing references only
  *   supertag related <nodeId> --types child,reference   # Filter by type
  *   supertag related <nodeId> --depth 2          # Multi-hop traversal
+ *   supertag related <nodeId> --similar          # Nearest neighbours by embedding
+ *   supertag related <nodeId> --similar --tag meeting   # Similar #meeting nodes
  */
 
 import { Command } from 'commander';
+import { existsSync } from 'fs';
 import { GraphTraversalService } from '../services/graph-traversal';
+import { SimilarNodesService } from '../services/similar-nodes';
+import { ConfigManager } from '../config/manager';
+import { resolveWorkspaceContext } from '../config/workspace-resolver';
+import { exitWithError } from '../utils/errors';
+import { StructuredError } from '../utils/structured-errors';
 import {
   resolveDbPath,
   checkDb,
@@ -28,15 +36,25 @@ import { resolveOutputOptions, resolveOutputFormat } from '../utils/output-optio
 import { createFormatter, type OutputFormat } from '../utils/output-formatter';
 import { tsv, EMOJI, header } from '../utils/format';
 import type { StandardOptions } from '../types';
-import type { RelationshipType, RelatedResult, RelatedNode } from '../types/graph';
+import type { RelationshipType, RelatedResult, RelatedNode, SimilarResult } from '../types/graph';
 import { ALL_RELATIONSHIP_TYPES } from '../types/graph';
 
+/** Default --limit of structural traversal */
+const DEFAULT_RELATED_LIMIT = 50;
+
+/** Default --limit of --similar */
+const DEFAULT_SIMILAR_LIMIT = 20;
+
 interface RelatedOptions extends StandardOptions {
   direction?: 'in' | 'out' | 'both';
   types?: string;
   select?: string;
   format?: OutputFormat;
   header?: boolean;
+  similar?: boolean;
+  tag?: string;
+  minScore?: string;
+  structural?: boolean;
 }
 
 /**
@@ -59,9 +77,13 @@ export function createRelatedCommand(): Command {
       'child,parent,reference,field'
     )
     .option('--depth <n>', 'Maximum traversal depth (0-5, default: 1)', '1')
-    .option('--select <fields>', 'Select specific fields to output (comma-separated)');
+    .option('--select <fields>', 'Select specific fields to output (comma-separated)')
+    .option('--similar', 'Find nearest neighbours by embedding, merged with structural neighbours')
+    .option('--tag <tagname>', 'With --similar: only nodes with this supertag')
+    .option('--min-score <threshold>', 'With --similar: minimum similarity (0-1)')
+    .option('--no-structural', 'With --similar: skip structural neighbours');
 
-  addStandardOptions(cmd, { defaultLimit: '50' });
+  addStandardOptions(cmd, { defaultLimit: String(DEFAULT_RELATED_LIMIT) });
 
   cmd.action(async (nodeId: string, options: RelatedOptions) => {
     const dbPath = resolveDbPath(options);
@@ -74,6 +96,11 @@ export function createRelatedCommand(): Command {
     const selectFields = parseSelectOption(options.select);
     const projection = parseSelectPaths(selectFields);
 
+    if (options.similar) {
+      await handleSimilar(nodeId, options, resolveLimit(cmd, options), dbPath, format, projection, selectFields);
+      return;
+    }
+
     // Parse direction
     const direction = validateDirection(options.direction);
 
@@ -84,7 +111,7 @@ export function createRelatedCommand(): Command {
     const depth = Math.min(5, Math.max(0, parseInt(String(options.depth || '1'), 10)));
 
     // Parse limit
-    const limit = Math.min(100, parseInt(String(options.limit || '50'), 10));
+    const limit = resolveLimit(cmd, options);
 
     const service = new GraphTraversalService(dbPath);
 
@@ -113,6 +140,65 @@ export function createRelatedCommand(): Command {
   return cmd;
 }
 
+/**
+ * --limit as given, or the default of the selected mode (the option itself
+ * defaults to the structural limit)
+ */
+export function resolveLimit(cmd: Command, options: RelatedOptions): number {
+  if (options.similar && cmd.getOptionValueSource('limit') === 'default') {
+    return DEFAULT_SIMILAR_LIMIT;
+  }
+  return Math.min(100, parseInt(String(options.limit), 10));
+}
+
+/**
+ * Handle --similar: nearest neighbours of the node's embedding
+ */
+async function handleSimilar(
+  nodeId: string,
+  options: RelatedOptions,
+  limit: number,
+  dbPath: string,
+  format: OutputFormat,
+  projection: ReturnType<typeof parseSelectPaths>,
+  selectFields: string[] | undefined
+): Promise<void> {
+  const workspace = resolveWorkspaceContext({ workspace: options.workspace, requireDatabase: false });
+  const lanceDbPath = workspace.dbPath.replace(/\.db$/, '.lance');
+  if (!existsSync(lanceDbPath)) {
+    exitWithError(new StructuredError('NODE_NOT_FOUND', `No embeddings found for workspace "${workspace.alias}"`, {
+      suggestion: 'Generate embeddings first: supertag embed generate',
+    }));
+  }
+
+  const minSimilarity = options.minScore !== undefined ? parseFloat(options.minScore) : undefined;
+  if (minSimilarity !== undefined && (isNaN(minSimilarity) || minSimilarity < 0 || minSimilarity > 1)) {
+    exitWithError(new StructuredError('INVALID_PARAMETER', `--min-score must be between 0 and 1, got: ${options.minScore}`));
+  }
+
+  const { TanaEmbeddingService } = await import('../embeddings/tana-embedding-service');
+  const embeddingConfig = ConfigManager.getInstance().getEmbeddingConfig(workspace.alias);
+  const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
+
+  try {
+    const result = await new SimilarNodesService(dbPath, embeddingService).findSimilar(
+      {
+        nodeId,
+        limit,
+        tag: options.tag,
+        minSimilarity,
+        includeStructural: options.structural !== false,
+      },
+      workspace.alias
+    );
+    outputSimilarResult(result, format, projection, selectFields, options.header);
+  } catch (error) {
+    exitWithError(error);
+  } finally {
+    embeddingService.close();
+  }
+}
+
 /**
  * Validate and normalize direction parameter
  */
@@ -192,6 +278,69 @@ function outputResult(
   formatter.finalize();
 }
 
+/**
+ * Output a similarity lookup in the specified format
+ */
+function outputSimilarResult(
+  result: SimilarResult,
+  format: OutputFormat,
+  projection: ReturnType<typeof parseSelectPaths>,
+  selectFields: string[] | undefined,
+  noHeader?: boolean
+): void {
+  if (format === 'table') {
+    outputSimilarTableFormat(result);
+    return;
+  }
+
+  if (selectFields && selectFields.length > 0) {
+    if (format === 'json' || format === 'minimal' || format === 'jsonl') {
+      console.log(formatJsonOutput(applyProjection(result, projection)));
+      return;
+    }
+  }
+
+  const formatter = createFormatter({ format, noHeader });
+  const headers = ['id', 'name', 'similarity', 'type', 'direction', 'tags'];
+  const rows = result.similar.map((node) => [
+    node.id,
+    node.name,
+    node.similarity === null ? '' : node.similarity.toFixed(3),
+    node.relationship?.type ?? '',
+    node.relationship?.direction ?? '',
+    node.tags?.join(', ') || '',
+  ]);
+
+  formatter.table(headers, rows);
+  formatter.finalize();
+}
+
+/**
+ * Output a similarity lookup in pretty table format
+ */
+function outputSimilarTableFormat(result: SimilarResult): void {
+  const { sourceNode, similar, unlinked } = result;
+
+  console.log(`\n${header(EMOJI.search, `Similar to: ${sourceNode.name || sourceNode.id}`)}:\n`);
+
+  if (similar.length === 0) {
+    console.log('  No similar nodes found.');
+    return;
+  }
+
+  for (const node of similar) {
+    const tags = node.tags?.length ? ` [${node.tags.join(', ')}]` : '';
+    const score = node.similarity === null ? '     ' : `${(node.similarity * 100).toFixed(1)}%`;
+    const link = node.relationship
+      ? `${node.relationship.direction === 'out' ? '→' : '←'} ${node.relationship.type}`
+      : 'not linked';
+    console.log(`  ${score}  ${node.name || node.id}${tags}`);
+    console.log(`         ${node.id} · ${link}`);
+  }
+
+  console.log(`\nTotal: ${similar.length} (${unlinked} similar but not linked)`);
+}
+
 /**
  * Output in pretty table format
  */
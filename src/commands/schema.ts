@@ -1,6 +1,7 @@
 /**
  * Schema Command
- * Manage Tana schema registry (sync, list, show supertags)
+ * Manage Tana schema registry (sync, list, show supertags, diff against a baseline,
+ * history of stored schema versions)
  *
  * Supports multi-workspace configuration with per-workspace schema caches.
  * Uses Commander.js subcommands for consistent CLI pattern.
@@ -12,13 +13,26 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { Database } from 'bun:sqlite';
 import { SchemaRegistry } from '../schema';
 import { UnifiedSchemaService } from '../services/unified-schema-service';
+import {
+  createSchemaSnapshot,
+  diffSchemaSnapshots,
+  formatSchemaChange,
+  loadSchemaBaseline,
+  saveSchemaSnapshot,
+  type SchemaChange,
+} from '../services/schema-diff';
+import { getSupertagHistory } from '../services/schema-history';
+import { listSchemaVersions } from '../db/schema-versions';
 import {
   DEFAULT_EXPORT_DIR,
   TANA_CACHE_DIR,
   SCHEMA_CACHE_FILE,
   ensureWorkspaceDir,
+  getWorkspaceSchemaBaselinePath,
 } from '../config/paths';
 import { resolveWorkspaceContext } from '../config/workspace-resolver';
+import { withDatabase } from '../db/with-database';
+import { exitWithError } from '../utils/errors';
 
 /**
  * Schema command options
@@ -28,6 +42,10 @@ export interface SchemaOptions {
   verbose?: boolean;
   format?: 'table' | 'json' | 'names';
   workspace?: string;
+  /** diff: exit with code 1 if the schema changed */
+  check?: boolean;
+  /** diff: save the current schema as the baseline */
+  save?: boolean;
 }
 
 /**
@@ -196,14 +214,22 @@ export async function schemaCommand(
     case 'search':
       await searchCommand(arg, options);
       break;
+    case 'diff':
+      await diffCommand(arg, options);
+      break;
+    case 'history':
+      await historyCommand(arg, options);
+      break;
     default:
-      console.error('Usage: supertag schema <sync|list|show|search> [args]');
+      console.error('Usage: supertag schema <sync|list|show|search|diff|history> [args]');
       console.error('');
       console.error('Subcommands:');
       console.error('  sync [path]     Sync schema from Tana export');
       console.error('  list            List all supertags');
       console.error('  show <name>     Show supertag fields');
       console.error('  search <query>  Search supertags by name');
+      console.error('  diff [baseline] Compare with a saved baseline or export');
+      console.error('  history [tag]   Schema versions, or changes of a supertag');
       console.error('');
       console.error('Options:');
       console.error('  --format <fmt>  Output format: table, json, names');
@@ -406,6 +432,126 @@ async function searchCommand(query: string | undefined, options: SchemaOptions):
   });
 }
 
+/**
+ * One change with its marker: + added, - removed, ~ changed
+ */
+function formatChangeLine(change: SchemaChange): string {
+  const marker = change.type.endsWith('-added') ? '+' : change.type.endsWith('-removed') ? '-' : '~';
+  return `${marker} ${formatSchemaChange(change)}${change.breaking ? '  [breaking]' : ''}`;
+}
+
+/**
+ * Format a Unix ms timestamp as "YYYY-MM-DD HH:MM" (UTC)
+ */
+function formatVersionDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Diff subcommand
+ *
+ * Compares the indexed schema with a baseline (default: the workspace's
+ * saved baseline). With --save, records the current schema as baseline.
+ */
+async function diffCommand(baselinePath: string | undefined, options: SchemaOptions): Promise<void> {
+  try {
+    const ws = resolveWorkspaceContext({ workspace: options.workspace });
+    const path = baselinePath ?? getWorkspaceSchemaBaselinePath(ws.alias);
+    const current = await withDatabase({ dbPath: ws.dbPath, readonly: true }, (ctx) =>
+      createSchemaSnapshot(ctx.db),
+    );
+
+    if (options.save) {
+      saveSchemaSnapshot(current, path);
+      console.log(`✅ Saved schema baseline (${current.supertags.length} supertags)`);
+      console.log(`   Baseline: ${path}`);
+      return;
+    }
+
+    const baseline = await loadSchemaBaseline(path);
+    const changes = diffSchemaSnapshots(baseline, current);
+    const breaking = changes.filter(c => c.breaking).length;
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        baseline: { path, source: baseline.source, createdAt: baseline.createdAt },
+        changes,
+        breaking,
+      }, null, 2));
+    } else if (changes.length === 0) {
+      console.log(`✅ No schema changes since baseline (${baseline.createdAt})`);
+    } else {
+      console.log(`Schema changes since baseline (${baseline.createdAt}):\n`);
+      for (const change of changes) {
+        console.log(`  ${formatChangeLine(change)}`);
+      }
+      console.log('');
+      console.log(`${changes.length} change${changes.length === 1 ? '' : 's'} (${breaking} breaking)`);
+    }
+
+    if (options.check && changes.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
+/**
+ * History subcommand
+ *
+ * Without a tag, lists the stored schema versions (one per sync that
+ * changed the schema); with a tag, its changes version by version.
+ */
+async function historyCommand(tag: string | undefined, options: SchemaOptions): Promise<void> {
+  try {
+    const ws = resolveWorkspaceContext({ workspace: options.workspace });
+    await withDatabase({ dbPath: ws.dbPath, readonly: true }, async (ctx) => {
+      if (!tag) {
+        const versions = listSchemaVersions(ctx.db);
+        if (options.format === 'json') {
+          console.log(JSON.stringify(versions.map(v => ({ ...v, createdAt: new Date(v.createdAt).toISOString() })), null, 2));
+          return;
+        }
+        if (versions.length === 0) {
+          console.log('No schema versions stored yet. Each sync stores one when the schema changed.');
+          return;
+        }
+        console.log(`${versions.length} schema version${versions.length === 1 ? '' : 's'}:\n`);
+        for (const v of versions) {
+          console.log(`  v${v.version}  ${formatVersionDate(v.createdAt)}  ${v.source}`);
+        }
+        return;
+      }
+
+      const history = await getSupertagHistory(ctx.db, tag);
+      if (options.format === 'json') {
+        console.log(JSON.stringify({
+          ...history,
+          entries: history.entries.map(e => ({
+            ...e,
+            version: { ...e.version, createdAt: new Date(e.version.createdAt).toISOString() },
+          })),
+        }, null, 2));
+        return;
+      }
+
+      console.log(`Schema history of #${history.name} (${history.tagId}):\n`);
+      for (const entry of history.entries) {
+        const note = entry.initial ? '  (history starts)' : '';
+        console.log(`v${entry.version.version}  ${formatVersionDate(entry.version.createdAt)}${note}`);
+        for (const change of entry.changes) {
+          console.log(`  ${formatChangeLine(change)}`);
+        }
+        console.log('');
+      }
+      console.log(`Use --at <date> with "tags show" or "codegen generate" to work with an earlier schema.`);
+    });
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
 /**
  * Create schema command with Commander subcommands
  * Modern pattern following CLI Harmonization
@@ -469,5 +615,37 @@ export function createSchemaCommand(): Command {
       });
     });
 
+  // schema diff [baseline]
+  schema
+    .command('diff')
+    .description('Report supertag and field changes since a baseline (schema drift)')
+    .argument('[baseline]', 'Saved snapshot or Tana export JSON (default: workspace baseline)')
+    .option('-w, --workspace <alias>', 'Workspace alias or nodeid')
+    .option('--save', 'Save the current schema as the baseline instead of comparing')
+    .option('--check', 'Exit with code 1 if the schema changed (for CI)')
+    .option('--format <fmt>', 'Output format: table, json', 'table')
+    .action(async (baseline: string | undefined, opts: { workspace?: string; save?: boolean; check?: boolean; format?: 'table' | 'json' }) => {
+      await diffCommand(baseline, {
+        workspace: opts.workspace,
+        save: opts.save,
+        check: opts.check,
+        format: opts.format,
+      });
+    });
+
+  // schema history [tag]
+  schema
+    .command('history')
+    .description('List stored schema versions, or show when fields of a supertag changed')
+    .argument('[tag]', 'Supertag name or ID')
+    .option('-w, --workspace <alias>', 'Workspace alias or nodeid')
+    .option('--format <fmt>', 'Output format: table, json', 'table')
+    .action(async (tag: string | undefined, opts: { workspace?: string; format?: 'table' | 'json' }) => {
+      await historyCommand(tag, {
+        workspace: opts.workspace,
+        format: opts.format,
+      });
+    });
+
   return schema;
 }
@@ -4,11 +4,15 @@
  * Consolidates all search operations into a single command:
  * - FTS (default): Full-text search on node names
  * - Semantic (--semantic): Vector similarity search
+ * - Hybrid (--hybrid): FTS + semantic merged with reciprocal-rank fusion
+ * - Re-ranked (--rerank): semantic with a second scoring stage
  * - Tagged (--tag): Find nodes by supertag
  *
  * Usage:
  *   supertag search <query>                    # FTS search
  *   supertag search <query> --semantic         # Semantic search
+ *   supertag search <query> --hybrid           # FTS + semantic fused
+ *   supertag search <query> --rerank           # Semantic, re-ranked
  *   supertag search --tag <tagname>            # Find by tag
  *   supertag search <query> --show             # Show full content
  *   supertag search <query> --show --depth 2   # Traverse children
@@ -43,6 +47,9 @@ import {
   tip,
 } from "../utils/format";
 import { resolveOutputOptions, resolveOutputFormat } from "../utils/output-options";
+import { hybridSearch, DEFAULT_RRF_K } from "../services/hybrid-search";
+import { formatChunkPosition, getChunksById, toChunkMatch } from "../embeddings/chunking";
+import { getRerankFetchLimit, parseRerankStrategy, rerankResults } from "../embeddings/rerank";
 import { createFormatter, type OutputFormat } from "../utils/output-formatter";
 import {
   getNodeContents,
@@ -54,6 +61,10 @@ import type { StandardOptions, SearchType } from "../types";
 
 interface SearchOptions extends StandardOptions {
   semantic?: boolean;
+  hybrid?: boolean;
+  ftsWeight?: string;
+  semanticWeight?: string;
+  rrfK?: string;
   tag?: string;
   field?: string;
   ancestor?: boolean;
@@ -67,6 +78,8 @@ interface SearchOptions extends StandardOptions {
   header?: boolean;
   includeDescendants?: boolean;
   minScore?: string;
+  rerank?: string | boolean;
+  rerankCandidates?: string;
 }
 
 /**
@@ -149,7 +162,13 @@ export function createSearchCommand(): Command {
     .description("Search across your Tana data (FTS, semantic, or by tag)")
     .argument("[query]", "Search query (required for FTS/semantic)")
     .option("--semantic", "Use semantic (vector) search instead of FTS")
+    .option("--hybrid", "Run FTS and semantic search and merge results (reciprocal-rank fusion)")
+    .option("--fts-weight <n>", "Weight of FTS ranks in hybrid search (default: 1)")
+    .option("--semantic-weight <n>", "Weight of semantic ranks in hybrid search (default: 1)")
+    .option("--rrf-k <n>", `Rank damping constant for hybrid search (default: ${DEFAULT_RRF_K})`)
     .option("--min-score <threshold>", "Minimum similarity threshold for semantic search (0-1 or 0-100)")
+    .option("--rerank [strategy]", "Re-rank semantic results: heuristic (default) or cross-encoder; implies --semantic")
+    .option("--rerank-candidates <n>", "Number of top semantic hits to re-rank (default: 50)")
     .option("-t, --tag <tagname>", "Find nodes with a specific supertag")
     .option("--include-descendants", "Include nodes with supertags inheriting from --tag")
     .option("-f, --field <filter>", "Filter by field value (e.g., 'Location=Zurich' or 'Location~Zur')")
@@ -171,7 +190,9 @@ export function createSearchCommand(): Command {
 
   search.action(async (query: string | undefined, options: SearchOptions) => {
     // Determine search type
-    const searchType: SearchType = options.semantic
+    const searchType: SearchType = options.hybrid
+      ? "hybrid"
+      : options.semantic || options.rerank
       ? "semantic"
       : options.tag
         ? "tagged"
@@ -190,6 +211,12 @@ export function createSearchCommand(): Command {
       process.exit(1);
     }
 
+    if (searchType === "hybrid" && !query) {
+      console.error("❌ Query is required for hybrid search");
+      console.error("   Use: supertag search <query> --hybrid");
+      process.exit(1);
+    }
+
     if (searchType === "tagged" && !options.tag) {
       console.error("❌ Tag name is required for tag search");
       console.error("   Use: supertag search --tag <tagname>");
@@ -210,6 +237,9 @@ export function createSearchCommand(): Command {
       case "semantic":
         await handleSemanticSearch(query!, options, dbPath);
         break;
+      case "hybrid":
+        await handleHybridSearch(query!, options, dbPath);
+        break;
       case "tagged":
         await handleTaggedSearch(options.tag!, query, options, dbPath);  // Spec 089: Pass query
         break;
@@ -412,12 +442,12 @@ async function handleSemanticSearch(
   options: SearchOptions,
   dbPath: string
 ): Promise<void> {
-  const configManager = ConfigManager.getInstance();
-  const embeddingConfig = configManager.getEmbeddingConfig();
   const wsContext = resolveWorkspaceContext({
     workspace: options.workspace,
     requireDatabase: false, // Check LanceDB separately below
   });
+  const configManager = ConfigManager.getInstance();
+  const embeddingConfig = configManager.getEmbeddingConfig(wsContext.alias);
   const outputOpts = resolveOutputOptions(options);
   const format = resolveOutputFormat(options);
   const startTime = performance.now();
@@ -427,6 +457,23 @@ async function handleSemanticSearch(
   const includeAncestor = options.ancestor !== false;
   const minScore = parseMinScore(options.minScore);
 
+  // Re-ranking: --rerank without a value uses the configured strategy, else heuristic
+  const rerankConfig = { ...embeddingConfig.rerank };
+  try {
+    if (typeof options.rerank === "string") {
+      rerankConfig.strategy = parseRerankStrategy(options.rerank);
+    } else if (options.rerank) {
+      rerankConfig.strategy = rerankConfig.strategy && rerankConfig.strategy !== "none" ? rerankConfig.strategy : "heuristic";
+    }
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+  if (options.rerankCandidates) {
+    rerankConfig.candidates = parseInt(options.rerankCandidates);
+  }
+  const rerankStrategy = rerankConfig.strategy ?? "none";
+
   // Check if LanceDB exists
   const lanceDbPath = wsContext.dbPath.replace(/\.db$/, ".lance");
   if (!existsSync(lanceDbPath)) {
@@ -440,10 +487,7 @@ async function handleSemanticSearch(
   const { TanaEmbeddingService } = await import("../embeddings/tana-embedding-service");
   const { filterAndDeduplicateResults, getOverfetchLimit, filterByTag } = await import("../embeddings/search-filter");
 
-  const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-    model: embeddingConfig.model,
-    endpoint: embeddingConfig.endpoint,
-  });
+  const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
   try {
     // Show progress indicator for non-machine formats
@@ -454,7 +498,11 @@ async function handleSemanticSearch(
 
     // Over-fetch for filtering (more aggressive if tag filter is specified)
     const baseOverfetch = getOverfetchLimit(limit);
-    const overfetchLimit = options.tag ? baseOverfetch * 3 : baseOverfetch;
+    const overfetchLimit = getRerankFetchLimit(
+      options.tag ? baseOverfetch * 3 : baseOverfetch,
+      rerankStrategy,
+      rerankConfig.candidates
+    );
     const rawResults = await embeddingService.search(query, overfetchLimit);
 
     await withDatabase({ dbPath, readonly: true }, async (ctx) => {
@@ -470,8 +518,19 @@ async function handleSemanticSearch(
       // Apply min-score filter after tag filtering
       const scoreFilteredResults = filterByMinScore(tagFilteredResults, minScore);
 
+      // Re-rank top candidates (no-op for strategy "none")
+      const chunks = getChunksById(db, scoreFilteredResults.flatMap((r) => (r.chunkId ? [r.chunkId] : [])));
+      const rerankedResults = await rerankResults(db, query, scoreFilteredResults, {
+        ...rerankConfig,
+        strategy: rerankStrategy,
+        textOf: (r) => {
+          const chunkId = (r as { chunkId?: string }).chunkId;
+          return (chunkId && chunks.get(chunkId)?.text) || r.name || "";
+        },
+      });
+
       // Now apply limit
-      const results = scoreFilteredResults.slice(0, limit);
+      const results = rerankedResults.slice(0, limit);
       const searchTime = performance.now() - startTime;
 
       if (results.length === 0) {
@@ -495,6 +554,12 @@ async function handleSemanticSearch(
 
           console.log(`━━━ Result ${i + 1} ━━━  ${similarity}% similar`);
 
+          const chunk = r.chunkId ? chunks.get(r.chunkId) : undefined;
+          if (chunk) {
+            console.log(`🎯 Best match (${formatChunkPosition(chunk)}):`);
+            console.log(chunk.text.split("\n").map((line) => `   ${line}`).join("\n"));
+          }
+
           if (includeAncestor) {
             const ancestorResult = findMeaningfulAncestor(db, r.nodeId);
             if (ancestorResult && ancestorResult.depth > 0) {
@@ -537,6 +602,15 @@ async function handleSemanticSearch(
           ancestor: ancestorName,
         };
 
+        if (r.rerankScore !== undefined) {
+          item.rerankScore = r.rerankScore.toFixed(3);
+        }
+
+        const chunk = r.chunkId ? chunks.get(r.chunkId) : undefined;
+        if (chunk) {
+          item.chunk = toChunkMatch(chunk);
+        }
+
         // Add full content if --show (for JSON formats)
         if (options.show) {
           if (depth > 0) {
@@ -572,7 +646,8 @@ async function handleSemanticSearch(
         console.log("");
 
         // Build table rows
-        const tableHeaders = ["#", "Similarity", "Name", "ID", "Tags", "Ancestor"];
+        const reranked = rerankStrategy !== "none";
+        const tableHeaders = ["#", reranked ? "Score" : "Similarity", "Name", "ID", "Tags", "Ancestor"];
         const tableRows = results.map((r, i) => {
           const similarity = (r.similarity * 100).toFixed(1) + "%";
           const tagStr = r.tags ? `#${r.tags.join(" #")}` : "";
@@ -588,7 +663,7 @@ async function handleSemanticSearch(
 
           return [
             String(i + 1),
-            similarity,
+            reranked && r.rerankScore !== undefined ? r.rerankScore.toFixed(3) : similarity,
             r.name.substring(0, 40),
             r.nodeId,
             tagStr.substring(0, 30),
@@ -640,6 +715,167 @@ async function handleSemanticSearch(
   }
 }
 
+/**
+ * Parse an optional numeric CLI option (NaN is rejected by hybrid search validation)
+ */
+function parseNumberOption(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : parseFloat(value);
+}
+
+/**
+ * Handle hybrid (FTS + semantic) search
+ */
+async function handleHybridSearch(
+  query: string,
+  options: SearchOptions,
+  dbPath: string
+): Promise<void> {
+  const outputOpts = resolveOutputOptions(options);
+  const format = resolveOutputFormat(options);
+  const startTime = performance.now();
+
+  const limit = options.limit ? parseInt(String(options.limit)) : 20;
+  const depth = options.depth ? parseInt(String(options.depth)) : 0;
+  const includeAncestor = options.ancestor !== false && !options.raw;
+
+  let results;
+  try {
+    results = await hybridSearch(dbPath, query, {
+      limit,
+      weights: {
+        ...(options.ftsWeight !== undefined && { fts: parseNumberOption(options.ftsWeight) }),
+        ...(options.semanticWeight !== undefined && { semantic: parseNumberOption(options.semanticWeight) }),
+      },
+      k: parseNumberOption(options.rrfK),
+      minSimilarity: parseMinScore(options.minScore),
+      ...parseDateRangeOptions(options),
+      workspace: resolveWorkspaceContext({ workspace: options.workspace, requireDatabase: false }).alias,
+    });
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+  const searchTime = performance.now() - startTime;
+
+  await withDatabase({ dbPath, readonly: true }, (ctx) => {
+    const { db } = ctx;
+
+    const ancestorOf = (id: string, withTags: boolean): string => {
+      if (!includeAncestor) return "";
+      const ancestorResult = findMeaningfulAncestor(db, id);
+      if (!ancestorResult || ancestorResult.depth === 0) return "";
+      if (!withTags) return ancestorResult.ancestor.name;
+      const ancestorTags = ancestorResult.ancestor.tags.map(t => `#${t}`).join(" ");
+      return `${ancestorResult.ancestor.name} ${ancestorTags}`;
+    };
+
+    // Handle --show separately for table format (rich output)
+    if (options.show && format === "table") {
+      console.log(`\n🔍 Hybrid results for "${query}" (${results.length}):\n`);
+      results.forEach((r, i) => {
+        console.log(`━━━ Result ${i + 1} ━━━  score ${r.score.toFixed(4)}`);
+        const ancestor = ancestorOf(r.id, true);
+        if (ancestor) {
+          console.log(`📂 Context: ${ancestor}`);
+        }
+        if (depth > 0) {
+          const output = formatNodeWithDepth(db, r.id, 0, depth, "");
+          if (output) {
+            console.log(output);
+          }
+        } else {
+          const contents = getNodeContents(db, r.id);
+          if (contents) {
+            console.log(formatNodeOutput(contents));
+          }
+        }
+        console.log();
+      });
+      return;
+    }
+
+    // Build enriched data for all formats
+    const enriched = results.map((r) => {
+      const item: Record<string, unknown> = {
+        id: r.id,
+        name: r.name,
+        tags: r.tags.join(", "),
+        score: r.score.toFixed(4),
+        ftsRank: r.ftsRank ?? "",
+        semanticRank: r.semanticRank ?? "",
+        similarity: r.similarity !== undefined ? r.similarity.toFixed(3) : "",
+        ancestor: ancestorOf(r.id, false),
+      };
+
+      // Add full content if --show (for JSON formats)
+      if (options.show) {
+        const contents = depth > 0
+          ? getNodeContentsWithDepth(db, r.id, 0, depth)
+          : getNodeContents(db, r.id);
+        if (contents) {
+          item.contents = contents;
+        }
+      }
+
+      return item;
+    });
+
+    // Table format: use actual table output
+    if (format === "table") {
+      const headerText = outputOpts.verbose
+        ? `Hybrid results for "${query}" (${results.length}) in ${searchTime.toFixed(0)}ms`
+        : `Hybrid results for "${query}" (${results.length})`;
+      console.log(`\n${header(EMOJI.search, headerText)}:\n`);
+
+      const tableHeaders = ["#", "Score", "FTS", "Sem", "Name", "ID", "Tags", "Ancestor"];
+      const tableRows = results.map((r, i) => [
+        String(i + 1),
+        r.score.toFixed(4),
+        r.ftsRank !== undefined ? String(r.ftsRank) : "-",
+        r.semanticRank !== undefined ? String(r.semanticRank) : "-",
+        (r.name || "(unnamed)").substring(0, 40),
+        r.id,
+        (r.tags.length > 0 ? `#${r.tags.join(" #")}` : "").substring(0, 30),
+        ancestorOf(r.id, true).substring(0, 40),
+      ]);
+
+      console.log(table(tableHeaders, tableRows, {
+        align: ["right", "right", "right", "right", "left", "left", "left", "left"],
+      }));
+      if (outputOpts.verbose) {
+        console.log(`\nQuery time: ${searchTime.toFixed(1)}ms`);
+      }
+      console.log(tip("FTS/Sem columns show each retriever's rank; tune with --fts-weight/--semantic-weight"));
+      return;
+    }
+
+    // Apply field projection if --select is specified
+    const selectFields = parseSelectOption(options.select);
+    if (selectFields && selectFields.length > 0) {
+      if (format === "json" || format === "minimal" || format === "jsonl") {
+        const projection = parseSelectPaths(selectFields);
+        const projectedResults = applyProjectionToArray(enriched, projection);
+        console.log(formatJsonOutput(projectedResults));
+        return;
+      }
+    }
+
+    const formatter = createFormatter({
+      format,
+      noHeader: options.header === false,
+      humanDates: outputOpts.humanDates,
+      verbose: outputOpts.verbose,
+    });
+    const headers = ["id", "name", "tags", "score", "ftsRank", "semanticRank", "similarity", "ancestor"];
+    formatter.table(headers, enriched.map((item) => headers.map((h) => String(item[h]))));
+    formatter.finalize();
+
+    if (outputOpts.verbose) {
+      console.error(`# Query time: ${searchTime.toFixed(1)}ms, Results: ${results.length}`);
+    }
+  });
+}
+
 /**
  * Parse field filter string (e.g., "Location=Zurich" or "Location~Zur")
  * Returns { fieldName, operator, value } or null if invalid
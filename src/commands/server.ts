@@ -18,7 +18,10 @@ import {
   header,
 } from "../utils/format";
 import { resolveOutputOptions } from "../utils/output-options";
-import { addStandardOptions } from "./helpers";
+import { addStandardOptions, formatJsonOutput } from "./helpers";
+import { ApiKeyStore, parseApiKeyScope } from "../server/api-keys";
+import { AuditLog, SERVER_AUDIT_LOG_FILE } from "../server/audit-log";
+import { exitWithError } from "../utils/errors";
 
 const DEFAULT_PORT = 3000;
 const DEFAULT_HOST = "localhost";
@@ -139,12 +142,21 @@ export function registerServerCommands(program: Command): void {
         process.exit(0);
       }
 
+      const apiKeys = new ApiKeyStore();
+      const authRequired = apiKeys.hasActiveKeys();
+
       const workspaceList = Array.from(workspacesMap.keys()).join(", ");
       console.log(`🚀 Starting Tana webhook server...`);
       console.log(`   Workspaces: ${workspaceList}`);
       console.log(`   Default: ${defaultWorkspace}`);
       console.log(`   Host: ${host}`);
       console.log(`   Port: ${port}`);
+      console.log(`   Auth: ${authRequired ? "API key required" : "none (no API keys)"}`);
+      console.log(`   Audit log: ${SERVER_AUDIT_LOG_FILE}`);
+      if (!authRequired && !["localhost", "127.0.0.1", "::1"].includes(host)) {
+        console.warn(`⚠️  Listening on ${host} without API keys: anyone who can reach the port can query your workspaces`);
+        console.warn(`   Create a key with: supertag server keys create --name <name>`);
+      }
 
       // Dynamic import to avoid loading resona/LanceDB at startup
       const { TanaWebhookServer } = await import("../server/tana-webhook-server");
@@ -153,6 +165,8 @@ export function registerServerCommands(program: Command): void {
         host,
         workspaces: workspacesMap,
         defaultWorkspace,
+        apiKeys,
+        auditLog: new AuditLog(),
       });
 
       try {
@@ -169,6 +183,8 @@ export function registerServerCommands(program: Command): void {
         console.log(`   POST /refs                   - Reference graph`);
         console.log(`   POST /semantic-search        - Semantic/vector search`);
         console.log(`   GET  /embed-stats            - Embedding statistics`);
+        console.log(`   POST /graphql                - GraphQL query (typed per supertag)`);
+        console.log(`   GET  /events                 - Live node changes (Server-Sent Events)`);
         console.log(`\n   Press Ctrl+C to stop`);
 
         writeFileSync(PID_FILE, process.pid.toString());
@@ -317,4 +333,93 @@ export function registerServerCommands(program: Command): void {
         process.exit(1);
       }
     });
+
+  const keys = server
+    .command("keys")
+    .description("Manage API keys for the webhook server");
+
+  keys
+    .command("create")
+    .description("Create an API key (the key is shown once)")
+    .requiredOption("--name <name>", "Key name (e.g. the person or job using it)")
+    .option("--scope <scope>", "Scope: read or write (write includes read)", "read")
+    .option("-w, --workspace <alias...>", "Restrict the key to these workspaces (default: all)")
+    .option("--json", "Output as JSON")
+    .action((options: { name: string; scope: string; workspace?: string[]; json?: boolean }) => {
+      try {
+        const { key, token } = new ApiKeyStore().create({
+          name: options.name,
+          scope: parseApiKeyScope(options.scope),
+          workspaces: options.workspace,
+        });
+        if (options.json) {
+          console.log(formatJsonOutput({ id: key.id, name: key.name, scope: key.scope, workspaces: key.workspaces, key: token }));
+          return;
+        }
+        console.log(`✅ Created API key "${key.name}" (${key.id})`);
+        console.log(`   Scope: ${key.scope}`);
+        console.log(`   Workspaces: ${key.workspaces.length > 0 ? key.workspaces.join(", ") : "all"}`);
+        console.log("");
+        console.log(`   ${token}`);
+        console.log("");
+        console.log("   Store it now, it cannot be shown again. Send it as: Authorization: Bearer <key>");
+        console.log("   A running server requires keys for every request from now on.");
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  keys
+    .command("list")
+    .description("List API keys")
+    .option("--all", "Include revoked keys")
+    .option("--json", "Output as JSON")
+    .action((options: { all?: boolean; json?: boolean }) => {
+      const list = new ApiKeyStore()
+        .list()
+        .filter((k) => options.all || !k.revokedAt)
+        .map(({ hash: _hash, ...key }) => key);
+      if (options.json) {
+        console.log(formatJsonOutput(list));
+        return;
+      }
+      if (list.length === 0) {
+        console.log("No API keys. The server accepts requests without authentication.");
+        console.log("Create one with: supertag server keys create --name <name>");
+        return;
+      }
+      for (const key of list) {
+        const workspaces = key.workspaces.length > 0 ? key.workspaces.join(",") : "*";
+        const status = key.revokedAt ? `revoked ${key.revokedAt}` : "active";
+        console.log(tsv(key.id, key.name, key.scope, workspaces, key.createdAt, status));
+      }
+    });
+
+  keys
+    .command("revoke <id>")
+    .description("Revoke an API key by ID or name (takes effect immediately)")
+    .action((id: string) => {
+      try {
+        const key = new ApiKeyStore().revoke(id);
+        console.log(`✅ Revoked API key "${key.name}" (${key.id})`);
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  server
+    .command("audit")
+    .description("Show the most recent requests from the audit log")
+    .option("-l, --limit <n>", "Number of entries", "50")
+    .option("--json", "Output as JSON")
+    .action((options: { limit: string; json?: boolean }) => {
+      const entries = new AuditLog().tail(parseInt(options.limit, 10) || 50);
+      if (options.json) {
+        console.log(formatJsonOutput(entries));
+        return;
+      }
+      for (const e of entries) {
+        console.log(tsv(e.timestamp, e.status, e.method, e.path, e.workspace ?? "", e.keyName ?? "-", e.ip, `${e.durationMs}ms`, e.denied ?? ""));
+      }
+    });
 }
@@ -102,7 +102,7 @@ export function createStatsCommand(): Command {
     if (showEmbed) {
       const lanceDbPath = dbPath.replace(/\.db$/, ".lance");
       const configManager = ConfigManager.getInstance();
-      const embeddingConfig = configManager.getEmbeddingConfig();
+      const embeddingConfig = configManager.getEmbeddingConfig(wsContext.alias);
 
       if (!existsSync(lanceDbPath)) {
         results.embeddings = { status: "not_generated", totalEmbeddings: 0 };
@@ -122,10 +122,7 @@ export function createStatsCommand(): Command {
         }
       } else {
         const { TanaEmbeddingService } = await import("../embeddings/tana-embedding-service");
-        const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-          model: embeddingConfig.model,
-          endpoint: embeddingConfig.endpoint,
-        });
+        const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
         try {
           const embedStats = await embeddingService.getStats();
@@ -150,8 +147,8 @@ export function createStatsCommand(): Command {
 
           if (!options.json) {
             if (outputOpts.pretty) {
-              const { getModelDimensionsFromResona } = await import("../embeddings/embed-config-new");
-              const dimensions = getModelDimensionsFromResona(embeddingConfig.model);
+              const { getEmbeddingDimensions } = await import("../embeddings/embed-config-new");
+              const dimensions = getEmbeddingDimensions(embeddingConfig);
 
               if (showDb) console.log("");
               console.log(`${header(EMOJI.embeddings, `Embedding Statistics [${wsContext.alias}]`)}:\n`);
@@ -120,7 +120,7 @@ function logDeltaSyncResult(result: DeltaSyncResult): void {
  * Run delta-sync via Local API.
  * Returns the DeltaSyncResult or throws on error.
  */
-async function runDeltaSync(dbPath: string): Promise<DeltaSyncResult> {
+async function runDeltaSync(dbPath: string, workspace?: string): Promise<DeltaSyncResult> {
   // Step 1: Get Local API config
   const config = ConfigManager.getInstance();
   const localApiConfig = config.getLocalApiConfig();
@@ -156,6 +156,7 @@ async function runDeltaSync(dbPath: string): Promise<DeltaSyncResult> {
   const deltaSyncService = new DeltaSyncService({
     dbPath,
     localApiClient: client,
+    workspace,
   });
 
   try {
@@ -198,6 +199,7 @@ export function registerSyncCommands(program: Command): void {
         exportDir: paths.exportDir,
         dbPath: paths.dbPath,
         debounceMs: parseInt(options.debounce),
+        workspace: paths.alias,
       });
 
       watcher.on("indexed", (result) => {
@@ -266,7 +268,7 @@ export function registerSyncCommands(program: Command): void {
         logger.info('Running delta-sync via Local API...');
 
         try {
-          const result = await runDeltaSync(paths.dbPath);
+          const result = await runDeltaSync(paths.dbPath, paths.alias);
           logDeltaSyncResult(result);
           process.exit(0);
         } catch (error) {
@@ -292,6 +294,7 @@ export function registerSyncCommands(program: Command): void {
             const watcher = new TanaExportWatcher({
               exportDir: ws.exportDir,
               dbPath: ws.dbPath,
+              workspace: ws.alias,
             });
 
             try {
@@ -345,6 +348,7 @@ export function registerSyncCommands(program: Command): void {
       const watcher = new TanaExportWatcher({
         exportDir: paths.exportDir,
         dbPath: paths.dbPath,
+        workspace: paths.alias,
       });
 
       logger.info('Indexing latest export...');
@@ -448,6 +452,7 @@ export function registerSyncCommands(program: Command): void {
       const watcher = new TanaExportWatcher({
         exportDir: paths.exportDir,
         dbPath: paths.dbPath,
+        workspace: paths.alias,
       });
 
       const status = watcher.getStatus();
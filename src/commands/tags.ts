@@ -10,6 +10,7 @@
  *   supertag tags list --limit 50          # List all tags
  *   supertag tags top --limit 10           # Top 10 by usage
  *   supertag tags show todo                # Show todo tag schema
+ *   supertag tags show todo --at 2026-01-15  # As of an earlier sync
  */
 
 import { Command } from "commander";
@@ -60,6 +61,8 @@ import {
 import { resolveOutputOptions, resolveOutputFormat } from "../utils/output-options";
 import { createFormatter, type OutputFormat } from "../utils/output-formatter";
 import { SupertagMetadataService } from "../services/supertag-metadata-service";
+import { openSchemaAt, type HistoricSchema } from "../services/schema-history";
+import { exitWithError } from "../utils/errors";
 import { VisualizationService } from "../visualization/service";
 import { render, supportedFormats, isFormatSupported } from "../visualization/renderers";
 import type { VisualizationFormat, MermaidRenderOptions, DOTRenderOptions, HTMLRenderOptions, ThreeRenderOptions } from "../visualization/types";
@@ -380,18 +383,29 @@ export function createTagsCommand(): Command {
     .command("show <tagname>")
     .description("Show schema fields for a supertag")
     .option("--all", "Show all fields including inherited")
-    .option("--select <fields>", "Select specific fields to output (comma-separated, e.g., id,name)");
+    .option("--select <fields>", "Select specific fields to output (comma-separated, e.g., id,name)")
+    .option("--at <date>", "Show the schema as of a date (stored schema versions, e.g. 2026-01-15 or 30d)");
 
   addStandardOptions(showCmd, { defaultLimit: "1" });
 
-  showCmd.action(async (tagname: string, options: TagsMetadataOptions & { select?: string; format?: OutputFormat; header?: boolean }) => {
+  showCmd.action(async (tagname: string, options: TagsMetadataOptions & { select?: string; format?: OutputFormat; header?: boolean; at?: string }) => {
     const dbPath = resolveDbPath(options);
     if (!checkDb(dbPath, options.workspace)) {
       process.exit(1);
     }
 
+    // --at: schema version in effect at that date (the registry cache only holds the current schema)
+    let historic: HistoricSchema | null = null;
+    if (options.at) {
+      try {
+        historic = await withDatabase({ dbPath, readonly: true }, (ctx) => openSchemaAt(ctx.db, options.at!));
+      } catch (error) {
+        exitWithError(error);
+      }
+    }
+
     await withDatabase({ dbPath, readonly: true }, async (ctx) => {
-      const service = new SupertagMetadataService(ctx.db);
+      const service = new SupertagMetadataService(historic?.db ?? ctx.db);
 
       // Resolve tag with duplicate warning
       const resolved = resolveTagWithDuplicateWarning(service, tagname, "show");
@@ -423,9 +437,9 @@ export function createTagsCommand(): Command {
           targetSupertagName: f.targetSupertagName,
         }));
       } else {
-        // Own fields only - try schema registry first, fall back to service
-        const registry = getSchemaRegistrySafe(dbPath, options.workspace);
-        const tag = registry.getSupertagById(tagId) || registry.findTagByName(tagname);
+        // Own fields only - try schema registry first (current schema only), fall back to service
+        const registry = historic ? null : getSchemaRegistrySafe(dbPath, options.workspace);
+        const tag = registry?.getSupertagById(tagId) || registry?.findTagByName(tagname);
 
         if (tag?.fields && tag.fields.length > 0) {
           fields = tag.fields.map((field: { name: string; attributeId: string; dataType?: string; optionValues?: string[]; targetSupertagName?: string }) => ({
@@ -450,8 +464,9 @@ export function createTagsCommand(): Command {
       }
 
       // Get tag metadata (color) from schema registry if available
-      const registryForMeta = getSchemaRegistrySafe(dbPath, options.workspace);
-      const tagMeta = registryForMeta.getSupertagById(tagId);
+      const tagMeta = historic
+        ? new UnifiedSchemaService(historic.db).getSupertagById(tagId)
+        : getSchemaRegistrySafe(dbPath, options.workspace).getSupertagById(tagId);
       const color = tagMeta?.color || null;
 
       const selectFields = parseSelectOption(options.select);
@@ -467,6 +482,9 @@ export function createTagsCommand(): Command {
         console.log(`\n🏷️  ${displayName}`);
         console.log(`   ID: ${tagId}`);
         console.log(`   Color: ${color || "(none)"}`);
+        if (historic) {
+          console.log(`   Schema: v${historic.version.version} (${new Date(historic.version.createdAt).toISOString()})`);
+        }
 
         if (fields.length > 0) {
           const modeLabel = options.all ? "all" : "";
@@ -536,6 +554,7 @@ export function createTagsCommand(): Command {
         return;
       }
     });
+    historic?.db.close();
   });
 
   // tags inheritance <tagname>
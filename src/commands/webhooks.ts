@@ -0,0 +1,165 @@
+/**
+ * Webhooks Command
+ *
+ * Manage outbound webhook rules, evaluated after each reindex and delta-sync.
+ *
+ * Usage:
+ *   supertag webhooks add --name incidents --tag incident --url https://chat.example.com/hook
+ *   supertag webhooks add --name builds --tag task --when "Status = Done" --url https://ci.example.com/build
+ *   supertag webhooks list
+ *   supertag webhooks remove builds
+ *   supertag webhooks test incidents        # Send a sample event
+ *   supertag webhooks dead-letters          # Events that could not be delivered
+ *   supertag webhooks replay                # Resend them
+ */
+
+import { Command } from 'commander';
+import {
+  DeadLetterLog,
+  OutboundWebhooks,
+  createTestWebhookEvent,
+  deliverWebhookEvent,
+} from '../services/outbound-webhooks';
+import {
+  WebhookRuleStore,
+  formatWebhookCondition,
+  parseWebhookCondition,
+  parseWebhookHeaders,
+} from '../services/webhook-rules';
+import { tsv } from '../utils/format';
+import { exitWithError } from '../utils/errors';
+import { formatJsonOutput } from './helpers';
+
+interface AddOptions {
+  name: string;
+  tag: string;
+  url: string;
+  when?: string;
+  header?: string[];
+  workspace?: string;
+  json?: boolean;
+}
+
+export function createWebhooksCommand(): Command {
+  const webhooks = new Command('webhooks')
+    .description('Outbound webhooks on tag and field changes (evaluated after each sync)');
+
+  webhooks
+    .command('add')
+    .description('Add a rule: POST an event to a URL when a node gets a supertag or its field changes')
+    .requiredOption('--name <name>', 'Rule name')
+    .requiredOption('--tag <tag>', 'Supertag the node must carry')
+    .requiredOption('--url <url>', 'HTTP(S) target')
+    .option('--when <condition>', 'Field condition: "Status = Done", "Title ~ urgent", "Due exists" or "Status changed"')
+    .option('-H, --header <header...>', 'Request header, e.g. "Authorization: Bearer <token>"')
+    .option('-w, --workspace <alias>', 'Only for this workspace (default: all)')
+    .option('--json', 'Output as JSON')
+    .action((options: AddOptions) => {
+      try {
+        const rule = new WebhookRuleStore().add({
+          name: options.name,
+          tag: options.tag,
+          url: options.url,
+          ...(options.when && { when: parseWebhookCondition(options.when) }),
+          ...(options.header && { headers: parseWebhookHeaders(options.header) }),
+          ...(options.workspace && { workspace: options.workspace }),
+        });
+        if (options.json) {
+          console.log(formatJsonOutput(rule));
+          return;
+        }
+        console.log(`✅ Added webhook rule "${rule.name}" (${rule.id})`);
+        console.log(`   #${rule.tag}${rule.when ? ` where ${formatWebhookCondition(rule.when)}` : ''} → ${rule.url}`);
+        console.log('   The next sync records a baseline; changes after it trigger events.');
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  webhooks
+    .command('list')
+    .description('List webhook rules')
+    .option('--json', 'Output as JSON')
+    .action((options: { json?: boolean }) => {
+      // Headers may carry credentials
+      const rules = new WebhookRuleStore()
+        .list()
+        .map(({ headers, ...rule }) => ({ ...rule, headers: Object.keys(headers ?? {}) }));
+      if (options.json) {
+        console.log(formatJsonOutput(rules));
+        return;
+      }
+      if (rules.length === 0) {
+        console.log('No webhook rules. Add one with: supertag webhooks add --name <n> --tag <tag> --url <url>');
+        return;
+      }
+      for (const rule of rules) {
+        const when = rule.when ? formatWebhookCondition(rule.when) : '';
+        console.log(tsv(rule.id, rule.name, `#${rule.tag}`, when, rule.url, rule.workspace ?? '*'));
+      }
+    });
+
+  webhooks
+    .command('remove <id>')
+    .description('Remove a rule by ID or name')
+    .action((id: string) => {
+      try {
+        const rule = new WebhookRuleStore().remove(id);
+        console.log(`✅ Removed webhook rule "${rule.name}" (${rule.id})`);
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  webhooks
+    .command('test <id>')
+    .description('Send a sample event to a rule\'s URL (no retries)')
+    .action(async (id: string) => {
+      try {
+        const rule = new WebhookRuleStore().get(id);
+        const result = await deliverWebhookEvent(rule, createTestWebhookEvent(rule), { maxAttempts: 1 });
+        if (!result.ok) {
+          console.error(`❌ ${rule.url}: ${result.error}`);
+          process.exit(1);
+        }
+        console.log(`✅ ${rule.url} answered ${result.status}`);
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  webhooks
+    .command('dead-letters')
+    .description('Show events that could not be delivered')
+    .option('-l, --limit <n>', 'Number of entries', '50')
+    .option('--json', 'Output as JSON')
+    .action((options: { limit: string; json?: boolean }) => {
+      const entries = new DeadLetterLog().list().slice(-(parseInt(options.limit, 10) || 50));
+      if (options.json) {
+        console.log(formatJsonOutput(entries));
+        return;
+      }
+      if (entries.length === 0) {
+        console.log('No undelivered events.');
+        return;
+      }
+      for (const e of entries) {
+        console.log(tsv(e.failedAt, e.event.rule.name, e.event.type, e.event.node.id, e.event.node.name ?? '', e.url, e.error));
+      }
+    });
+
+  webhooks
+    .command('replay')
+    .description('Resend undelivered events (those failing again stay in the dead-letter log)')
+    .action(async () => {
+      try {
+        const { delivered, failed } = await new OutboundWebhooks().replay();
+        console.log(`✅ Delivered ${delivered} event(s)${failed > 0 ? `, ${failed} failed again` : ''}`);
+        if (failed > 0) process.exit(1);
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+
+  return webhooks;
+}
@@ -365,23 +365,43 @@ export class ConfigManager {
 
   /**
    * Get embedding configuration with defaults
+   *
+   * @param workspace - Optional workspace alias or ID whose overrides are merged in
    */
-  getEmbeddingConfig(): EmbeddingConfig {
+  getEmbeddingConfig(workspace?: string): EmbeddingConfig {
+    const overrides = workspace ? this.getWorkspace(workspace)?.config.embeddings : undefined;
     return {
       ...DEFAULT_EMBEDDING_CONFIG,
       ...this.config.embeddings,
+      ...overrides,
     };
   }
 
   /**
    * Update embedding configuration
-   */
-  setEmbeddingConfig(updates: Partial<EmbeddingConfig>): void {
+   *
+   * @param updates - Fields to change
+   * @param workspace - Store the updates as overrides of this workspace instead of globally
+   * @returns false if the workspace does not exist
+   */
+  setEmbeddingConfig(updates: Partial<EmbeddingConfig>, workspace?: string): boolean {
+    if (workspace) {
+      const ws = this.getWorkspace(workspace);
+      if (!ws) {
+        return false;
+      }
+      const target = this.config.workspaces![ws.alias];
+      target.embeddings = { ...target.embeddings, ...updates };
+      this.save({});
+      return true;
+    }
+
     if (!this.config.embeddings) {
       this.config.embeddings = { ...DEFAULT_EMBEDDING_CONFIG };
     }
     Object.assign(this.config.embeddings, updates);
     this.save({});
+    return true;
   }
 
   /**
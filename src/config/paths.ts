@@ -213,6 +213,27 @@ export function getWorkspaceSchemaPath(aliasOrWsid: string): string {
   return join(getWorkspaceDir(aliasOrWsid), 'schema-registry.json');
 }
 
+/**
+ * Get workspace schema baseline path (supertag schema diff --save)
+ */
+export function getWorkspaceSchemaBaselinePath(aliasOrWsid: string): string {
+  return join(getWorkspaceDir(aliasOrWsid), 'schema-baseline.json');
+}
+
+/**
+ * Get saved queries file for a workspace (stored alongside config.json)
+ */
+export function getSavedQueriesPath(aliasOrWsid: string): string {
+  return join(TANA_CONFIG_DIR, 'queries', `${aliasOrWsid}.json`);
+}
+
+/**
+ * Get lint rules file for a workspace (required fields per supertag)
+ */
+export function getLintRulesPath(aliasOrWsid: string): string {
+  return join(TANA_CONFIG_DIR, 'lint', `${aliasOrWsid}.json`);
+}
+
 /**
  * Get workspace export directory
  */
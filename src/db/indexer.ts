@@ -38,6 +38,8 @@ import { extractSupertagMetadata } from "./supertag-metadata";
 import { updateFieldTypesFromValues } from "./value-type-inference";
 import { extractFieldTypesFromDocs, updateFieldTypesFromExport, extractTargetSupertagsFromDocs, updateTargetSupertagsFromExport } from "./explicit-type-extraction";
 import { migrateSystemFieldSources, discoverSystemFieldSources, insertSystemFieldSources } from "./system-fields";
+import { describeNodeChanges, recordNodeChanges } from "./node-changes";
+import { recordSchemaVersion } from "./schema-versions";
 import type { NodeDump } from "../types/tana-dump";
 import { hasGlobalLogger, getGlobalLogger, createLogger, type Logger } from "../utils/logger";
 
@@ -469,6 +471,9 @@ export class TanaIndexer {
         [exportFilename, now, graph.nodes.size]
       );
 
+      // Schema history (new version only if the supertag schema changed)
+      recordSchemaVersion(this.sqlite, exportFilename, now);
+
       withDbRetrySync(() => this.sqlite.run("COMMIT"), "COMMIT fullReindex");
 
       const durationMs = Date.now() - startTime;
@@ -557,6 +562,10 @@ export class TanaIndexer {
         }
       }
 
+      // Change log for the webhook event stream (not on the first index, when every node is new)
+      const logChanges = nodeCount.count > 0;
+      const deletedChanges = logChanges ? describeNodeChanges(this.sqlite, [...changes.deleted], "deleted") : [];
+
       // STEP 1: Delete removed nodes (cascade will handle related tables if foreign keys are set)
       if (changes.deleted.size > 0) {
         const deleteNode = this.sqlite.prepare("DELETE FROM nodes WHERE id = ?");
@@ -728,6 +737,14 @@ export class TanaIndexer {
         }
       }
 
+      if (logChanges) {
+        recordNodeChanges(this.sqlite, [
+          ...describeNodeChanges(this.sqlite, [...changes.added], "created"),
+          ...describeNodeChanges(this.sqlite, [...changes.modified], "updated"),
+          ...deletedChanges,
+        ], "reindex", now);
+      }
+
       // STEP 5: Always rebuild field_names (relatively small table)
       this.sqlite.run("DELETE FROM field_names");
       const fieldNamesMap = this.extractFieldNames(graph);
@@ -780,6 +797,9 @@ export class TanaIndexer {
         [exportFilename, now, graph.nodes.size]
       );
 
+      // STEP 6.5: Schema history (new version only if the supertag schema changed)
+      recordSchemaVersion(this.sqlite, exportFilename, now);
+
       withDbRetrySync(() => this.sqlite.run("COMMIT"), "COMMIT indexExport");
 
       const durationMs = Date.now() - startTime;
@@ -399,3 +399,194 @@ export function needsSchemaConsolidationMigration(db: Database): boolean {
 
   return false;
 }
+
+// ============================================================================
+// Embedding Chunks Schema Migration
+// ============================================================================
+
+/**
+ * Chunks of long nodes and transcripts embedded as separate vectors.
+ * Vector IDs in LanceDB are chunk_id; this table maps them back to the
+ * node and the position of the chunk within it.
+ */
+const EMBEDDING_CHUNKS_TABLE = `
+CREATE TABLE IF NOT EXISTS embedding_chunks (
+  chunk_id TEXT PRIMARY KEY,
+  node_id TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  start_offset INTEGER NOT NULL,
+  length INTEGER NOT NULL,
+  anchor_id TEXT,
+  start_time TEXT,
+  text TEXT NOT NULL
+)`;
+
+/**
+ * Migrate the embedding chunks schema
+ * Safe to run multiple times - uses IF NOT EXISTS.
+ *
+ * @param db - SQLite database connection
+ */
+export function migrateEmbeddingChunksSchema(db: Database): void {
+  db.run(EMBEDDING_CHUNKS_TABLE);
+  db.run("CREATE INDEX IF NOT EXISTS idx_embedding_chunks_node ON embedding_chunks(node_id)");
+}
+
+/**
+ * Check if the embedding chunks table exists (it is created by the first chunked embed run)
+ *
+ * @param db - SQLite database connection
+ */
+export function hasEmbeddingChunks(db: Database): boolean {
+  return tableExists(db, "embedding_chunks");
+}
+
+// ============================================================================
+// Embedding State Schema Migration
+// ============================================================================
+
+/**
+ * Content hash of each embedded node at embed time. Comparing it with the
+ * hash of the node's current embedding text tells which vectors are stale.
+ * mode records the options the texts were built with (chunked, fields).
+ */
+const EMBEDDING_STATE_TABLE = `
+CREATE TABLE IF NOT EXISTS embedding_state (
+  node_id TEXT PRIMARY KEY,
+  content_hash TEXT NOT NULL,
+  vector_count INTEGER NOT NULL,
+  model TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  embedded_at INTEGER NOT NULL
+)`;
+
+/**
+ * Migrate the embedding state schema
+ * Safe to run multiple times - uses IF NOT EXISTS.
+ *
+ * @param db - SQLite database connection
+ */
+export function migrateEmbeddingStateSchema(db: Database): void {
+  db.run(EMBEDDING_STATE_TABLE);
+}
+
+/**
+ * Check if the embedding state table exists (it is created by the first embed run that records hashes)
+ *
+ * @param db - SQLite database connection
+ */
+export function hasEmbeddingState(db: Database): boolean {
+  return tableExists(db, "embedding_state");
+}
+
+// ============================================================================
+// Node Changes Schema Migration
+// ============================================================================
+
+/**
+ * Append-only log of node changes written by reindex and delta-sync, so other
+ * processes (the webhook server's event stream) can follow them by seq.
+ * tags is a JSON array of tag names at the time of the change.
+ */
+const NODE_CHANGES_TABLE = `
+CREATE TABLE IF NOT EXISTS node_changes (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  node_id TEXT NOT NULL,
+  change TEXT NOT NULL,
+  name TEXT,
+  tags TEXT NOT NULL DEFAULT '[]',
+  source TEXT NOT NULL,
+  changed_at INTEGER NOT NULL
+)`;
+
+/**
+ * Migrate the node changes schema
+ * Safe to run multiple times - uses IF NOT EXISTS.
+ *
+ * @param db - SQLite database connection
+ */
+export function migrateNodeChangesSchema(db: Database): void {
+  db.run(NODE_CHANGES_TABLE);
+}
+
+/**
+ * Check if the node changes table exists
+ *
+ * @param db - SQLite database connection
+ */
+export function hasNodeChanges(db: Database): boolean {
+  return tableExists(db, "node_changes");
+}
+
+// ============================================================================
+// Webhook Rule State Schema Migration
+// ============================================================================
+
+/**
+ * What each outbound webhook rule saw at its last evaluation: the nodes
+ * carrying the rule's supertag and their value of the rule's field (NULL for
+ * rules without a field). Evaluations diff against it, so only transitions
+ * fire; webhook_rule_runs marks rules that have a baseline.
+ */
+const WEBHOOK_RULE_STATE_TABLES = [
+  `CREATE TABLE IF NOT EXISTS webhook_rule_state (
+    rule_id TEXT NOT NULL,
+    node_id TEXT NOT NULL,
+    value TEXT,
+    PRIMARY KEY (rule_id, node_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS webhook_rule_runs (
+    rule_id TEXT PRIMARY KEY,
+    evaluated_at INTEGER NOT NULL
+  )`,
+];
+
+/**
+ * Migrate the webhook rule state schema
+ * Safe to run multiple times - uses IF NOT EXISTS.
+ *
+ * @param db - SQLite database connection
+ */
+export function migrateWebhookRuleStateSchema(db: Database): void {
+  for (const sql of WEBHOOK_RULE_STATE_TABLES) {
+    db.run(sql);
+  }
+}
+
+// ============================================================================
+// Schema Versions Migration
+// ============================================================================
+
+/**
+ * Supertag schema as of each sync that changed it. data is a JSON copy of
+ * the supertag metadata tables (see schema-versions.ts); checksum detects
+ * syncs that left the schema unchanged.
+ */
+const SCHEMA_VERSIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_versions (
+  version INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at INTEGER NOT NULL,
+  source TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  data TEXT NOT NULL
+)`;
+
+/**
+ * Migrate the schema versions schema
+ * Safe to run multiple times - uses IF NOT EXISTS.
+ *
+ * @param db - SQLite database connection
+ */
+export function migrateSchemaVersionsSchema(db: Database): void {
+  db.run(SCHEMA_VERSIONS_TABLE);
+}
+
+/**
+ * Check if the schema versions table exists
+ *
+ * @param db - SQLite database connection
+ */
+export function hasSchemaVersions(db: Database): boolean {
+  return tableExists(db, "schema_versions");
+}
@@ -0,0 +1,124 @@
+/**
+ * Node Change Log
+ *
+ * Reindex and delta-sync append a row per created, updated or deleted node
+ * to node_changes. Readers follow the log by seq, e.g. the webhook server's
+ * event stream (GET /events), which runs in another process.
+ *
+ * The log is capped at MAX_NODE_CHANGES rows; the first index of an empty
+ * database is not logged (every node would be "created").
+ */
+
+import type { Database } from "bun:sqlite";
+import { hasNodeChanges, migrateNodeChangesSchema } from "./migrate";
+
+/** Nodes per IN (...) lookup */
+const LOOKUP_BATCH = 500;
+
+/** Rows kept in the log */
+export const MAX_NODE_CHANGES = 100_000;
+
+export const NODE_CHANGE_TYPES = ["created", "updated", "deleted"] as const;
+
+export type NodeChangeType = (typeof NODE_CHANGE_TYPES)[number];
+
+/** Writer of a change */
+export type NodeChangeSource = "reindex" | "delta-sync";
+
+export interface NodeChangeInput {
+  nodeId: string;
+  change: NodeChangeType;
+  name?: string | null;
+  /** Tag names at the time of the change (before deletion for deleted nodes) */
+  tags?: string[];
+}
+
+export interface NodeChange extends Required<NodeChangeInput> {
+  seq: number;
+  source: NodeChangeSource;
+  /** Unix ms */
+  changedAt: number;
+}
+
+/**
+ * Append changes to the log (call inside the writer's transaction)
+ */
+export function recordNodeChanges(
+  db: Database,
+  changes: NodeChangeInput[],
+  source: NodeChangeSource,
+  now: number = Date.now()
+): void {
+  if (changes.length === 0) return;
+  migrateNodeChangesSchema(db);
+
+  const insert = db.prepare(
+    "INSERT INTO node_changes (node_id, change, name, tags, source, changed_at) VALUES (?, ?, ?, ?, ?, ?)"
+  );
+  for (const c of changes) {
+    insert.run(c.nodeId, c.change, c.name ?? null, JSON.stringify(c.tags ?? []), source, now);
+  }
+  db.run("DELETE FROM node_changes WHERE seq <= (SELECT MAX(seq) FROM node_changes) - ?", [MAX_NODE_CHANGES]);
+}
+
+/**
+ * Build log entries for nodes from the index (name and tag names as stored now)
+ *
+ * For deleted nodes, call before the rows are removed.
+ */
+export function describeNodeChanges(db: Database, nodeIds: string[], change: NodeChangeType): NodeChangeInput[] {
+  const names = new Map<string, string | null>();
+  const tags = new Map<string, string[]>();
+  for (let i = 0; i < nodeIds.length; i += LOOKUP_BATCH) {
+    const batch = nodeIds.slice(i, i + LOOKUP_BATCH);
+    const placeholders = batch.map(() => "?").join(",");
+    const nodeRows = db
+      .query(`SELECT id, name FROM nodes WHERE id IN (${placeholders})`)
+      .all(...batch) as Array<{ id: string; name: string | null }>;
+    for (const row of nodeRows) names.set(row.id, row.name);
+    const tagRows = db
+      .query(`SELECT DISTINCT data_node_id, tag_name FROM tag_applications WHERE data_node_id IN (${placeholders})`)
+      .all(...batch) as Array<{ data_node_id: string; tag_name: string }>;
+    for (const row of tagRows) {
+      tags.set(row.data_node_id, [...(tags.get(row.data_node_id) ?? []), row.tag_name]);
+    }
+  }
+  return nodeIds.map((nodeId) => ({ nodeId, change, name: names.get(nodeId) ?? null, tags: tags.get(nodeId) ?? [] }));
+}
+
+/**
+ * Changes after a seq, oldest first
+ */
+export function readNodeChanges(db: Database, afterSeq: number, limit: number = 1000): NodeChange[] {
+  if (!hasNodeChanges(db)) return [];
+  const rows = db
+    .query("SELECT * FROM node_changes WHERE seq > ? ORDER BY seq LIMIT ?")
+    .all(afterSeq, limit) as Array<{
+      seq: number;
+      node_id: string;
+      change: NodeChangeType;
+      name: string | null;
+      tags: string;
+      source: NodeChangeSource;
+      changed_at: number;
+    }>;
+
+  return rows.map((row) => ({
+    seq: row.seq,
+    nodeId: row.node_id,
+    change: row.change,
+    name: row.name,
+    tags: JSON.parse(row.tags) as string[],
+    source: row.source,
+    changedAt: row.changed_at,
+  }));
+}
+
+/**
+ * Seq of the newest change (0 if none)
+ */
+export function getLatestChangeSeq(db: Database): number {
+  if (!hasNodeChanges(db)) return 0;
+  const row = db.query("SELECT MAX(seq) AS seq FROM node_changes").get() as { seq: number | null };
+  return row.seq ?? 0;
+}
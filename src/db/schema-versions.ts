@@ -0,0 +1,134 @@
+/**
+ * Schema Versions
+ *
+ * Each reindex that changes the supertag schema stores a copy of the
+ * supertag metadata tables in schema_versions, so the schema can be browsed
+ * as of an earlier sync (supertag schema history, --at). Syncs that leave
+ * the schema unchanged add no version.
+ */
+
+import type { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import { hasSchemaVersions, migrateSchemaVersionsSchema } from "./migrate";
+
+/** Copied tables and columns (the schema as produced by indexing) */
+const SCHEMA_TABLES = {
+  supertag_metadata: ["tag_id", "tag_name", "normalized_name", "description", "color"],
+  supertag_fields: [
+    "tag_id",
+    "tag_name",
+    "field_name",
+    "field_label_id",
+    "field_order",
+    "normalized_name",
+    "description",
+    "inferred_data_type",
+    "target_supertag_id",
+    "target_supertag_name",
+    "default_value_id",
+    "default_value_text",
+    "option_values",
+  ],
+  supertag_parents: ["child_tag_id", "parent_tag_id"],
+  system_field_sources: ["field_id", "tag_id"],
+} as const;
+
+type SchemaTable = keyof typeof SCHEMA_TABLES;
+
+/** Rows of the copied tables, in SCHEMA_TABLES column order */
+export type SchemaVersionData = Record<SchemaTable, unknown[][]>;
+
+export interface SchemaVersion {
+  version: number;
+  /** Unix ms */
+  createdAt: number;
+  /** Export file the version was indexed from */
+  source: string;
+}
+
+function tableExists(db: Database, table: string): boolean {
+  return db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== null;
+}
+
+/**
+ * Copy the schema tables of a database (missing tables are empty)
+ */
+export function readSchemaVersionData(db: Database): SchemaVersionData {
+  const data = {} as SchemaVersionData;
+  for (const [table, columns] of Object.entries(SCHEMA_TABLES) as [SchemaTable, readonly string[]][]) {
+    data[table] = tableExists(db, table)
+      ? db.query(`SELECT ${columns.join(", ")} FROM ${table} ORDER BY ${columns.join(", ")}`).values()
+      : [];
+  }
+  return data;
+}
+
+/**
+ * Store the current schema as a new version unless it equals the latest one
+ * (call inside the writer's transaction)
+ *
+ * @returns The new version number, or null if the schema is unchanged
+ */
+export function recordSchemaVersion(db: Database, source: string, now: number = Date.now()): number | null {
+  migrateSchemaVersionsSchema(db);
+  const data = JSON.stringify(readSchemaVersionData(db));
+  const checksum = createHash("sha256").update(data).digest("hex");
+
+  const latest = db.query("SELECT checksum FROM schema_versions ORDER BY version DESC LIMIT 1").get() as
+    | { checksum: string }
+    | null;
+  if (latest?.checksum === checksum) return null;
+
+  const result = db.run("INSERT INTO schema_versions (created_at, source, checksum, data) VALUES (?, ?, ?, ?)", [
+    now,
+    source,
+    checksum,
+    data,
+  ]);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * All stored versions, oldest first
+ */
+export function listSchemaVersions(db: Database): SchemaVersion[] {
+  if (!hasSchemaVersions(db)) return [];
+  return db
+    .query("SELECT version, created_at AS createdAt, source FROM schema_versions ORDER BY version")
+    .all() as SchemaVersion[];
+}
+
+/**
+ * The version in effect at a point in time (the latest stored at or before it)
+ */
+export function findSchemaVersionAt(db: Database, at: number): SchemaVersion | null {
+  if (!hasSchemaVersions(db)) return null;
+  return db
+    .query(
+      "SELECT version, created_at AS createdAt, source FROM schema_versions WHERE created_at <= ? ORDER BY version DESC LIMIT 1"
+    )
+    .get(at) as SchemaVersion | null;
+}
+
+/**
+ * Stored rows of a version
+ */
+export function getSchemaVersionData(db: Database, version: number): SchemaVersionData | null {
+  if (!hasSchemaVersions(db)) return null;
+  const row = db.query("SELECT data FROM schema_versions WHERE version = ?").get(version) as { data: string } | null;
+  return row ? (JSON.parse(row.data) as SchemaVersionData) : null;
+}
+
+/**
+ * Insert a version's rows into a database with empty schema tables
+ */
+export function restoreSchemaVersionData(db: Database, data: SchemaVersionData): void {
+  for (const [table, columns] of Object.entries(SCHEMA_TABLES) as [SchemaTable, readonly string[]][]) {
+    const insert = db.prepare(
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`
+    );
+    for (const row of data[table] ?? []) {
+      insert.run(...(row as Array<string | number | null>));
+    }
+  }
+}
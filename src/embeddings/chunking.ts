@@ -0,0 +1,451 @@
+/**
+ * Chunked Embeddings
+ *
+ * Long content is split into several vectors instead of one diluted one:
+ * - subtree chunks: sliding character windows over a node's subtree,
+ *   rendered as an indented outline (node name, then descendants)
+ * - transcript chunks: groups of consecutive transcript lines
+ *
+ * Each chunk is embedded under its own vector ID ("<nodeId>#<index>") and
+ * recorded in the embedding_chunks table with its offset, so search results
+ * can be collapsed to one hit per node that points at the best chunk.
+ * Nodes whose subtree fits into a single window keep one vector under their
+ * plain node ID, exactly as without chunking.
+ */
+
+import type { Database } from "bun:sqlite";
+import type { ChunkingConfig } from "../types";
+import type { ContextualizedNode } from "./contextualize";
+import { SYSTEM_DOC_TYPES } from "./content-filter";
+import { formatTranscriptTime, getTranscriptLines, parseInlineRefs } from "../db/transcript";
+import { hasEmbeddingChunks, migrateEmbeddingChunksSchema } from "../db/migrate";
+import { StructuredError } from "../utils/structured-errors";
+
+export type ChunkKind = "subtree" | "transcript";
+
+/**
+ * One embedded chunk of a node
+ */
+export interface EmbeddingChunk {
+  /** Vector ID ("<nodeId>#<index>") */
+  chunkId: string;
+  nodeId: string;
+  index: number;
+  kind: ChunkKind;
+  /** Character offset in the subtree outline, or index of the first transcript line */
+  offset: number;
+  /** Characters (subtree) or transcript lines covered */
+  length: number;
+  /** Node the chunk starts in (a descendant or transcript line) */
+  anchorId: string | null;
+  /** Transcript time of the first line */
+  startTime: string | null;
+  text: string;
+}
+
+/**
+ * Chunk reported with a search hit (the best-matching chunk of the node)
+ */
+export type ChunkMatch = Omit<EmbeddingChunk, "chunkId" | "nodeId">;
+
+export const DEFAULT_CHUNKING: Required<Omit<ChunkingConfig, "enabled">> = {
+  maxChars: 1500,
+  overlap: 200,
+  transcriptLines: 12,
+  transcriptOverlap: 2,
+};
+
+/** Upper bound on rendered subtree size, so huge pages don't stall a run */
+const SUBTREE_TEXT_LIMIT = 200_000;
+const SUBTREE_MAX_DEPTH = 10;
+const CHUNK_ID_SEPARATOR = "#";
+
+/**
+ * Merge chunking settings with defaults and validate them
+ */
+export function resolveChunking(config: ChunkingConfig = {}): Required<Omit<ChunkingConfig, "enabled">> {
+  const resolved = { ...DEFAULT_CHUNKING, ...stripUndefined(config) };
+  if (resolved.overlap * 2 >= resolved.maxChars) {
+    throw new StructuredError("CONFIG_INVALID", `Chunk overlap (${resolved.overlap}) must be less than half the chunk size (${resolved.maxChars})`, {
+      suggestion: "Use a smaller --chunk-overlap or a larger --chunk-size",
+    });
+  }
+  if (resolved.transcriptOverlap >= resolved.transcriptLines) {
+    throw new StructuredError("CONFIG_INVALID", `Transcript overlap (${resolved.transcriptOverlap}) must be less than the transcript window (${resolved.transcriptLines})`);
+  }
+  return resolved;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Build the vector ID of a chunk
+ */
+export function toChunkId(nodeId: string, index: number): string {
+  return `${nodeId}${CHUNK_ID_SEPARATOR}${index}`;
+}
+
+/**
+ * Split a vector ID into node ID and chunk index (null for whole-node vectors)
+ */
+export function parseChunkId(id: string): { nodeId: string; index: number | null } {
+  const at = id.lastIndexOf(CHUNK_ID_SEPARATOR);
+  if (at < 0) return { nodeId: id, index: null };
+  const index = Number(id.slice(at + 1));
+  if (!Number.isInteger(index)) return { nodeId: id, index: null };
+  return { nodeId: id.slice(0, at), index };
+}
+
+/**
+ * Keep only the best hit per node, remembering which chunk matched
+ *
+ * @param results - Vector hits sorted by similarity (best first)
+ */
+export function collapseChunkResults<T extends { id: string; similarity: number }>(
+  results: T[]
+): Array<Omit<T, "id"> & { nodeId: string; chunkId?: string }> {
+  const best = new Map<string, Omit<T, "id"> & { nodeId: string; chunkId?: string }>();
+  for (const { id, ...rest } of results) {
+    const { nodeId, index } = parseChunkId(id);
+    const existing = best.get(nodeId);
+    if (!existing || rest.similarity > existing.similarity) {
+      best.set(nodeId, { ...rest, nodeId, ...(index !== null && { chunkId: id }) });
+    }
+  }
+  return [...best.values()].sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Vector IDs of re-embedded nodes that the current run no longer produces
+ * (e.g. chunks of a node that shrank, or the whole-node vector of a node
+ * that is now chunked)
+ */
+export function findStaleVectorIds(
+  embeddedIds: string[],
+  nodeIds: Set<string>,
+  currentIds: Set<string>
+): string[] {
+  return embeddedIds.filter((id) => nodeIds.has(parseChunkId(id).nodeId) && !currentIds.has(id));
+}
+
+/**
+ * Rendered outline of a node's subtree
+ */
+export interface SubtreeOutline {
+  text: string;
+  /** Start offset of each line and the node it renders */
+  lines: Array<{ nodeId: string; offset: number }>;
+}
+
+/**
+ * Render a node and its owned descendants as an indented outline
+ *
+ * References are rendered but not expanded, system nodes (tuples,
+ * metanodes, transcripts, ...) are skipped.
+ */
+export function buildSubtreeOutline(db: Database, nodeId: string, name: string): SubtreeOutline {
+  const childrenQuery = db.query(`
+    SELECT n.id, n.name, n.parent_id, json_extract(n.raw_data, '$.props._docType') AS doc_type
+    FROM nodes p
+    JOIN json_each(p.raw_data, '$.children') c
+    JOIN nodes n ON n.id = c.value
+    WHERE p.id = ?
+    ORDER BY CAST(c.key AS INTEGER)
+  `);
+  const skipTypes = new Set<string>(SYSTEM_DOC_TYPES);
+  const lines: SubtreeOutline["lines"] = [];
+  const parts: string[] = [];
+  let length = 0;
+
+  const push = (id: string, line: string) => {
+    lines.push({ nodeId: id, offset: length });
+    parts.push(line);
+    length += line.length + 1;
+  };
+
+  push(nodeId, cleanName(name));
+
+  const visited = new Set([nodeId]);
+  const walk = (parentId: string, depth: number) => {
+    if (depth > SUBTREE_MAX_DEPTH) return;
+    const children = childrenQuery.all(parentId) as Array<{
+      id: string;
+      name: string | null;
+      parent_id: string | null;
+      doc_type: string | null;
+    }>;
+    for (const child of children) {
+      if (length >= SUBTREE_TEXT_LIMIT) return;
+      if (visited.has(child.id) || (child.doc_type && skipTypes.has(child.doc_type))) continue;
+      visited.add(child.id);
+
+      const text = child.name ? cleanName(child.name) : "";
+      if (text) {
+        push(child.id, `${"  ".repeat(depth - 1)}- ${text}`);
+      }
+      // Only descend into owned children; references point elsewhere in the graph
+      if (child.parent_id === parentId) {
+        walk(child.id, text ? depth + 1 : depth);
+      }
+    }
+  };
+  walk(nodeId, 1);
+
+  return { text: parts.join("\n"), lines };
+}
+
+function cleanName(name: string): string {
+  return parseInlineRefs(name).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Split text into overlapping windows of at most maxChars characters,
+ * breaking at line ends (or spaces) where possible
+ */
+export function slidingWindows(
+  text: string,
+  maxChars: number,
+  overlap: number
+): Array<{ offset: number; length: number }> {
+  if (text.length <= maxChars) {
+    return [{ offset: 0, length: text.length }];
+  }
+
+  const windows: Array<{ offset: number; length: number }> = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      const earliest = start + Math.floor(maxChars / 2);
+      const lineBreak = text.lastIndexOf("\n", end - 1);
+      const space = text.lastIndexOf(" ", end - 1);
+      if (lineBreak >= earliest) end = lineBreak + 1;
+      else if (space >= earliest) end = space + 1;
+    }
+    windows.push({ offset: start, length: end - start });
+    if (end >= text.length) break;
+
+    // Step back by the overlap, then forward to the next line start inside it
+    let next = Math.max(end - overlap, start + 1);
+    const lineStart = text.indexOf("\n", next - 1) + 1;
+    if (lineStart > 0 && lineStart < end) next = Math.max(next, lineStart);
+    start = next;
+  }
+  return windows;
+}
+
+/**
+ * Chunk a node's subtree, or return null when it fits into one window
+ */
+export function chunkSubtree(
+  db: Database,
+  node: ContextualizedNode,
+  config: ChunkingConfig = {}
+): EmbeddingChunk[] | null {
+  const { maxChars, overlap } = resolveChunking(config);
+  const outline = buildSubtreeOutline(db, node.nodeId, node.nodeName);
+  const windows = slidingWindows(outline.text, maxChars, overlap);
+  if (windows.length <= 1) return null;
+
+  return windows.map((window, index) => ({
+    chunkId: toChunkId(node.nodeId, index),
+    nodeId: node.nodeId,
+    index,
+    kind: "subtree" as const,
+    offset: window.offset,
+    length: window.length,
+    anchorId: anchorAt(outline.lines, window.offset),
+    startTime: null,
+    text: outline.text.slice(window.offset, window.offset + window.length).trimEnd(),
+  }));
+}
+
+/**
+ * The node whose line contains the given offset
+ */
+function anchorAt(lines: SubtreeOutline["lines"], offset: number): string | null {
+  let anchor: string | null = null;
+  for (const line of lines) {
+    if (line.offset > offset) break;
+    anchor = line.nodeId;
+  }
+  return anchor;
+}
+
+/**
+ * Chunk a transcript into groups of consecutive lines
+ */
+export function chunkTranscript(
+  db: Database,
+  node: ContextualizedNode,
+  config: ChunkingConfig = {}
+): EmbeddingChunk[] {
+  const { transcriptLines, transcriptOverlap } = resolveChunking(config);
+  const lines = getTranscriptLines(db, node.nodeId).filter((l) => l.text);
+  const step = transcriptLines - transcriptOverlap;
+  const chunks: EmbeddingChunk[] = [];
+
+  for (let first = 0; first < lines.length; first += step) {
+    const group = lines.slice(first, first + transcriptLines);
+    const index = chunks.length;
+    chunks.push({
+      chunkId: toChunkId(node.nodeId, index),
+      nodeId: node.nodeId,
+      index,
+      kind: "transcript",
+      offset: first,
+      length: group.length,
+      anchorId: group[0].id,
+      startTime: group[0].startTime,
+      text: group
+        .map((l) => (l.speaker ? `${l.speaker}: ${parseInlineRefs(l.text)}` : parseInlineRefs(l.text)))
+        .join("\n"),
+    });
+    if (first + transcriptLines >= lines.length) break;
+  }
+  return chunks;
+}
+
+/**
+ * Transcript containers, so they can be chunked even when their own name
+ * would not pass the content filters
+ */
+export function getTranscriptNodes(db: Database): Array<{ id: string; name: string }> {
+  return db
+    .query(`
+      SELECT id, COALESCE(name, 'Transcript') AS name
+      FROM nodes
+      WHERE json_extract(raw_data, '$.props._docType') = 'transcript'
+    `)
+    .all() as Array<{ id: string; name: string }>;
+}
+
+/**
+ * Replace long nodes and transcripts by their chunks
+ *
+ * Transcript lines are dropped: they are covered by their transcript's chunks.
+ *
+ * @returns Items to embed (chunk items carry chunkId) and the chunk records to store
+ */
+export function expandChunks(
+  db: Database,
+  nodes: ContextualizedNode[],
+  config: ChunkingConfig = {}
+): { items: ContextualizedNode[]; chunks: EmbeddingChunk[] } {
+  resolveChunking(config);
+  const docTypes = getDocTypes(db, nodes.map((n) => n.nodeId));
+  const items: ContextualizedNode[] = [];
+  const chunks: EmbeddingChunk[] = [];
+
+  for (const node of nodes) {
+    const docType = docTypes.get(node.nodeId);
+    if (docType === "transcriptLine") continue;
+
+    const nodeChunks = docType === "transcript"
+      ? chunkTranscript(db, node, config)
+      : chunkSubtree(db, node, config);
+    if (!nodeChunks) {
+      items.push(node);
+      continue;
+    }
+
+    for (const chunk of nodeChunks) {
+      chunks.push(chunk);
+      items.push({ ...node, chunkId: chunk.chunkId, contextText: `${node.contextText}\n${chunk.text}` });
+    }
+  }
+
+  return { items, chunks };
+}
+
+function getDocTypes(db: Database, nodeIds: string[]): Map<string, string | null> {
+  const docTypes = new Map<string, string | null>();
+  for (let i = 0; i < nodeIds.length; i += 500) {
+    const batch = nodeIds.slice(i, i + 500);
+    const rows = db
+      .query(`
+        SELECT id, json_extract(raw_data, '$.props._docType') AS doc_type
+        FROM nodes WHERE id IN (${batch.map(() => "?").join(", ")})
+      `)
+      .all(...batch) as Array<{ id: string; doc_type: string | null }>;
+    for (const row of rows) docTypes.set(row.id, row.doc_type);
+  }
+  return docTypes;
+}
+
+/**
+ * Replace the stored chunks of the given nodes
+ */
+export function saveChunks(db: Database, nodeIds: string[], chunks: EmbeddingChunk[]): void {
+  migrateEmbeddingChunksSchema(db);
+  const remove = db.prepare("DELETE FROM embedding_chunks WHERE node_id = ?");
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO embedding_chunks
+      (chunk_id, node_id, chunk_index, kind, start_offset, length, anchor_id, start_time, text)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const nodeId of nodeIds) remove.run(nodeId);
+    for (const c of chunks) {
+      insert.run(c.chunkId, c.nodeId, c.index, c.kind, c.offset, c.length, c.anchorId, c.startTime, c.text);
+    }
+  })();
+}
+
+/**
+ * Look up stored chunks by vector ID
+ */
+export function getChunksById(db: Database, chunkIds: string[]): Map<string, EmbeddingChunk> {
+  const chunks = new Map<string, EmbeddingChunk>();
+  if (chunkIds.length === 0 || !hasEmbeddingChunks(db)) return chunks;
+
+  const query = db.query("SELECT * FROM embedding_chunks WHERE chunk_id = ?");
+  for (const chunkId of chunkIds) {
+    const row = query.get(chunkId) as {
+      chunk_id: string;
+      node_id: string;
+      chunk_index: number;
+      kind: ChunkKind;
+      start_offset: number;
+      length: number;
+      anchor_id: string | null;
+      start_time: string | null;
+      text: string;
+    } | null;
+    if (row) {
+      chunks.set(chunkId, {
+        chunkId: row.chunk_id,
+        nodeId: row.node_id,
+        index: row.chunk_index,
+        kind: row.kind,
+        offset: row.start_offset,
+        length: row.length,
+        anchorId: row.anchor_id,
+        startTime: row.start_time,
+        text: row.text,
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Strip the IDs from a chunk for reporting with a search hit
+ */
+export function toChunkMatch({ chunkId: _chunkId, nodeId: _nodeId, ...match }: EmbeddingChunk): ChunkMatch {
+  return match;
+}
+
+/**
+ * Human-readable position of a chunk, e.g. "chunk 3, lines 21-32 @ 00:12:30"
+ */
+export function formatChunkPosition(chunk: ChunkMatch): string {
+  if (chunk.kind === "transcript") {
+    const lines = `lines ${chunk.offset + 1}-${chunk.offset + chunk.length}`;
+    const time = chunk.startTime ? ` @ ${formatTranscriptTime(chunk.startTime)}` : "";
+    return `chunk ${chunk.index + 1}, ${lines}${time}`;
+  }
+  return `chunk ${chunk.index + 1}, chars ${chunk.offset}-${chunk.offset + chunk.length}`;
+}
@@ -29,6 +29,8 @@ export interface ContextualizedNode {
   ancestorTags: string[];
   /** The contextualized text to embed */
   contextText: string;
+  /** Vector ID when this item is one chunk of the node (see chunking.ts) */
+  chunkId?: string;
 }
 
 /**
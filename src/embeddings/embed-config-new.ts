@@ -7,6 +7,9 @@
 
 import { OLLAMA_MODEL_DIMENSIONS } from "resona";
 import type { EmbeddingConfig } from "../types";
+import { resolveChunking } from "./chunking";
+import { DEFAULT_RERANK } from "./rerank";
+import { DEFAULT_PROVIDER_ENDPOINTS, KNOWN_MODEL_DIMENSIONS, getProviderType } from "./providers";
 
 /**
  * Get model dimensions from resona's known models
@@ -17,6 +20,21 @@ export function getModelDimensionsFromResona(model: string): number | undefined
   return OLLAMA_MODEL_DIMENSIONS[model];
 }
 
+/**
+ * Resolve vector dimensions for an embedding config
+ *
+ * Explicit config wins; otherwise the model is looked up in resona's Ollama
+ * table (for Ollama) and the table of common OpenAI/transformers models.
+ * @returns Dimensions or undefined if unknown
+ */
+export function getEmbeddingDimensions(config: EmbeddingConfig): number | undefined {
+  if (config.dimensions) return config.dimensions;
+  if (getProviderType(config) === "ollama") {
+    return getModelDimensionsFromResona(config.model);
+  }
+  return KNOWN_MODEL_DIMENSIONS[config.model];
+}
+
 /**
  * Validate if a model is known to resona
  * @param model - Model name to validate
@@ -52,18 +70,40 @@ export function formatEmbeddingConfigDisplay(config: EmbeddingConfig | undefined
     return lines.join("\n");
   }
 
-  const dimensions = getModelDimensionsFromResona(config.model);
+  const provider = getProviderType(config);
+  const dimensions = getEmbeddingDimensions(config);
   const dimensionsDisplay = dimensions ? `${dimensions}` : "unknown";
 
   lines.push(`Model:       ${config.model}`);
   lines.push(`Dimensions:  ${dimensionsDisplay}`);
-  lines.push(`Endpoint:    ${config.endpoint || "http://localhost:11434"}`);
+  if (provider !== "transformers") {
+    lines.push(`Endpoint:    ${config.endpoint || DEFAULT_PROVIDER_ENDPOINTS[provider]}`);
+  }
+  if (config.batchSize) {
+    lines.push(`Batch size:  ${config.batchSize}`);
+  }
+  if (config.apiKey) {
+    lines.push("API key:     (set)");
+  }
+  if (config.chunking?.enabled) {
+    const { maxChars, overlap, transcriptLines } = resolveChunking(config.chunking);
+    lines.push(`Chunking:    ${maxChars} chars (${overlap} overlap), ${transcriptLines} transcript lines`);
+  }
+  if (config.rerank?.strategy && config.rerank.strategy !== "none") {
+    lines.push(`Re-ranking:  ${config.rerank.strategy} (top ${config.rerank.candidates ?? DEFAULT_RERANK.candidates})`);
+  }
   lines.push("");
-  lines.push("Provider:    Ollama (via resona/LanceDB)");
+  lines.push(`Provider:    ${PROVIDER_LABELS[provider]}`);
 
   return lines.join("\n");
 }
 
+const PROVIDER_LABELS: Record<ReturnType<typeof getProviderType>, string> = {
+  ollama: "Ollama (via resona/LanceDB)",
+  openai: "OpenAI-compatible /v1/embeddings (via resona/LanceDB)",
+  transformers: "In-process transformers.js (via resona/LanceDB)",
+};
+
 /**
  * Get list of available models with descriptions
  */
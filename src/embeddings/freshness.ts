@@ -0,0 +1,284 @@
+/**
+ * Embedding Freshness
+ *
+ * Tracks which vectors are out of date with node content. Each embed run
+ * records a hash of every node's embedding texts (all of its vectors) in the
+ * embedding_state table; comparing it with the hash of the texts the node
+ * would be embedded with now shows what changed since the last run, e.g.
+ * after delta-sync merged edits into the index.
+ *
+ * - stale: content, model or embed mode changed since the node was embedded
+ * - missing: node passes the content filters but has no vectors
+ * - orphaned: vector whose node is no longer in the index
+ * - untracked: embedded before hashes were recorded
+ */
+
+import type { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import type { ChunkingConfig } from "../types";
+import { contextualizeNodesWithFields, type ContextualizedNode } from "./contextualize";
+import { buildContentFilterQuery, type ContentFilterOptions } from "./content-filter";
+import { expandChunks, parseChunkId } from "./chunking";
+import { hasEmbeddingState, migrateEmbeddingStateSchema } from "../db/migrate";
+
+/** Nodes per IN (...) lookup */
+const LOOKUP_BATCH = 500;
+
+/**
+ * Options the embedding texts are built with
+ */
+export interface EmbedMode {
+  /** Chunking settings when long nodes are chunked */
+  chunking?: ChunkingConfig;
+  /** Field values appended to the context text */
+  includeFields?: boolean;
+}
+
+/**
+ * Hash of a node's embedding texts
+ */
+export interface NodeContentHash {
+  hash: string;
+  vectorCount: number;
+}
+
+/**
+ * Recorded state of an embedded node
+ */
+export interface EmbeddingStateEntry extends NodeContentHash {
+  nodeId: string;
+  model: string;
+  mode: string;
+  embeddedAt: number;
+}
+
+export interface FreshnessReport {
+  /** Vectors in the index */
+  vectors: number;
+  /** Embedded nodes still in the index database */
+  nodes: number;
+  fresh: number;
+  /** Node IDs whose embedding text, model or mode changed */
+  stale: string[];
+  /** Node IDs that pass the content filters but have no vectors */
+  missing: string[];
+  /** Vector IDs whose node no longer exists */
+  orphaned: string[];
+  /** Embedded node IDs without a recorded hash */
+  untracked: string[];
+}
+
+/**
+ * Stable key for an embed mode ("plain", "chunked", "fields", "chunked+fields")
+ */
+export function getEmbedModeKey(mode: EmbedMode): string {
+  const parts = [mode.chunking && "chunked", mode.includeFields && "fields"].filter(Boolean);
+  return parts.length > 0 ? parts.join("+") : "plain";
+}
+
+/**
+ * Build the items a node list is embedded as (contextualized, optionally chunked)
+ */
+export function buildEmbeddingItems(
+  db: Database,
+  nodes: Array<{ id: string; name: string }>,
+  mode: EmbedMode
+): ContextualizedNode[] {
+  const contextualized = contextualizeNodesWithFields(db, nodes, { includeFields: mode.includeFields });
+  return mode.chunking ? expandChunks(db, contextualized, mode.chunking).items : contextualized;
+}
+
+/**
+ * Hash the embedding texts of each node, over all of its vectors
+ */
+export function hashEmbeddingItems(items: ContextualizedNode[]): Map<string, NodeContentHash> {
+  const byNode = new Map<string, ContextualizedNode[]>();
+  for (const item of items) {
+    byNode.set(item.nodeId, [...(byNode.get(item.nodeId) ?? []), item]);
+  }
+
+  const hashes = new Map<string, NodeContentHash>();
+  for (const [nodeId, nodeItems] of byNode) {
+    const h = createHash("sha1");
+    const sorted = [...nodeItems].sort((a, b) => (a.chunkId ?? a.nodeId).localeCompare(b.chunkId ?? b.nodeId));
+    for (const item of sorted) {
+      h.update(item.chunkId ?? item.nodeId).update("\0").update(item.nodeName).update("\0").update(item.contextText).update("\0");
+    }
+    hashes.set(nodeId, { hash: h.digest("hex"), vectorCount: nodeItems.length });
+  }
+  return hashes;
+}
+
+/**
+ * Load the recorded state (all nodes, or the given ones)
+ */
+export function getEmbeddingState(db: Database, nodeIds?: string[]): Map<string, EmbeddingStateEntry> {
+  const state = new Map<string, EmbeddingStateEntry>();
+  if (!hasEmbeddingState(db)) return state;
+
+  type Row = { node_id: string; content_hash: string; vector_count: number; model: string; mode: string; embedded_at: number };
+  const rows: Row[] = [];
+  if (nodeIds) {
+    for (let i = 0; i < nodeIds.length; i += LOOKUP_BATCH) {
+      const batch = nodeIds.slice(i, i + LOOKUP_BATCH);
+      rows.push(...(db.query(`SELECT * FROM embedding_state WHERE node_id IN (${batch.map(() => "?").join(",")})`).all(...batch) as Row[]));
+    }
+  } else {
+    rows.push(...(db.query("SELECT * FROM embedding_state").all() as Row[]));
+  }
+
+  for (const row of rows) {
+    state.set(row.node_id, {
+      nodeId: row.node_id,
+      hash: row.content_hash,
+      vectorCount: row.vector_count,
+      model: row.model,
+      mode: row.mode,
+      embeddedAt: row.embedded_at,
+    });
+  }
+  return state;
+}
+
+/**
+ * Record the hashes of embedded nodes
+ *
+ * Nodes with vectors missing from the index are skipped, so they are
+ * picked up again by the next run.
+ *
+ * @returns Number of nodes recorded
+ */
+export function recordEmbeddingState(
+  db: Database,
+  items: ContextualizedNode[],
+  embeddedIds: Set<string>,
+  options: { model: string; mode: string; now?: number }
+): number {
+  migrateEmbeddingStateSchema(db);
+  const hashes = hashEmbeddingItems(items);
+  const vectorsByNode = new Map<string, string[]>();
+  for (const item of items) {
+    vectorsByNode.set(item.nodeId, [...(vectorsByNode.get(item.nodeId) ?? []), item.chunkId ?? item.nodeId]);
+  }
+
+  const upsert = db.prepare(`
+    INSERT OR REPLACE INTO embedding_state (node_id, content_hash, vector_count, model, mode, embedded_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const now = options.now ?? Date.now();
+  let recorded = 0;
+  db.transaction(() => {
+    for (const [nodeId, { hash, vectorCount }] of hashes) {
+      if (!(vectorsByNode.get(nodeId) ?? []).every((id) => embeddedIds.has(id))) continue;
+      upsert.run(nodeId, hash, vectorCount, options.model, options.mode, now);
+      recorded++;
+    }
+  })();
+  return recorded;
+}
+
+/**
+ * Forget the state of nodes whose vectors were removed
+ */
+export function removeEmbeddingState(db: Database, nodeIds: string[]): void {
+  if (nodeIds.length === 0 || !hasEmbeddingState(db)) return;
+  const remove = db.prepare("DELETE FROM embedding_state WHERE node_id = ?");
+  db.transaction(() => {
+    for (const nodeId of nodeIds) remove.run(nodeId);
+  })();
+}
+
+/**
+ * Nodes that need (re-)embedding: no recorded state, or a different hash, model or mode
+ */
+export function selectChangedNodes(
+  hashes: Map<string, NodeContentHash>,
+  state: Map<string, EmbeddingStateEntry>,
+  options: { model: string; mode: string }
+): Set<string> {
+  const changed = new Set<string>();
+  for (const [nodeId, { hash }] of hashes) {
+    const entry = state.get(nodeId);
+    if (!entry || entry.hash !== hash || entry.model !== options.model || entry.mode !== options.mode) {
+      changed.add(nodeId);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Vector IDs whose node is no longer in the index database
+ */
+export function findOrphanedVectorIds(db: Database, embeddedIds: string[]): string[] {
+  const names = getNodeNames(db, [...new Set(embeddedIds.map((id) => parseChunkId(id).nodeId))]);
+  return embeddedIds.filter((id) => !names.has(parseChunkId(id).nodeId));
+}
+
+/**
+ * Compare the vector index with the current node content
+ *
+ * Each embedded node is rebuilt with the mode it was embedded with, so only
+ * content (or model) changes count as stale; the chunk sizes come from the
+ * current chunking config.
+ */
+export function checkFreshness(
+  db: Database,
+  embeddedIds: string[],
+  options: { model: string; filter: ContentFilterOptions; chunking?: ChunkingConfig }
+): FreshnessReport {
+  const embeddedNodes = new Set(embeddedIds.map((id) => parseChunkId(id).nodeId));
+  const names = getNodeNames(db, [...embeddedNodes]);
+  const orphaned = embeddedIds.filter((id) => !names.has(parseChunkId(id).nodeId));
+  const state = getEmbeddingState(db);
+
+  const untracked: string[] = [];
+  const byMode = new Map<string, Array<{ id: string; name: string }>>();
+  for (const [id, name] of names) {
+    const entry = state.get(id);
+    if (!entry) {
+      untracked.push(id);
+      continue;
+    }
+    byMode.set(entry.mode, [...(byMode.get(entry.mode) ?? []), { id, name }]);
+  }
+
+  const stale: string[] = [];
+  for (const [mode, nodes] of byMode) {
+    const hashes = hashEmbeddingItems(
+      buildEmbeddingItems(db, nodes, {
+        chunking: mode.includes("chunked") ? options.chunking ?? {} : undefined,
+        includeFields: mode.includes("fields"),
+      })
+    );
+    stale.push(...selectChangedNodes(hashes, state, { model: options.model, mode }));
+  }
+
+  const { query, params } = buildContentFilterQuery(options.filter);
+  const candidates = db.query(query).all(...params) as Array<{ id: string }>;
+  const missing = candidates.map((n) => n.id).filter((id) => !embeddedNodes.has(id));
+
+  return {
+    vectors: embeddedIds.length,
+    nodes: names.size,
+    fresh: names.size - untracked.length - stale.length,
+    stale,
+    missing,
+    orphaned,
+    untracked,
+  };
+}
+
+/**
+ * Names of the given nodes that are still in the index (as embed generate reads them)
+ */
+function getNodeNames(db: Database, nodeIds: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (let i = 0; i < nodeIds.length; i += LOOKUP_BATCH) {
+    const batch = nodeIds.slice(i, i + LOOKUP_BATCH);
+    const rows = db
+      .query(`SELECT id, COALESCE(name, 'Transcript') AS name FROM nodes WHERE id IN (${batch.map(() => "?").join(",")})`)
+      .all(...batch) as Array<{ id: string; name: string }>;
+    for (const row of rows) names.set(row.id, row.name);
+  }
+  return names;
+}
@@ -0,0 +1,339 @@
+/**
+ * Embedding Providers
+ *
+ * Provider implementations plugged into resona's EmbeddingService besides
+ * its built-in OllamaProvider:
+ * - OpenAICompatibleProvider: any server exposing POST /v1/embeddings
+ *   (llama.cpp server, vLLM, LM Studio, OpenAI itself)
+ * - TransformersProvider: in-process ONNX model via @huggingface/transformers
+ *   (optional dependency, loaded on first use)
+ *
+ * All providers implement resona's EmbeddingProvider interface, so the
+ * storage and search path stays identical regardless of where vectors
+ * come from.
+ */
+
+import type { EmbeddingProvider } from "resona";
+import type { EmbeddingConfig, EmbeddingProviderType } from "../types";
+import { StructuredError } from "../utils/structured-errors";
+
+export type { EmbeddingProvider };
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderType[] = ["ollama", "openai", "transformers"];
+
+/** Default endpoint per provider (transformers runs in-process) */
+export const DEFAULT_PROVIDER_ENDPOINTS: Record<EmbeddingProviderType, string | undefined> = {
+  ollama: "http://localhost:11434",
+  openai: "http://localhost:8080",
+  transformers: undefined,
+};
+
+/** Default model for the in-process provider */
+export const DEFAULT_TRANSFORMERS_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+/**
+ * Dimensions of common models served by OpenAI-compatible servers
+ * and transformers.js; anything else needs an explicit --dimensions
+ */
+export const KNOWN_MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/bge-base-en-v1.5": 768,
+  "Xenova/bge-m3": 1024,
+  "Xenova/multilingual-e5-small": 384,
+  "nomic-ai/nomic-embed-text-v1.5": 768,
+};
+
+/**
+ * Resolve the provider type of a config (configs written before
+ * providers existed have none and mean Ollama)
+ */
+export function getProviderType(config: Pick<EmbeddingConfig, "provider">): EmbeddingProviderType {
+  return config.provider ?? "ollama";
+}
+
+/**
+ * Validate a provider name from user input
+ */
+export function parseProviderType(value: string): EmbeddingProviderType {
+  if (!EMBEDDING_PROVIDERS.includes(value as EmbeddingProviderType)) {
+    throw new StructuredError("INVALID_PARAMETER", `Unknown embedding provider: ${value}`, {
+      details: { provider: value },
+      suggestion: `Use one of: ${EMBEDDING_PROVIDERS.join(", ")}`,
+    });
+  }
+  return value as EmbeddingProviderType;
+}
+
+/**
+ * Provider for OpenAI-compatible /v1/embeddings endpoints
+ */
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  readonly dimensions: number;
+  /** Local servers (llama.cpp, LM Studio) handle far fewer inputs per request than OpenAI */
+  readonly maxBatchSize = 64;
+  readonly supportsAsync = true;
+  private readonly url: string;
+  private readonly apiKey?: string;
+
+  constructor(model: string, dimensions: number, endpoint?: string, apiKey?: string) {
+    this.model = model;
+    this.dimensions = dimensions;
+    this.url = openAIUrl(endpoint ?? DEFAULT_PROVIDER_ENDPOINTS.openai!, "embeddings");
+    this.apiKey = apiKey;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: openAIHeaders(this.apiKey),
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new StructuredError("API_ERROR", `Embedding request failed: ${response.status} ${response.statusText}`, {
+        details: { url: this.url, model: this.model, status: response.status, body: body.slice(0, 500) },
+        recovery: { retryable: response.status === 429 || response.status >= 500 },
+      });
+    }
+
+    const result = (await response.json()) as { data?: Array<{ index: number; embedding: number[] }> };
+    if (!Array.isArray(result.data) || result.data.length !== texts.length) {
+      throw new StructuredError("API_ERROR", `Embedding response has ${result.data?.length ?? 0} vectors for ${texts.length} inputs`, {
+        details: { url: this.url, model: this.model },
+      });
+    }
+
+    // Servers may return entries out of order; index is authoritative
+    return [...result.data].sort((a, b) => a.index - b.index).map((d) => new Float32Array(d.embedding));
+  }
+
+  async embedSingle(text: string): Promise<Float32Array> {
+    const [vector] = await this.embed([text]);
+    return vector;
+  }
+}
+
+/**
+ * Minimal surface of the transformers.js feature-extraction pipeline
+ */
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+/**
+ * In-process provider using @huggingface/transformers (ONNX runtime)
+ *
+ * The package is an optional dependency: it is imported on first embed()
+ * so users of the other providers never need it installed.
+ */
+export class TransformersProvider implements EmbeddingProvider {
+  readonly name = "transformers";
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxBatchSize = 32;
+  /** One model instance in this process: requests would only queue */
+  readonly supportsAsync = false;
+  private extractor?: Promise<FeatureExtractor>;
+
+  constructor(model: string, dimensions: number) {
+    this.model = model;
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    this.extractor ??= loadFeatureExtractor(this.model);
+    const extractor = await this.extractor;
+    const output = await extractor(texts, { pooling: "mean", normalize: true });
+    return output.tolist().map((vector) => new Float32Array(vector));
+  }
+
+  async embedSingle(text: string): Promise<Float32Array> {
+    const [vector] = await this.embed([text]);
+    return vector;
+  }
+}
+
+async function loadFeatureExtractor(model: string): Promise<FeatureExtractor> {
+  const transformers = await importTransformers();
+  return (await transformers.pipeline("feature-extraction", model)) as FeatureExtractor;
+}
+
+/**
+ * Minimal surface of the @huggingface/transformers module used here
+ */
+export interface TransformersModule {
+  pipeline: (task: string, model: string) => Promise<unknown>;
+  AutoTokenizer: { from_pretrained(model: string): Promise<unknown> };
+  AutoModelForSequenceClassification: { from_pretrained(model: string): Promise<unknown> };
+}
+
+/**
+ * Import the optional @huggingface/transformers package
+ *
+ * Only available when running from source: the compiled binary cannot load
+ * packages at runtime.
+ *
+ * @throws StructuredError CONFIG_INVALID with install instructions if missing
+ */
+export async function importTransformers(): Promise<TransformersModule> {
+  // Indirect specifier keeps the optional package out of static resolution
+  const specifier = "@huggingface/transformers";
+  try {
+    return await import(specifier);
+  } catch (error) {
+    throw new StructuredError("CONFIG_INVALID", "The transformers provider requires @huggingface/transformers", {
+      suggestion:
+        "@huggingface/transformers is an optional dependency the prebuilt binary cannot load. " +
+        "Run supertag from a source checkout (bun install, then bun run src/index.ts), or use the ollama or openai provider",
+      cause: error instanceof Error ? error : undefined,
+    });
+  }
+}
+
+/**
+ * Wraps a provider so each request carries batchSize texts, replacing the
+ * provider's own maxBatchSize (which resona's EmbeddingService batches by);
+ * embed() splits as well for direct callers
+ */
+export class BatchingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly inner: EmbeddingProvider,
+    private readonly batchSize: number
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  get maxBatchSize(): number {
+    return this.batchSize;
+  }
+
+  get supportsAsync(): boolean {
+    return this.inner.supportsAsync;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...(await this.inner.embed(texts.slice(i, i + this.batchSize))));
+    }
+    return vectors;
+  }
+
+  embedSingle(text: string): Promise<Float32Array> {
+    return this.inner.embedSingle(text);
+  }
+}
+
+/**
+ * Result of a provider reachability check
+ */
+export interface ProviderHealth {
+  ok: boolean;
+  /** One-line status or failure reason */
+  message: string;
+  /** Commands or steps to fix a failure */
+  hints: string[];
+}
+
+/**
+ * Check that the configured provider can serve the configured model
+ * before starting a long embedding run
+ */
+export async function checkEmbeddingProvider(config: EmbeddingConfig): Promise<ProviderHealth> {
+  const provider = getProviderType(config);
+  const endpoint = config.endpoint ?? DEFAULT_PROVIDER_ENDPOINTS[provider];
+
+  if (provider === "transformers") {
+    try {
+      await importTransformers();
+      return { ok: true, message: `In-process model ${config.model}`, hints: [] };
+    } catch {
+      return {
+        ok: false,
+        message: "@huggingface/transformers is not available (the prebuilt binary cannot load it)",
+        hints: [
+          "Run from a source checkout: bun install && bun run src/index.ts embed generate",
+          "Or switch provider: supertag embed config --provider ollama",
+        ],
+      };
+    }
+  }
+
+  if (provider === "openai") {
+    const url = openAIUrl(endpoint!, "models");
+    try {
+      const response = await fetch(url, { headers: openAIHeaders(config.apiKey) });
+      if (response.status === 401 || response.status === 403) {
+        return {
+          ok: false,
+          message: `Server rejected the API key (${response.status})`,
+          hints: ["supertag embed config --api-key <key>"],
+        };
+      }
+      // Not every compatible server implements /v1/models; reachability is enough
+      return { ok: true, message: `Server reachable at ${endpoint}`, hints: [] };
+    } catch {
+      return {
+        ok: false,
+        message: `Cannot connect to ${endpoint}`,
+        hints: ["Start your OpenAI-compatible server (e.g. llama-server --embedding)"],
+      };
+    }
+  }
+
+  try {
+    const response = await fetch(`${endpoint}/api/tags`);
+    if (!response.ok) {
+      return { ok: false, message: "Ollama not available", hints: ["ollama serve"] };
+    }
+    const data = (await response.json()) as { models?: Array<{ name: string }> };
+    const modelAvailable = data.models?.some((m) =>
+      m.name === config.model || m.name.startsWith(`${config.model}:`)
+    );
+    if (!modelAvailable) {
+      return {
+        ok: false,
+        message: `Model "${config.model}" not found in Ollama`,
+        hints: [`ollama pull ${config.model}`],
+      };
+    }
+    return { ok: true, message: `Ollama reachable at ${endpoint}`, hints: [] };
+  } catch {
+    return { ok: false, message: "Cannot connect to Ollama", hints: ["ollama serve"] };
+  }
+}
+
+/**
+ * Build an OpenAI API URL, accepting endpoints with or without the /v1 suffix
+ */
+function openAIUrl(endpoint: string, path: string): string {
+  const base = endpoint.replace(/\/+$/, "");
+  return base.endsWith("/v1") ? `${base}/${path}` : `${base}/v1/${path}`;
+}
+
+function openAIHeaders(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return headers;
+}
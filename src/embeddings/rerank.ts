@@ -0,0 +1,234 @@
+/**
+ * Search Re-ranking
+ *
+ * Optional second stage for semantic search: the top-N vector hits are
+ * re-scored and re-sorted before the result limit is applied.
+ * - heuristic: vector similarity combined with recency, tag priority and
+ *   reference count boosts
+ * - cross-encoder: a local cross-encoder (via @huggingface/transformers)
+ *   replaces vector similarity as the relevance signal; the same boosts apply
+ *
+ * Candidates beyond N keep their original order after the re-ranked ones.
+ */
+
+import type { Database } from "bun:sqlite";
+import type { RerankConfig, RerankStrategy } from "../types";
+import { importTransformers } from "./providers";
+import { normalizeName } from "../utils/normalize-name";
+import { StructuredError } from "../utils/structured-errors";
+
+export const RERANK_STRATEGIES: RerankStrategy[] = ["none", "heuristic", "cross-encoder"];
+
+export const DEFAULT_RERANK = {
+  candidates: 50,
+  model: "Xenova/ms-marco-MiniLM-L-6-v2",
+  weights: { similarity: 1, recency: 0.2, tags: 0.2, references: 0.1 },
+  recencyHalfLifeDays: 90,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scores query/passage relevance in [0, 1], one score per text
+ */
+export type RelevanceScorer = (query: string, texts: string[]) => Promise<number[]>;
+
+/**
+ * Minimal shape of a search hit that can be re-ranked
+ */
+export interface RerankCandidate {
+  nodeId: string;
+  similarity: number;
+  name?: string;
+}
+
+export type Reranked<T> = T & { rerankScore?: number };
+
+export interface RerankOptions extends RerankConfig {
+  /** Reference time for recency (default: Date.now()) */
+  now?: number;
+  /** Relevance scorer for cross-encoder (default: local transformers model) */
+  scorer?: RelevanceScorer;
+  /** Passage text given to the cross-encoder (default: node name) */
+  textOf?: (candidate: RerankCandidate) => string;
+}
+
+/**
+ * Validate a strategy name from user input
+ */
+export function parseRerankStrategy(value: string): RerankStrategy {
+  if (!RERANK_STRATEGIES.includes(value as RerankStrategy)) {
+    throw new StructuredError("INVALID_PARAMETER", `Unknown re-ranking strategy: ${value}`, {
+      details: { strategy: value },
+      suggestion: `Use one of: ${RERANK_STRATEGIES.join(", ")}`,
+    });
+  }
+  return value as RerankStrategy;
+}
+
+/**
+ * Parse "tag=weight,tag=weight" into a tag priority map
+ */
+export function parseTagPriority(value: string): Record<string, number> {
+  const priorities: Record<string, number> = {};
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [tag, raw] = entry.split("=");
+    const weight = Number(raw);
+    if (!tag || raw === undefined || !Number.isFinite(weight) || weight < -1 || weight > 1) {
+      throw new StructuredError("INVALID_FORMAT", `Invalid tag priority: ${entry}`, {
+        suggestion: "Use tag=weight pairs with weights from -1 to 1",
+        example: "project=1,meeting=0.5,day=-0.5",
+      });
+    }
+    priorities[tag.replace(/^#/, "")] = weight;
+  }
+  return priorities;
+}
+
+/**
+ * Number of vector hits to fetch so re-ranking sees enough candidates
+ */
+export function getRerankFetchLimit(baseLimit: number, strategy: RerankStrategy, candidates?: number): number {
+  if (strategy === "none") return baseLimit;
+  return Math.max(baseLimit, candidates ?? DEFAULT_RERANK.candidates);
+}
+
+/**
+ * Re-score the top candidates and return all results in the new order
+ */
+export async function rerankResults<T extends RerankCandidate>(
+  db: Database,
+  query: string,
+  results: T[],
+  options: RerankOptions = {}
+): Promise<Reranked<T>[]> {
+  const strategy = options.strategy ?? "none";
+  if (strategy === "none" || results.length === 0) return results;
+
+  const count = options.candidates ?? DEFAULT_RERANK.candidates;
+  const head = results.slice(0, count);
+  const tail = results.slice(count);
+  const weights = { ...DEFAULT_RERANK.weights, ...options.weights };
+  const halfLifeDays = options.recencyHalfLifeDays ?? DEFAULT_RERANK.recencyHalfLifeDays;
+  const now = options.now ?? Date.now();
+  const nodeIds = head.map((r) => r.nodeId);
+
+  const relevance = strategy === "cross-encoder"
+    ? await (options.scorer ?? getCrossEncoder(options.model ?? DEFAULT_RERANK.model))(
+        query,
+        head.map((r) => options.textOf?.(r) ?? r.name ?? "")
+      )
+    : head.map((r) => r.similarity);
+
+  const timestamps = getTimestamps(db, nodeIds);
+  const tagPriority = getTagPriority(db, nodeIds, options.tagPriority ?? {});
+  const referenceCounts = getReferenceCounts(db, nodeIds);
+  const maxReferences = Math.max(0, ...referenceCounts.values());
+
+  const scored = head.map((r, i) => {
+    const timestamp = timestamps.get(r.nodeId);
+    const ageDays = timestamp ? Math.max(0, now - timestamp) / DAY_MS : undefined;
+    const references = referenceCounts.get(r.nodeId) ?? 0;
+    // Signals are in [0, 1], except tag priority in [-1, 1]
+    const rerankScore =
+      weights.similarity * (relevance[i] ?? 0) +
+      weights.recency * (ageDays === undefined ? 0 : Math.pow(0.5, ageDays / halfLifeDays)) +
+      weights.tags * (tagPriority.get(r.nodeId) ?? 0) +
+      weights.references * (maxReferences > 0 ? Math.log1p(references) / Math.log1p(maxReferences) : 0);
+    return { ...r, rerankScore };
+  });
+
+  scored.sort((a, b) => b.rerankScore - a.rerankScore);
+  return [...scored, ...tail];
+}
+
+/**
+ * Last modification time per node (falls back to creation time)
+ */
+function getTimestamps(db: Database, nodeIds: string[]): Map<string, number> {
+  const map = new Map<string, number>();
+  if (nodeIds.length === 0) return map;
+  const rows = db
+    .query(`SELECT id, COALESCE(updated, created) AS ts FROM nodes WHERE id IN (${nodeIds.map(() => "?").join(",")})`)
+    .all(...nodeIds) as Array<{ id: string; ts: number | null }>;
+  for (const row of rows) {
+    if (row.ts) map.set(row.id, row.ts);
+  }
+  return map;
+}
+
+/**
+ * Strongest configured priority among each node's tags
+ */
+function getTagPriority(db: Database, nodeIds: string[], priorities: Record<string, number>): Map<string, number> {
+  const map = new Map<string, number>();
+  const normalized = new Map(Object.entries(priorities).map(([tag, w]) => [normalizeName(tag), w]));
+  if (nodeIds.length === 0 || normalized.size === 0) return map;
+
+  const rows = db
+    .query(`SELECT data_node_id AS nodeId, tag_name AS tagName FROM tag_applications WHERE data_node_id IN (${nodeIds.map(() => "?").join(",")})`)
+    .all(...nodeIds) as Array<{ nodeId: string; tagName: string }>;
+  for (const row of rows) {
+    const weight = normalized.get(normalizeName(row.tagName));
+    if (weight === undefined) continue;
+    const current = map.get(row.nodeId);
+    if (current === undefined || Math.abs(weight) > Math.abs(current)) {
+      map.set(row.nodeId, weight);
+    }
+  }
+  return map;
+}
+
+/**
+ * Number of distinct nodes referencing each node
+ */
+function getReferenceCounts(db: Database, nodeIds: string[]): Map<string, number> {
+  const map = new Map<string, number>();
+  if (nodeIds.length === 0) return map;
+  const rows = db
+    .query(`SELECT to_node AS nodeId, COUNT(DISTINCT from_node) AS count FROM "references" WHERE to_node IN (${nodeIds.map(() => "?").join(",")}) GROUP BY to_node`)
+    .all(...nodeIds) as Array<{ nodeId: string; count: number }>;
+  for (const row of rows) {
+    map.set(row.nodeId, row.count);
+  }
+  return map;
+}
+
+/**
+ * Minimal surface of transformers.js tokenizer and classification model
+ */
+type CrossEncoderTokenizer = (
+  texts: string[],
+  options: { text_pair: string[]; padding: boolean; truncation: boolean }
+) => unknown;
+type CrossEncoderModel = (inputs: unknown) => Promise<{ logits: { tolist(): number[][] } }>;
+
+const crossEncoders = new Map<string, RelevanceScorer>();
+
+/**
+ * Local cross-encoder scorer, loaded once per model
+ */
+function getCrossEncoder(model: string): RelevanceScorer {
+  let scorer = crossEncoders.get(model);
+  if (!scorer) {
+    const loaded = loadCrossEncoder(model);
+    // Don't cache a failed load (e.g. package installed later)
+    loaded.catch(() => crossEncoders.delete(model));
+    scorer = async (query, texts) => (await loaded)(query, texts);
+    crossEncoders.set(model, scorer);
+  }
+  return scorer;
+}
+
+async function loadCrossEncoder(model: string): Promise<RelevanceScorer> {
+  const transformers = await importTransformers();
+  const tokenizer = (await transformers.AutoTokenizer.from_pretrained(model)) as CrossEncoderTokenizer;
+  const classifier = (await transformers.AutoModelForSequenceClassification.from_pretrained(model)) as CrossEncoderModel;
+
+  return async (query, texts) => {
+    if (texts.length === 0) return [];
+    const inputs = tokenizer(texts.map(() => query), { text_pair: texts, padding: true, truncation: true });
+    const { logits } = await classifier(inputs);
+    return logits.tolist().map(([logit]) => 1 / (1 + Math.exp(-logit)));
+  };
+}
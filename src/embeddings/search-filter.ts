@@ -14,6 +14,8 @@ import { withDbRetrySync } from "../db/retry";
 export interface RawSearchResult {
   nodeId: string;
   distance: number;
+  /** Best-matching chunk, when the node was embedded in chunks */
+  chunkId?: string;
 }
 
 /**
@@ -86,6 +88,7 @@ export function enrichSearchResults(
         similarity: 1 - r.distance,
         name: node.name,
         tags: tags.length > 0 ? tags.map((t) => t.name) : undefined,
+        ...(r.chunkId && { chunkId: r.chunkId }),
       });
     }
   }
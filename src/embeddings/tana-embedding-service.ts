@@ -65,6 +65,19 @@ export interface MaintenanceResult {
   };
 }
 import type { ContextualizedNode } from "./contextualize";
+import type { EmbeddingConfig } from "../types";
+import { StructuredError } from "../utils/structured-errors";
+import { getEmbeddingDimensions } from "./embed-config-new";
+import { collapseChunkResults } from "./chunking";
+import {
+  BatchingProvider,
+  DEFAULT_PROVIDER_ENDPOINTS,
+  DEFAULT_TRANSFORMERS_MODEL,
+  OpenAICompatibleProvider,
+  TransformersProvider,
+  getProviderType,
+  type EmbeddingProvider,
+} from "./providers";
 
 /**
  * Tana-specific search result with nodeId field
@@ -76,15 +89,17 @@ export interface TanaSearchResult {
   distance: number;
   /** Similarity score (1 - distance, higher = more similar) */
   similarity: number;
+  /** Best-matching chunk, when the node was embedded in chunks */
+  chunkId?: string;
 }
 
 /**
  * Options for creating TanaEmbeddingService
  */
-export interface TanaEmbeddingServiceOptions {
-  /** Embedding model name (default: "bge-m3") */
+export interface TanaEmbeddingServiceOptions extends Partial<EmbeddingConfig> {
+  /** Embedding model name (default: "bge-m3", or all-MiniLM-L6-v2 for transformers) */
   model?: string;
-  /** Ollama endpoint URL (default: "http://localhost:11434") */
+  /** Provider endpoint URL (default: "http://localhost:11434" for Ollama) */
   endpoint?: string;
 }
 
@@ -103,20 +118,14 @@ export class TanaEmbeddingService {
    * Create a TanaEmbeddingService
    *
    * @param dbPath - Path to LanceDB database directory
-   * @param options - Optional model and endpoint configuration
+   * @param options - Embedding config (provider, model, endpoint, ...)
    */
   constructor(dbPath: string, options: TanaEmbeddingServiceOptions = {}) {
-    const model = options.model ?? "bge-m3";
-    const endpoint = options.endpoint ?? "http://localhost:11434";
-
     // Convert .db extension to .lance for LanceDB
     this.dbPath = dbPath.replace(/\.db$/, ".lance");
 
-    // Create Ollama provider
-    const provider = new OllamaProvider(model, endpoint);
-
-    // Create resona EmbeddingService
-    this.service = new EmbeddingService(provider, this.dbPath);
+    // Create resona EmbeddingService with the configured provider
+    this.service = new EmbeddingService(createEmbeddingProvider(options), this.dbPath);
   }
 
   /**
@@ -139,10 +148,11 @@ export class TanaEmbeddingService {
   ): Promise<BatchEmbedResult> {
     // Map ContextualizedNode[] to ItemToEmbed[]
     const items = nodes.map((node) => ({
-      id: node.nodeId,
+      id: node.chunkId ?? node.nodeId,
       text: node.nodeName,
       contextText: node.contextText,
       metadata: {
+        nodeId: node.nodeId,
         ancestorId: node.ancestorId,
         ancestorName: node.ancestorName,
         ancestorTags: node.ancestorTags,
@@ -158,20 +168,24 @@ export class TanaEmbeddingService {
    *
    * Returns node IDs with similarity scores. The caller is responsible
    * for enriching results with full node data from the Tana SQLite database.
+   * Chunked nodes are collapsed to their best-matching chunk (chunkId).
    *
    * @param query - Query text to search for
    * @param k - Number of results to return (default: 10)
    * @returns Array of search results with nodeId, distance, similarity
    */
   async search(query: string, k: number = 10): Promise<TanaSearchResult[]> {
-    const results = await this.service.search(query, k);
+    // Over-fetch so several chunks of one node don't crowd out other nodes
+    const results: SearchResult[] = await this.service.search(query, k * 2);
 
     // Map to Tana-specific format (nodeId instead of id)
-    return results.map((result) => ({
-      nodeId: result.id,
-      distance: result.distance,
-      similarity: result.similarity,
-    }));
+    return collapseChunkResults(
+      results.map((result) => ({
+        id: result.id,
+        distance: result.distance,
+        similarity: result.similarity,
+      }))
+    ).slice(0, k);
   }
 
   /**
@@ -242,3 +256,34 @@ export class TanaEmbeddingService {
     this.service.close();
   }
 }
+
+/**
+ * Create the embedding provider for a (workspace-resolved) embedding config
+ *
+ * Ollama uses resona's OllamaProvider; OpenAI-compatible servers and the
+ * in-process transformers model use the providers in ./providers.
+ * A configured batchSize caps the number of texts per provider request.
+ */
+export function createEmbeddingProvider(options: TanaEmbeddingServiceOptions): EmbeddingProvider {
+  const type = getProviderType(options);
+  const model = options.model ?? (type === "transformers" ? DEFAULT_TRANSFORMERS_MODEL : "bge-m3");
+  const endpoint = options.endpoint ?? DEFAULT_PROVIDER_ENDPOINTS[type];
+
+  let provider: EmbeddingProvider;
+  if (type === "ollama") {
+    provider = new OllamaProvider(model, endpoint);
+  } else {
+    const dimensions = getEmbeddingDimensions({ ...options, model });
+    if (!dimensions) {
+      throw new StructuredError("CONFIG_INVALID", `Unknown dimensions for embedding model "${model}"`, {
+        details: { provider: type, model },
+        suggestion: "Set them with: supertag embed config --dimensions <n>",
+      });
+    }
+    provider = type === "openai"
+      ? new OpenAICompatibleProvider(model, dimensions, endpoint, options.apiKey)
+      : new TransformersProvider(model, dimensions);
+  }
+
+  return options.batchSize ? new BatchingProvider(provider, options.batchSize) : provider;
+}
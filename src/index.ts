@@ -50,6 +50,12 @@ import { createTagCommand } from './commands/tag';
 import { createSetFieldCommand } from './commands/set-field';
 import { createTrashCommand } from './commands/trash';
 import { createDoneCommand, createUndoneCommand } from './commands/done';
+import { createHistoryCommand, createUndoCommand } from './commands/history';
+import { createImportCommand } from './commands/import';
+import { createExportCommand } from './commands/export';
+import { createDedupeCommand } from './commands/dedupe';
+import { createLintCommand } from './commands/lint';
+import { createWebhooksCommand } from './commands/webhooks';
 import { configureGlobalLogger } from './utils/logger';
 import { resolveOutputMode } from './utils/output-formatter';
 import { setDebugMode, formatDebugError } from './utils/debug';
@@ -66,7 +72,10 @@ program
   .name('supertag')
   .description('Supertag CLI - read, write, sync, and serve Tana data')
   .version(VERSION)
-  .option('--debug', 'Enable debug mode with verbose error output');
+  .option('--debug', 'Enable debug mode with verbose error output')
+  // Options after a subcommand belong to it (query run <name> -w work must not
+  // be taken by the parent query command's -w)
+  .enablePositionalOptions();
 
 /**
  * Format Command
@@ -191,6 +200,13 @@ program.addCommand(createSetFieldCommand());   // supertag set-field <nodeId> <f
 program.addCommand(createTrashCommand());      // supertag trash <nodeId>
 program.addCommand(createDoneCommand());       // supertag done <nodeId>
 program.addCommand(createUndoneCommand());     // supertag undone <nodeId>
+program.addCommand(createHistoryCommand());    // supertag history [--node <id>]
+program.addCommand(createUndoCommand());       // supertag undo [<id>|--last N]
+program.addCommand(createImportCommand());     // supertag import <file.tana> [--dry-run]
+program.addCommand(createExportCommand());     // supertag export markdown --out <dir>
+program.addCommand(createDedupeCommand());     // supertag dedupe --tag person [--merge]
+program.addCommand(createLintCommand());       // supertag lint --tag task [--require <fields>]
+program.addCommand(createWebhooksCommand());   // supertag webhooks add|list|remove|test|dead-letters|replay
 
 /**
  * Help text with examples
@@ -203,10 +219,12 @@ program.on('--help', () => {
   console.log('    supertag create <tag> [name]   Create nodes with supertags');
   console.log('    supertag format                Convert JSON to Tana Paste');
   console.log('    supertag post                  Post raw payload to Tana');
+  console.log('    supertag import <file>         Import a Tana Paste file (--dry-run)');
   console.log('');
   console.log('  SEARCH (Unified):');
   console.log('    supertag search <query>        Full-text search (default)');
   console.log('    supertag search <q> --semantic Semantic/vector search');
+  console.log('    supertag search <q> --hybrid   FTS + semantic, rank-fused');
   console.log('    supertag search <q> --tag <t>  Find nodes by supertag');
   console.log('');
   console.log('  NODES:');
@@ -214,6 +232,8 @@ program.on('--help', () => {
   console.log('    supertag nodes refs <id>       Show node references');
   console.log('    supertag nodes recent          Recently updated nodes');
   console.log('    supertag related <id>          Find related nodes (graph traversal)');
+  console.log('    supertag dedupe --tag <t>      Find and merge duplicate nodes');
+  console.log('    supertag lint --tag <t>        Check field values against the schema');
   console.log('');
   console.log('  TAGS:');
   console.log('    supertag tags list             List all supertags');
@@ -248,6 +268,9 @@ program.on('--help', () => {
   console.log('    supertag recent --period 7d    Last 7 days');
   console.log('    supertag recent --types meeting,task  Filter by types');
   console.log('');
+  console.log('  EXPORT:');
+  console.log('    supertag export markdown -o <dir>  Markdown/Obsidian vault (incremental)');
+  console.log('');
   console.log('  EXPORT (Separate Tool):');
   console.log('    supertag-export login          First-time login setup');
   console.log('    supertag-export run            Export workspace JSON');
@@ -265,6 +288,12 @@ program.on('--help', () => {
   console.log('    supertag server stop           Stop daemon server');
   console.log('    supertag server status         Check server status');
   console.log('');
+  console.log('  WEBHOOKS (Outbound):');
+  console.log('    supertag webhooks add          POST events on tag/field changes');
+  console.log('    supertag webhooks list         List rules');
+  console.log('    supertag webhooks dead-letters Show undelivered events');
+  console.log('    supertag webhooks replay       Resend undelivered events');
+  console.log('');
   console.log('  EMBEDDINGS:');
   console.log('    supertag embed config          Configure embedding provider');
   console.log('    supertag embed generate        Generate node embeddings');
@@ -280,6 +309,10 @@ program.on('--help', () => {
   console.log('    supertag schema list           List all supertags');
   console.log('    supertag schema show <name>    Show supertag details');
   console.log('    supertag schema search <q>     Search supertags by name');
+  console.log('    supertag schema diff           Report changes since saved baseline');
+  console.log('      --save                       Save current schema as baseline');
+  console.log('      --check                      Exit 1 if the schema changed (CI)');
+  console.log('    supertag schema history [tag]  Schema versions, or field changes of a tag');
   console.log('');
   console.log('  WORKSPACES:');
   console.log('    supertag workspace list        List all workspaces');
@@ -292,10 +325,13 @@ program.on('--help', () => {
   console.log('    supertag workspace disable <a> Disable from batch operations');
   console.log('');
   console.log('  CODEGEN:');
-  console.log('    supertag codegen generate      Generate Effect Schema classes');
+  console.log('    supertag codegen generate      Generate schemas from supertags');
   console.log('      -o, --output <path>          Output file (required)');
+  console.log('      -f, --format <format>        effect|zod|typescript|json-schema');
   console.log('      -t, --tags <tags...>         Filter to specific supertags');
   console.log('      --split                      One file per supertag');
+  console.log('      --client                     Typed client (create/find/set helpers)');
+  console.log('      --at <date>                  Use the schema as of a date');
   console.log('      --optional <strategy>        option|undefined|nullable');
   console.log('      -d, --dry-run                Preview without writing');
   console.log('');
@@ -457,7 +493,11 @@ async function main() {
   }
 
   // Parse and execute commands
-  program.parse();
+  // --debug is a program option, so with positional options it must precede the subcommand
+  const argv = hasDebugFlag
+    ? [...process.argv.slice(0, 2), '--debug', ...process.argv.slice(2).filter(arg => arg !== '--debug')]
+    : process.argv;
+  program.parse(argv);
 }
 
 main().catch((error) => {
@@ -34,6 +34,8 @@ export interface DeltaSyncPollerOptions {
   intervalMinutes: number;
   /** Path to SQLite database */
   dbPath: string;
+  /** Workspace alias (for outbound webhook rules and events) */
+  workspace?: string;
   /** Local API client (structural typing for testability) */
   localApiClient: {
     searchNodes(
@@ -57,6 +59,7 @@ export interface InitDeltaSyncPollerOptions {
   };
   syncInterval: number;
   dbPath: string;
+  workspace?: string;
   embeddingConfig?: { model: string; endpoint?: string };
   logger?: PollerLogger;
   /** Factory for creating the local API client (injectable for testing) */
@@ -86,6 +89,7 @@ export class DeltaSyncPoller {
       localApiClient: options.localApiClient,
       embeddingConfig: options.embeddingConfig,
       logger: options.logger,
+      workspace: options.workspace,
     });
   }
 
@@ -218,7 +222,7 @@ export class DeltaSyncPoller {
 export function initDeltaSyncPoller(
   options: InitDeltaSyncPollerOptions
 ): DeltaSyncPoller | null {
-  const { localApiConfig, syncInterval, dbPath, embeddingConfig, logger } =
+  const { localApiConfig, syncInterval, dbPath, workspace, embeddingConfig, logger } =
     options;
 
   // Guard: local API must be enabled
@@ -255,6 +259,7 @@ export function initDeltaSyncPoller(
   const poller = new DeltaSyncPoller({
     intervalMinutes: syncInterval,
     dbPath,
+    workspace,
     localApiClient,
     embeddingConfig,
     logger,
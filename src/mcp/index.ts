@@ -24,6 +24,7 @@ import { stats } from './tools/stats.js';
 import { supertags } from './tools/supertags.js';
 import { showNode } from './tools/node.js';
 import { related } from './tools/related.js';
+import { similar } from './tools/similar.js';
 import { create } from './tools/create.js';
 import { sync } from './tools/sync.js';
 import { semanticSearch } from './tools/semantic-search.js';
@@ -36,6 +37,7 @@ import { toolSchema } from './tools/tool-schema.js';
 import { batchGet } from './tools/batch-get.js';
 import { batchCreate } from './tools/batch-create.js';
 import { query } from './tools/query.js';
+import { savedQuery } from './tools/saved-query.js';
 import { aggregate } from './tools/aggregate.js';
 import { timeline, recent } from './tools/timeline.js';
 import { handleUpdateNode } from './tools/update.js';
@@ -82,7 +84,7 @@ const allTools = [
   {
         name: 'tana_search',
         description:
-          'Full-text search on Tana node names. Returns matching nodes with their IDs, names, relevance rank, and supertags. By default includes ancestor context: when a match is nested, shows the containing project/meeting/etc with supertag. Use includeAncestor=false to disable.',
+          'Full-text search on Tana node names. Returns matching nodes with their IDs, names, relevance rank, and supertags. By default includes ancestor context: when a match is nested, shows the containing project/meeting/etc with supertag. Use includeAncestor=false to disable. Set hybrid=true to also run semantic search and merge both rankings (requires embeddings).',
         inputSchema: schemas.zodToJsonSchema(schemas.searchSchema),
       },
       {
@@ -115,6 +117,12 @@ const allTools = [
           'Find nodes related to a given node through references, children, and field links. Returns nodes connected within the specified depth with relationship metadata.',
         inputSchema: schemas.zodToJsonSchema(schemas.relatedSchema),
       },
+      {
+        name: 'tana_similar',
+        description:
+          '"More like this": find the nearest neighbours of an existing node by its embedding, optionally restricted to a supertag. Merges in structural neighbours (children, parent, references, fields) so each similar node shows whether it is already linked; "unlinked" counts similar nodes without a link. Useful for finding duplicate meetings or related projects nobody linked. Requires embeddings (supertag embed generate).',
+        inputSchema: schemas.zodToJsonSchema(schemas.similarSchema),
+      },
       {
         name: 'tana_create',
         description:
@@ -154,7 +162,7 @@ const allTools = [
       {
         name: 'tana_semantic_search',
         description:
-          'Semantic similarity search on Tana nodes using vector embeddings. Finds conceptually related content even without exact keyword matches. Returns nodes ranked by similarity score (0-1). By default, includes ancestor context: when a match is a nested fragment, shows the containing project/meeting/etc with supertag. Use includeContents=true for full node details (fields, children, tags), includeAncestor=false to disable ancestor resolution. Requires embeddings to be generated first (supertag embed generate).',
+          'Semantic similarity search on Tana nodes using vector embeddings. Finds conceptually related content even without exact keyword matches. Returns nodes ranked by similarity score (0-1). By default, includes ancestor context: when a match is a nested fragment, shows the containing project/meeting/etc with supertag. Use includeContents=true for full node details (fields, children, tags), includeAncestor=false to disable ancestor resolution. Set hybrid=true to merge with full-text results via reciprocal-rank fusion (tune with ftsWeight/semanticWeight). When embeddings were generated with chunking, each result includes the best-matching chunk (text, offset, anchor node, transcript start time). Set rerank="heuristic" to boost recent, prioritized-tag and often-referenced nodes among the top rerankCandidates, or rerank="cross-encoder" to re-score them with a local cross-encoder. Requires embeddings to be generated first (supertag embed generate).',
         inputSchema: schemas.zodToJsonSchema(schemas.semanticSearchSchema),
       },
       {
@@ -220,9 +228,15 @@ const allTools = [
       {
         name: 'tana_query',
         description:
-          'Unified query with tag, field, and date filtering. Single tool that replaces multi-step discovery workflows. Supports: find by tag, filter by field values (Status=Done), date ranges (created after 7d), contains (~), exists checks, ordering (-created for descending), and field projection (select). Example: find task where Status=Active and created>7d order by -created limit 20',
+          'Unified query with tag, field, and date filtering. Single tool that replaces multi-step discovery workflows. Supports: find by tag, filter by field values (Status=Done), date ranges (created after 7d), contains (~), exists checks, ordering (-created for descending), field projection (select), full-text (text) and semantic (similarTo) matching ranked by a combined score, and explain=true to see resolved fields, generated SQL and the SQLite query plan. Example: find task where Status=Active and created>7d order by -created limit 20',
         inputSchema: schemas.zodToJsonSchema(schemas.querySchema),
       },
+      {
+        name: 'tana_saved_query',
+        description:
+          'Run a saved query by name, binding $name placeholders from params. Saved queries are created with `supertag query save`. Omit name to list saved queries and the parameters they expect. Example: { name: "open-by-owner", params: { owner: "Alice" } }',
+        inputSchema: schemas.zodToJsonSchema(schemas.savedQuerySchema),
+      },
       {
         name: 'tana_aggregate',
         description:
@@ -359,6 +373,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await related(validated);
         break;
       }
+      case 'tana_similar': {
+        const validated = schemas.similarSchema.parse(args);
+        result = await similar(validated);
+        break;
+      }
       case 'tana_create': {
         const validated = schemas.createSchema.parse(args);
         result = await create(validated);
@@ -429,6 +448,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await query(validated);
         break;
       }
+      case 'tana_saved_query': {
+        const validated = schemas.savedQuerySchema.parse(args);
+        result = await savedQuery(validated);
+        break;
+      }
       case 'tana_aggregate': {
         const validated = schemas.aggregateSchema.parse(args);
         result = await aggregate(validated);
@@ -536,11 +560,14 @@ async function main() {
       const localApiConfig = config.getLocalApiConfig();
       const syncInterval = config.getDeltaSyncInterval();
 
+      const wsContext = resolveWorkspaceContext({ requireDatabase: false });
+
       const poller = initDeltaSyncPoller({
         localApiConfig,
         syncInterval,
-        dbPath: resolveWorkspaceContext({ requireDatabase: false }).dbPath,
-        embeddingConfig: config.getEmbeddingConfig(),
+        dbPath: wsContext.dbPath,
+        workspace: wsContext.alias,
+        embeddingConfig: config.getEmbeddingConfig(wsContext.alias),
         logger,
         localApiClientFactory: (cfg) => new LocalApiClient(cfg),
       });
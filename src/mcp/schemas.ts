@@ -51,6 +51,24 @@ export const dateRangeSchema = {
     .describe('Filter nodes updated before this date (YYYY-MM-DD or ISO 8601)'),
 };
 
+// Hybrid search options (shared by tana_search and tana_semantic_search)
+export const hybridSearchSchema = {
+  hybrid: z
+    .boolean()
+    .optional()
+    .describe('Run both full-text and semantic search and merge them with reciprocal-rank fusion. Requires embeddings.'),
+  ftsWeight: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Hybrid only: weight of full-text ranks in the fused score (default: 1)'),
+  semanticWeight: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Hybrid only: weight of semantic ranks in the fused score (default: 1)'),
+};
+
 // tana_search
 export const searchSchema = z.object({
   query: z.string().min(1).describe('Full-text search query'),
@@ -66,6 +84,7 @@ export const searchSchema = z.object({
     .default(true)
     .describe('Include nearest ancestor with supertag for context. When a match is a nested fragment, shows the containing project/meeting/etc.'),
   ...dateRangeSchema,
+  ...hybridSearchSchema,
 });
 export type SearchInput = z.infer<typeof searchSchema>;
 
@@ -143,6 +162,31 @@ export const relatedSchema = z.object({
 });
 export type RelatedInput = z.infer<typeof relatedSchema>;
 
+// tana_similar
+export const similarSchema = z.object({
+  nodeId: z.string().min(1).describe('Node ID whose embedding is used as the query'),
+  limit: z
+    .number()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe('Maximum number of similar nodes to return (1-100)'),
+  tag: z.string().optional().describe('Only return nodes with this supertag (e.g. "meeting")'),
+  minSimilarity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Minimum similarity threshold (0-1)'),
+  includeStructural: z
+    .boolean()
+    .default(true)
+    .describe('Merge in direct structural neighbours (children, parent, references, fields) and mark which similar nodes are already linked'),
+  workspace: workspaceSchema,
+  select: selectSchema,
+});
+export type SimilarInput = z.infer<typeof similarSchema>;
+
 // Recursive child node schema for nested structures
 interface ChildNode {
   name: string;
@@ -280,6 +324,17 @@ export const semanticSearchSchema = z.object({
     .boolean()
     .default(true)
     .describe('Include nearest ancestor with supertag for context. When a match is a nested fragment, shows the containing project/meeting/etc.'),
+  rerank: z
+    .enum(['none', 'heuristic', 'cross-encoder'])
+    .optional()
+    .describe('Re-rank top candidates: "heuristic" boosts recent, prioritized-tag and often-referenced nodes; "cross-encoder" re-scores relevance with a local model. Defaults to the embedding config.'),
+  rerankCandidates: z
+    .number()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe('Number of top vector hits to re-rank (default: 50)'),
+  ...hybridSearchSchema,
 });
 export type SemanticSearchInput = z.infer<typeof semanticSearchSchema>;
 
@@ -385,10 +440,48 @@ export const querySchema = z.object({
     .min(0)
     .default(0)
     .describe('Skip first N results for pagination'),
+  text: z
+    .string()
+    .optional()
+    .describe('Full-text match on node names (like `text ~ "..."`). Results are ranked by relevance unless orderBy is set.'),
+  similarTo: z
+    .string()
+    .optional()
+    .describe('Semantic similarity match via embeddings (like `similar to "..."`). Combined with text into one ranking score.'),
+  minSimilarity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Minimum similarity (0-1) for similarTo'),
+  explain: z
+    .boolean()
+    .optional()
+    .describe('Return resolved fields/dates, generated SQL and the SQLite query plan instead of results'),
   workspace: workspaceSchema,
 });
 export type QueryInput = z.infer<typeof querySchema>;
 
+// tana_saved_query - Run saved queries with named parameters
+export const savedQuerySchema = z.object({
+  name: z
+    .string()
+    .optional()
+    .describe('Saved query name. Omit to list saved queries and their parameters.'),
+  params: z
+    .record(z.string(), z.union([z.string(), z.number()]))
+    .optional()
+    .describe('Values for $name placeholders (e.g., {"owner": "Alice"})'),
+  limit: z
+    .number()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Maximum results (overrides the saved query when it has no limit)'),
+  workspace: workspaceSchema,
+});
+export type SavedQueryInput = z.infer<typeof savedQuerySchema>;
+
 // tana_batch_get (Spec 062: Batch Operations)
 export const batchGetSchema = z.object({
   nodeIds: z
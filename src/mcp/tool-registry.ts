@@ -101,6 +101,12 @@ export const TOOL_METADATA: ToolMetadata[] = [
     category: 'query',
     example: 'Find active tasks with parent project',
   },
+  {
+    name: 'tana_saved_query',
+    description: 'Run a saved query with named parameters',
+    category: 'query',
+    example: '{ name: "open-by-owner", params: { owner: "Alice" } }',
+  },
   {
     name: 'tana_aggregate',
     description: 'Aggregate nodes with grouping and counting',
@@ -151,6 +157,12 @@ export const TOOL_METADATA: ToolMetadata[] = [
     category: 'explore',
     example: 'Find all nodes connected to a project',
   },
+  {
+    name: 'tana_similar',
+    description: 'Find nodes similar to a given node by embedding',
+    category: 'explore',
+    example: 'Find duplicate meetings nobody linked',
+  },
 
   // Transcript tools
   {
@@ -283,6 +295,7 @@ const TOOL_SCHEMAS: Record<string, ReturnType<typeof schemas.zodToJsonSchema>> =
   tana_supertag_info: schemas.zodToJsonSchema(schemas.supertagInfoSchema),
   tana_node: schemas.zodToJsonSchema(schemas.nodeSchema),
   tana_related: schemas.zodToJsonSchema(schemas.relatedSchema),
+  tana_similar: schemas.zodToJsonSchema(schemas.similarSchema),
   tana_transcript_list: schemas.zodToJsonSchema(schemas.transcriptListSchema),
   tana_transcript_show: schemas.zodToJsonSchema(schemas.transcriptShowSchema),
   tana_transcript_search: schemas.zodToJsonSchema(schemas.transcriptSearchSchema),
@@ -292,6 +305,7 @@ const TOOL_SCHEMAS: Record<string, ReturnType<typeof schemas.zodToJsonSchema>> =
   tana_capabilities: schemas.zodToJsonSchema(schemas.capabilitiesSchema),
   tana_tool_schema: schemas.zodToJsonSchema(schemas.toolSchemaSchema),
   tana_query: schemas.zodToJsonSchema(schemas.querySchema),
+  tana_saved_query: schemas.zodToJsonSchema(schemas.savedQuerySchema),
   tana_aggregate: schemas.zodToJsonSchema(schemas.aggregateSchema),
   tana_timeline: schemas.zodToJsonSchema(schemas.timelineSchema),
   tana_recent: schemas.zodToJsonSchema(schemas.recentSchema),
@@ -0,0 +1,129 @@
+/**
+ * Hybrid search mode for tana_search and tana_semantic_search
+ *
+ * Runs full-text and semantic search and merges them with reciprocal-rank
+ * fusion. Both tools route here when called with `hybrid: true`.
+ */
+
+import { resolveWorkspaceContext } from '../../config/workspace-resolver.js';
+import { findMeaningfulAncestor } from '../../embeddings/ancestor-resolution.js';
+import { hybridSearch } from '../../services/hybrid-search.js';
+import { getNodeContents, getNodeContentsWithDepth } from '../../commands/show.js';
+import { withDatabase } from '../../db/with-database.js';
+import { parseDateRange } from '../schemas.js';
+import {
+  parseSelectPaths,
+  applyProjectionToArray,
+} from '../../utils/select-projection.js';
+
+export interface HybridSearchInput {
+  query: string;
+  workspace?: string;
+  limit?: number;
+  select?: string[];
+  raw?: boolean;
+  includeAncestor?: boolean;
+  includeContents?: boolean;
+  depth?: number;
+  minSimilarity?: number;
+  ftsWeight?: number;
+  semanticWeight?: number;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+}
+
+export interface HybridSearchResultItem {
+  id: string;
+  name: string;
+  /** Fused reciprocal-rank score (higher is better) */
+  score: number;
+  ftsRank?: number;
+  semanticRank?: number;
+  similarity?: number;
+  tags?: string[];
+  ancestor?: {
+    id: string;
+    name: string;
+    tags: string[];
+  };
+  pathFromAncestor?: string[];
+  depthFromAncestor?: number;
+  contents?: unknown;
+}
+
+export interface HybridSearchToolResult {
+  workspace: string;
+  query: string;
+  mode: 'hybrid';
+  results: Partial<Record<string, unknown>>[];
+  count: number;
+}
+
+export async function hybridSearchTool(input: HybridSearchInput): Promise<HybridSearchToolResult> {
+  const workspace = resolveWorkspaceContext({ workspace: input.workspace });
+
+  const results = await hybridSearch(workspace.dbPath, input.query, {
+    limit: input.limit || 20,
+    weights: {
+      ...(input.ftsWeight !== undefined && { fts: input.ftsWeight }),
+      ...(input.semanticWeight !== undefined && { semantic: input.semanticWeight }),
+    },
+    minSimilarity: input.minSimilarity,
+    ...parseDateRange(input),
+    workspace: workspace.alias,
+  });
+
+  const includeAncestor = input.includeAncestor ?? true;
+  const depth = Math.min(input.depth ?? 0, 3);
+
+  const items = await withDatabase({ dbPath: workspace.dbPath, readonly: true }, (ctx) =>
+    results.map((r) => {
+      const item: HybridSearchResultItem = {
+        id: r.id,
+        name: r.name,
+        score: r.score,
+        ftsRank: r.ftsRank,
+        semanticRank: r.semanticRank,
+        similarity: r.similarity,
+      };
+
+      if (!input.raw) {
+        item.tags = r.tags;
+      }
+
+      if (includeAncestor && !input.raw) {
+        const ancestorResult = findMeaningfulAncestor(ctx.db, r.id);
+        if (ancestorResult && ancestorResult.depth > 0) {
+          item.ancestor = ancestorResult.ancestor;
+          item.pathFromAncestor = ancestorResult.path;
+          item.depthFromAncestor = ancestorResult.depth;
+        }
+      }
+
+      if (input.includeContents) {
+        const contents = depth > 0
+          ? getNodeContentsWithDepth(ctx.db, r.id, 0, depth)
+          : getNodeContents(ctx.db, r.id);
+        if (contents) {
+          item.contents = contents;
+        }
+      }
+
+      return item;
+    })
+  );
+
+  // Apply field projection if select is specified
+  const projection = parseSelectPaths(input.select);
+  const projectedResults = applyProjectionToArray(items, projection);
+
+  return {
+    workspace: workspace.alias,
+    query: input.query,
+    mode: 'hybrid',
+    results: projectedResults,
+    count: projectedResults.length,
+  };
+}
@@ -8,15 +8,16 @@
 
 import { Database } from "bun:sqlite";
 import type { QueryInput } from "../schemas";
-import { UnifiedQueryEngine } from "../../query/unified-query-engine";
-import type { QueryAST, WhereClause } from "../../query/types";
+import { UnifiedQueryEngine, type QueryExplanation } from "../../query/unified-query-engine";
+import { prepareSearchBackends } from "../../query/search-backends";
+import type { QueryAST, WhereClause, SearchClause } from "../../query/types";
 import { resolveWorkspaceContext } from "../../config/workspace-resolver";
 import { parseComparisonDate } from "../../query/date-resolver";
 
 /**
- * Convert MCP input to QueryAST
+ * Convert MCP input to QueryAST (also used by the webhook server's POST /query)
  */
-function convertInputToAST(input: QueryInput): QueryAST {
+export function convertInputToAST(input: QueryInput): QueryAST {
   const ast: QueryAST = {
     find: input.find,
     limit: input.limit ?? 100,
@@ -88,6 +89,18 @@ function convertInputToAST(input: QueryInput): QueryAST {
     }
   }
 
+  // Search predicates (text ~ "..." / similar to "..." > threshold)
+  const searches: SearchClause[] = [];
+  if (input.text) {
+    searches.push({ search: "text", query: input.text });
+  }
+  if (input.similarTo) {
+    searches.push({ search: "similar", query: input.similarTo, threshold: input.minSimilarity });
+  }
+  if (searches.length > 0) {
+    ast.where = [...(ast.where ?? []), ...searches];
+  }
+
   // Convert orderBy (- prefix for descending)
   if (input.orderBy) {
     const desc = input.orderBy.startsWith("-");
@@ -104,7 +117,7 @@ function convertInputToAST(input: QueryInput): QueryAST {
 }
 
 /**
- * Execute a unified query
+ * Execute a unified query (or explain it when input.explain is set)
  */
 export async function query(input: QueryInput): Promise<{
   workspace: string;
@@ -114,6 +127,9 @@ export async function query(input: QueryInput): Promise<{
   hasMore: boolean;
   /** Field names included when select clause is used */
   fieldNames?: string[];
+} | {
+  workspace: string;
+  explain: QueryExplanation;
 }> {
   try {
     // Resolve workspace
@@ -123,10 +139,15 @@ export async function query(input: QueryInput): Promise<{
     const ast = convertInputToAST(input);
 
     // Execute query
+    const backends = await prepareSearchBackends(ast, wsContext.dbPath, wsContext.alias);
     const db = new Database(wsContext.dbPath, { readonly: true });
-    const engine = new UnifiedQueryEngine(db);
+    const engine = new UnifiedQueryEngine(db, backends.engineOptions);
 
     try {
+      if (input.explain) {
+        return { workspace: wsContext.alias, explain: await engine.explain(ast) };
+      }
+
       const result = await engine.execute(ast);
 
       const response: {
@@ -152,6 +173,7 @@ export async function query(input: QueryInput): Promise<{
       return response;
     } finally {
       db.close();
+      backends.close();
     }
   } catch (error) {
     throw error;
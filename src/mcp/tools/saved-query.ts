@@ -0,0 +1,65 @@
+/**
+ * tana_saved_query Tool
+ *
+ * Runs queries saved with `supertag query save`, binding `$name`
+ * placeholders from the supplied params. Lists saved queries when
+ * no name is given.
+ */
+
+import { Database } from "bun:sqlite";
+import type { SavedQueryInput } from "../schemas";
+import { UnifiedQueryEngine } from "../../query/unified-query-engine";
+import { prepareSearchBackends } from "../../query/search-backends";
+import { SavedQueryStore, type SavedQuery } from "../../query/saved-queries";
+import type { QueryAST } from "../../query/types";
+import { resolveWorkspaceContext } from "../../config/workspace-resolver";
+import { getSavedQueriesPath } from "../../config/paths";
+
+export type SavedQueryResult =
+  | { workspace: string; queries: SavedQuery[] }
+  | {
+      workspace: string;
+      name: string;
+      query: QueryAST;
+      results: Record<string, unknown>[];
+      count: number;
+      hasMore: boolean;
+      fieldNames?: string[];
+      columns?: string[];
+    };
+
+/**
+ * List saved queries, or run one by name
+ */
+export async function savedQuery(input: SavedQueryInput): Promise<SavedQueryResult> {
+  const wsContext = resolveWorkspaceContext({ workspace: input.workspace });
+  const store = new SavedQueryStore(getSavedQueriesPath(wsContext.alias));
+
+  if (!input.name) {
+    return { workspace: wsContext.alias, queries: store.list() };
+  }
+
+  const { ast } = store.resolve(input.name, input.params ?? {});
+  if (ast.limit === undefined) {
+    ast.limit = input.limit ?? 100;
+  }
+
+  const backends = await prepareSearchBackends(ast, wsContext.dbPath, wsContext.alias);
+  const db = new Database(wsContext.dbPath, { readonly: true });
+  try {
+    const result = await new UnifiedQueryEngine(db, backends.engineOptions).execute(ast);
+    return {
+      workspace: wsContext.alias,
+      name: input.name,
+      query: ast,
+      results: result.results,
+      count: result.count,
+      hasMore: result.hasMore,
+      ...(result.fieldNames && result.fieldNames.length > 0 ? { fieldNames: result.fieldNames } : {}),
+      ...(result.columns ? { columns: result.columns } : {}),
+    };
+  } finally {
+    db.close();
+    backends.close();
+  }
+}
@@ -2,11 +2,13 @@
  * tana_search Tool
  *
  * Full-text search on Tana node names using FTS5.
+ * With `hybrid: true`, results are fused with semantic search.
  */
 
 import { TanaQueryEngine } from '../../query/tana-query-engine.js';
 import { resolveWorkspaceContext } from '../../config/workspace-resolver.js';
 import { findMeaningfulAncestor } from '../../embeddings/ancestor-resolution.js';
+import { hybridSearchTool, type HybridSearchToolResult } from './hybrid-search.js';
 import type { SearchInput } from '../schemas.js';
 import { parseDateRange } from '../schemas.js';
 import {
@@ -36,7 +38,11 @@ export interface SearchResult {
   count: number;
 }
 
-export async function search(input: SearchInput): Promise<SearchResult> {
+export async function search(input: SearchInput): Promise<SearchResult | HybridSearchToolResult> {
+  if (input.hybrid) {
+    return hybridSearchTool(input);
+  }
+
   const workspace = resolveWorkspaceContext({ workspace: input.workspace });
 
   const engine = new TanaQueryEngine(workspace.dbPath);
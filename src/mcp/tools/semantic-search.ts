@@ -11,7 +11,7 @@ import type { Database } from "bun:sqlite";
 import { resolveWorkspaceContext } from "../../config/workspace-resolver.js";
 import { ConfigManager } from "../../config/manager.js";
 import { TanaEmbeddingService } from "../../embeddings/tana-embedding-service.js";
-import { getModelDimensionsFromResona } from "../../embeddings/embed-config-new.js";
+import { getEmbeddingDimensions } from "../../embeddings/embed-config-new.js";
 import {
   getNodeContents,
   getNodeContentsWithDepth,
@@ -21,6 +21,9 @@ import {
 import { findMeaningfulAncestor, type AncestorResult } from "../../embeddings/ancestor-resolution.js";
 import { isEntityById, findNearestEntityAncestor } from "../../db/entity.js";
 import { isReferenceSyntax, deduplicateResults, getOverfetchLimit, type EnrichedSearchResult } from "../../embeddings/search-filter.js";
+import { getChunksById, toChunkMatch, type ChunkMatch } from "../../embeddings/chunking.js";
+import { getRerankFetchLimit, rerankResults } from "../../embeddings/rerank.js";
+import { hybridSearchTool, type HybridSearchToolResult } from "./hybrid-search.js";
 import type { SemanticSearchInput } from "../schemas.js";
 import { existsSync } from "node:fs";
 import { withDbRetrySync } from "../../db/retry.js";
@@ -61,6 +64,10 @@ export interface SemanticSearchResultItem {
     valueId: string;
   }>;
   children?: Array<{ id: string; name: string; isContent: boolean }> | NodeContentsWithChildren[];
+  /** Best-matching chunk (text and offset) when the node was embedded in chunks */
+  chunk?: ChunkMatch;
+  /** Combined score after re-ranking (results are ordered by it) */
+  rerankScore?: number;
 }
 
 export interface SemanticSearchResult {
@@ -72,6 +79,11 @@ export interface SemanticSearchResult {
   dimensions: number;
 }
 
+export type HybridSemanticSearchResult = HybridSearchToolResult & {
+  model: string;
+  dimensions: number;
+};
+
 /**
  * Check if a node has a trash ancestor (deleted node)
  * A node is considered deleted if any ancestor has _ownerId ending with '_TRASH'
@@ -119,14 +131,24 @@ function isNodeInTrash(db: Database, nodeId: string): boolean {
  */
 export async function semanticSearch(
   input: SemanticSearchInput
-): Promise<SemanticSearchResult> {
+): Promise<SemanticSearchResult | HybridSemanticSearchResult> {
   // Resolve workspace using unified resolver
   const ws = resolveWorkspaceContext({ workspace: input.workspace });
   const workspace = ws.alias;
   const dbPath = ws.dbPath;
 
-  // Get embedding configuration from ConfigManager
-  const embeddingConfig = ConfigManager.getInstance().getEmbeddingConfig();
+  // Get embedding configuration (with workspace overrides) from ConfigManager
+  const embeddingConfig = ConfigManager.getInstance().getEmbeddingConfig(workspace);
+
+  // Hybrid mode: fuse with full-text results
+  if (input.hybrid) {
+    const result = await hybridSearchTool(input);
+    return {
+      ...result,
+      model: embeddingConfig.model,
+      dimensions: getEmbeddingDimensions(embeddingConfig) || 0,
+    };
+  }
 
   // Derive LanceDB path from SQLite path
   const lanceDbPath = dbPath.replace(/\.db$/, ".lance");
@@ -139,10 +161,7 @@ export async function semanticSearch(
   }
 
   // Create TanaEmbeddingService for vector search
-  const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-    model: embeddingConfig.model,
-    endpoint: embeddingConfig.endpoint,
-  });
+  const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
   try {
     // Check if we have any embeddings
@@ -155,7 +174,9 @@ export async function semanticSearch(
 
     // Perform search with over-fetch to account for filtering/deduplication
     const requestedLimit = input.limit || 20;
-    const overfetchLimit = getOverfetchLimit(requestedLimit);
+    const rerankConfig = { ...embeddingConfig.rerank, strategy: input.rerank ?? embeddingConfig.rerank?.strategy ?? "none" };
+    if (input.rerankCandidates !== undefined) rerankConfig.candidates = input.rerankCandidates;
+    const overfetchLimit = getRerankFetchLimit(getOverfetchLimit(requestedLimit), rerankConfig.strategy, rerankConfig.candidates);
     const minSimilarity = input.minSimilarity;
 
     // Search using TanaEmbeddingService
@@ -172,6 +193,15 @@ export async function semanticSearch(
       const includeContents = input.includeContents ?? false;
       const includeAncestor = input.includeAncestor ?? true;
       const depth = Math.min(input.depth ?? 0, 3); // Cap at 3 to prevent huge responses
+      const chunks = getChunksById(ctx.db, thresholdedResults.flatMap((r) => (r.chunkId ? [r.chunkId] : [])));
+
+      // Helper to point an item at the chunk that matched
+      const addChunkInfo = (item: SemanticSearchResultItem, chunkId: string | undefined) => {
+        const chunk = chunkId ? chunks.get(chunkId) : undefined;
+        if (chunk) {
+          item.chunk = toChunkMatch(chunk);
+        }
+      };
 
       // Helper to add entity and ancestor info to an item
       const addEntityAndAncestorInfo = (item: SemanticSearchResultItem, nodeId: string) => {
@@ -266,6 +296,7 @@ export async function semanticSearch(
                 children: contents.children.length > 0 ? contents.children : undefined,
               };
               addEntityAndAncestorInfo(item, r.nodeId);
+              addChunkInfo(item, r.chunkId);
               enrichedResults.push(item);
             }
           } else {
@@ -282,6 +313,7 @@ export async function semanticSearch(
                 children: contents.children.length > 0 ? contents.children : undefined,
               };
               addEntityAndAncestorInfo(item, r.nodeId);
+              addChunkInfo(item, r.chunkId);
               enrichedResults.push(item);
             }
           }
@@ -320,6 +352,7 @@ export async function semanticSearch(
             }
 
             addEntityAndAncestorInfo(item, r.nodeId);
+            addChunkInfo(item, r.chunkId);
             enrichedResults.push(item);
           }
         }
@@ -346,11 +379,19 @@ export async function semanticSearch(
       return filteredResults.find(f => f.nodeId === r.nodeId) || filteredResults[0];
     });
 
+    // Re-rank top candidates (no-op for strategy "none")
+    const rerankedResults = await withDatabase({ dbPath, readonly: true }, (ctx) =>
+      rerankResults(ctx.db, input.query, deduplicatedResults, {
+        ...rerankConfig,
+        textOf: (r) => (r as SemanticSearchResultItem).chunk?.text ?? r.name ?? "",
+      })
+    );
+
     // Apply the originally requested limit after filtering/deduplication
-    const finalResults = deduplicatedResults.slice(0, requestedLimit);
+    const finalResults = rerankedResults.slice(0, requestedLimit);
 
-    // Get dimensions from resona
-    const dimensions = getModelDimensionsFromResona(embeddingConfig.model) || 0;
+    // Get dimensions (config, then known models)
+    const dimensions = getEmbeddingDimensions(embeddingConfig) || 0;
 
     // Apply field projection if select is specified
     const projection = parseSelectPaths(input.select);
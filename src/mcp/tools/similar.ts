@@ -0,0 +1,54 @@
+/**
+ * tana_similar Tool ("more like this")
+ *
+ * Find the nearest neighbours of an existing node by embedding, merged with
+ * its structural neighbours so unlinked duplicates and related items stand out.
+ */
+
+import { existsSync } from 'node:fs';
+import { resolveWorkspaceContext } from '../../config/workspace-resolver.js';
+import { ConfigManager } from '../../config/manager.js';
+import { TanaEmbeddingService } from '../../embeddings/tana-embedding-service.js';
+import { SimilarNodesService } from '../../services/similar-nodes.js';
+import type { SimilarInput } from '../schemas.js';
+import {
+  parseSelectPaths,
+  applyProjection,
+} from '../../utils/select-projection.js';
+
+/**
+ * Find nodes similar to a given node
+ *
+ * @param input - Tool input with nodeId, limit, tag, minSimilarity
+ * @returns Similar nodes with scores and structural relationship, if any
+ */
+export async function similar(input: SimilarInput): Promise<Partial<Record<string, unknown>>> {
+  const workspace = resolveWorkspaceContext({ workspace: input.workspace });
+
+  const lanceDbPath = workspace.dbPath.replace(/\.db$/, '.lance');
+  if (!existsSync(lanceDbPath)) {
+    throw new Error(`No embeddings found for workspace "${workspace.alias}". Run: supertag embed generate`);
+  }
+
+  const embeddingConfig = ConfigManager.getInstance().getEmbeddingConfig(workspace.alias);
+  const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
+
+  try {
+    const result = await new SimilarNodesService(workspace.dbPath, embeddingService).findSimilar(
+      {
+        nodeId: input.nodeId,
+        limit: input.limit,
+        tag: input.tag,
+        minSimilarity: input.minSimilarity,
+        includeStructural: input.includeStructural,
+      },
+      workspace.alias
+    );
+
+    // Apply field projection if select is specified
+    const projection = parseSelectPaths(input.select);
+    return applyProjection(result, projection) as Partial<Record<string, unknown>>;
+  } finally {
+    embeddingService.close();
+  }
+}
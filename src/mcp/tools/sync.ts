@@ -71,6 +71,7 @@ export async function sync(input: SyncInput): Promise<SyncResult> {
   const watcher = new TanaExportWatcher({
     exportDir: workspace.exportDir,
     dbPath: workspace.dbPath,
+    workspace: workspace.alias,
   });
 
   try {
@@ -168,6 +169,7 @@ async function handleDeltaSync(
   const deltaSyncService = new DeltaSyncService({
     dbPath,
     localApiClient: client,
+    workspace: baseResult.workspace,
   });
 
   try {
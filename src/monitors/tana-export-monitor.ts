@@ -9,6 +9,7 @@ import { watch, type FSWatcher, existsSync, readdirSync, statSync } from "fs";
 import { join, basename } from "path";
 import { TanaIndexer, type IndexResult } from "../db/indexer";
 import { UnifiedSchemaService } from "../services/unified-schema-service";
+import { OutboundWebhooks } from "../services/outbound-webhooks";
 import { EventEmitter } from "events";
 import { hasGlobalLogger, getGlobalLogger, createLogger, type Logger } from "../utils/logger";
 
@@ -25,6 +26,8 @@ export interface WatcherConfig {
   dbPath: string;
   debounceMs?: number; // Debounce delay for file changes (default: 1000ms)
   schemaCachePath?: string; // Path to write schema-registry.json cache
+  workspace?: string; // Workspace alias (for outbound webhook rules and events)
+  outboundWebhooks?: OutboundWebhooks | false; // Rules evaluated after indexing (default: configured rules)
 }
 
 export interface WatcherStatus {
@@ -60,6 +63,7 @@ export interface TanaExportWatcherEvents {
 export class TanaExportWatcher extends EventEmitter {
   private config: WatcherConfig & { debounceMs: number };
   private indexer: TanaIndexer;
+  private outboundWebhooks: OutboundWebhooks | false;
   private watcher: FSWatcher | null = null;
   private debounceTimer: NodeJS.Timeout | null = null;
   private lastIndexedTimestamp: number | null = null;
@@ -79,7 +83,9 @@ export class TanaExportWatcher extends EventEmitter {
       dbPath: config.dbPath,
       debounceMs: config.debounceMs ?? 1000,
       schemaCachePath: config.schemaCachePath,
+      workspace: config.workspace,
     };
+    this.outboundWebhooks = config.outboundWebhooks ?? new OutboundWebhooks();
 
     // Initialize indexer
     this.indexer = new TanaIndexer(this.config.dbPath);
@@ -146,6 +152,21 @@ export class TanaExportWatcher extends EventEmitter {
         }
       }
 
+      // Outbound webhook rules (delivery failures end up in the dead-letter log)
+      if (this.outboundWebhooks) {
+        try {
+          const webhooks = await this.outboundWebhooks.run(this.indexer.getDatabase(), {
+            workspace: this.config.workspace,
+            source: "reindex",
+          });
+          if (webhooks.events > 0) {
+            getLogger().info("Outbound webhooks", { ...webhooks });
+          }
+        } catch (webhookError) {
+          getLogger().error("Outbound webhook evaluation failed", { error: String(webhookError) });
+        }
+      }
+
       const successResult: IndexEventResult = {
         success: true,
         exportFile: basename(exportFile),
@@ -5,18 +5,46 @@
  * Recursive descent parser for CLI query strings.
  *
  * Grammar (simplified):
- *   query       = "find" target [where_clause] [order_clause] [limit_clause] [offset_clause] [select_clause]
- *   target      = identifier | "*"
+ *   query       = "find" target [where_clause] [group_clause] [order_clause] [limit_clause] [offset_clause] [select_clause]
+ *   target      = identifier | "#"identifier | "*"
  *   where_clause = "where" condition ("and" condition)*
- *   condition   = ["not"] field operator value | field "exists"
+ *   condition   = ["not"] field operator value | field "exists" | ["not"] relationship | ["not"] search
+ *   relationship = "references" "(" target ")" | "referenced" "by" (target | operator number)
+ *                | "child" "of" target | "parent" "of" target
+ *   target      = "#"tag | tag ":" name | "id:" nodeId | name
+ *   search      = "text" "~" string | "similar" "to" string [(">" | ">=") number]
+ *   group_clause = "group" "by" (field | period) ("," (field | period))*
  *   order_clause = "order" "by" ("-")?field
  *   limit_clause = "limit" number
  *   offset_clause = "offset" number
- *   select_clause = "select" field_list
+ *   select_clause = "select" select_item ("," select_item)*
+ *   select_item = field | agg_fn "(" [field | "*"] ")" ["as" alias]
+ *   agg_fn      = "count" | "sum" | "avg" | "min" | "max"
+ *
+ * Values may be `$name` placeholders, bound from QueryParams before parsing.
+ * Bound values become literal string/number tokens, so they can never change
+ * the structure of the query.
  */
 
 import { tokenize, TokenType, type Token } from "./tokenizer";
-import type { QueryAST, WhereClause, WhereGroup, QueryOperator } from "./types";
+import type {
+  QueryAST,
+  WhereClause,
+  WhereGroup,
+  QueryOperator,
+  GroupBySpec,
+  AggregateFunction,
+  RelationshipClause,
+  SearchClause,
+  WhereCondition,
+  RelationshipTarget,
+} from "./types";
+import { isTimePeriod } from "./types";
+
+/**
+ * Aggregate functions allowed in select clauses
+ */
+const AGGREGATE_FUNCTIONS = new Set<AggregateFunction["fn"]>(["count", "sum", "avg", "min", "max"]);
 
 /**
  * Parse error with position information
@@ -31,6 +59,53 @@ export class ParseError extends Error {
   }
 }
 
+/**
+ * Values for `$name` placeholders
+ */
+export type QueryParams = Record<string, string | number>;
+
+/**
+ * Replace PARAM tokens with literal value tokens
+ *
+ * String values stay text (so `code = $code` with "007" matches "007") unless
+ * they fill a number slot: limit/offset, a `referenced by` count or a numeric
+ * comparison (>, <, >=, <=).
+ *
+ * @throws ParseError if a placeholder has no value
+ */
+function bindParams(tokens: Token[], params: QueryParams): Token[] {
+  return tokens.map((token, i) => {
+    if (token.type !== TokenType.PARAM) return token;
+
+    const name = String(token.value);
+    if (!(name in params)) {
+      throw new ParseError(`Missing value for query parameter '$${name}'`);
+    }
+
+    const value = params[name];
+    if (typeof value === "number" || (/^-?\d+(\.\d+)?$/.test(value) && isNumberSlot(tokens, i))) {
+      return { type: TokenType.NUMBER, value: Number(value) };
+    }
+    return { type: TokenType.STRING, value };
+  });
+}
+
+/**
+ * Whether the token at `index` must be a number
+ */
+function isNumberSlot(tokens: Token[], index: number): boolean {
+  const prev = tokens[index - 1];
+  if (!prev) return false;
+  if (prev.type === TokenType.KEYWORD) {
+    return prev.value === "limit" || prev.value === "offset";
+  }
+  if (prev.type !== TokenType.OPERATOR) return false;
+
+  const before = tokens[index - 2];
+  if (before?.type === TokenType.KEYWORD && before.value === "by") return true; // referenced by = $n
+  return [">", "<", ">=", "<="].includes(String(prev.value));
+}
+
 /**
  * Parser state
  */
@@ -38,8 +113,8 @@ class Parser {
   private tokens: Token[];
   private pos: number = 0;
 
-  constructor(input: string) {
-    this.tokens = tokenize(input);
+  constructor(input: string, params: QueryParams = {}) {
+    this.tokens = bindParams(tokenize(input), params);
   }
 
   /**
@@ -106,7 +181,12 @@ class Parser {
 
     // Parse target (supertag name or *)
     const targetToken = this.current();
-    if (!targetToken || (targetToken.type !== TokenType.IDENTIFIER)) {
+    if (
+      !targetToken ||
+      (targetToken.type !== TokenType.IDENTIFIER &&
+        targetToken.type !== TokenType.TAG &&
+        targetToken.type !== TokenType.STRING)
+    ) {
       throw new ParseError("Expected supertag name after 'find'");
     }
     this.advance();
@@ -117,7 +197,15 @@ class Parser {
 
     // Parse optional clauses
     while (!this.isAtEnd()) {
+      if (this.atGroupBy()) {
+        ast.groupBy = this.parseGroupByClause();
+        continue;
+      }
+
       const token = this.current();
+      if (token?.type === TokenType.IDENTIFIER && String(token.value).toLowerCase() === "group") {
+        throw new ParseError("Expected 'by' after 'group'");
+      }
       if (!token || token.type !== TokenType.KEYWORD) break;
 
       switch (token.value) {
@@ -137,9 +225,12 @@ class Parser {
           const offsetToken = this.expect(TokenType.NUMBER);
           ast.offset = Number(offsetToken.value);
           break;
-        case "select":
-          ast.select = this.parseSelectClause();
+        case "select": {
+          const { fields, aggregates } = this.parseSelectClause();
+          if (fields.length > 0) ast.select = fields;
+          if (aggregates.length > 0) ast.aggregate = aggregates;
           break;
+        }
         default:
           // Unknown keyword, stop parsing
           throw new ParseError(`Unexpected keyword '${token.value}'`);
@@ -152,10 +243,10 @@ class Parser {
   /**
    * Parse where clause: "where" condition_or_group ("and" condition_or_group)*
    */
-  private parseWhereClause(): (WhereClause | WhereGroup)[] {
+  private parseWhereClause(): (WhereCondition | WhereGroup)[] {
     this.expect(TokenType.KEYWORD, "where");
 
-    const conditions: (WhereClause | WhereGroup)[] = [];
+    const conditions: (WhereCondition | WhereGroup)[] = [];
 
     // Parse first condition or group
     conditions.push(this.parseConditionOrGroup());
@@ -172,7 +263,7 @@ class Parser {
   /**
    * Parse either a single condition or a parenthesized group
    */
-  private parseConditionOrGroup(): WhereClause | WhereGroup {
+  private parseConditionOrGroup(): WhereCondition | WhereGroup {
     // Check for opening parenthesis (start of OR group)
     if (this.match(TokenType.LPAREN)) {
       return this.parseOrGroup();
@@ -187,7 +278,7 @@ class Parser {
   private parseOrGroup(): WhereGroup {
     this.expect(TokenType.LPAREN, "(");
 
-    const clauses: WhereClause[] = [];
+    const clauses: WhereCondition[] = [];
 
     // Parse first condition
     clauses.push(this.parseCondition());
@@ -207,9 +298,9 @@ class Parser {
   }
 
   /**
-   * Parse single condition: ["not"] field operator value | field "exists"
+   * Parse single condition: ["not"] field operator value | field "exists" | relationship | search
    */
-  private parseCondition(): WhereClause {
+  private parseCondition(): WhereCondition {
     let negated = false;
 
     // Check for "not"
@@ -218,6 +309,18 @@ class Parser {
       negated = true;
     }
 
+    const relationship = this.parseRelationship();
+    if (relationship) {
+      if (negated) relationship.negated = true;
+      return relationship;
+    }
+
+    const search = this.parseSearch();
+    if (search) {
+      if (negated) search.negated = true;
+      return search;
+    }
+
     // Parse field name
     const fieldToken = this.current();
     if (!fieldToken || fieldToken.type !== TokenType.IDENTIFIER) {
@@ -290,6 +393,157 @@ class Parser {
     };
   }
 
+  /**
+   * Parse a relationship predicate if one starts at the current token
+   *
+   * Relationship words are only special in these positions, so fields named
+   * "child" or "references" still work as ordinary conditions.
+   */
+  private parseRelationship(): RelationshipClause | null {
+    const token = this.current();
+    if (!token || token.type !== TokenType.IDENTIFIER) return null;
+
+    const word = String(token.value).toLowerCase();
+    const next = this.peek(1);
+
+    if (word === "references" && next?.type === TokenType.LPAREN) {
+      this.advance(); // consume "references"
+      this.advance(); // consume "("
+      const target = this.parseRelationshipTarget();
+      this.expect(TokenType.RPAREN, ")");
+      return { relation: "references", target };
+    }
+
+    if (word === "referenced" && next?.type === TokenType.KEYWORD && next.value === "by") {
+      this.advance(); // consume "referenced"
+      this.advance(); // consume "by"
+
+      if (this.match(TokenType.OPERATOR)) {
+        const operator = this.mapOperator(String(this.advance()!.value));
+        if (operator === "~") {
+          throw new ParseError("Operator '~' cannot be used with 'referenced by'");
+        }
+        const countToken = this.expect(TokenType.NUMBER);
+        return {
+          relation: "referenced_by",
+          count: {
+            operator: operator as NonNullable<RelationshipClause["count"]>["operator"],
+            value: Number(countToken.value),
+          },
+        };
+      }
+
+      const parenthesized = this.match(TokenType.LPAREN);
+      if (parenthesized) this.advance();
+      const target = this.parseRelationshipTarget();
+      if (parenthesized) this.expect(TokenType.RPAREN, ")");
+      return { relation: "referenced_by", target };
+    }
+
+    if ((word === "child" || word === "parent") && next?.type === TokenType.IDENTIFIER && String(next.value).toLowerCase() === "of") {
+      this.advance(); // consume "child"/"parent"
+      this.advance(); // consume "of"
+      const target = this.parseRelationshipTarget();
+      return { relation: word === "child" ? "child_of" : "parent_of", target };
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse a search predicate if one starts at the current token:
+   * `text ~ "words"` or `similar to "text" [> threshold]`
+   *
+   * Like relationship words, `text` and `similar` are only special here,
+   * so `text = x` still compares a field named "text".
+   */
+  private parseSearch(): SearchClause | null {
+    const token = this.current();
+    if (!token || token.type !== TokenType.IDENTIFIER) return null;
+
+    const word = String(token.value).toLowerCase();
+    const next = this.peek(1);
+
+    if (word === "text" && next?.type === TokenType.OPERATOR && next.value === "~") {
+      this.advance(); // consume "text"
+      this.advance(); // consume "~"
+      return { search: "text", query: this.parseSearchText("text ~") };
+    }
+
+    if (word === "similar" && next?.type === TokenType.IDENTIFIER && String(next.value).toLowerCase() === "to") {
+      this.advance(); // consume "similar"
+      this.advance(); // consume "to"
+      const clause: SearchClause = { search: "similar", query: this.parseSearchText("similar to") };
+
+      if (this.match(TokenType.OPERATOR)) {
+        const operator = String(this.advance()!.value);
+        if (operator !== ">" && operator !== ">=") {
+          throw new ParseError("Only '>' or '>=' can follow 'similar to'");
+        }
+        clause.threshold = Number(this.expect(TokenType.NUMBER).value);
+      }
+      return clause;
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse the search text of a search predicate (quoted string or single word)
+   */
+  private parseSearchText(after: string): string {
+    const token = this.current();
+    if (!token || (token.type !== TokenType.STRING && token.type !== TokenType.IDENTIFIER)) {
+      throw new ParseError(`Expected search text after '${after}'`);
+    }
+    this.advance();
+    return String(token.value);
+  }
+
+  /**
+   * Parse relationship target: #tag | tag:name | tag:"name" | id:nodeId | "name" | name
+   */
+  private parseRelationshipTarget(): RelationshipTarget {
+    const token = this.current();
+    if (!token) {
+      throw new ParseError("Expected relationship target (e.g., #meeting or project:\"Apollo\")");
+    }
+
+    if (token.type === TokenType.TAG) {
+      this.advance();
+      return { tag: String(token.value) };
+    }
+
+    if (token.type === TokenType.STRING) {
+      this.advance();
+      return { name: String(token.value) };
+    }
+
+    if (token.type !== TokenType.IDENTIFIER) {
+      throw new ParseError(`Unexpected token type ${token.type} for relationship target`);
+    }
+    this.advance();
+
+    const text = String(token.value);
+    const colon = text.indexOf(":");
+    if (colon === -1) {
+      return { name: text };
+    }
+
+    const prefix = text.slice(0, colon);
+    let value = text.slice(colon + 1);
+
+    // tag:"quoted name" tokenizes as IDENTIFIER "tag:" followed by STRING
+    if (value === "" && this.match(TokenType.STRING)) {
+      value = String(this.advance()!.value);
+    }
+    if (!prefix || !value) {
+      throw new ParseError(`Invalid relationship target '${text}'`);
+    }
+
+    return prefix.toLowerCase() === "id" ? { id: value } : { tag: prefix, name: value };
+  }
+
   /**
    * Map token operator to QueryOperator
    */
@@ -335,17 +589,64 @@ class Parser {
   }
 
   /**
-   * Parse select clause: "select" field_list
+   * Check if a group by clause starts at the current token
+   *
+   * Like relationship words, `group` is only special when followed by `by`,
+   * so supertags and fields named "Group" still work.
+   */
+  private atGroupBy(): boolean {
+    const token = this.current();
+    const next = this.peek(1);
+    return (
+      token?.type === TokenType.IDENTIFIER &&
+      String(token.value).toLowerCase() === "group" &&
+      next?.type === TokenType.KEYWORD &&
+      next.value === "by"
+    );
+  }
+
+  /**
+   * Parse group by clause: "group" "by" key ("," key)*
+   *
+   * Keys that name a time period (day, week, month, quarter, year) group by
+   * creation date; anything else groups by field value.
+   */
+  private parseGroupByClause(): GroupBySpec[] {
+    this.advance(); // consume "group"
+    this.expect(TokenType.KEYWORD, "by");
+
+    const specs: GroupBySpec[] = [];
+
+    do {
+      if (specs.length > 0) {
+        this.advance(); // consume comma
+      }
+      const token = this.current();
+      if (!token || (token.type !== TokenType.IDENTIFIER && token.type !== TokenType.STRING)) {
+        throw new ParseError("Expected field name after 'group by'");
+      }
+      this.advance();
+      const key = String(token.value);
+      specs.push(isTimePeriod(key) ? { period: key } : { field: key });
+    } while (this.match(TokenType.COMMA));
+
+    return specs;
+  }
+
+  /**
+   * Parse select clause: "select" select_item ("," select_item)*
    *
    * Supports:
    * - Single quoted list: select "name,email,phone"
    * - Unquoted comma-separated: select name,email,phone
    * - Mixed quoted and unquoted: select name,Status,'Due Date'
+   * - Aggregate functions: select Owner, count(), avg(Points) as effort
    */
-  private parseSelectClause(): string[] {
+  private parseSelectClause(): { fields: string[]; aggregates: AggregateFunction[] } {
     this.expect(TokenType.KEYWORD, "select");
 
     const fields: string[] = [];
+    const aggregates: AggregateFunction[] = [];
 
     // Parse first field (required)
     const token = this.current();
@@ -361,13 +662,12 @@ class Parser {
       if (!this.match(TokenType.COMMA)) {
         // Single quoted string with comma-separated list inside
         fields.push(...value.split(",").map((f) => f.trim()).filter(Boolean));
-        return fields;
+        return { fields, aggregates };
       }
       // Otherwise it's a single quoted field name
       fields.push(value);
     } else if (token.type === TokenType.IDENTIFIER) {
-      fields.push(String(token.value));
-      this.advance();
+      this.parseSelectItem(fields, aggregates);
     } else {
       throw new ParseError(`Unexpected token type ${token.type} for select`);
     }
@@ -377,8 +677,7 @@ class Parser {
       this.advance(); // consume comma
       const nextToken = this.current();
       if (nextToken?.type === TokenType.IDENTIFIER) {
-        fields.push(String(nextToken.value));
-        this.advance();
+        this.parseSelectItem(fields, aggregates);
       } else if (nextToken?.type === TokenType.STRING) {
         fields.push(String(nextToken.value));
         this.advance();
@@ -387,7 +686,54 @@ class Parser {
       }
     }
 
-    return fields;
+    return { fields, aggregates };
+  }
+
+  /**
+   * Parse an unquoted select item: a plain field or an aggregate call
+   */
+  private parseSelectItem(fields: string[], aggregates: AggregateFunction[]): void {
+    const token = this.advance()!;
+    const name = String(token.value);
+    const fn = name.toLowerCase() as AggregateFunction["fn"];
+
+    if (!this.match(TokenType.LPAREN)) {
+      fields.push(name);
+      return;
+    }
+
+    if (!AGGREGATE_FUNCTIONS.has(fn)) {
+      throw new ParseError(`Unknown aggregate function '${name}'`);
+    }
+    this.advance(); // consume "("
+
+    const aggregate: AggregateFunction = { fn };
+    const argToken = this.current();
+    if (argToken?.type === TokenType.IDENTIFIER || argToken?.type === TokenType.STRING) {
+      this.advance();
+      if (argToken.value !== "*") {
+        aggregate.field = String(argToken.value);
+      }
+    }
+    this.expect(TokenType.RPAREN, ")");
+
+    if (fn !== "count" && !aggregate.field) {
+      throw new ParseError(`Aggregate function '${fn}' requires a field`);
+    }
+
+    // `as` is only special right after an aggregate call
+    const asToken = this.current();
+    if (asToken?.type === TokenType.IDENTIFIER && String(asToken.value).toLowerCase() === "as") {
+      this.advance();
+      const aliasToken = this.current();
+      if (!aliasToken || (aliasToken.type !== TokenType.IDENTIFIER && aliasToken.type !== TokenType.STRING)) {
+        throw new ParseError("Expected alias after 'as'");
+      }
+      this.advance();
+      aggregate.alias = String(aliasToken.value);
+    }
+
+    aggregates.push(aggregate);
   }
 }
 
@@ -395,10 +741,21 @@ class Parser {
  * Parse a query string into an AST
  *
  * @param input - Query string (e.g., "find task where Status = Done order by -created limit 20")
+ * @param params - Values for `$name` placeholders (e.g., { owner: "Alice" })
  * @returns Parsed QueryAST
- * @throws ParseError on syntax errors
+ * @throws ParseError on syntax errors or missing parameter values
  */
-export function parseQuery(input: string): QueryAST {
-  const parser = new Parser(input);
+export function parseQuery(input: string, params?: QueryParams): QueryAST {
+  const parser = new Parser(input, params);
   return parser.parse();
 }
+
+/**
+ * List the `$name` placeholders used in a query string (in order, deduplicated)
+ */
+export function extractQueryParams(input: string): string[] {
+  const names = tokenize(input)
+    .filter((token) => token.type === TokenType.PARAM)
+    .map((token) => String(token.value));
+  return [...new Set(names)];
+}
@@ -0,0 +1,121 @@
+/**
+ * Relationship Predicate SQL
+ *
+ * Builds SQL conditions for graph relationship predicates in where clauses
+ * (`references(...)`, `referenced by ...`, `child of ...`, `parent of ...`).
+ * Uses the same edges as GraphTraversalService: inline references from the
+ * "references" table, node references stored in field_values, and parent_id.
+ *
+ * Shared by UnifiedQueryEngine and AggregationService so both accept the
+ * same where clauses.
+ */
+
+import type { SQLQueryBindings } from "bun:sqlite";
+import type { RelationshipClause, RelationshipTarget } from "./types";
+
+/**
+ * Build a subquery selecting the IDs of nodes matching a relationship target
+ */
+export function buildTargetSubquery(target: RelationshipTarget): {
+  sql: string;
+  params: SQLQueryBindings[];
+} {
+  if (target.id) {
+    return { sql: "SELECT ?", params: [target.id] };
+  }
+
+  if (target.tag && target.name) {
+    return {
+      sql: "SELECT tt.data_node_id FROM tag_applications tt INNER JOIN nodes tn ON tn.id = tt.data_node_id WHERE tt.tag_name = ? AND LOWER(tn.name) = LOWER(?)",
+      params: [target.tag, target.name],
+    };
+  }
+
+  if (target.tag) {
+    return {
+      sql: "SELECT tt.data_node_id FROM tag_applications tt WHERE tt.tag_name = ?",
+      params: [target.tag],
+    };
+  }
+
+  if (target.name) {
+    return {
+      sql: "SELECT tn.id FROM nodes tn WHERE LOWER(tn.name) = LOWER(?)",
+      params: [target.name],
+    };
+  }
+
+  throw new Error("Relationship target must specify a tag, name, or id");
+}
+
+/**
+ * Build SQL condition for a relationship predicate
+ *
+ * @param clause - Parsed relationship clause
+ * @param alias - Alias of the nodes table in the outer query (default: "n")
+ * @returns SQL condition and positional parameters
+ */
+export function buildRelationshipCondition(
+  clause: RelationshipClause,
+  alias: string = "n"
+): { sql: string; params: SQLQueryBindings[] } {
+  let sql: string;
+  const params: SQLQueryBindings[] = [];
+
+  if (clause.count) {
+    // Count distinct nodes on the other end of the relationship
+    const related = relatedNodesSql(clause, alias);
+    sql = `(SELECT COUNT(*) FROM (${related})) ${clause.count.operator} ?`;
+    params.push(clause.count.value);
+  } else {
+    if (!clause.target) {
+      throw new Error(`Relationship '${clause.relation}' requires a target or count`);
+    }
+    const target = buildTargetSubquery(clause.target);
+
+    switch (clause.relation) {
+      case "references":
+        sql = `(EXISTS (SELECT 1 FROM "references" rr WHERE rr.from_node = ${alias}.id AND rr.reference_type = 'inline_ref' AND rr.to_node IN (${target.sql}))` +
+          ` OR EXISTS (SELECT 1 FROM field_values rf WHERE rf.parent_id = ${alias}.id AND rf.value_node_id IN (${target.sql})))`;
+        params.push(...target.params, ...target.params);
+        break;
+      case "referenced_by":
+        sql = `(EXISTS (SELECT 1 FROM "references" rr WHERE rr.to_node = ${alias}.id AND rr.reference_type = 'inline_ref' AND rr.from_node IN (${target.sql}))` +
+          ` OR EXISTS (SELECT 1 FROM field_values rf WHERE rf.value_node_id = ${alias}.id AND rf.parent_id IN (${target.sql})))`;
+        params.push(...target.params, ...target.params);
+        break;
+      case "child_of":
+        sql = `${alias}.parent_id IN (${target.sql})`;
+        params.push(...target.params);
+        break;
+      case "parent_of":
+        sql = `EXISTS (SELECT 1 FROM nodes rc WHERE rc.parent_id = ${alias}.id AND rc.id IN (${target.sql}))`;
+        params.push(...target.params);
+        break;
+    }
+  }
+
+  if (clause.negated) {
+    sql = `NOT (${sql})`;
+  }
+
+  return { sql, params };
+}
+
+/**
+ * SQL selecting the distinct nodes related to the outer node (for counting)
+ */
+function relatedNodesSql(clause: RelationshipClause, alias: string): string {
+  switch (clause.relation) {
+    case "references":
+      return `SELECT rr.to_node FROM "references" rr WHERE rr.from_node = ${alias}.id AND rr.reference_type = 'inline_ref'` +
+        ` UNION SELECT rf.value_node_id FROM field_values rf WHERE rf.parent_id = ${alias}.id AND rf.value_node_id IS NOT NULL`;
+    case "referenced_by":
+      return `SELECT rr.from_node FROM "references" rr WHERE rr.to_node = ${alias}.id AND rr.reference_type = 'inline_ref'` +
+        ` UNION SELECT rf.parent_id FROM field_values rf WHERE rf.value_node_id = ${alias}.id`;
+    case "child_of":
+      return `SELECT ${alias}.parent_id WHERE ${alias}.parent_id IS NOT NULL`;
+    case "parent_of":
+      return `SELECT rc.id FROM nodes rc WHERE rc.parent_id = ${alias}.id`;
+  }
+}
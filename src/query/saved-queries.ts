@@ -0,0 +1,158 @@
+/**
+ * Saved Queries
+ *
+ * Named, reusable query strings stored per workspace next to config.json.
+ * Queries may contain `$name` placeholders that are bound at run time:
+ *
+ *   supertag query save open-by-owner "find task where Owner = $owner and Status != Done"
+ *   supertag query run open-by-owner --param owner=Alice
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { ensureDir } from "../config/paths";
+import { StructuredError } from "../utils/structured-errors";
+import { tokenize } from "./tokenizer";
+import { parseQuery, extractQueryParams, type QueryParams } from "./parser";
+
+/**
+ * A saved query definition
+ */
+export interface SavedQuery {
+  name: string;
+  query: string;
+  description?: string;
+  /** Placeholder names used in the query (without `$`) */
+  params: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+
+/**
+ * File-backed store of saved queries for a single workspace
+ */
+export class SavedQueryStore {
+  constructor(private filePath: string) {}
+
+  /**
+   * List saved queries sorted by name
+   */
+  list(): SavedQuery[] {
+    return Object.values(this.load()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a saved query by name
+   */
+  get(name: string): SavedQuery | undefined {
+    return this.load()[name];
+  }
+
+  /**
+   * Save (or replace) a query under a name
+   *
+   * @throws StructuredError if the name is invalid or the query does not parse
+   */
+  save(name: string, query: string, description?: string): SavedQuery {
+    if (!NAME_PATTERN.test(name)) {
+      throw new StructuredError("INVALID_PARAMETER", `Invalid saved query name: "${name}"`, {
+        suggestion: "Use letters, digits, '-' and '_' (e.g., open-tasks)",
+      });
+    }
+
+    const params = validateQuery(query);
+    const queries = this.load();
+    const now = new Date().toISOString();
+    const saved: SavedQuery = {
+      name,
+      query,
+      ...(description ? { description } : {}),
+      params,
+      createdAt: queries[name]?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    queries[name] = saved;
+    this.write(queries);
+    return saved;
+  }
+
+  /**
+   * Delete a saved query
+   * @returns true if a query was removed
+   */
+  delete(name: string): boolean {
+    const queries = this.load();
+    if (!queries[name]) return false;
+    delete queries[name];
+    this.write(queries);
+    return true;
+  }
+
+  /**
+   * Look up a saved query and bind its parameters
+   *
+   * @throws StructuredError if the query does not exist
+   * @throws ParseError if a parameter is missing
+   */
+  resolve(name: string, params: QueryParams = {}): { saved: SavedQuery; ast: ReturnType<typeof parseQuery> } {
+    const saved = this.get(name);
+    if (!saved) {
+      throw new StructuredError("INVALID_PARAMETER", `Saved query not found: ${name}`, {
+        details: { available: this.list().map((q) => q.name) },
+        suggestion: "Use 'supertag query list' to see saved queries",
+      });
+    }
+    return { saved, ast: parseQuery(saved.query, params) };
+  }
+
+  private load(): Record<string, SavedQuery> {
+    if (!existsSync(this.filePath)) return {};
+    try {
+      return JSON.parse(readFileSync(this.filePath, "utf-8"));
+    } catch {
+      throw new StructuredError("CONFIG_INVALID", `Saved queries file is not valid JSON: ${this.filePath}`);
+    }
+  }
+
+  private write(queries: Record<string, SavedQuery>): void {
+    ensureDir(dirname(this.filePath));
+    writeFileSync(this.filePath, JSON.stringify(queries, null, 2), "utf-8");
+  }
+}
+
+/**
+ * Check that a query is well-formed and return its placeholder names
+ *
+ * Parameterless queries are fully parsed. Queries with placeholders are only
+ * tokenized, since their structure depends on the bound values' types.
+ */
+function validateQuery(query: string): string[] {
+  tokenize(query);
+  const params = extractQueryParams(query);
+  if (params.length === 0) {
+    parseQuery(query);
+  }
+  return params;
+}
+
+/**
+ * Parse `key=value` pairs (from repeated --param options) into QueryParams
+ *
+ * @throws StructuredError on a pair without '='
+ */
+export function parseParamPairs(pairs: string[]): QueryParams {
+  const params: QueryParams = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) {
+      throw new StructuredError("INVALID_FORMAT", `Invalid parameter: "${pair}"`, {
+        suggestion: "Use --param name=value (e.g., --param owner=Alice)",
+      });
+    }
+    params[pair.slice(0, eq).trim().replace(/^\$/, "")] = pair.slice(eq + 1);
+  }
+  return params;
+}
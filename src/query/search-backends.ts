@@ -0,0 +1,65 @@
+/**
+ * Search Backends for Unified Queries
+ *
+ * Prepares what `text ~` and `similar to` predicates need before a query
+ * runs: the FTS5 index (built on first use, like `supertag search`) and a
+ * vector search over the workspace's LanceDB embeddings.
+ */
+
+import { existsSync } from "fs";
+import type { QueryAST } from "./types";
+import { getSearchClauses } from "./types";
+import type { UnifiedQueryEngineOptions } from "./unified-query-engine";
+import { withQueryEngine } from "../db/with-database";
+import { ConfigManager } from "../config/manager";
+
+/**
+ * Search backends prepared for one query
+ */
+export interface SearchBackends {
+  /** Engine options (semanticSearch is set when the query uses `similar to`) */
+  engineOptions: UnifiedQueryEngineOptions;
+  /** Release the embedding service; call once the query has run */
+  close(): void;
+}
+
+/**
+ * Prepare search backends required by a query's search predicates
+ *
+ * @param ast - Parsed query
+ * @param dbPath - Workspace SQLite database path
+ * @param workspace - Workspace alias, for workspace-specific embedding settings
+ * @throws Error if the query uses `similar to` and no embeddings exist
+ */
+export async function prepareSearchBackends(
+  ast: QueryAST,
+  dbPath: string,
+  workspace?: string
+): Promise<SearchBackends> {
+  const clauses = getSearchClauses(ast.where);
+  const engineOptions: UnifiedQueryEngineOptions = {};
+
+  if (clauses.some((c) => c.search === "text")) {
+    await withQueryEngine({ dbPath }, async ({ engine }) => {
+      if (!(await engine.hasFTSIndex())) {
+        await engine.initializeFTS();
+      }
+    });
+  }
+
+  if (clauses.some((c) => c.search === "similar")) {
+    const lanceDbPath = dbPath.replace(/\.db$/, ".lance");
+    if (!existsSync(lanceDbPath)) {
+      throw new Error("'similar to' requires embeddings. Run: supertag embed generate");
+    }
+
+    // Loaded lazily so structured queries don't pay for the embedding stack
+    const { TanaEmbeddingService } = await import("../embeddings/tana-embedding-service");
+    const embeddingConfig = ConfigManager.getInstance().getEmbeddingConfig(workspace);
+    const service = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
+    engineOptions.semanticSearch = (query, k) => service.search(query, k);
+    return { engineOptions, close: () => service.close() };
+  }
+
+  return { engineOptions, close: () => {} };
+}
@@ -0,0 +1,95 @@
+/**
+ * Search Predicate SQL
+ *
+ * Builds SQL conditions and scores for search predicates in where clauses:
+ * - `text ~ "quarterly review"` matches the nodes_fts full-text index
+ * - `similar to "budget risks" > 0.7` matches nodes returned by vector search
+ *
+ * Semantic matches come from LanceDB, not SQLite, so they are resolved to a
+ * node ID → similarity map before the SQL is built.
+ */
+
+import type { Database, SQLQueryBindings } from "bun:sqlite";
+import type { SearchClause } from "./types";
+
+/**
+ * Escape a search query for FTS5 MATCH syntax.
+ * FTS5 has special syntax where bare words can be interpreted as column names
+ * or operators (AND, OR, NOT, NEAR). We quote each term to treat them as literals.
+ *
+ * Examples:
+ *   "semantic" -> "semantic" (quoted to prevent column name interpretation)
+ *   "hello world" -> "hello" "world" (each word quoted)
+ *   "c++" -> "c++" (special chars preserved inside quotes)
+ */
+export function escapeFTS5Query(query: string): string {
+  // Split on whitespace and quote each term
+  // FTS5 double-quoted strings are phrase searches, treating content literally
+  const terms = query.trim().split(/\s+/).filter(t => t.length > 0);
+
+  if (terms.length === 0) {
+    return '""'; // Empty query
+  }
+
+  // Quote each term - escape any internal double quotes by doubling them
+  return terms.map(term => {
+    const escaped = term.replace(/"/g, '""');
+    return `"${escaped}"`;
+  }).join(' ');
+}
+
+/**
+ * Build SQL condition for a search predicate
+ *
+ * @param clause - Parsed search clause
+ * @param similarities - Resolved node ID → similarity map (required for "similar")
+ * @param alias - Alias of the nodes table in the outer query (default: "n")
+ */
+export function buildSearchCondition(
+  clause: SearchClause,
+  similarities?: Map<string, number>,
+  alias: string = "n"
+): { sql: string; params: SQLQueryBindings[] } {
+  let sql: string;
+  let params: SQLQueryBindings[];
+
+  if (clause.search === "text") {
+    sql = `${alias}.id IN (SELECT id FROM nodes_fts WHERE nodes_fts MATCH ?)`;
+    params = [escapeFTS5Query(clause.query)];
+  } else {
+    if (!similarities) {
+      throw new Error(`Semantic predicate 'similar to "${clause.query}"' has not been resolved`);
+    }
+    const ids = [...similarities.keys()];
+    sql = ids.length > 0 ? `${alias}.id IN (${ids.map(() => "?").join(", ")})` : "0";
+    params = ids;
+  }
+
+  return { sql: clause.negated ? `NOT (${sql})` : sql, params };
+}
+
+/**
+ * Get normalized full-text relevance (0-1) for every node matching a text query
+ *
+ * FTS5's bm25() is negative with lower meaning better, so relevance
+ * r = -bm25 is mapped to r / (1 + r).
+ */
+export function getTextScores(db: Database, query: string): Map<string, number> {
+  const rows = db
+    .query("SELECT id, bm25(nodes_fts) AS rank FROM nodes_fts WHERE nodes_fts MATCH ?")
+    .all(escapeFTS5Query(query)) as { id: string; rank: number }[];
+
+  const scores = new Map<string, number>();
+  for (const row of rows) {
+    const relevance = Math.max(0, -row.rank);
+    scores.set(row.id, relevance / (1 + relevance));
+  }
+  return scores;
+}
+
+/**
+ * Check whether the FTS index exists
+ */
+export function hasTextIndex(db: Database): boolean {
+  return db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'nodes_fts'").get() !== null;
+}
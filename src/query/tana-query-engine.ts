@@ -14,6 +14,7 @@ import { withDbRetrySync, configureDbForConcurrency } from "../db/retry";
 import { buildPagination, buildOrderBy } from "../db/query-builder";
 import type { RelationshipType, Direction } from "../types/graph";
 import { mapDbType } from "../types/graph";
+import { escapeFTS5Query } from "./search-sql";
 
 export interface NodeQuery {
   name?: string;
@@ -59,32 +60,6 @@ export interface RelatedNodeResult {
   type: RelationshipType;
 }
 
-/**
- * Escape a search query for FTS5 MATCH syntax.
- * FTS5 has special syntax where bare words can be interpreted as column names
- * or operators (AND, OR, NOT, NEAR). We quote each term to treat them as literals.
- *
- * Examples:
- *   "semantic" -> "semantic" (quoted to prevent column name interpretation)
- *   "hello world" -> "hello" "world" (each word quoted)
- *   "c++" -> "c++" (special chars preserved inside quotes)
- */
-function escapeFTS5Query(query: string): string {
-  // Split on whitespace and quote each term
-  // FTS5 double-quoted strings are phrase searches, treating content literally
-  const terms = query.trim().split(/\s+/).filter(t => t.length > 0);
-
-  if (terms.length === 0) {
-    return '""'; // Empty query
-  }
-
-  // Quote each term - escape any internal double quotes by doubling them
-  return terms.map(term => {
-    const escaped = term.replace(/"/g, '""');
-    return `"${escaped}"`;
-  }).join(' ');
-}
-
 /**
  * High-level query engine for Tana indexed data
  */
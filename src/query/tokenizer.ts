@@ -17,6 +17,8 @@ export enum TokenType {
   LPAREN = "LPAREN",         // (
   RPAREN = "RPAREN",         // )
   COMMA = "COMMA",           // , (for select field lists)
+  TAG = "TAG",               // #tag or #"multi word tag" (relationship targets)
+  PARAM = "PARAM",           // $name placeholder (saved queries)
 }
 
 /**
@@ -197,6 +199,29 @@ export function tokenize(input: string): Token[] {
       continue;
     }
 
+    // Named parameter placeholders: $owner
+    if (char === "$" && /[a-zA-Z_]/.test(peek(1))) {
+      advance();
+      let name = "";
+      while (pos < input.length && /[a-zA-Z0-9_]/.test(peek())) {
+        name += advance();
+      }
+      tokens.push({ type: TokenType.PARAM, value: name });
+      continue;
+    }
+
+    // Supertag references: #meeting, #"weekly review"
+    if (char === "#") {
+      advance();
+      const next = peek();
+      const value = next === '"' || next === "'" ? readString(next) : readIdentifier();
+      if (!value) {
+        throw new Error(`Expected tag name after '#' at position ${pos}`);
+      }
+      tokens.push({ type: TokenType.TAG, value });
+      continue;
+    }
+
     // Quoted strings
     if (char === '"' || char === "'") {
       const value = readString(char);
@@ -63,6 +63,76 @@ export interface WhereClause {
   negated?: boolean;
 }
 
+/**
+ * Graph relationship kinds usable as where predicates
+ * - references: node links to the target (inline reference or field value)
+ * - referenced_by: the target links to the node
+ * - child_of: node's parent is the target
+ * - parent_of: node has the target as a direct child
+ */
+export type RelationshipKind = "references" | "referenced_by" | "child_of" | "parent_of";
+
+/**
+ * Node set a relationship predicate points at
+ * - `#meeting` → { tag: "meeting" }
+ * - `project:"Apollo"` → { tag: "project", name: "Apollo" }
+ * - `"Apollo"` → { name: "Apollo" }
+ * - `id:abc123` → { id: "abc123" }
+ */
+export interface RelationshipTarget {
+  id?: string;
+  tag?: string;
+  name?: string;
+}
+
+/**
+ * Relationship predicate in a where clause
+ *
+ * Examples:
+ * - `references(project:"Apollo")`
+ * - `child of #meeting`
+ * - `referenced by >= 3`
+ */
+export interface RelationshipClause {
+  /** Relationship to test */
+  relation: RelationshipKind;
+  /** Nodes on the other end of the relationship (omit when counting) */
+  target?: RelationshipTarget;
+  /** Compare the number of related nodes instead of matching a target */
+  count?: {
+    operator: Extract<QueryOperator, "=" | "!=" | ">" | "<" | ">=" | "<=">;
+    value: number;
+  };
+  /** Negate the predicate (NOT) */
+  negated?: boolean;
+}
+
+/**
+ * Full-text or semantic search predicate in a where clause
+ *
+ * Examples:
+ * - `text ~ "quarterly review"` → FTS match on node names
+ * - `similar to "budget risks" > 0.7` → embedding similarity of at least 0.7
+ *
+ * Queries containing search predicates are ranked by a combined score
+ * unless an explicit `order by` is given.
+ */
+export interface SearchClause {
+  /** "text" for FTS, "similar" for vector similarity */
+  search: "text" | "similar";
+  /** Search text */
+  query: string;
+  /** Minimum similarity (0-1) for "similar" predicates */
+  threshold?: number;
+  /** Negate the predicate (NOT) */
+  negated?: boolean;
+}
+
+/**
+ * A single (non-group) where condition
+ */
+export type WhereCondition = WhereClause | RelationshipClause | SearchClause;
+
 /**
  * Logical grouping of where clauses (AND/OR)
  * Supports nesting for complex conditions like:
@@ -72,7 +142,7 @@ export interface WhereGroup {
   /** Logical operator for this group */
   type: "and" | "or";
   /** Clauses or nested groups in this group */
-  clauses: (WhereClause | WhereGroup)[];
+  clauses: (WhereCondition | WhereGroup)[];
 }
 
 /**
@@ -91,14 +161,21 @@ export interface OrderBy {
  * Represents a complete query from either:
  * - CLI: `supertag query "find task where Status = Done order by -created limit 20"`
  * - MCP: `tana_query({ find: "task", where: { Status: "Done" }, ... })`
+ *
+ * When `groupBy` or `aggregate` is set, the query returns one row per group
+ * instead of one row per node.
  */
 export interface QueryAST {
   /** Supertag to find, or "*" for all nodes */
   find: string;
   /** Filter conditions (can be flat array or nested groups) */
-  where?: (WhereClause | WhereGroup)[];
+  where?: (WhereCondition | WhereGroup)[];
   /** Fields to return (projection) */
   select?: string[];
+  /** Group results by field or time period (`group by Owner`) */
+  groupBy?: GroupBySpec[];
+  /** Aggregate projections from the select clause (`select Owner, count()`) */
+  aggregate?: AggregateFunction[];
   /** Sort order */
   orderBy?: OrderBy;
   /** Maximum results (default: 100, max: 1000) */
@@ -107,11 +184,28 @@ export interface QueryAST {
   offset?: number;
 }
 
+/**
+ * Check if a query returns aggregated rows rather than nodes
+ */
+export function isAggregateQuery(ast: QueryAST): boolean {
+  return (ast.groupBy?.length ?? 0) > 0 || (ast.aggregate?.length ?? 0) > 0;
+}
+
+/**
+ * Default output column name for an aggregate function
+ * - count() → "count"
+ * - sum(Points) → "sum(Points)"
+ */
+export function aggregateColumnName(agg: AggregateFunction): string {
+  if (agg.alias) return agg.alias;
+  return agg.field ? `${agg.fn}(${agg.field})` : agg.fn;
+}
+
 /**
  * Type guard to check if a clause is a WhereGroup
  */
 export function isWhereGroup(
-  clause: WhereClause | WhereGroup
+  clause: WhereCondition | WhereGroup
 ): clause is WhereGroup {
   return "type" in clause && (clause.type === "and" || clause.type === "or");
 }
@@ -120,11 +214,39 @@ export function isWhereGroup(
  * Type guard to check if a clause is a WhereClause
  */
 export function isWhereClause(
-  clause: WhereClause | WhereGroup
+  clause: WhereCondition | WhereGroup
 ): clause is WhereClause {
   return "field" in clause && "operator" in clause;
 }
 
+/**
+ * Type guard to check if a clause is a RelationshipClause
+ */
+export function isRelationshipClause(
+  clause: WhereCondition | WhereGroup
+): clause is RelationshipClause {
+  return "relation" in clause;
+}
+
+/**
+ * Type guard to check if a clause is a SearchClause
+ */
+export function isSearchClause(
+  clause: WhereCondition | WhereGroup
+): clause is SearchClause {
+  return "search" in clause;
+}
+
+/**
+ * Collect the search predicates of a query (including those inside groups)
+ */
+export function getSearchClauses(where: (WhereCondition | WhereGroup)[] = []): SearchClause[] {
+  return where.flatMap((clause) => {
+    if (isWhereGroup(clause)) return getSearchClauses(clause.clauses);
+    return isSearchClause(clause) ? [clause] : [];
+  });
+}
+
 /**
  * Check if a string is a valid relative date
  */
@@ -7,11 +7,29 @@
  */
 
 import { Database, type SQLQueryBindings } from "bun:sqlite";
-import type { QueryAST, WhereClause, WhereGroup, QueryOperator } from "./types";
-import { isWhereGroup } from "./types";
+import type {
+  QueryAST,
+  WhereClause,
+  WhereGroup,
+  WhereCondition,
+  QueryOperator,
+  AggregateFunction,
+  SearchClause,
+} from "./types";
+import {
+  isWhereGroup,
+  isRelationshipClause,
+  isSearchClause,
+  getSearchClauses,
+  isAggregateQuery,
+  aggregateColumnName,
+} from "./types";
 import { parseDateValue, isRelativeDateValue } from "./date-resolver";
 import { buildPagination, buildOrderBy } from "../db/query-builder";
 import { FieldResolver } from "../services/field-resolver";
+import { timePeriodExpression } from "../services/aggregation-service";
+import { buildRelationshipCondition } from "./relationship-sql";
+import { buildSearchCondition, getTextScores, hasTextIndex } from "./search-sql";
 
 /**
  * Query execution result
@@ -22,8 +40,79 @@ export interface QueryResult {
   hasMore: boolean;
   /** Field names included in output (when select clause used) */
   fieldNames?: string[];
+  /** Column names of aggregated rows (group keys, then aggregates) */
+  columns?: string[];
 }
 
+/**
+ * How a field referenced in a query maps to storage
+ */
+export interface FieldResolution {
+  field: string;
+  /** Clause the field appears in */
+  usage: "where" | "group by" | "order by";
+  kind: "core" | "field" | "parent";
+  /** SQL column or table the field resolves to */
+  target: string;
+  /** Stored values for custom fields (0 usually means a misspelled name) */
+  values?: number;
+}
+
+/**
+ * A relative or absolute date value resolved to a timestamp
+ */
+export interface DateResolution {
+  field: string;
+  input: string;
+  resolved: number;
+  iso: string;
+}
+
+/**
+ * One row of SQLite's EXPLAIN QUERY PLAN output
+ */
+export interface QueryPlanStep {
+  id: number;
+  parent: number;
+  detail: string;
+}
+
+/**
+ * Explanation of how a query is executed (without running it)
+ */
+export interface QueryExplanation {
+  ast: QueryAST;
+  /** Supertag being searched and how many nodes carry it */
+  find: { tag: string; nodes?: number };
+  fields: FieldResolution[];
+  dates: DateResolution[];
+  sql: string;
+  params: SQLQueryBindings[];
+  plan: QueryPlanStep[];
+}
+
+/**
+ * Vector search used to resolve `similar to` predicates
+ */
+export type SemanticSearchFn = (
+  query: string,
+  k: number
+) => Promise<{ nodeId: string; similarity: number }[]>;
+
+/**
+ * Optional capabilities of the engine
+ */
+export interface UnifiedQueryEngineOptions {
+  /** Required for `similar to` predicates */
+  semanticSearch?: SemanticSearchFn;
+}
+
+/**
+ * Number of nearest neighbours fetched per `similar to` predicate
+ * before structured filters are applied
+ */
+export const SEMANTIC_CANDIDATE_LIMIT = 1000;
+
 /**
  * Validation error
  */
@@ -40,7 +129,13 @@ export class QueryValidationError extends Error {
  * Executes parsed queries against the SQLite database.
  */
 export class UnifiedQueryEngine {
-  constructor(private db: Database) {}
+  /** Resolved `similar to` matches (node ID → similarity) for the current query */
+  private similarities = new Map<SearchClause, Map<string, number>>();
+
+  constructor(
+    private db: Database,
+    private options: UnifiedQueryEngineOptions = {}
+  ) {}
 
   /**
    * Execute a query AST and return results
@@ -52,6 +147,19 @@ export class UnifiedQueryEngine {
     // Resolve relative dates in where clauses
     const resolvedAst = this.resolveDates(ast);
 
+    // Run vector searches for `similar to` predicates
+    await this.resolveSimilarities(resolvedAst);
+
+    // Grouped/aggregated queries return one row per group
+    if (isAggregateQuery(resolvedAst)) {
+      return this.executeAggregate(resolvedAst);
+    }
+
+    // Search predicates without explicit ordering are ranked by score
+    if (getSearchClauses(resolvedAst.where).length > 0 && !resolvedAst.orderBy) {
+      return this.executeRanked(resolvedAst);
+    }
+
     // Build and execute SQL
     const { sql, params } = this.buildQuery(resolvedAst);
     const results = this.db.query(sql).all(...params) as Record<string, unknown>[];
@@ -73,6 +181,185 @@ export class UnifiedQueryEngine {
     };
   }
 
+  /**
+   * Explain a query: resolved fields and dates, generated SQL, and the
+   * SQLite query plan. The query itself is not executed (vector searches
+   * for `similar to` predicates are, since their matches become SQL).
+   */
+  async explain(ast: QueryAST): Promise<QueryExplanation> {
+    this.validate(ast);
+
+    const resolvedAst = this.resolveDates(ast);
+    await this.resolveSimilarities(resolvedAst);
+    let built: { sql: string; params: SQLQueryBindings[] };
+    if (isAggregateQuery(resolvedAst)) {
+      this.validateAggregate(resolvedAst);
+      built = this.buildAggregateQuery(resolvedAst);
+    } else {
+      // Ranked queries fetch all matches and paginate after scoring
+      const ranked = getSearchClauses(resolvedAst.where).length > 0 && !resolvedAst.orderBy;
+      built = this.buildQuery(resolvedAst, !ranked);
+    }
+
+    const plan = this.db
+      .query(`EXPLAIN QUERY PLAN ${built.sql}`)
+      .all(...built.params) as QueryPlanStep[];
+
+    return {
+      ast,
+      find: {
+        tag: ast.find,
+        nodes: ast.find === "*" ? undefined : this.countRows(
+          "SELECT COUNT(DISTINCT data_node_id) AS n FROM tag_applications WHERE tag_name = ?",
+          ast.find
+        ),
+      },
+      fields: this.explainFields(ast),
+      dates: this.explainDates(ast),
+      sql: built.sql.replace(/\s+/g, " ").trim(),
+      params: built.params,
+      plan: plan.map(({ id, parent, detail }) => ({ id, parent, detail })),
+    };
+  }
+
+  /**
+   * Describe how each referenced field maps to a column or field_values
+   */
+  private explainFields(ast: QueryAST): FieldResolution[] {
+    const refs: { field: string; usage: FieldResolution["usage"] }[] = [];
+    for (const clause of flattenClauses(ast.where ?? [])) {
+      if (!isRelationshipClause(clause) && !isSearchClause(clause)) {
+        refs.push({ field: clause.field, usage: "where" });
+      }
+    }
+    for (const spec of ast.groupBy ?? []) {
+      if (spec.field) refs.push({ field: spec.field, usage: "group by" });
+    }
+    if (ast.orderBy) refs.push({ field: ast.orderBy.field, usage: "order by" });
+
+    const seen = new Set<string>();
+    const resolutions: FieldResolution[] = [];
+    for (const { field, usage } of refs) {
+      const key = `${usage}:${field}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (field.startsWith("parent.")) {
+        const target = field === "parent.tags" ? "tag_applications.tag_name (of parent)" : "parent.name";
+        resolutions.push({ field, usage, kind: "parent", target });
+      } else if (usage === "order by" && !isAggregateQuery(ast)) {
+        const target = this.mapSortField(field);
+        resolutions.push({ field, usage, kind: this.isFieldName(field) ? "field" : "core", target });
+      } else if (field.startsWith("fields.") || this.isFieldName(field)) {
+        const name = field.replace(/^fields\./, "");
+        resolutions.push({
+          field,
+          usage,
+          kind: "field",
+          target: `field_values.field_name = '${name}'`,
+          values: this.countRows("SELECT COUNT(*) AS n FROM field_values WHERE field_name = ?", name),
+        });
+      } else {
+        resolutions.push({ field, usage, kind: "core", target: this.mapNodeField(field) });
+      }
+    }
+    return resolutions;
+  }
+
+  /**
+   * List date values that were resolved to timestamps
+   */
+  private explainDates(ast: QueryAST): DateResolution[] {
+    const dates: DateResolution[] = [];
+    for (const clause of flattenClauses(ast.where ?? [])) {
+      if (isRelationshipClause(clause) || isSearchClause(clause) || typeof clause.value !== "string") continue;
+      const resolved = this.resolveClauseDates(clause) as WhereClause;
+      if (typeof resolved.value === "number") {
+        dates.push({
+          field: clause.field,
+          input: clause.value,
+          resolved: resolved.value,
+          iso: new Date(resolved.value).toISOString(),
+        });
+      }
+    }
+    return dates;
+  }
+
+  private countRows(sql: string, param: SQLQueryBindings): number {
+    const row = this.db.query(sql).get(param) as { n: number } | null;
+    return row?.n ?? 0;
+  }
+
+  /**
+   * Run vector search for each `similar to` predicate and keep the matches
+   * above the predicate's threshold
+   */
+  private async resolveSimilarities(ast: QueryAST): Promise<void> {
+    this.similarities.clear();
+    const clauses = getSearchClauses(ast.where).filter((c) => c.search === "similar");
+    if (clauses.length === 0) return;
+
+    if (!this.options.semanticSearch) {
+      throw new QueryValidationError(
+        "'similar to' requires embeddings. Run: supertag embed generate"
+      );
+    }
+
+    for (const clause of clauses) {
+      const results = await this.options.semanticSearch(clause.query, SEMANTIC_CANDIDATE_LIMIT);
+      const matches = new Map<string, number>();
+      for (const { nodeId, similarity } of results) {
+        if (clause.threshold === undefined || similarity >= clause.threshold) {
+          matches.set(nodeId, Math.max(similarity, matches.get(nodeId) ?? 0));
+        }
+      }
+      this.similarities.set(clause, matches);
+    }
+  }
+
+  /**
+   * Execute a query with search predicates, ranked by combined score
+   *
+   * All matching rows are fetched, scored, sorted, and then paginated, so the
+   * best matches are returned regardless of creation date. The score is the
+   * mean of the per-predicate scores: normalized FTS relevance for `text ~`
+   * and similarity for `similar to` (0 when a node did not match, e.g. in an
+   * OR group). Negated predicates do not contribute.
+   */
+  private executeRanked(ast: QueryAST): QueryResult {
+    const { sql, params } = this.buildQuery(ast, false);
+    const rows = this.db.query(sql).all(...params) as Record<string, unknown>[];
+
+    const scoreMaps = getSearchClauses(ast.where)
+      .filter((clause) => !clause.negated)
+      .map((clause) =>
+        clause.search === "text"
+          ? getTextScores(this.db, clause.query)
+          : this.similarities.get(clause) ?? new Map<string, number>()
+      );
+
+    const scored = rows.map((row) => {
+      const id = row.id as string;
+      const total = scoreMaps.reduce((sum, scores) => sum + (scores.get(id) ?? 0), 0);
+      const score = scoreMaps.length > 0 ? total / scoreMaps.length : 0;
+      return { ...row, score: Math.round(score * 10000) / 10000 };
+    });
+    // Stable sort keeps newest-first order among equal scores
+    scored.sort((a, b) => b.score - a.score);
+
+    const limit = ast.limit ?? 100;
+    const offset = ast.offset ?? 0;
+    const page = scored.slice(offset, offset + limit);
+    const hasMore = scored.length > offset + limit;
+
+    if (ast.select && ast.select.length > 0) {
+      return this.executeWithFields(ast, page, hasMore);
+    }
+
+    return { results: page, count: page.length, hasMore };
+  }
+
   /**
    * Execute query with field value resolution
    */
@@ -116,6 +403,47 @@ export class UnifiedQueryEngine {
     };
   }
 
+  /**
+   * Execute a query with group by and/or aggregate projections
+   */
+  private executeAggregate(ast: QueryAST): QueryResult {
+    this.validateAggregate(ast);
+
+    const { sql, params, columns } = this.buildAggregateQuery(ast);
+    const results = this.db.query(sql).all(...params) as Record<string, unknown>[];
+
+    const limit = ast.limit ?? 100;
+
+    return {
+      results,
+      count: results.length,
+      hasMore: results.length === limit,
+      columns,
+    };
+  }
+
+  /**
+   * Validate group by / aggregate combination
+   *
+   * Plain select fields are only meaningful when they are also group keys.
+   */
+  private validateAggregate(ast: QueryAST): void {
+    const groupFields = new Set(
+      (ast.groupBy ?? []).map((spec) => spec.field ?? spec.period)
+    );
+
+    for (const field of ast.select ?? []) {
+      if (field === "*") {
+        throw new QueryValidationError("'select *' cannot be combined with group by or aggregates");
+      }
+      if (!groupFields.has(field)) {
+        throw new QueryValidationError(
+          `Field '${field}' must appear in 'group by' or be wrapped in an aggregate function`
+        );
+      }
+    }
+  }
+
   /**
    * Validate query AST
    */
@@ -131,6 +459,18 @@ export class UnifiedQueryEngine {
     if (ast.offset !== undefined && ast.offset < 0) {
       throw new QueryValidationError("Offset must be non-negative");
     }
+
+    const searches = getSearchClauses(ast.where);
+    if (searches.some((c) => c.search === "text") && !hasTextIndex(this.db)) {
+      throw new QueryValidationError(
+        "Full-text index not found. Run 'supertag search <text>' once to build it"
+      );
+    }
+    for (const clause of searches) {
+      if (clause.threshold !== undefined && (clause.threshold < 0 || clause.threshold > 1)) {
+        throw new QueryValidationError("Similarity threshold must be between 0 and 1");
+      }
+    }
   }
 
   /**
@@ -143,7 +483,7 @@ export class UnifiedQueryEngine {
       if (isWhereGroup(clause)) {
         return {
           ...clause,
-          clauses: clause.clauses.map((c) => this.resolveClauseDates(c as WhereClause)),
+          clauses: clause.clauses.map((c) => (isWhereGroup(c) ? c : this.resolveClauseDates(c))),
         };
       }
       return this.resolveClauseDates(clause);
@@ -155,8 +495,8 @@ export class UnifiedQueryEngine {
   /**
    * Resolve dates in a single clause
    */
-  private resolveClauseDates(clause: WhereClause): WhereClause {
-    if (typeof clause.value !== "string") {
+  private resolveClauseDates(clause: WhereCondition): WhereCondition {
+    if (isRelationshipClause(clause) || isSearchClause(clause) || typeof clause.value !== "string") {
       return clause;
     }
 
@@ -175,12 +515,10 @@ export class UnifiedQueryEngine {
 
   /**
    * Build SQL query from AST
+   *
+   * @param paginate - Apply LIMIT/OFFSET (ranked queries paginate after scoring)
    */
-  private buildQuery(ast: QueryAST): { sql: string; params: SQLQueryBindings[] } {
-    const params: SQLQueryBindings[] = [];
-    const joins: string[] = [];
-    const conditions: string[] = [];
-
+  private buildQuery(ast: QueryAST, paginate: boolean = true): { sql: string; params: SQLQueryBindings[] } {
     // Base SELECT
     let selectClause = `
       SELECT DISTINCT
@@ -193,6 +531,40 @@ export class UnifiedQueryEngine {
         n.done_at as doneAt
     `;
 
+    const filter = this.buildFilter(ast);
+    const params = [...filter.params];
+
+    // Combine query parts
+    const sqlParts = [selectClause, filter.sql];
+
+    // ORDER BY
+    if (ast.orderBy) {
+      const column = this.mapSortField(ast.orderBy.field);
+      const direction = ast.orderBy.desc ? "DESC" : "ASC";
+      sqlParts.push(`ORDER BY ${column} ${direction}`);
+    } else {
+      sqlParts.push("ORDER BY n.created DESC");
+    }
+
+    // LIMIT/OFFSET
+    const limit = ast.limit ?? 100;
+    const pagination = buildPagination({ limit, offset: ast.offset });
+    if (paginate && pagination.sql) {
+      sqlParts.push(pagination.sql);
+      params.push(...(pagination.params as SQLQueryBindings[]));
+    }
+
+    return { sql: sqlParts.join(" "), params };
+  }
+
+  /**
+   * Build FROM/JOIN/WHERE part shared by row and aggregate queries
+   */
+  private buildFilter(ast: QueryAST): { sql: string; params: SQLQueryBindings[] } {
+    const params: SQLQueryBindings[] = [];
+    const joins: string[] = [];
+    const conditions: string[] = [];
+
     // FROM clause
     let fromClause = "FROM nodes n";
 
@@ -217,23 +589,95 @@ export class UnifiedQueryEngine {
       }
     }
 
-    // Combine query parts
-    const sqlParts = [selectClause, fromClause, ...joins];
+    const sqlParts = [fromClause, ...joins];
 
     if (conditions.length > 0) {
       sqlParts.push("WHERE " + conditions.join(" AND "));
     }
 
-    // ORDER BY
+    return { sql: sqlParts.join(" "), params };
+  }
+
+  /**
+   * Build SQL for a grouped/aggregated query
+   *
+   * Matching nodes are first paired with their group keys (deduplicated per
+   * node and key), then aggregated, so joins in the filter never inflate
+   * counts or sums.
+   */
+  private buildAggregateQuery(ast: QueryAST): {
+    sql: string;
+    params: SQLQueryBindings[];
+    columns: string[];
+  } {
+    const groupBy = ast.groupBy ?? [];
+    const aggregates: AggregateFunction[] =
+      ast.aggregate && ast.aggregate.length > 0 ? ast.aggregate : [{ fn: "count" }];
+
+    const selectParams: SQLQueryBindings[] = [];
+    const keyParams: SQLQueryBindings[] = [];
+    const keyJoins: string[] = [];
+    const keyExprs: string[] = [];
+    const keyColumns: string[] = [];
+
+    groupBy.forEach((spec, i) => {
+      if (spec.period && !spec.field) {
+        const dateColumn = this.mapNodeField(spec.dateField ?? "created");
+        keyExprs.push(`COALESCE(${timePeriodExpression(spec.period, dateColumn)}, '(none)') AS k${i}`);
+        keyColumns.push(spec.period);
+        return;
+      }
+
+      const field = spec.field!;
+      if (this.isFieldName(field)) {
+        const fieldName = field.startsWith("fields.") ? field.replace("fields.", "") : field;
+        keyJoins.push(`LEFT JOIN field_values g${i} ON g${i}.parent_id = n.id AND g${i}.field_name = ?`);
+        keyParams.push(fieldName);
+        keyExprs.push(`COALESCE(g${i}.value_text, '(none)') AS k${i}`);
+      } else {
+        keyExprs.push(`COALESCE(${this.mapNodeField(field)}, '(none)') AS k${i}`);
+      }
+      keyColumns.push(field);
+    });
+
+    const aggColumns = aggregates.map((agg) => aggregateColumnName(agg));
+    const columns = [...keyColumns, ...aggColumns];
+
+    const selectParts = keyColumns.map((col, i) => `g.k${i} AS ${quoteIdentifier(col)}`);
+    aggregates.forEach((agg, i) => {
+      const { sql, params } = this.buildAggregateExpr(agg);
+      selectParts.push(`${sql} AS ${quoteIdentifier(aggColumns[i])}`);
+      selectParams.push(...params);
+    });
+
+    const filter = this.buildFilter(ast);
+    const innerSelect = ["n.id AS node_id", ...keyExprs].join(", ");
+    const sqlParts = [
+      `SELECT ${selectParts.join(", ")}`,
+      `FROM (SELECT DISTINCT ${innerSelect} FROM nodes n ${keyJoins.join(" ")}`,
+      `WHERE n.id IN (SELECT DISTINCT n.id ${filter.sql})) g`,
+      "INNER JOIN nodes n ON n.id = g.node_id",
+    ];
+    const params: SQLQueryBindings[] = [...selectParams, ...keyParams, ...filter.params];
+
+    if (keyColumns.length > 0) {
+      sqlParts.push(`GROUP BY ${keyColumns.map((_, i) => `g.k${i}`).join(", ")}`);
+    }
+
+    // ORDER BY a group key or aggregate column; default to count, then first key
     if (ast.orderBy) {
-      const column = this.mapSortField(ast.orderBy.field);
-      const direction = ast.orderBy.desc ? "DESC" : "ASC";
-      sqlParts.push(`ORDER BY ${column} ${direction}`);
-    } else {
-      sqlParts.push("ORDER BY n.created DESC");
+      if (!columns.includes(ast.orderBy.field)) {
+        throw new QueryValidationError(
+          `Cannot order grouped results by '${ast.orderBy.field}'. Use one of: ${columns.join(", ")}`
+        );
+      }
+      sqlParts.push(`ORDER BY ${quoteIdentifier(ast.orderBy.field)} ${ast.orderBy.desc ? "DESC" : "ASC"}`);
+    } else if (aggColumns.includes("count")) {
+      sqlParts.push(`ORDER BY "count" DESC`);
+    } else if (keyColumns.length > 0) {
+      sqlParts.push(`ORDER BY ${quoteIdentifier(keyColumns[0])} ASC`);
     }
 
-    // LIMIT/OFFSET
     const limit = ast.limit ?? 100;
     const pagination = buildPagination({ limit, offset: ast.offset });
     if (pagination.sql) {
@@ -241,14 +685,58 @@ export class UnifiedQueryEngine {
       params.push(...(pagination.params as SQLQueryBindings[]));
     }
 
-    return { sql: sqlParts.join(" "), params };
+    return { sql: sqlParts.join(" "), params, columns };
+  }
+
+  /**
+   * Build SQL expression for one aggregate function over grouped nodes
+   */
+  private buildAggregateExpr(agg: AggregateFunction): { sql: string; params: SQLQueryBindings[] } {
+    if (!agg.field) {
+      if (agg.fn !== "count") {
+        throw new QueryValidationError(`Aggregate function '${agg.fn}' requires a field`);
+      }
+      return { sql: "COUNT(DISTINCT n.id)", params: [] };
+    }
+
+    const field = agg.field.startsWith("fields.") ? agg.field.replace("fields.", "") : agg.field;
+
+    // Core node columns (created, updated, doneAt, ...) aggregate directly
+    if (!this.isFieldName(field)) {
+      const column = this.mapNodeField(field);
+      if (agg.fn === "count") {
+        return { sql: `COUNT(DISTINCT CASE WHEN ${column} IS NOT NULL THEN n.id END)`, params: [] };
+      }
+      return { sql: `${agg.fn.toUpperCase()}(${column})`, params: [] };
+    }
+
+    // Custom fields use their first value per node
+    const valueSql =
+      "(SELECT av.value_text FROM field_values av WHERE av.parent_id = n.id AND av.field_name = ? " +
+      "AND av.value_text IS NOT NULL AND av.value_text != '' ORDER BY av.value_order LIMIT 1)";
+
+    switch (agg.fn) {
+      case "count":
+        return { sql: `COUNT(DISTINCT CASE WHEN ${valueSql} IS NOT NULL THEN n.id END)`, params: [field] };
+      case "sum":
+      case "avg":
+        return { sql: `${agg.fn.toUpperCase()}(CAST(${valueSql} AS REAL))`, params: [field] };
+      case "min":
+      case "max": {
+        // Compare numerically when the value is numeric, otherwise as text (e.g. ISO dates)
+        return {
+          sql: `${agg.fn.toUpperCase()}(CASE WHEN ${valueSql} GLOB '*[^0-9.-]*' THEN ${valueSql} ELSE CAST(${valueSql} AS REAL) END)`,
+          params: [field, field, field],
+        };
+      }
+    }
   }
 
   /**
    * Build SQL condition from where clause or group
    */
   private buildWhereCondition(
-    clause: WhereClause | WhereGroup
+    clause: WhereCondition | WhereGroup
   ): { sql: string; params: SQLQueryBindings[]; join?: string } {
     if (isWhereGroup(clause)) {
       return this.buildGroupCondition(clause);
@@ -269,7 +757,7 @@ export class UnifiedQueryEngine {
     let join: string | undefined;
 
     for (const clause of group.clauses) {
-      const result = this.buildClauseCondition(clause as WhereClause);
+      const result = this.buildClauseCondition(clause as WhereCondition);
       if (result.sql) {
         parts.push(result.sql);
         params.push(...result.params);
@@ -288,13 +776,21 @@ export class UnifiedQueryEngine {
   }
 
   /**
-   * Build condition for single WhereClause
+   * Build condition for single WhereClause, relationship or search predicate
    */
-  private buildClauseCondition(clause: WhereClause): {
+  private buildClauseCondition(clause: WhereCondition): {
     sql: string;
     params: SQLQueryBindings[];
     join?: string;
   } {
+    if (isRelationshipClause(clause)) {
+      return buildRelationshipCondition(clause);
+    }
+
+    if (isSearchClause(clause)) {
+      return buildSearchCondition(clause, this.similarities.get(clause));
+    }
+
     const { field, operator, value, negated } = clause;
     const params: SQLQueryBindings[] = [];
     let join: string | undefined;
@@ -519,3 +1015,19 @@ export class UnifiedQueryEngine {
     return projected;
   }
 }
+
+/**
+ * Quote a column alias for SQLite
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Flatten OR groups into their member clauses
+ */
+function flattenClauses(where: (WhereCondition | WhereGroup)[]): WhereCondition[] {
+  return where.flatMap((clause) =>
+    isWhereGroup(clause) ? flattenClauses(clause.clauses) : [clause]
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * API Keys for the Webhook Server
+ *
+ * Bearer-token keys stored in a JSON file in the config directory. Only a
+ * SHA-256 hash of each token is stored; the token itself is shown once, when
+ * the key is created. Each key has a scope and optional workspace list:
+ * - read:  query endpoints
+ * - write: endpoints that change data (includes read)
+ *
+ * The server re-reads the file when it changes, so created and revoked
+ * keys take effect without a restart.
+ *
+ * Usage:
+ *   supertag server keys create --name ci --scope read --workspace main
+ *   supertag server keys list
+ *   supertag server keys revoke <id>
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { TANA_CONFIG_DIR, ensureDir } from '../config/paths';
+import { StructuredError } from '../utils/structured-errors';
+
+/** Default key file location */
+export const API_KEYS_FILE = join(TANA_CONFIG_DIR, 'api-keys.json');
+
+export const API_KEY_SCOPES = ['read', 'write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Prefix of every token, so leaked keys are easy to recognize */
+const TOKEN_PREFIX = 'stk';
+
+export interface ApiKey {
+  /** Public key ID (part of the token) */
+  id: string;
+  name: string;
+  scope: ApiKeyScope;
+  /** Workspace aliases the key may access (empty: all) */
+  workspaces: string[];
+  /** SHA-256 of the token */
+  hash: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+interface ApiKeyFile {
+  version: 1;
+  keys: ApiKey[];
+}
+
+/**
+ * Validate a scope name from user input
+ */
+export function parseApiKeyScope(value: string): ApiKeyScope {
+  if (!API_KEY_SCOPES.includes(value as ApiKeyScope)) {
+    throw new StructuredError('INVALID_PARAMETER', `Unknown API key scope: ${value}`, {
+      details: { scope: value },
+      suggestion: `Use one of: ${API_KEY_SCOPES.join(', ')}`,
+    });
+  }
+  return value as ApiKeyScope;
+}
+
+/**
+ * Whether a key's scope grants the required scope (write includes read)
+ */
+export function hasScope(key: Pick<ApiKey, 'scope'>, required: ApiKeyScope): boolean {
+  return key.scope === 'write' || required === 'read';
+}
+
+/**
+ * Whether a key may access a workspace
+ */
+export function canAccessWorkspace(key: Pick<ApiKey, 'workspaces'>, workspace: string): boolean {
+  return key.workspaces.length === 0 || key.workspaces.includes(workspace);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * File-backed API key store
+ */
+export class ApiKeyStore {
+  private cache?: { mtimeMs: number; keys: ApiKey[] };
+
+  constructor(private filePath: string = API_KEYS_FILE) {}
+
+  /**
+   * Create a key
+   *
+   * @returns The stored key and its token (the only time the token is available)
+   * @throws StructuredError if an active key with the same name exists
+   */
+  create(options: { name: string; scope: ApiKeyScope; workspaces?: string[] }): { key: ApiKey; token: string } {
+    const keys = this.load();
+    if (keys.some((k) => k.name === options.name && !k.revokedAt)) {
+      throw new StructuredError('INVALID_PARAMETER', `An active API key named "${options.name}" already exists`, {
+        suggestion: 'Choose another name or revoke the existing key first',
+      });
+    }
+
+    const id = randomBytes(4).toString('hex');
+    const token = `${TOKEN_PREFIX}_${id}_${randomBytes(24).toString('base64url')}`;
+    const key: ApiKey = {
+      id,
+      name: options.name,
+      scope: options.scope,
+      workspaces: options.workspaces ?? [],
+      hash: hashToken(token),
+      createdAt: new Date().toISOString(),
+    };
+    this.save([...keys, key]);
+    return { key, token };
+  }
+
+  /**
+   * Revoke a key by ID or name
+   *
+   * @throws StructuredError if no active key matches
+   */
+  revoke(idOrName: string): ApiKey {
+    const keys = this.load();
+    const key = keys.find((k) => !k.revokedAt && (k.id === idOrName || k.name === idOrName));
+    if (!key) {
+      throw new StructuredError('INVALID_PARAMETER', `No active API key "${idOrName}"`, {
+        suggestion: 'List keys with: supertag server keys list',
+      });
+    }
+    key.revokedAt = new Date().toISOString();
+    this.save(keys);
+    return key;
+  }
+
+  /**
+   * All keys, including revoked ones
+   */
+  list(): ApiKey[] {
+    return this.load();
+  }
+
+  /**
+   * Whether any active key exists (authentication is required once one does)
+   */
+  hasActiveKeys(): boolean {
+    return this.load().some((k) => !k.revokedAt);
+  }
+
+  /**
+   * Resolve a bearer token to its active key
+   *
+   * @returns The key, or null if the token is unknown or revoked
+   */
+  authenticate(token: string): ApiKey | null {
+    const [prefix, id] = token.split('_');
+    if (prefix !== TOKEN_PREFIX || !id) return null;
+    const key = this.load().find((k) => k.id === id && !k.revokedAt);
+    if (!key) return null;
+    const expected = Buffer.from(key.hash, 'hex');
+    const actual = Buffer.from(hashToken(token), 'hex');
+    return timingSafeEqual(expected, actual) ? key : null;
+  }
+
+  private load(): ApiKey[] {
+    if (!existsSync(this.filePath)) return [];
+    const mtimeMs = statSync(this.filePath).mtimeMs;
+    if (this.cache?.mtimeMs !== mtimeMs) {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Partial<ApiKeyFile>;
+      this.cache = { mtimeMs, keys: Array.isArray(parsed.keys) ? parsed.keys : [] };
+    }
+    return this.cache.keys.map((k) => ({ ...k }));
+  }
+
+  private save(keys: ApiKey[]): void {
+    ensureDir(dirname(this.filePath));
+    const file: ApiKeyFile = { version: 1, keys };
+    writeFileSync(this.filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    this.cache = undefined;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Webhook Server Audit Log
+ *
+ * Append-only JSONL record of every request the server answered: who
+ * (API key), what (method, path, workspace), and the outcome (status,
+ * duration). Request bodies are not logged.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { TANA_LOG_DIR, ensureDir } from '../config/paths';
+
+/** Default audit log location */
+export const SERVER_AUDIT_LOG_FILE = join(TANA_LOG_DIR, 'server-audit.jsonl');
+
+export interface AuditEntry {
+  timestamp: string;
+  method: string;
+  path: string;
+  /** Workspace the request targeted (default workspace if none was given) */
+  workspace?: string;
+  status: number;
+  durationMs: number;
+  ip: string;
+  /** Authenticated key (absent when auth is disabled or failed) */
+  keyId?: string;
+  keyName?: string;
+  /** Why the request was rejected (401/403) */
+  denied?: string;
+}
+
+/**
+ * Append-only server audit log
+ */
+export class AuditLog {
+  constructor(private filePath: string = SERVER_AUDIT_LOG_FILE) {}
+
+  record(entry: AuditEntry): void {
+    ensureDir(dirname(this.filePath));
+    appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  /**
+   * Most recent entries, oldest first
+   */
+  tail(limit: number): AuditEntry[] {
+    if (!existsSync(this.filePath)) return [];
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // Skip a torn line from an interrupted write
+      }
+    }
+    return entries.slice(-limit);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Change Stream for the Webhook Server
+ *
+ * Follows the node change log (node_changes) of each workspace and hands
+ * new changes to subscribers, i.e. the open GET /events connections. The log
+ * is written by reindex and delta-sync in other processes, so it is polled:
+ * cheaply, as PRAGMA data_version only changes when another connection
+ * commits, and only while someone is subscribed.
+ */
+
+import type { Database } from "bun:sqlite";
+import {
+  NODE_CHANGE_TYPES,
+  getLatestChangeSeq,
+  readNodeChanges,
+  type NodeChange,
+  type NodeChangeType,
+} from "../db/node-changes";
+import { createSimpleLogger } from "../config/paths";
+import { StructuredError } from "../utils/structured-errors";
+
+const logger = createSimpleLogger("change-stream");
+
+/** Default poll interval */
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/** Changes read per poll and workspace */
+const READ_BATCH = 1000;
+
+export interface ChangeFilter {
+  /** Tag names (any match; without #, case-insensitive) */
+  tags?: string[];
+  types?: NodeChangeType[];
+}
+
+interface Subscriber {
+  workspace: string;
+  filter: ChangeFilter;
+  lastSeq: number;
+  send: (change: NodeChange) => void;
+  end: () => void;
+}
+
+/**
+ * Parse comma-separated change types from a query param
+ *
+ * @throws StructuredError for unknown types
+ */
+export function parseChangeTypes(value: string | undefined): NodeChangeType[] | undefined {
+  if (!value) return undefined;
+  const types = value.split(",").map((t) => t.trim()).filter(Boolean);
+  const unknown = types.filter((t) => !NODE_CHANGE_TYPES.includes(t as NodeChangeType));
+  if (unknown.length > 0) {
+    throw new StructuredError("INVALID_PARAMETER", `Unknown change type: ${unknown.join(", ")}`, {
+      suggestion: `Use one of: ${NODE_CHANGE_TYPES.join(", ")}`,
+    });
+  }
+  return types as NodeChangeType[];
+}
+
+/**
+ * Whether a change passes a subscriber's filter
+ */
+export function matchesChangeFilter(change: NodeChange, filter: ChangeFilter): boolean {
+  if (filter.types && !filter.types.includes(change.change)) return false;
+  if (filter.tags && filter.tags.length > 0) {
+    const wanted = new Set(filter.tags.map((t) => t.replace(/^#/, "").toLowerCase()));
+    return change.tags.some((t) => wanted.has(t.toLowerCase()));
+  }
+  return true;
+}
+
+/**
+ * Polls the change logs of subscribed workspaces and fans changes out
+ */
+export class ChangeStream {
+  private subscribers = new Set<Subscriber>();
+  private versions = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pollIntervalMs: number;
+
+  /**
+   * @param getDb - Database of a workspace alias
+   */
+  constructor(
+    private getDb: (workspace: string) => Database,
+    options: { pollIntervalMs?: number } = {}
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Subscribe to a workspace's changes
+   *
+   * @param since - Resume after this seq (replays logged changes); default: only new changes
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    workspace: string,
+    filter: ChangeFilter,
+    handlers: { send: (change: NodeChange) => void; end: () => void },
+    since?: number
+  ): () => void {
+    const db = this.getDb(workspace);
+    const subscriber: Subscriber = {
+      workspace,
+      filter,
+      lastSeq: since ?? getLatestChangeSeq(db),
+      ...handlers,
+    };
+    this.subscribers.add(subscriber);
+    if (since !== undefined) this.deliver(workspace, [subscriber]);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    }
+    return () => this.unsubscribe(subscriber);
+  }
+
+  /**
+   * Number of open subscriptions
+   */
+  get size(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Check all subscribed workspaces for new changes
+   *
+   * A workspace that fails (e.g. database locked or missing) is logged and
+   * retried on the next poll; other workspaces are not affected.
+   */
+  poll(): void {
+    const byWorkspace = new Map<string, Subscriber[]>();
+    for (const sub of this.subscribers) {
+      byWorkspace.set(sub.workspace, [...(byWorkspace.get(sub.workspace) ?? []), sub]);
+    }
+
+    for (const [workspace, subs] of byWorkspace) {
+      try {
+        const db = this.getDb(workspace);
+        const { data_version: version } = db.query("PRAGMA data_version").get() as { data_version: number };
+        if (this.versions.get(workspace) === version) continue;
+        this.deliver(workspace, subs);
+        // Only after delivery, so a failed poll is retried even without a new commit
+        this.versions.set(workspace, version);
+      } catch (error) {
+        logger.error(`Polling changes of workspace ${workspace} failed: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * End all subscriptions (server shutdown)
+   */
+  close(): void {
+    for (const sub of [...this.subscribers]) {
+      this.unsubscribe(sub);
+      sub.end();
+    }
+  }
+
+  private deliver(workspace: string, subs: Subscriber[]): void {
+    const db = this.getDb(workspace);
+    let cursor = Math.min(...subs.map((s) => s.lastSeq));
+    while (true) {
+      const changes = readNodeChanges(db, cursor, READ_BATCH);
+      for (const change of changes) {
+        for (const sub of subs) {
+          if (change.seq > sub.lastSeq && matchesChangeFilter(change, sub.filter)) sub.send(change);
+        }
+      }
+      if (changes.length === 0) break;
+      cursor = changes[changes.length - 1].seq;
+      for (const sub of subs) sub.lastSeq = Math.max(sub.lastSeq, cursor);
+      if (changes.length < READ_BATCH) break;
+    }
+  }
+
+  private unsubscribe(subscriber: Subscriber): void {
+    this.subscribers.delete(subscriber);
+    if (this.subscribers.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.versions.clear();
+    }
+  }
+}
@@ -0,0 +1,588 @@
+/**
+ * GraphQL Schema over the Local Index
+ *
+ * One schema per workspace, built from the supertag schema so every
+ * supertag gets a typed object with its fields (own and inherited) as
+ * properties, next to the generic types:
+ *
+ *   {
+ *     person(limit: 5) { name email company { name } }
+ *     node(id: "abc") { name tags { name } references(direction: IN) { from { name } } }
+ *   }
+ *
+ * Resolvers read through TanaQueryEngine and UnifiedSchemaService. Nodes,
+ * field values and supertags are cached per request, so nested selections
+ * don't query the same row twice.
+ */
+
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  execute,
+  parse,
+  validate,
+  type GraphQLFieldConfig,
+  type GraphQLFieldConfigMap,
+  type GraphQLOutputType,
+} from "graphql";
+import type { Node, Reference } from "../db/schema";
+import type { TanaQueryEngine } from "../query/tana-query-engine";
+import {
+  UnifiedSchemaService,
+  type UnifiedField,
+  type UnifiedSupertag,
+} from "../services/unified-schema-service";
+import { toValidIdentifier } from "../codegen/naming";
+
+/** Rows per IN (...) lookup */
+const LOOKUP_BATCH = 500;
+
+/** Default page size of list fields */
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Per-request state passed to every resolver
+ */
+export interface GraphQLContext {
+  engine: TanaQueryEngine;
+  schema: UnifiedSchemaService;
+  nodes: Map<string, Node | null>;
+  fieldValues: Map<string, FieldValueRow[]>;
+  supertags: Map<string, UnifiedSupertag | null>;
+}
+
+/**
+ * A field value of a node (row of field_values)
+ */
+interface FieldValueRow {
+  parent_id: string;
+  field_def_id: string;
+  field_name: string;
+  value_node_id: string;
+  value_text: string;
+  value_order: number;
+}
+
+/**
+ * GraphQL request (POST body or GET query params)
+ */
+export interface GraphQLRequest {
+  query?: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+/**
+ * Result of a GraphQL request with its HTTP status
+ */
+export interface GraphQLResponse {
+  status: number;
+  body: { data?: unknown; errors?: ReadonlyArray<{ message: string }> };
+}
+
+export function createGraphQLContext(engine: TanaQueryEngine): GraphQLContext {
+  return {
+    engine,
+    schema: new UnifiedSchemaService(engine.rawDb),
+    nodes: new Map(),
+    fieldValues: new Map(),
+    supertags: new Map(),
+  };
+}
+
+// =============================================================================
+// Loaders (per-request cache)
+// =============================================================================
+
+async function loadNodes(ctx: GraphQLContext, ids: string[]): Promise<Array<Node | null>> {
+  const missing = [...new Set(ids.filter((id) => !ctx.nodes.has(id)))];
+  for (let i = 0; i < missing.length; i += LOOKUP_BATCH) {
+    const batch = missing.slice(i, i + LOOKUP_BATCH);
+    const found = await ctx.engine.findNodesByIds(batch);
+    for (const id of batch) ctx.nodes.set(id, null);
+    for (const node of found) ctx.nodes.set(node.id, node);
+  }
+  return ids.map((id) => ctx.nodes.get(id) ?? null);
+}
+
+async function loadNode(ctx: GraphQLContext, id: string): Promise<Node | null> {
+  return (await loadNodes(ctx, [id]))[0];
+}
+
+function cacheNodes(ctx: GraphQLContext, nodes: Node[]): Node[] {
+  for (const node of nodes) ctx.nodes.set(node.id, node);
+  return nodes;
+}
+
+function loadFieldValues(ctx: GraphQLContext, nodeIds: string[]): Map<string, FieldValueRow[]> {
+  const missing = [...new Set(nodeIds.filter((id) => !ctx.fieldValues.has(id)))];
+  const db = ctx.engine.rawDb;
+  const hasTable = db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'field_values'").get();
+  for (let i = 0; i < missing.length; i += LOOKUP_BATCH) {
+    const batch = missing.slice(i, i + LOOKUP_BATCH);
+    for (const id of batch) ctx.fieldValues.set(id, []);
+    if (!hasTable) continue;
+    const rows = db
+      .query(`
+        SELECT parent_id, field_def_id, field_name, value_node_id, value_text, value_order
+        FROM field_values
+        WHERE parent_id IN (${batch.map(() => "?").join(",")})
+        ORDER BY parent_id, field_name, value_order
+      `)
+      .all(...batch) as FieldValueRow[];
+    for (const row of rows) ctx.fieldValues.get(row.parent_id)!.push(row);
+  }
+  return new Map(nodeIds.map((id) => [id, ctx.fieldValues.get(id) ?? []]));
+}
+
+function loadSupertag(ctx: GraphQLContext, id: string, name?: string): UnifiedSupertag | null {
+  if (!ctx.supertags.has(id)) {
+    ctx.supertags.set(id, ctx.schema.getSupertagById(id));
+  }
+  const tag = ctx.supertags.get(id) ?? null;
+  // Tags applied in the export but missing from the schema (e.g. system tags)
+  return tag ?? (name ? { id, name, normalizedName: name.toLowerCase(), fields: [] } : null);
+}
+
+function loadTags(ctx: GraphQLContext, node: Node): UnifiedSupertag[] {
+  const rows = ctx.engine.rawDb
+    .query("SELECT DISTINCT tag_id, tag_name FROM tag_applications WHERE data_node_id = ?")
+    .all(node.id) as Array<{ tag_id: string; tag_name: string }>;
+  return rows.map((r) => loadSupertag(ctx, r.tag_id, r.tag_name)).filter((t) => t !== null);
+}
+
+function childIds(node: Node): string[] {
+  try {
+    const children = JSON.parse(node.rawData ?? "{}").children;
+    return Array.isArray(children) ? children.filter((c): c is string => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// =============================================================================
+// Naming
+// =============================================================================
+
+/** Built-in type names a supertag type must not take */
+const RESERVED_TYPE_NAMES = new Set([
+  "Query", "Mutation", "Subscription", "Node", "Supertag", "Field", "FieldValue", "Reference",
+  "ReferenceDirection", "NodeOrder", "String", "Int", "Float", "Boolean", "ID",
+]);
+
+/** Root fields a supertag query field must not take */
+const RESERVED_ROOT_FIELDS = new Set(["node", "nodes", "search", "supertag", "supertags"]);
+
+/** Properties every typed object has before its fields */
+const RESERVED_PROPERTIES = new Set(["id", "name", "created", "updated", "node", "tags"]);
+
+/**
+ * Convert a Tana name to a GraphQL name (letters, digits, underscore)
+ */
+function toGraphQLName(name: string, style: "camelCase" | "PascalCase", fallback: string): string {
+  let result = toValidIdentifier(name, style).replace(/[^_a-zA-Z0-9]/g, "").replace(/^_+/, "");
+  if (!result) return fallback;
+  if (/^[0-9]/.test(result)) result = `_${result}`;
+  return result;
+}
+
+/**
+ * Claim a name, suffixing a number while it is taken
+ */
+function claimName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}${n}`;
+  taken.add(name);
+  return name;
+}
+
+/**
+ * GraphQL names of a supertag
+ */
+export interface SupertagTypeInfo {
+  tag: UnifiedSupertag;
+  /** Typed object name (e.g. "Person") */
+  typeName: string;
+  /** Root query field listing its nodes (e.g. "person") */
+  queryField: string;
+  /** Property name per field attribute ID */
+  properties: Map<string, { field: UnifiedField; property: string }>;
+}
+
+/**
+ * Assign unique GraphQL names to supertags and their fields
+ */
+export function nameSupertagTypes(schema: UnifiedSchemaService): SupertagTypeInfo[] {
+  const typeNames = new Set(RESERVED_TYPE_NAMES);
+  const rootFields = new Set(RESERVED_ROOT_FIELDS);
+
+  return schema.listSupertags().map((tag) => {
+    const typeName = claimName(toGraphQLName(tag.name, "PascalCase", "Tag"), typeNames);
+    const queryField = claimName(toGraphQLName(tag.name, "camelCase", "tag"), rootFields);
+    const taken = new Set(RESERVED_PROPERTIES);
+    const properties = new Map<string, { field: UnifiedField; property: string }>();
+    for (const field of schema.getAllFields(tag.id)) {
+      const base = toGraphQLName(field.name, "camelCase", "field");
+      properties.set(field.attributeId, { field, property: claimName(taken.has(base) ? `${base}Field` : base, taken) });
+    }
+    return { tag, typeName, queryField, properties };
+  });
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const nonNullList = <T extends GraphQLOutputType>(type: T) => new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+
+const limitArg = { type: GraphQLInt, defaultValue: DEFAULT_LIMIT };
+
+const ReferenceDirection = new GraphQLEnumType({
+  name: "ReferenceDirection",
+  values: { OUT: { value: "out" }, IN: { value: "in" }, BOTH: { value: "both" } },
+});
+
+const NodeOrder = new GraphQLEnumType({
+  name: "NodeOrder",
+  values: { CREATED: { value: "created" }, UPDATED: { value: "updated" } },
+});
+
+interface ReferenceSource {
+  type: string;
+  fromId: string;
+  toId: string;
+}
+
+const timestampFields = {
+  created: { type: GraphQLFloat, description: "Creation time (Unix ms)" },
+  updated: { type: GraphQLFloat, description: "Last update time (Unix ms)" },
+};
+
+const NodeType: GraphQLObjectType<Node, GraphQLContext> = new GraphQLObjectType<Node, GraphQLContext>({
+  name: "Node",
+  description: "Any node in the index",
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID) },
+    name: { type: GraphQLString },
+    ...timestampFields,
+    doneAt: { type: GraphQLFloat, description: "Completion time (Unix ms)" },
+    parent: {
+      type: NodeType,
+      resolve: (node, _args, ctx) => (node.parentId ? loadNode(ctx, node.parentId) : null),
+    },
+    children: {
+      type: nonNullList(NodeType),
+      args: { limit: limitArg },
+      resolve: async (node, args: { limit: number }, ctx) => {
+        const children = await loadNodes(ctx, childIds(node).slice(0, args.limit));
+        return children.filter((c): c is Node => c !== null);
+      },
+    },
+    tags: {
+      type: nonNullList(SupertagType),
+      resolve: (node, _args, ctx) => loadTags(ctx, node),
+    },
+    fields: {
+      type: nonNullList(FieldValueType),
+      description: "Field values, in field and value order",
+      resolve: (node, _args, ctx) => loadFieldValues(ctx, [node.id]).get(node.id),
+    },
+    references: {
+      type: nonNullList(ReferenceType),
+      args: {
+        direction: { type: ReferenceDirection, defaultValue: "both" },
+        type: { type: GraphQLString, description: "Reference type (inline_ref, parent, child)" },
+      },
+      resolve: async (node, args: { direction: "in" | "out" | "both"; type?: string }, ctx) => {
+        const refs: Reference[] = [];
+        if (args.direction !== "in") refs.push(...(await ctx.engine.getOutboundReferences(node.id)));
+        if (args.direction !== "out") refs.push(...(await ctx.engine.getInboundReferences(node.id)));
+        return refs
+          .filter((r) => !args.type || r.referenceType === args.type)
+          .map((r): ReferenceSource => ({ type: r.referenceType, fromId: r.fromNode, toId: r.toNode }));
+      },
+    },
+  }),
+});
+
+const SupertagType: GraphQLObjectType<UnifiedSupertag, GraphQLContext> = new GraphQLObjectType<UnifiedSupertag, GraphQLContext>({
+  name: "Supertag",
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID) },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    color: { type: GraphQLString },
+    fields: {
+      type: nonNullList(FieldType),
+      description: "Own and inherited fields",
+      resolve: (tag, _args, ctx) => ctx.schema.getAllFields(tag.id),
+    },
+    extends: {
+      type: nonNullList(SupertagType),
+      resolve: (tag, _args, ctx) => (tag.extends ?? []).map((id) => loadSupertag(ctx, id)).filter((t) => t !== null),
+    },
+    nodes: {
+      type: nonNullList(NodeType),
+      args: { limit: limitArg, orderBy: { type: NodeOrder, defaultValue: "created" } },
+      resolve: async (tag, args: { limit: number; orderBy: "created" | "updated" }, ctx) =>
+        cacheNodes(ctx, await ctx.engine.findNodesByTag(tag.name, { limit: args.limit, orderBy: args.orderBy })),
+    },
+  }),
+});
+
+const FieldType: GraphQLObjectType<UnifiedField, GraphQLContext> = new GraphQLObjectType<UnifiedField, GraphQLContext>({
+  name: "Field",
+  description: "Field definition of a supertag",
+  fields: () => ({
+    attributeId: { type: new GraphQLNonNull(GraphQLID) },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    dataType: { type: GraphQLString },
+    order: { type: new GraphQLNonNull(GraphQLInt) },
+    supertag: {
+      type: SupertagType,
+      description: "Supertag defining the field",
+      resolve: (field, _args, ctx) => loadSupertag(ctx, field.tagId),
+    },
+    targetSupertag: {
+      type: SupertagType,
+      description: "Supertag of the field's values (reference fields)",
+      resolve: (field, _args, ctx) =>
+        field.targetSupertagId ? loadSupertag(ctx, field.targetSupertagId, field.targetSupertagName ?? undefined) : null,
+    },
+  }),
+});
+
+const FieldValueType: GraphQLObjectType<FieldValueRow, GraphQLContext> = new GraphQLObjectType<FieldValueRow, GraphQLContext>({
+  name: "FieldValue",
+  fields: () => ({
+    field: { type: new GraphQLNonNull(GraphQLString), resolve: (v) => v.field_name },
+    fieldId: { type: new GraphQLNonNull(GraphQLID), resolve: (v) => v.field_def_id },
+    value: { type: new GraphQLNonNull(GraphQLString), resolve: (v) => v.value_text },
+    order: { type: new GraphQLNonNull(GraphQLInt), resolve: (v) => v.value_order },
+    valueNode: {
+      type: NodeType,
+      description: "Node holding the value (the referenced node for reference fields)",
+      resolve: (v, _args, ctx) => loadNode(ctx, v.value_node_id),
+    },
+  }),
+});
+
+const ReferenceType: GraphQLObjectType<ReferenceSource, GraphQLContext> = new GraphQLObjectType<ReferenceSource, GraphQLContext>({
+  name: "Reference",
+  fields: () => ({
+    type: { type: new GraphQLNonNull(GraphQLString) },
+    fromId: { type: new GraphQLNonNull(GraphQLID) },
+    toId: { type: new GraphQLNonNull(GraphQLID) },
+    from: { type: NodeType, resolve: (r, _args, ctx) => loadNode(ctx, r.fromId) },
+    to: { type: NodeType, resolve: (r, _args, ctx) => loadNode(ctx, r.toId) },
+  }),
+});
+
+/**
+ * Values of one field on a node
+ */
+function valuesOf(ctx: GraphQLContext, node: Node, field: UnifiedField): FieldValueRow[] {
+  const rows = loadFieldValues(ctx, [node.id]).get(node.id) ?? [];
+  return rows.filter((r) => r.field_def_id === field.attributeId || r.field_name === field.name);
+}
+
+/**
+ * Property of a typed object for a supertag field
+ *
+ * Reference and options fields resolve to nodes (typed when the field
+ * targets a supertag); other fields to a scalar by data type.
+ */
+function buildProperty(
+  field: UnifiedField,
+  typedObjects: Map<string, GraphQLObjectType<Node, GraphQLContext>>
+): GraphQLFieldConfig<Node, GraphQLContext> {
+  const description = `${field.name}${field.dataType ? ` (${field.dataType})` : ""}`;
+  const target = field.targetSupertagId ? typedObjects.get(field.targetSupertagId) : undefined;
+
+  if (target || field.dataType === "reference" || field.dataType === "options") {
+    return {
+      type: nonNullList(target ?? NodeType),
+      description,
+      resolve: async (node, _args, ctx) => {
+        const nodes = await loadNodes(ctx, valuesOf(ctx, node, field).map((v) => v.value_node_id));
+        return nodes.filter((n): n is Node => n !== null);
+      },
+    };
+  }
+
+  const first = (node: Node, ctx: GraphQLContext) => valuesOf(ctx, node, field)[0]?.value_text ?? null;
+  switch (field.dataType) {
+    case "number":
+      return {
+        type: GraphQLFloat,
+        description,
+        resolve: (node, _args, ctx) => {
+          const value = parseFloat(first(node, ctx) ?? "");
+          return Number.isNaN(value) ? null : value;
+        },
+      };
+    case "checkbox":
+      return {
+        type: GraphQLBoolean,
+        description,
+        resolve: (node, _args, ctx) => {
+          const value = first(node, ctx);
+          return value === null ? null : value === "true";
+        },
+      };
+    default:
+      return {
+        type: GraphQLString,
+        description,
+        // Multi-value fields are comma-joined, as in query output
+        resolve: (node, _args, ctx) => {
+          const values = valuesOf(ctx, node, field).map((v) => v.value_text);
+          return values.length > 0 ? values.join(", ") : null;
+        },
+      };
+  }
+}
+
+/**
+ * Build the schema for a workspace
+ */
+export function buildGraphQLSchema(schema: UnifiedSchemaService): GraphQLSchema {
+  const infos = nameSupertagTypes(schema);
+  const typedObjects = new Map<string, GraphQLObjectType<Node, GraphQLContext>>();
+
+  for (const info of infos) {
+    typedObjects.set(
+      info.tag.id,
+      new GraphQLObjectType<Node, GraphQLContext>({
+        name: info.typeName,
+        description: `Node tagged #${info.tag.name}${info.tag.description ? `: ${info.tag.description}` : ""}`,
+        fields: () => {
+          const fields: GraphQLFieldConfigMap<Node, GraphQLContext> = {
+            id: { type: new GraphQLNonNull(GraphQLID) },
+            name: { type: GraphQLString },
+            ...timestampFields,
+            node: { type: new GraphQLNonNull(NodeType), description: "The generic node", resolve: (node) => node },
+            tags: { type: nonNullList(SupertagType), resolve: (node, _args, ctx) => loadTags(ctx, node) },
+          };
+          for (const { field, property } of info.properties.values()) {
+            fields[property] = buildProperty(field, typedObjects);
+          }
+          return fields;
+        },
+      })
+    );
+  }
+
+  const queryFields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {
+    node: {
+      type: NodeType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (_root, args: { id: string }, ctx) => loadNode(ctx, args.id),
+    },
+    nodes: {
+      type: nonNullList(NodeType),
+      description: "Find nodes by name and supertag",
+      args: {
+        ids: { type: new GraphQLList(new GraphQLNonNull(GraphQLID)) },
+        name: { type: GraphQLString, description: "Exact name" },
+        namePattern: { type: GraphQLString, description: "SQL LIKE pattern (e.g. %meeting%)" },
+        supertag: { type: GraphQLString },
+        limit: limitArg,
+      },
+      resolve: async (_root, args: { ids?: string[]; name?: string; namePattern?: string; supertag?: string; limit: number }, ctx) => {
+        if (args.ids) {
+          return (await loadNodes(ctx, args.ids)).filter((n): n is Node => n !== null);
+        }
+        const { ids: _ids, ...query } = args;
+        return cacheNodes(ctx, await ctx.engine.findNodes(query));
+      },
+    },
+    search: {
+      type: nonNullList(NodeType),
+      description: "Full-text search on node names",
+      args: { query: { type: new GraphQLNonNull(GraphQLString) }, limit: limitArg },
+      resolve: async (_root, args: { query: string; limit: number }, ctx) =>
+        cacheNodes(ctx, await ctx.engine.searchNodes(args.query, { limit: args.limit })),
+    },
+    supertag: {
+      type: SupertagType,
+      args: { name: { type: GraphQLString }, id: { type: GraphQLID } },
+      resolve: (_root, args: { name?: string; id?: string }, ctx) => {
+        if (args.id) return loadSupertag(ctx, args.id);
+        if (args.name) return ctx.schema.getSupertag(args.name);
+        throw new GraphQLError("supertag needs a name or id");
+      },
+    },
+    supertags: {
+      type: nonNullList(SupertagType),
+      resolve: (_root, _args, ctx) => ctx.schema.listSupertags(),
+    },
+  };
+
+  for (const info of infos) {
+    const typed = typedObjects.get(info.tag.id)!;
+    queryFields[info.queryField] = {
+      type: nonNullList(typed),
+      description: `Nodes tagged #${info.tag.name}`,
+      args: {
+        limit: limitArg,
+        orderBy: { type: NodeOrder, defaultValue: "created" },
+        nameContains: { type: GraphQLString },
+      },
+      resolve: async (_root, args: { limit: number; orderBy: "created" | "updated"; nameContains?: string }, ctx) => {
+        const nodes = cacheNodes(ctx, await ctx.engine.findNodesByTag(info.tag.name, args));
+        loadFieldValues(ctx, nodes.map((n) => n.id));
+        return nodes;
+      },
+    };
+  }
+
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({ name: "Query", fields: queryFields }),
+  });
+}
+
+/**
+ * Run a request: 400 for malformed or invalid documents, 200 otherwise
+ * (resolver errors are reported in `errors` next to partial `data`)
+ */
+export async function executeGraphQL(
+  schema: GraphQLSchema,
+  ctx: GraphQLContext,
+  request: GraphQLRequest
+): Promise<GraphQLResponse> {
+  if (!request.query) {
+    return { status: 400, body: { errors: [{ message: "Missing query" }] } };
+  }
+
+  let document;
+  try {
+    document = parse(request.query);
+  } catch (error) {
+    return { status: 400, body: { errors: [error as GraphQLError] } };
+  }
+
+  const errors = validate(schema, document);
+  if (errors.length > 0) {
+    return { status: 400, body: { errors } };
+  }
+
+  const result = await execute({
+    schema,
+    document,
+    contextValue: ctx,
+    variableValues: request.variables ?? undefined,
+    operationName: request.operationName ?? undefined,
+  });
+  return { status: 200, body: result };
+}
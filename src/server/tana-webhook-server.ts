@@ -5,20 +5,48 @@
  * Returns results in Tana Paste format for seamless insertion into Tana
  */
 
-import Fastify, { FastifyInstance } from "fastify";
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import cors from "@fastify/cors";
+import type { z } from "zod";
 import { TanaQueryEngine, type SearchResult } from "../query/tana-query-engine";
 import { TanaPasteConverter } from "../converters/tana-paste";
 import { semanticSearch, type SemanticSearchResult, type SemanticSearchResultItem } from "../mcp/tools/semantic-search";
+import { hybridSearchTool, type HybridSearchToolResult, type HybridSearchResultItem } from "../mcp/tools/hybrid-search";
 import { getNodeContents, getNodeContentsWithDepth, formatNodeOutput, type NodeContents } from "../commands/show";
 import { SchemaRegistry } from "../schema/registry";
-import type { SemanticSearchInput } from "../mcp/schemas";
+import {
+  querySchema,
+  createSchema,
+  updateNodeSchema,
+  setFieldSchema,
+  setFieldOptionSchema,
+  type SemanticSearchInput,
+} from "../mcp/schemas";
+import { create } from "../mcp/tools/create";
+import { resolveBackend } from "../api/backend-resolver";
+import type { TanaBackend } from "../api/backend";
+import { convertInputToAST } from "../mcp/tools/query";
+import { UnifiedQueryEngine } from "../query/unified-query-engine";
+import { prepareSearchBackends } from "../query/search-backends";
+import type { RerankStrategy } from "../types";
+import { RERANK_STRATEGIES } from "../embeddings/rerank";
 import { Database } from "bun:sqlite";
 import { ConfigManager } from "../config/manager";
 import { TanaEmbeddingService } from "../embeddings/tana-embedding-service";
 import { withDbRetrySync } from "../db/retry";
 import { VERSION } from "../version";
 import { existsSync } from "node:fs";
+import { ApiKeyStore, canAccessWorkspace, hasScope, type ApiKey, type ApiKeyScope } from "./api-keys";
+import { AuditLog } from "./audit-log";
+import {
+  buildGraphQLSchema,
+  createGraphQLContext,
+  executeGraphQL,
+  type GraphQLRequest,
+} from "./graphql";
+import type { GraphQLSchema } from "graphql";
+import { UnifiedSchemaService } from "../services/unified-schema-service";
+import { ChangeStream, parseChangeTypes } from "./change-stream";
 
 export interface WorkspaceInfo {
   alias: string;
@@ -32,6 +60,38 @@ export interface WebhookServerConfig {
   workspaces: Map<string, string>;
   /** Default workspace to use if none specified */
   defaultWorkspace?: string;
+  /** API keys; requests need a bearer token once the store has an active key */
+  apiKeys?: ApiKeyStore;
+  /** Audit log receiving one entry per request */
+  auditLog?: AuditLog;
+  /** How often GET /events checks for index changes (default: 1000ms) */
+  eventPollIntervalMs?: number;
+}
+
+/**
+ * Per-route auth settings (Fastify route `config`)
+ */
+export interface RouteAuthConfig {
+  /** Scope a key needs for the route (default: read) */
+  scope?: ApiKeyScope;
+}
+
+/** Routes answered without a key (monitoring) */
+const PUBLIC_ROUTES = new Set(["/health"]);
+
+/** Keep-alive comment interval for event streams */
+const EVENT_HEARTBEAT_MS = 15_000;
+
+/** Routes that don't read workspace data */
+const WORKSPACE_FREE_ROUTES = new Set(["/health", "/help", "/workspaces"]);
+
+/**
+ * Authentication outcome of a request, for the audit log
+ */
+interface RequestAuth {
+  key?: ApiKey;
+  workspace?: string;
+  denied?: string;
 }
 
 /**
@@ -49,6 +109,12 @@ export class TanaWebhookServer {
     defaultWorkspace: string;
   };
   private running: boolean = false;
+  private apiKeys?: ApiKeyStore;
+  private auditLog?: AuditLog;
+  private requestAuth = new WeakMap<FastifyRequest, RequestAuth>();
+  /** GraphQL schema per workspace, with the database version it was built at */
+  private graphqlSchemas = new Map<string, { version: number; schema: GraphQLSchema }>();
+  private changeStream: ChangeStream;
 
   constructor(config: WebhookServerConfig) {
     // Get default workspace (first one if not specified)
@@ -66,6 +132,8 @@ export class TanaWebhookServer {
 
     this.fastify = Fastify({ logger: false });
     this.converter = new TanaPasteConverter();
+    this.apiKeys = config.apiKeys;
+    this.auditLog = config.auditLog;
 
     // Initialize query engines for all workspaces
     this.queryEngines = new Map();
@@ -73,7 +141,12 @@ export class TanaWebhookServer {
       this.queryEngines.set(alias, new TanaQueryEngine(dbPath));
     }
 
+    this.changeStream = new ChangeStream((alias) => this.getQueryEngine(alias).engine.rawDb, {
+      pollIntervalMs: config.eventPollIntervalMs,
+    });
+
     this.setupCors();
+    this.setupAuth();
     this.setupRoutes();
   }
 
@@ -96,6 +169,32 @@ export class TanaWebhookServer {
     return { engine, alias, dbPath };
   }
 
+  /**
+   * Backend for the write endpoints (the workspace must be one the server serves)
+   */
+  private async getMutationBackend(workspace?: string): Promise<TanaBackend> {
+    const { alias } = this.getQueryEngine(workspace);
+    const backend = await resolveBackend({ workspace: alias });
+    if (!backend.supportsMutations()) {
+      throw new Error("Changing nodes requires the local API backend. Configure with: supertag config --bearer-token <token>");
+    }
+    return backend;
+  }
+
+  /**
+   * GraphQL schema of a workspace, rebuilt after the index changes
+   * (PRAGMA data_version changes when another connection commits, e.g. a reindex)
+   */
+  private getGraphQLSchema(alias: string, engine: TanaQueryEngine): GraphQLSchema {
+    const { data_version: version } = engine.rawDb.query("PRAGMA data_version").get() as { data_version: number };
+    const cached = this.graphqlSchemas.get(alias);
+    if (cached?.version === version) return cached.schema;
+
+    const schema = buildGraphQLSchema(new UnifiedSchemaService(engine.rawDb));
+    this.graphqlSchemas.set(alias, { version, schema });
+    return schema;
+  }
+
   /**
    * Get list of available workspaces
    */
@@ -110,11 +209,98 @@ export class TanaWebhookServer {
     this.fastify.register(cors, {
       origin: true, // Allow all origins (Tana uses browser context)
       methods: ["GET", "POST", "OPTIONS"],
-      allowedHeaders: ["Content-Type"],
+      allowedHeaders: ["Content-Type", "Authorization"],
       credentials: false,
     });
   }
 
+  /**
+   * Whether requests must carry an API key
+   */
+  isAuthRequired(): boolean {
+    return this.apiKeys?.hasActiveKeys() ?? false;
+  }
+
+  /**
+   * Setup bearer-token authentication, scope/workspace checks and audit logging
+   *
+   * - onRequest: resolve the key and check the route's scope (401/403)
+   * - preHandler: resolve the target workspace once the body is parsed and check it (400/403)
+   * - onResponse: record the request in the audit log
+   */
+  private setupAuth(): void {
+    this.fastify.addHook("onRequest", async (request, reply) => {
+      const auth: RequestAuth = {};
+      this.requestAuth.set(request, auth);
+      if (request.method === "OPTIONS" || PUBLIC_ROUTES.has(request.routeOptions.url ?? "")) return;
+      if (!this.isAuthRequired()) return;
+
+      const match = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization ?? "");
+      const key = match ? this.apiKeys!.authenticate(match[1]) : null;
+      if (!key) {
+        auth.denied = match ? "invalid or revoked key" : "missing key";
+        reply.status(401).header("WWW-Authenticate", 'Bearer realm="supertag"');
+        return reply.send({ error: `Unauthorized: ${auth.denied}. Send "Authorization: Bearer <key>"` });
+      }
+      auth.key = key;
+
+      const required = (request.routeOptions.config as RouteAuthConfig | undefined)?.scope ?? "read";
+      if (!hasScope(key, required)) {
+        auth.denied = `scope ${required} required`;
+        reply.status(403);
+        return reply.send({ error: `Forbidden: key "${key.name}" has scope ${key.scope}, ${required} required` });
+      }
+    });
+
+    this.fastify.addHook("preHandler", async (request, reply) => {
+      const auth = this.requestAuth.get(request);
+      if (!auth || WORKSPACE_FREE_ROUTES.has(request.routeOptions.url ?? "")) return;
+      const fromQuery = (request.query as { workspace?: string } | undefined)?.workspace;
+      const body = request.body as { workspace?: string } | null | undefined;
+      const fromBody = body && typeof body === "object" ? body.workspace : undefined;
+      // Same source as the handlers: POST routes read the body, all others the query string
+      const used = request.method === "POST" ? fromBody : fromQuery;
+      const ignored = request.method === "POST" ? fromQuery : fromBody;
+      if (ignored && ignored !== used) {
+        auth.denied = "conflicting workspaces";
+        reply.status(400);
+        return reply.send({
+          error: `Conflicting workspaces: '${fromQuery ?? ""}' in the query string, '${fromBody ?? ""}' in the body`,
+        });
+      }
+      auth.workspace = used || this.config.defaultWorkspace;
+
+      if (auth.key && !canAccessWorkspace(auth.key, auth.workspace)) {
+        auth.denied = `workspace ${auth.workspace} not allowed`;
+        reply.status(403);
+        return reply.send({ error: `Forbidden: key "${auth.key.name}" has no access to workspace '${auth.workspace}'` });
+      }
+    });
+
+    this.fastify.addHook("onResponse", async (request, reply) => {
+      this.recordAudit(request, reply.statusCode, reply.elapsedTime);
+    });
+  }
+
+  /**
+   * Write a request to the audit log (streams hijack the reply and call this on close)
+   */
+  private recordAudit(request: FastifyRequest, status: number, elapsedMs: number): void {
+    if (!this.auditLog) return;
+    const auth = this.requestAuth.get(request) ?? {};
+    this.auditLog.record({
+      timestamp: new Date().toISOString(),
+      method: request.method,
+      path: request.url.split("?")[0],
+      ...(auth.workspace && { workspace: auth.workspace }),
+      status,
+      durationMs: Math.round(elapsedMs),
+      ip: request.ip,
+      ...(auth.key && { keyId: auth.key.id, keyName: auth.key.name }),
+      ...(auth.denied && { denied: auth.denied }),
+    });
+  }
+
   /**
    * Setup HTTP routes
    */
@@ -158,11 +344,11 @@ export class TanaWebhookServer {
         {
           method: "POST",
           path: "/search",
-          description: "Unified search endpoint supporting full-text, semantic, and tagged search",
-          payload: '{"query": string (required), "type": "fts"|"semantic"|"tagged" (optional, default: "fts"), "tag": string (required if type=tagged), "workspace": string (optional), "limit": number (optional, default: 10), "format": "tana"|"json" (optional)}',
+          description: "Unified search endpoint supporting full-text, semantic, hybrid, and tagged search",
+          payload: '{"query": string (required), "type": "fts"|"semantic"|"hybrid"|"tagged" (optional, default: "fts"), "tag": string (required if type=tagged), "ftsWeight": number (optional, type=hybrid), "semanticWeight": number (optional, type=hybrid), "rerank": "none"|"heuristic"|"cross-encoder" (optional, type=semantic), "rerankCandidates": number (optional, type=semantic), "workspace": string (optional), "limit": number (optional, default: 10), "format": "tana"|"json" (optional)}',
           response: "Tana Paste format (or JSON) with search results",
           example: 'POST http://localhost:3000/search\nBody: {"query": "meeting notes", "type": "semantic", "limit": 5}',
-          notes: "type=semantic requires embeddings to be generated first",
+          notes: "type=semantic and type=hybrid require embeddings to be generated first. type=hybrid merges FTS and semantic ranks with reciprocal-rank fusion. rerank re-scores the top semantic hits (default from embed config)",
         },
 
         // Stats (unified endpoint)
@@ -234,6 +420,67 @@ export class TanaWebhookServer {
           response: "Tana Paste format (or JSON) with tag schema",
           example: "GET http://localhost:3000/tags/todo?format=json",
         },
+        {
+          method: "GET",
+          path: "/events",
+          description: "Server-Sent Events stream of created, updated and deleted nodes (from reindex and delta-sync)",
+          payload: "Query params: workspace, tag (comma-separated, any match), type (created,updated,deleted), since (seq to resume after)",
+          response: 'text/event-stream: "id: <seq>", "event: <type>", "data: {seq, type, nodeId, name, tags, source, changedAt, workspace}"',
+          example: "GET http://localhost:3000/events?tag=meeting,person&type=created,updated",
+          notes: "Reconnecting clients resume via the Last-Event-ID header. A comment line is sent every 15s to keep the connection open.",
+        },
+        {
+          method: "POST",
+          path: "/graphql",
+          description: "GraphQL query over the index: Node, Supertag, Field, FieldValue, Reference, and a typed object per supertag",
+          payload: '{"query": string, "variables": object (optional), "operationName": string (optional), "workspace": string (optional)}',
+          response: 'JSON: {"data": {...}, "errors": [...]}',
+          example: 'POST http://localhost:3000/graphql\n{"query": "{ person(limit: 5) { name email } }"}',
+          notes: "Also available as GET /graphql?query=... Introspect the schema for the typed objects of your supertags.",
+        },
+        {
+          method: "POST",
+          path: "/query",
+          description: "Structured query (same input as the tana_query MCP tool): nodes by supertag and field conditions",
+          payload: '{"find": string, "where": {<field>: value | {eq, neq, contains, after, before, gt, gte, lt, lte, exists}} (optional), "select": [string] (optional), "orderBy": string (optional), "limit": number (optional), "offset": number (optional), "workspace": string (optional)}',
+          response: 'JSON: {"workspace": <alias>, "results": [{"id", "name", "created", "updated", ...}], "count": <number>, "hasMore": <boolean>}',
+          example: 'POST http://localhost:3000/query\n{"find": "task", "where": {"Status": "Done"}, "orderBy": "-created", "limit": 20}',
+          notes: "Used by the clients generated with: supertag codegen generate --client",
+        },
+
+        // Write endpoints (API keys need write scope)
+        {
+          method: "POST",
+          path: "/nodes/create",
+          description: "Create a node with supertag(s) and fields (same input as the tana_create MCP tool)",
+          payload: '{"supertag": string, "name": string, "fields": object (optional), "children": array (optional), "target": string (optional), "dryRun": boolean (optional), "workspace": string (optional)}',
+          response: 'JSON: {"workspace", "supertag", "name", "target", "nodeId", ...}',
+          example: 'POST http://localhost:3000/nodes/create\n{"supertag": "todo", "name": "Call Anna", "fields": {"Status": "Open"}}',
+        },
+        {
+          method: "POST",
+          path: "/nodes/:id/update",
+          description: "Update a node's name and/or description (local API)",
+          payload: '{"name": string (optional), "description": string (optional), "workspace": string (optional)}',
+          response: 'JSON: {"nodeId", "name", "description", "message"}',
+          example: 'POST http://localhost:3000/nodes/abc123/update\n{"name": "Call Anna today"}',
+        },
+        {
+          method: "POST",
+          path: "/nodes/:id/fields",
+          description: "Set a field value: text via content, option fields via optionId (local API)",
+          payload: '{"attributeId": string, "content": string | "optionId": string, "workspace": string (optional)}',
+          response: 'JSON: {"nodeId", "attributeId", "content", "message"} or {"nodeId", "attributeId", "optionId", "optionName", "message"}',
+          example: 'POST http://localhost:3000/nodes/abc123/fields\n{"attributeId": "attr456", "content": "Done"}',
+        },
+        {
+          method: "POST",
+          path: "/nodes/:id/trash",
+          description: "Move a node to trash (local API)",
+          payload: '{"workspace": string (optional)}',
+          response: 'JSON: {"nodeId", "nodeName", "trashNodeId", "message"}',
+          example: "POST http://localhost:3000/nodes/abc123/trash",
+        },
 
         // Legacy endpoints (deprecated, use new unified endpoints above)
         {
@@ -296,7 +543,9 @@ export class TanaWebhookServer {
           },
           endpoints,
           usage: {
-            authentication: "None required",
+            authentication: this.isAuthRequired()
+              ? "Bearer API key: Authorization: Bearer <key> (create with: supertag server keys create)"
+              : "None required (no API keys configured)",
             cors: "Enabled for all origins",
             workspaceParam: `All endpoints accept an optional 'workspace' parameter. Default: '${defaultWs}'`,
             responseFormat: "Most endpoints return Tana Paste format (text/plain) for seamless insertion into Tana. Use format=json query param or request body field where supported for JSON responses.",
@@ -334,7 +583,9 @@ export class TanaWebhookServer {
       }
 
       lines.push("  - ## Usage");
-      lines.push("    - Authentication:: None required");
+      lines.push(this.isAuthRequired()
+        ? "    - Authentication:: Bearer API key (Authorization: Bearer <key>)"
+        : "    - Authentication:: None required (no API keys configured)");
       lines.push("    - CORS:: Enabled for all origins");
       lines.push("    - Response Format:: Most endpoints return Tana Paste format (text/plain) for seamless insertion into Tana. Use format=json query param or request body field where supported for JSON responses.");
 
@@ -353,21 +604,26 @@ export class TanaWebhookServer {
 
     // Workspaces endpoint
     this.fastify.get("/workspaces", async (request, reply) => {
+      const key = this.requestAuth.get(request)?.key;
       return {
-        workspaces: this.getWorkspaces(),
+        workspaces: this.getWorkspaces().filter((alias) => !key || canAccessWorkspace(key, alias)),
         default: this.config.defaultWorkspace,
       };
     });
 
     // Unified Search endpoint (T-4.1 - CLI Harmonization)
-    // Supports type: 'fts' (default), 'semantic', or 'tagged'
+    // Supports type: 'fts' (default), 'semantic', 'hybrid', or 'tagged'
     this.fastify.post<{
       Body: {
         query: string;
         workspace?: string;
         limit?: number;
-        type?: 'fts' | 'semantic' | 'tagged';
+        type?: 'fts' | 'semantic' | 'hybrid' | 'tagged';
         tag?: string;
+        ftsWeight?: number;
+        semanticWeight?: number;
+        rerank?: RerankStrategy;
+        rerankCandidates?: number;
         format?: 'tana' | 'json';
         includeContents?: boolean;
         includeAncestor?: boolean;
@@ -379,6 +635,10 @@ export class TanaWebhookServer {
         limit = 10,
         type = 'fts',
         tag,
+        ftsWeight,
+        semanticWeight,
+        rerank,
+        rerankCandidates,
         format = 'tana',
         includeContents = false,
         includeAncestor = true,
@@ -389,6 +649,11 @@ export class TanaWebhookServer {
         return { error: "Query parameter required" };
       }
 
+      if (rerank !== undefined && !RERANK_STRATEGIES.includes(rerank)) {
+        reply.status(400);
+        return { error: `rerank must be one of: ${RERANK_STRATEGIES.join(", ")}` };
+      }
+
       try {
         const { engine, alias, dbPath } = this.getQueryEngine(workspace);
 
@@ -403,6 +668,8 @@ export class TanaWebhookServer {
             includeAncestor,
             raw: false,
             depth: 0,
+            rerank,
+            rerankCandidates,
           });
 
           if (format === 'json') {
@@ -414,6 +681,27 @@ export class TanaWebhookServer {
           return tana;
         }
 
+        if (type === 'hybrid') {
+          // FTS + semantic fused with reciprocal-rank fusion
+          const results = await hybridSearchTool({
+            query,
+            workspace: alias,
+            limit,
+            includeContents,
+            includeAncestor,
+            ftsWeight,
+            semanticWeight,
+          });
+
+          if (format === 'json') {
+            return results;
+          }
+
+          const tana = this.convertHybridResultsToTana(results);
+          reply.header("Content-Type", "text/plain");
+          return tana;
+        }
+
         if (type === 'tagged') {
           // Search by tag
           if (!tag) {
@@ -513,12 +801,9 @@ export class TanaWebhookServer {
           const lanceDbPath = dbPath.replace(/\.db$/, ".lance");
           if (existsSync(lanceDbPath)) {
             const configManager = ConfigManager.getInstance();
-            const embeddingConfig = configManager.getEmbeddingConfig();
+            const embeddingConfig = configManager.getEmbeddingConfig(alias);
 
-            const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-              model: embeddingConfig.model,
-              endpoint: embeddingConfig.endpoint,
-            });
+            const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
             try {
               const embedStats = await embeddingService.getStats();
@@ -1110,6 +1395,11 @@ export class TanaWebhookServer {
         return { error: "query parameter required" };
       }
 
+      if (searchInput.rerank !== undefined && !RERANK_STRATEGIES.includes(searchInput.rerank)) {
+        reply.status(400);
+        return { error: `rerank must be one of: ${RERANK_STRATEGIES.join(", ")}` };
+      }
+
       try {
         const results = await semanticSearch(searchInput);
 
@@ -1167,7 +1457,7 @@ export class TanaWebhookServer {
 
         // Get embedding config from ConfigManager
         const configManager = ConfigManager.getInstance();
-        const embeddingConfig = configManager.getEmbeddingConfig();
+        const embeddingConfig = configManager.getEmbeddingConfig(alias);
 
         // Check if LanceDB directory exists
         const lanceDbPath = dbPath.replace(/\.db$/, ".lance");
@@ -1193,10 +1483,7 @@ export class TanaWebhookServer {
         }
 
         // Get stats from TanaEmbeddingService
-        const embeddingService = new TanaEmbeddingService(lanceDbPath, {
-          model: embeddingConfig.model,
-          endpoint: embeddingConfig.endpoint,
-        });
+        const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
 
         try {
           const stats = await embeddingService.getStats();
@@ -1252,6 +1539,193 @@ export class TanaWebhookServer {
         return { error: (error as Error).message };
       }
     });
+
+    // Event stream of index changes (Server-Sent Events)
+    this.fastify.get<{
+      Querystring: { workspace?: string; tag?: string; type?: string; since?: string };
+    }>("/events", async (request, reply) => {
+      const { workspace, tag, type, since } = request.query;
+      let alias: string;
+      let types: ReturnType<typeof parseChangeTypes>;
+      try {
+        alias = this.getQueryEngine(workspace).alias;
+        types = parseChangeTypes(type);
+      } catch (error) {
+        reply.status(400);
+        return { error: (error as Error).message };
+      }
+
+      const lastEventId = request.headers["last-event-id"];
+      const resumeFrom = parseInt(String(lastEventId ?? since ?? ""), 10);
+      const tags = tag?.split(",").map((t) => t.trim()).filter(Boolean);
+
+      reply.hijack();
+      const res = reply.raw;
+      res.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write("retry: 3000\n\n");
+
+      const unsubscribe = this.changeStream.subscribe(
+        alias,
+        { tags, types },
+        {
+          send: (change) => {
+            const { change: changeType, ...rest } = change;
+            const data = JSON.stringify({ ...rest, type: changeType, workspace: alias });
+            res.write(`id: ${change.seq}\nevent: ${changeType}\ndata: ${data}\n\n`);
+          },
+          end: () => res.end(),
+        },
+        Number.isNaN(resumeFrom) ? undefined : resumeFrom
+      );
+      const heartbeat = setInterval(() => res.write(": ping\n\n"), EVENT_HEARTBEAT_MS);
+      res.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        // onResponse only fires when the stream ends on our side (finish)
+        if (!res.writableFinished) this.recordAudit(request, 200, reply.elapsedTime);
+      });
+    });
+
+    // POST /query - Structured query, JSON only
+    this.fastify.post<{
+      Body: unknown;
+    }>("/query", async (request, reply) => {
+      const parsed = querySchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        reply.status(400);
+        return { error: parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") };
+      }
+
+      try {
+        const { engine, alias, dbPath } = this.getQueryEngine(parsed.data.workspace);
+        const ast = convertInputToAST(parsed.data);
+        const backends = await prepareSearchBackends(ast, dbPath, alias);
+        try {
+          const queryEngine = new UnifiedQueryEngine(engine.rawDb, backends.engineOptions);
+          if (parsed.data.explain) {
+            return { workspace: alias, explain: await queryEngine.explain(ast) };
+          }
+          return { workspace: alias, ...(await queryEngine.execute(ast)) };
+        } finally {
+          backends.close();
+        }
+      } catch (error) {
+        reply.status(400);
+        return { error: (error as Error).message };
+      }
+    });
+
+    // Write endpoints - change data through the Tana API, need a key with write scope
+    const writeRoute = { config: { scope: "write" } satisfies RouteAuthConfig };
+    const invalid = (reply: FastifyReply, error: z.ZodError) => {
+      reply.status(400);
+      return { error: error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") };
+    };
+
+    // POST /nodes/create - Create a node with supertag and fields
+    this.fastify.post<{
+      Body: unknown;
+    }>("/nodes/create", writeRoute, async (request, reply) => {
+      const parsed = createSchema.safeParse(request.body ?? {});
+      if (!parsed.success) return invalid(reply, parsed.error);
+
+      try {
+        this.getQueryEngine(parsed.data.workspace);
+        return await create(parsed.data);
+      } catch (error) {
+        reply.status(400);
+        return { error: (error as Error).message };
+      }
+    });
+
+    // POST /nodes/:id/update - Update name and/or description
+    this.fastify.post<{
+      Params: { id: string };
+      Body: { workspace?: string; name?: string; description?: string } | null;
+    }>("/nodes/:id/update", writeRoute, async (request, reply) => {
+      const parsed = updateNodeSchema.safeParse({ ...request.body, nodeId: request.params.id });
+      if (!parsed.success) return invalid(reply, parsed.error);
+      const { nodeId, ...update } = parsed.data;
+
+      try {
+        const backend = await this.getMutationBackend(request.body?.workspace);
+        return await backend.updateNode(nodeId, update);
+      } catch (error) {
+        reply.status(400);
+        return { error: (error as Error).message };
+      }
+    });
+
+    // POST /nodes/:id/fields - Set a field's text (content) or option (optionId)
+    this.fastify.post<{
+      Params: { id: string };
+      Body: { workspace?: string; attributeId?: string; content?: string; optionId?: string } | null;
+    }>("/nodes/:id/fields", writeRoute, async (request, reply) => {
+      const input = { ...request.body, nodeId: request.params.id };
+      const parsed = input.optionId !== undefined
+        ? setFieldOptionSchema.safeParse(input)
+        : setFieldSchema.safeParse(input);
+      if (!parsed.success) return invalid(reply, parsed.error);
+
+      try {
+        const backend = await this.getMutationBackend(request.body?.workspace);
+        const { data } = parsed;
+        return "optionId" in data
+          ? await backend.setFieldOption(data.nodeId, data.attributeId, data.optionId)
+          : await backend.setFieldContent(data.nodeId, data.attributeId, data.content);
+      } catch (error) {
+        reply.status(400);
+        return { error: (error as Error).message };
+      }
+    });
+
+    // POST /nodes/:id/trash - Move a node to trash
+    this.fastify.post<{
+      Params: { id: string };
+      Body: { workspace?: string } | null;
+    }>("/nodes/:id/trash", writeRoute, async (request, reply) => {
+      try {
+        const backend = await this.getMutationBackend(request.body?.workspace);
+        return await backend.trashNode(request.params.id);
+      } catch (error) {
+        reply.status(400);
+        return { error: (error as Error).message };
+      }
+    });
+
+    // GraphQL endpoint (POST body or GET query params; queries only)
+    const handleGraphQL = async (request: GraphQLRequest & { workspace?: string }, reply: FastifyReply) => {
+      try {
+        const { engine, alias } = this.getQueryEngine(request.workspace);
+        const result = await executeGraphQL(this.getGraphQLSchema(alias, engine), createGraphQLContext(engine), request);
+        reply.status(result.status);
+        return result.body;
+      } catch (error) {
+        reply.status(400);
+        return { errors: [{ message: (error as Error).message }] };
+      }
+    };
+
+    this.fastify.post<{
+      Body: GraphQLRequest & { workspace?: string };
+    }>("/graphql", async (request, reply) => handleGraphQL(request.body || {}, reply));
+
+    this.fastify.get<{
+      Querystring: { query?: string; variables?: string; operationName?: string; workspace?: string };
+    }>("/graphql", async (request, reply) => {
+      const { variables, ...rest } = request.query;
+      try {
+        return handleGraphQL({ ...rest, variables: variables ? JSON.parse(variables) : undefined }, reply);
+      } catch {
+        reply.status(400);
+        return { errors: [{ message: "variables must be a JSON object" }] };
+      }
+    });
   }
 
   /**
@@ -1301,6 +1775,44 @@ export class TanaWebhookServer {
     return [header, ...rows].join("\n");
   }
 
+  /**
+   * Convert hybrid search results to Tana Paste format
+   * Same table layout as semantic results, with the fused score and per-retriever ranks
+   */
+  private convertHybridResultsToTana(results: HybridSearchToolResult): string {
+    const header = `- Hybrid Search Results %%view:table%%`;
+
+    const rows = (results.results as unknown as HybridSearchResultItem[]).map((item) => {
+      const name = item.name || "(unnamed)";
+
+      let nodeRef: string;
+      if (name.includes("[[") && name.includes("]]")) {
+        const match = name.match(/\[\[.+?\]\]/);
+        nodeRef = match ? match[0] : name.trim();
+      } else {
+        nodeRef = `[[${name}^${item.id}]]`;
+      }
+
+      let row = `  - ${nodeRef}`;
+
+      if (item.ancestor) {
+        row += `\n    - Ancestor:: [[${item.ancestor.name}^${item.ancestor.id}]]`;
+      }
+
+      row += `\n    - Score:: ${item.score.toFixed(4)}`;
+      if (item.ftsRank !== undefined) {
+        row += `\n    - FTS Rank:: ${item.ftsRank}`;
+      }
+      if (item.semanticRank !== undefined) {
+        row += `\n    - Semantic Rank:: ${item.semanticRank}`;
+      }
+
+      return row;
+    });
+
+    return [header, ...rows].join("\n");
+  }
+
   /**
    * Convert FTS search results to Tana Paste format
    * Matches semantic search output format with [[Name^nodeId]] references
@@ -1355,6 +1867,8 @@ export class TanaWebhookServer {
    * Stop the server
    */
   async stop(): Promise<void> {
+    // Open event streams would keep the server from closing
+    this.changeStream.close();
     await this.fastify.close();
     // Close all query engines
     for (const engine of this.queryEngines.values()) {
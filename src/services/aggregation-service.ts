@@ -13,8 +13,45 @@ import type {
   TimePeriod,
   WhereClause,
   WhereGroup,
+  WhereCondition,
 } from "../query/types";
-import { isTimePeriod, isGroupByField, isGroupByTime, isWhereGroup } from "../query/types";
+import {
+  isTimePeriod,
+  isGroupByField,
+  isGroupByTime,
+  isWhereGroup,
+  isRelationshipClause,
+  isSearchClause,
+} from "../query/types";
+import { buildRelationshipCondition } from "../query/relationship-sql";
+import { buildSearchCondition } from "../query/search-sql";
+
+/**
+ * Generate SQLite strftime expression for time-based grouping
+ *
+ * @param period - Time period (day, week, month, quarter, year)
+ * @param field - Date column to use (e.g., "created", "n.created")
+ * @returns SQL expression for GROUP BY
+ */
+export function timePeriodExpression(period: TimePeriod, field: string): string {
+  // SQLite timestamps are in milliseconds, divide by 1000 for unixepoch
+  const baseExpr = `${field}/1000, 'unixepoch'`;
+
+  switch (period) {
+    case "day":
+      return `strftime('%Y-%m-%d', ${baseExpr})`;
+    case "week":
+      // ISO week format: YYYY-WNN
+      return `strftime('%Y-W%W', ${baseExpr})`;
+    case "month":
+      return `strftime('%Y-%m', ${baseExpr})`;
+    case "quarter":
+      // Quarter requires calculation: (month-1)/3 + 1 gives Q1-Q4
+      return `strftime('%Y', ${baseExpr}) || '-Q' || ((CAST(strftime('%m', ${baseExpr}) AS INTEGER) - 1) / 3 + 1)`;
+    case "year":
+      return `strftime('%Y', ${baseExpr})`;
+  }
+}
 
 /**
  * Service for executing aggregation queries on Tana nodes.
@@ -109,23 +146,7 @@ export class AggregationService {
     period: TimePeriod,
     field: string = "created"
   ): string {
-    // SQLite timestamps are in milliseconds, divide by 1000 for unixepoch
-    const baseExpr = `${field}/1000, 'unixepoch'`;
-
-    switch (period) {
-      case "day":
-        return `strftime('%Y-%m-%d', ${baseExpr})`;
-      case "week":
-        // ISO week format: YYYY-WNN
-        return `strftime('%Y-W%W', ${baseExpr})`;
-      case "month":
-        return `strftime('%Y-%m', ${baseExpr})`;
-      case "quarter":
-        // Quarter requires calculation: (month-1)/3 + 1 gives Q1-Q4
-        return `strftime('%Y', ${baseExpr}) || '-Q' || ((CAST(strftime('%m', ${baseExpr}) AS INTEGER) - 1) / 3 + 1)`;
-      case "year":
-        return `strftime('%Y', ${baseExpr})`;
-    }
+    return timePeriodExpression(period, field);
   }
 
   /**
@@ -412,7 +433,7 @@ export class AggregationService {
    * @returns Object with SQL conditions, params, and any required joins
    */
   private buildWhereConditions(
-    where: (WhereClause | WhereGroup)[],
+    where: (WhereCondition | WhereGroup)[],
     startIndex: number = 10
   ): { conditions: string[]; params: SQLQueryBindings[]; joins: string[] } {
     const conditions: string[] = [];
@@ -459,7 +480,7 @@ export class AggregationService {
     let joinIndex = startIndex;
 
     for (const clause of group.clauses) {
-      const result = this.buildSingleWhereCondition(clause as WhereClause, joinIndex);
+      const result = this.buildSingleWhereCondition(clause as WhereCondition, joinIndex);
       if (result.sql) {
         parts.push(result.sql);
         params.push(...result.params);
@@ -511,9 +532,22 @@ export class AggregationService {
    * Build SQL for a single WHERE condition
    */
   private buildSingleWhereCondition(
-    clause: WhereClause,
+    clause: WhereCondition,
     index: number
   ): { sql: string; params: SQLQueryBindings[]; join?: string } {
+    // Relationship predicates (references, child of, ...) share the query engine's SQL
+    if (isRelationshipClause(clause)) {
+      return buildRelationshipCondition(clause);
+    }
+
+    // Full-text predicates work directly; semantic ones need a vector search first
+    if (isSearchClause(clause)) {
+      if (clause.search === "similar") {
+        throw new Error("'similar to' is not supported in aggregate queries; use 'supertag query ... group by' instead");
+      }
+      return buildSearchCondition(clause);
+    }
+
     const { field, operator, value } = clause;
     const params: SQLQueryBindings[] = [];
 
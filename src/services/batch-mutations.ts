@@ -0,0 +1,412 @@
+/**
+ * Batch Mutations Service
+ *
+ * Plan/apply execution of mixed mutation batches (update, tag, untag,
+ * set-field, check, uncheck, trash):
+ *
+ * 1. plan  - validate every operation against the index, resolve tag and
+ *            field names to IDs, and compute a diff against current state
+ * 2. apply - execute pending operations through the backend with per-op
+ *            status and retry; the plan records progress, so re-applying
+ *            it after a partial failure resumes where it stopped
+ *
+ * Used by CLI (commands/batch.ts).
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { TanaBackend } from '../api/backend';
+import { applyMutation, type PlannedMutation } from '../api/mutation-journal';
+import { UnifiedSchemaService } from './unified-schema-service';
+import { StructuredError } from '../utils/structured-errors';
+import { isRetryable } from '../utils/error-registry';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const BATCH_OP_TYPES = ['update', 'tag', 'untag', 'set-field', 'check', 'uncheck', 'trash'] as const;
+
+export type BatchOpType = (typeof BATCH_OP_TYPES)[number];
+
+/**
+ * One operation in a batch file
+ */
+export interface BatchOpInput {
+  op: BatchOpType;
+  nodeId: string;
+  /** update: new name */
+  name?: string;
+  /** update: new description */
+  description?: string;
+  /** tag/untag: supertag names or IDs */
+  tags?: string[];
+  /** set-field: field name or attribute ID */
+  field?: string;
+  /** set-field: text value */
+  value?: string;
+  /** set-field: option ID (option fields) */
+  optionId?: string;
+}
+
+/**
+ * Status of a planned operation
+ * - pending: will be applied
+ * - noop: node already in the requested state
+ * - invalid: failed validation, never applied
+ * - applied / failed: outcome of apply
+ */
+export type BatchOpStatus = 'pending' | 'noop' | 'invalid' | 'applied' | 'failed';
+
+export interface PlannedBatchOp {
+  /** Index in the batch file (0-based) */
+  index: number;
+  input: BatchOpInput;
+  nodeName?: string;
+  /** Resolved backend mutation (absent for invalid and noop operations) */
+  mutation?: PlannedMutation;
+  /** Human-readable changes */
+  diff: string[];
+  status: BatchOpStatus;
+  error?: string;
+  attempts?: number;
+}
+
+export interface BatchPlan {
+  version: 1;
+  createdAt: string;
+  ops: PlannedBatchOp[];
+}
+
+export type BatchPlanSummary = Record<BatchOpStatus, number> & { total: number };
+
+export interface ApplyBatchOptions {
+  /** Retries per operation for transient errors (default: 2) */
+  retries?: number;
+  /** Base delay between retries in ms (default: 250, grows quadratically) */
+  retryDelayMs?: number;
+  /** Keep going after an operation fails (default: stop at first failure) */
+  continueOnError?: boolean;
+  /** Apply the valid operations of a plan that has invalid ones */
+  skipInvalid?: boolean;
+  /** Called after each operation's status changes (e.g. to persist the plan) */
+  onProgress?: (op: PlannedBatchOp, plan: BatchPlan) => void;
+}
+
+interface IndexedNode {
+  id: string;
+  name: string | null;
+  done_at: number | null;
+  trashed: number;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a batch file: a JSON array of operations
+ *
+ * @throws StructuredError if the content is not a JSON array
+ */
+export function parseBatchOps(content: string): BatchOpInput[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new StructuredError('INVALID_FORMAT', `Batch file is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new StructuredError('INVALID_FORMAT', 'Batch file must be a JSON array of operations', {
+      example: '[{ "op": "tag", "nodeId": "abc123", "tags": ["project"] }]',
+    });
+  }
+  return parsed as BatchOpInput[];
+}
+
+/**
+ * Parse a plan written by `batch plan --out`
+ *
+ * @throws StructuredError if the content is not a batch plan
+ */
+export function parseBatchPlan(content: string): BatchPlan {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new StructuredError('INVALID_FORMAT', `Plan file is not valid JSON: ${(error as Error).message}`);
+  }
+  const plan = parsed as Partial<BatchPlan>;
+  if (Array.isArray(parsed) || plan?.version !== 1 || !Array.isArray(plan.ops)) {
+    throw new StructuredError('INVALID_FORMAT', 'Not a batch plan file', {
+      suggestion: 'Create a plan first: supertag batch plan <ops.json> --out plan.json',
+    });
+  }
+  return plan as BatchPlan;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Validate operations against the index and compute their diffs
+ */
+export function planBatch(db: Database, inputs: BatchOpInput[]): BatchPlan {
+  const planner = new BatchPlanner(db);
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    ops: inputs.map((input, index) => planner.plan(input, index)),
+  };
+}
+
+/**
+ * Count operations by status
+ */
+export function summarizeBatchPlan(plan: BatchPlan): BatchPlanSummary {
+  const summary: BatchPlanSummary = { total: plan.ops.length, pending: 0, noop: 0, invalid: 0, applied: 0, failed: 0 };
+  for (const op of plan.ops) {
+    summary[op.status]++;
+  }
+  return summary;
+}
+
+class BatchPlanner {
+  private schema: UnifiedSchemaService;
+  private nodeQuery;
+  private tagQuery;
+  private fieldValueQuery;
+
+  constructor(private db: Database) {
+    this.schema = new UnifiedSchemaService(db);
+    this.nodeQuery = db.query(`
+      SELECT id, name, done_at,
+        COALESCE(json_extract(raw_data, '$.props._ownerId'), '') LIKE '%TRASH%' AS trashed
+      FROM nodes WHERE id = ?
+    `);
+    this.tagQuery = db.query('SELECT DISTINCT tag_id, tag_name FROM tag_applications WHERE data_node_id = ?');
+    this.fieldValueQuery = db.query(`
+      SELECT value_text FROM field_values
+      WHERE parent_id = ? AND field_def_id = ? ORDER BY value_order
+    `);
+  }
+
+  plan(input: BatchOpInput, index: number): PlannedBatchOp {
+    const op: PlannedBatchOp = { index, input, diff: [], status: 'pending' };
+    try {
+      this.resolve(op);
+    } catch (error) {
+      op.status = 'invalid';
+      op.error = (error as Error).message;
+    }
+    return op;
+  }
+
+  private resolve(op: PlannedBatchOp): void {
+    const { input } = op;
+    if (!input || typeof input !== 'object') {
+      throw new Error('Operation must be an object');
+    }
+    if (!BATCH_OP_TYPES.includes(input.op)) {
+      throw new Error(`Unknown op "${input.op}" (expected: ${BATCH_OP_TYPES.join(', ')})`);
+    }
+    if (!input.nodeId) {
+      throw new Error('nodeId is required');
+    }
+
+    const node = this.nodeQuery.get(input.nodeId) as IndexedNode | null;
+    if (!node) {
+      throw new Error(`Node not found in index: ${input.nodeId}`);
+    }
+    op.nodeName = node.name ?? '';
+    if (node.trashed && input.op !== 'trash') {
+      throw new Error('Node is in the trash');
+    }
+
+    const nodeId = node.id;
+    switch (input.op) {
+      case 'update': {
+        if (input.name === undefined && input.description === undefined) {
+          throw new Error('update requires name or description');
+        }
+        const params: Record<string, unknown> = {};
+        if (input.name !== undefined && input.name !== node.name) {
+          params.name = input.name;
+          op.diff.push(`name: "${node.name ?? ''}" → "${input.name}"`);
+        }
+        if (input.description !== undefined) {
+          params.description = input.description;
+          op.diff.push(`description → "${input.description}"`);
+        }
+        this.setMutation(op, { operation: 'updateNode', nodeId, params });
+        return;
+      }
+      case 'tag':
+      case 'untag': {
+        const tags = this.resolveTags(input.tags);
+        const current = new Set(
+          (this.tagQuery.all(nodeId) as Array<{ tag_id: string }>).map((t) => t.tag_id)
+        );
+        const adding = input.op === 'tag';
+        const changed = tags.filter((t) => current.has(t.id) !== adding);
+        op.diff.push(...changed.map((t) => `${adding ? '+' : '-'}#${t.name}`));
+        this.setMutation(op, {
+          operation: adding ? 'addTags' : 'removeTags',
+          nodeId,
+          params: { tagIds: changed.map((t) => t.id) },
+        });
+        return;
+      }
+      case 'set-field': {
+        if (!input.field) {
+          throw new Error('set-field requires field');
+        }
+        if (input.value === undefined && !input.optionId) {
+          throw new Error('set-field requires value or optionId');
+        }
+        const field = this.resolveField(nodeId, input.field);
+        const currentValue = (this.fieldValueQuery.all(nodeId, field.attributeId) as Array<{ value_text: string }>)
+          .map((v) => v.value_text)
+          .join(', ');
+        if (input.optionId) {
+          op.diff.push(`${field.name}: "${currentValue}" → option ${input.optionId}`);
+          this.setMutation(op, {
+            operation: 'setFieldOption',
+            nodeId,
+            params: { attributeId: field.attributeId, optionId: input.optionId },
+          });
+          return;
+        }
+        if (currentValue !== input.value) {
+          op.diff.push(`${field.name}: "${currentValue}" → "${input.value}"`);
+        }
+        this.setMutation(op, {
+          operation: 'setFieldContent',
+          nodeId,
+          params: { attributeId: field.attributeId, content: input.value },
+        });
+        return;
+      }
+      case 'check':
+      case 'uncheck': {
+        const checking = input.op === 'check';
+        if (Boolean(node.done_at) !== checking) {
+          op.diff.push(checking ? 'done: no → yes' : 'done: yes → no');
+        }
+        this.setMutation(op, { operation: checking ? 'checkNode' : 'uncheckNode', nodeId, params: {} });
+        return;
+      }
+      case 'trash':
+        if (!node.trashed) {
+          op.diff.push('move to trash');
+        }
+        this.setMutation(op, { operation: 'trashNode', nodeId, params: {} });
+        return;
+    }
+  }
+
+  /**
+   * Attach the mutation, or mark the op as a no-op when nothing changes
+   */
+  private setMutation(op: PlannedBatchOp, mutation: PlannedMutation): void {
+    if (op.diff.length === 0) {
+      op.status = 'noop';
+      return;
+    }
+    op.mutation = mutation;
+  }
+
+  private resolveTags(tags: string[] | undefined): Array<{ id: string; name: string }> {
+    if (!Array.isArray(tags) || tags.length === 0) {
+      throw new Error('tags must be a non-empty array');
+    }
+    return tags.map((tag) => {
+      const name = tag.replace(/^#/, '');
+      const supertag = this.schema.getSupertag(name) ?? this.schema.getSupertagById(name);
+      if (!supertag) {
+        throw new Error(`Unknown supertag: ${tag}`);
+      }
+      return { id: supertag.id, name: supertag.name };
+    });
+  }
+
+  /**
+   * Resolve a field name (or attribute ID) against the node's supertags
+   */
+  private resolveField(nodeId: string, field: string): { attributeId: string; name: string } {
+    const tags = this.tagQuery.all(nodeId) as Array<{ tag_id: string; tag_name: string }>;
+    for (const tag of tags) {
+      const byName = this.schema.getFieldByNormalizedName(tag.tag_id, field);
+      if (byName) return { attributeId: byName.attributeId, name: byName.name };
+      const byId = this.schema.getAllFields(tag.tag_id).find((f) => f.attributeId === field);
+      if (byId) return { attributeId: byId.attributeId, name: byId.name };
+    }
+    const tagNames = tags.map((t) => `#${t.tag_name}`).join(', ') || 'none';
+    throw new Error(`Field "${field}" is not defined on the node's supertags (${tagNames})`);
+  }
+}
+
+// =============================================================================
+// Apply
+// =============================================================================
+
+/**
+ * Execute the pending (and previously failed) operations of a plan
+ *
+ * Operations already applied are skipped, so an interrupted or partially
+ * failed plan can be applied again to resume.
+ *
+ * @throws StructuredError if the plan has invalid operations (unless skipInvalid)
+ *         or the backend does not support mutations
+ */
+export async function applyBatchPlan(
+  plan: BatchPlan,
+  backend: TanaBackend,
+  options: ApplyBatchOptions = {},
+): Promise<BatchPlanSummary> {
+  const retries = options.retries ?? 2;
+  const retryDelayMs = options.retryDelayMs ?? 250;
+
+  const invalid = plan.ops.filter((op) => op.status === 'invalid');
+  if (invalid.length > 0 && !options.skipInvalid) {
+    throw new StructuredError('VALIDATION_ERRORS', `Plan has ${invalid.length} invalid operation(s)`, {
+      details: { invalid: invalid.map((op) => ({ index: op.index, error: op.error })) },
+      suggestion: 'Fix the batch file and re-plan, or apply the valid operations with --skip-invalid',
+    });
+  }
+  if (!backend.supportsMutations()) {
+    throw new StructuredError('MUTATIONS_NOT_SUPPORTED', 'Batch mutations require the local API backend', {
+      suggestion: 'Configure with: supertag config --bearer-token <token>',
+    });
+  }
+
+  for (const op of plan.ops) {
+    if ((op.status !== 'pending' && op.status !== 'failed') || !op.mutation) continue;
+
+    op.error = undefined;
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      op.attempts = (op.attempts ?? 0) + 1;
+      try {
+        await applyMutation(backend, op.mutation);
+        op.status = 'applied';
+        op.error = undefined;
+        break;
+      } catch (error) {
+        op.status = 'failed';
+        op.error = (error as Error).message;
+        if (attempt > retries || !isTransient(error)) break;
+        await Bun.sleep(retryDelayMs * attempt * attempt);
+      }
+    }
+
+    options.onProgress?.(op, plan);
+    if (op.status === 'failed' && !options.continueOnError) break;
+  }
+
+  return summarizeBatchPlan(plan);
+}
+
+function isTransient(error: unknown): boolean {
+  if (!(error instanceof StructuredError)) return false;
+  return Boolean(error.recovery?.retryable || error.recovery?.canRetry || isRetryable(error.code));
+}
@@ -0,0 +1,417 @@
+/**
+ * Duplicate Detection Service
+ *
+ * Finds near-duplicate nodes with the same supertag (e.g. two #person nodes
+ * for the same human) and suggests how to merge them:
+ *
+ * 1. detect - cluster candidates by normalized name, Levenshtein ratio of the
+ *             normalized names, and (optionally) embedding similarity
+ * 2. compare - line up each member's field values and flag conflicts
+ * 3. merge  - plan batch operations that re-point inline references and
+ *             single-value reference fields from the losers to the winner,
+ *             then trash the losers whose references were all re-pointed
+ *             (applied through batch-mutations)
+ *
+ * Used by CLI (commands/dedupe.ts).
+ */
+
+import type { Database } from 'bun:sqlite';
+import { distance } from 'fastest-levenshtein';
+import {
+  applyBatchPlan,
+  planBatch,
+  summarizeBatchPlan,
+  type BatchOpInput,
+  type BatchPlan,
+  type BatchPlanSummary,
+} from './batch-mutations';
+import type { TanaBackend } from '../api/backend';
+import { buildContextualizedNode } from '../embeddings/contextualize';
+import type { SimilarityIndex } from './similar-nodes';
+import { normalizeName } from '../utils/normalize-name';
+import { StructuredError } from '../utils/structured-errors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const DEFAULT_NAME_THRESHOLD = 0.85;
+export const DEFAULT_SEMANTIC_THRESHOLD = 0.9;
+
+/** Nearest neighbours fetched per candidate for the semantic signal */
+const SEMANTIC_NEIGHBOURS = 10;
+
+export interface DedupeOptions {
+  /** Supertag whose nodes are compared */
+  tag: string;
+  /** Minimum Levenshtein ratio (0-1) of normalized names (default: 0.85) */
+  threshold?: number;
+  /** Minimum embedding similarity (0-1) (default: 0.9) */
+  semanticThreshold?: number;
+  /** Vector index for the semantic signal (omit to match on names only) */
+  index?: Pick<SimilarityIndex, 'search'>;
+}
+
+/**
+ * Why two nodes were considered duplicates
+ * - name: identical normalized names
+ * - fuzzy: Levenshtein ratio above the threshold
+ * - semantic: embedding similarity above the semantic threshold
+ */
+export type MatchReason = 'name' | 'fuzzy' | 'semantic';
+
+export interface DuplicateMatch {
+  a: string;
+  b: string;
+  reason: MatchReason;
+  score: number;
+}
+
+export interface DuplicateMember {
+  id: string;
+  name: string;
+  created: number | null;
+  /** Inline references and reference field values pointing at the node */
+  references: number;
+}
+
+/**
+ * One field's values across the members of a cluster
+ */
+export interface FieldComparison {
+  field: string;
+  /** Values per member ID (members without a value are absent) */
+  values: Record<string, string>;
+  /** True when members have different non-empty values */
+  conflict: boolean;
+}
+
+export interface DuplicateCluster {
+  /** Suggested survivor: most references, then oldest */
+  winnerId: string;
+  members: DuplicateMember[];
+  matches: DuplicateMatch[];
+  fields: FieldComparison[];
+}
+
+export interface DedupeResult {
+  tag: string;
+  /** Number of nodes with the tag that were compared */
+  candidates: number;
+  clusters: DuplicateCluster[];
+}
+
+/**
+ * A reference that the merge plan cannot re-point (no backend operation
+ * for it); it keeps pointing at the trashed node
+ */
+export interface UnresolvedReference {
+  loserId: string;
+  fromNodeId: string;
+  /** Reference type, or 'field' for a reference field with several values */
+  type: string;
+}
+
+export interface MergePlan {
+  winnerId: string;
+  loserIds: string[];
+  plan: BatchPlan;
+  /** Indexes of the plan operations that re-point each loser's references */
+  repoints: Record<string, number[]>;
+  unresolved: UnresolvedReference[];
+}
+
+export interface MergeResult {
+  summary: BatchPlanSummary;
+  /** Losers left in place because one of their re-point operations did not apply */
+  kept: string[];
+}
+
+interface CandidateRow {
+  id: string;
+  name: string;
+  created: number | null;
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Cluster the nodes of a supertag into groups of likely duplicates
+ *
+ * @throws StructuredError TAG_NOT_FOUND if no live node has the tag
+ */
+export async function findDuplicates(db: Database, options: DedupeOptions): Promise<DedupeResult> {
+  const tag = options.tag.replace(/^#/, '');
+  const threshold = options.threshold ?? DEFAULT_NAME_THRESHOLD;
+  const semanticThreshold = options.semanticThreshold ?? DEFAULT_SEMANTIC_THRESHOLD;
+
+  const candidates = getCandidates(db, tag);
+  if (candidates.length === 0) {
+    throw new StructuredError('TAG_NOT_FOUND', `No nodes tagged #${tag}`, {
+      details: { tag },
+      suggestion: 'Check the tag name with: supertag tags list',
+    });
+  }
+
+  const matches = [
+    ...matchNames(candidates, threshold),
+    ...(options.index ? await matchSemantic(db, candidates, options.index, semanticThreshold) : []),
+  ];
+
+  // Union-find over all matched pairs
+  const parent = new Map(candidates.map((c) => [c.id, c.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  for (const match of matches) {
+    parent.set(find(match.a), find(match.b));
+  }
+
+  const groups = new Map<string, CandidateRow[]>();
+  for (const candidate of candidates) {
+    const root = find(candidate.id);
+    groups.set(root, [...(groups.get(root) ?? []), candidate]);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const ids = new Set(group.map((c) => c.id));
+    const references = getReferenceCounts(db, [...ids]);
+    const members = group
+      .map((c) => ({ ...c, references: references.get(c.id) ?? 0 }))
+      .sort((a, b) => b.references - a.references || (a.created ?? Infinity) - (b.created ?? Infinity) || a.id.localeCompare(b.id));
+    clusters.push({
+      winnerId: members[0].id,
+      members,
+      matches: matches.filter((m) => ids.has(m.a)),
+      fields: compareFields(db, members.map((m) => m.id)),
+    });
+  }
+
+  clusters.sort((a, b) => b.members.length - a.members.length || a.members[0].name.localeCompare(b.members[0].name));
+  return { tag, candidates: candidates.length, clusters };
+}
+
+/**
+ * Live (non-trashed) named nodes with the tag
+ */
+function getCandidates(db: Database, tag: string): CandidateRow[] {
+  return db
+    .query(`
+      SELECT DISTINCT n.id, n.name, n.created
+      FROM nodes n
+      INNER JOIN tag_applications ta ON ta.data_node_id = n.id
+      WHERE LOWER(ta.tag_name) = LOWER(?)
+        AND n.name IS NOT NULL AND TRIM(n.name) != ''
+        AND COALESCE(json_extract(n.raw_data, '$.props._ownerId'), '') NOT LIKE '%TRASH%'
+      ORDER BY n.created, n.id
+    `)
+    .all(tag) as CandidateRow[];
+}
+
+/**
+ * Exact and fuzzy matches of normalized names
+ *
+ * Names are sorted by length so each one is only compared with names short
+ * enough that the ratio can still reach the threshold.
+ */
+function matchNames(candidates: CandidateRow[], threshold: number): DuplicateMatch[] {
+  const names = candidates
+    .map((c) => ({ id: c.id, key: normalizeName(c.name) }))
+    .filter((n) => n.key.length > 0)
+    .sort((a, b) => a.key.length - b.key.length);
+
+  const matches: DuplicateMatch[] = [];
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const maxLength = names[j].key.length;
+      if (maxLength - names[i].key.length > (1 - threshold) * maxLength) break;
+      if (names[i].key === names[j].key) {
+        matches.push({ a: names[i].id, b: names[j].id, reason: 'name', score: 1 });
+        continue;
+      }
+      const score = 1 - distance(names[i].key, names[j].key) / maxLength;
+      if (score >= threshold) {
+        matches.push({ a: names[i].id, b: names[j].id, reason: 'fuzzy', score });
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Pairs of candidates whose embeddings are nearest neighbours above the threshold
+ */
+async function matchSemantic(
+  db: Database,
+  candidates: CandidateRow[],
+  index: Pick<SimilarityIndex, 'search'>,
+  threshold: number
+): Promise<DuplicateMatch[]> {
+  const ids = new Set(candidates.map((c) => c.id));
+  const best = new Map<string, DuplicateMatch>();
+  for (const candidate of candidates) {
+    const { contextText } = buildContextualizedNode(db, candidate.id, candidate.name);
+    for (const hit of await index.search(contextText, SEMANTIC_NEIGHBOURS)) {
+      if (hit.nodeId === candidate.id || !ids.has(hit.nodeId) || hit.similarity < threshold) continue;
+      const [a, b] = [candidate.id, hit.nodeId].sort();
+      const key = `${a}:${b}`;
+      if ((best.get(key)?.score ?? -1) < hit.similarity) {
+        best.set(key, { a, b, reason: 'semantic', score: hit.similarity });
+      }
+    }
+  }
+  return [...best.values()];
+}
+
+/**
+ * Inline references plus reference field values pointing at each node
+ */
+function getReferenceCounts(db: Database, nodeIds: string[]): Map<string, number> {
+  const placeholders = nodeIds.map(() => '?').join(',');
+  const rows = db
+    .query(`
+      SELECT nodeId, COUNT(*) AS count FROM (
+        SELECT DISTINCT to_node AS nodeId, from_node AS source FROM "references"
+        WHERE reference_type = 'inline_ref' AND to_node IN (${placeholders})
+        UNION
+        SELECT DISTINCT value_node_id AS nodeId, parent_id AS source FROM field_values
+        WHERE value_node_id IN (${placeholders})
+      ) GROUP BY nodeId
+    `)
+    .all(...nodeIds, ...nodeIds) as Array<{ nodeId: string; count: number }>;
+  return new Map(rows.map((r) => [r.nodeId, r.count]));
+}
+
+/**
+ * Field values of each member, side by side
+ */
+function compareFields(db: Database, nodeIds: string[]): FieldComparison[] {
+  const rows = db
+    .query(`
+      SELECT parent_id AS nodeId, field_name AS field, value_text AS value
+      FROM field_values
+      WHERE parent_id IN (${nodeIds.map(() => '?').join(',')})
+      ORDER BY field_name, value_order
+    `)
+    .all(...nodeIds) as Array<{ nodeId: string; field: string; value: string }>;
+
+  const fields = new Map<string, Map<string, string[]>>();
+  for (const row of rows) {
+    const values = fields.get(row.field) ?? new Map<string, string[]>();
+    values.set(row.nodeId, [...(values.get(row.nodeId) ?? []), row.value]);
+    fields.set(row.field, values);
+  }
+
+  return [...fields.entries()].map(([field, byNode]) => {
+    const values = Object.fromEntries([...byNode.entries()].map(([id, v]) => [id, v.join(', ')]));
+    const distinct = new Set(Object.values(values).filter((v) => v.trim() !== ''));
+    return { field, values, conflict: distinct.size > 1 };
+  });
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+/**
+ * Plan the merge of the losers into the winner
+ *
+ * - nodes whose name inline-references a loser are renamed to reference the winner
+ * - reference field values pointing at a loser are set to the winner
+ * - losers are trashed
+ *
+ * Other references (e.g. a loser placed as a child elsewhere) cannot be
+ * re-pointed through the backend and are returned as unresolved.
+ */
+export function planMerge(db: Database, winnerId: string, loserIds: string[]): MergePlan {
+  const ops: BatchOpInput[] = [];
+  const unresolved: UnresolvedReference[] = [];
+  const renamed = new Map<string, string>();
+  const repoints: Record<string, number[]> = Object.fromEntries(loserIds.map((id) => [id, []]));
+  /** Losers each renamed node references */
+  const renamedFor = new Map<string, string[]>();
+
+  const nameQuery = db.query('SELECT name FROM nodes WHERE id = ?');
+  const parentQuery = db.query('SELECT parent_id FROM nodes WHERE id = ?');
+  const referenceQuery = db.query(`
+    SELECT DISTINCT from_node AS fromNodeId, reference_type AS type
+    FROM "references" WHERE to_node = ? AND from_node != ? AND reference_type != 'parent'
+  `);
+  const fieldQuery = db.query(`
+    SELECT fv.parent_id AS nodeId, fv.field_def_id AS attributeId,
+           (SELECT COUNT(*) FROM field_values o
+            WHERE o.parent_id = fv.parent_id AND o.field_def_id = fv.field_def_id) AS valueCount
+    FROM field_values fv WHERE fv.value_node_id = ?
+    GROUP BY fv.parent_id, fv.field_def_id
+  `);
+
+  for (const loserId of loserIds) {
+    const fieldRefs = fieldQuery.all(loserId) as Array<{ nodeId: string; attributeId: string; valueCount: number }>;
+    for (const ref of fieldRefs) {
+      if (loserIds.includes(ref.nodeId)) continue;
+      // set-field replaces all values, so only single-value fields can be re-pointed
+      if (ref.valueCount === 1) {
+        repoints[loserId].push(ops.length);
+        ops.push({ op: 'set-field', nodeId: ref.nodeId, field: ref.attributeId, optionId: winnerId });
+      } else {
+        unresolved.push({ loserId, fromNodeId: ref.nodeId, type: 'field' });
+      }
+    }
+    const fieldSources = new Set(fieldRefs.map((r) => r.nodeId));
+
+    const ownParent = (parentQuery.get(loserId) as { parent_id: string | null } | null)?.parent_id;
+    for (const ref of referenceQuery.all(loserId, loserId) as Array<{ fromNodeId: string; type: string }>) {
+      if (loserIds.includes(ref.fromNodeId) || fieldSources.has(ref.fromNodeId)) continue;
+      if (ref.type === 'child' && ref.fromNodeId === ownParent) continue;
+
+      const marker = `data-inlineref-node="${loserId}"`;
+      const name = renamed.get(ref.fromNodeId) ?? (nameQuery.get(ref.fromNodeId) as { name: string | null } | null)?.name ?? '';
+      if (ref.type === 'inline_ref' && name.includes(marker)) {
+        renamed.set(ref.fromNodeId, name.split(marker).join(`data-inlineref-node="${winnerId}"`));
+        renamedFor.set(ref.fromNodeId, [...(renamedFor.get(ref.fromNodeId) ?? []), loserId]);
+      } else {
+        unresolved.push({ loserId, fromNodeId: ref.fromNodeId, type: ref.type });
+      }
+    }
+  }
+
+  for (const [nodeId, name] of renamed) {
+    for (const loserId of renamedFor.get(nodeId) ?? []) repoints[loserId].push(ops.length);
+    ops.push({ op: 'update', nodeId, name });
+  }
+  for (const loserId of loserIds) {
+    ops.push({ op: 'trash', nodeId: loserId });
+  }
+
+  return { winnerId, loserIds, plan: planBatch(db, ops), repoints, unresolved };
+}
+
+/**
+ * Apply a merge plan: re-point the references first, then trash only the
+ * losers whose re-point operations all applied (or were already done).
+ * A loser with a failed or invalid re-point is kept so no reference is
+ * left pointing at the trash; re-running the merge retries it.
+ */
+export async function applyMerge(merge: MergePlan, backend: TanaBackend): Promise<MergeResult> {
+  const { plan } = merge;
+  const trashOps = plan.ops.filter((op) => op.input.op === 'trash');
+  const repointOps = plan.ops.filter((op) => op.input.op !== 'trash');
+
+  // Sub-plans share the operation objects, so statuses land in merge.plan
+  await applyBatchPlan({ ...plan, ops: repointOps }, backend, { skipInvalid: true, continueOnError: true });
+
+  const kept = merge.loserIds.filter((loserId) =>
+    merge.repoints[loserId].some((index) => !['applied', 'noop'].includes(plan.ops[index].status)),
+  );
+  const trash = trashOps.filter((op) => !kept.includes(op.input.nodeId));
+  await applyBatchPlan({ ...plan, ops: trash }, backend, { skipInvalid: true, continueOnError: true });
+
+  return { summary: summarizeBatchPlan(plan), kept };
+}
@@ -10,6 +10,8 @@
 
 import { Database } from "bun:sqlite";
 import { ensureDeltaSyncSchema } from "../db/delta-sync-schema";
+import { recordNodeChanges, type NodeChangeInput } from "../db/node-changes";
+import { OutboundWebhooks } from "./outbound-webhooks";
 import type {
   DeltaSyncOptions,
   DeltaSyncResult,
@@ -29,12 +31,16 @@ export class DeltaSyncService {
   private localApiClient: DeltaSyncOptions["localApiClient"];
   private embeddingConfig?: DeltaSyncOptions["embeddingConfig"];
   private logger: NonNullable<DeltaSyncOptions["logger"]>;
+  private workspace?: string;
+  private outboundWebhooks: OutboundWebhooks | false;
   private syncing = false;
 
   constructor(options: DeltaSyncOptions) {
     this.db = new Database(options.dbPath);
     this.localApiClient = options.localApiClient;
     this.embeddingConfig = options.embeddingConfig;
+    this.workspace = options.workspace;
+    this.outboundWebhooks = options.outboundWebhooks ?? new OutboundWebhooks();
     this.logger = options.logger ?? {
       info: () => {},
       warn: () => {},
@@ -224,7 +230,8 @@ export class DeltaSyncService {
    * 3. Page through changed nodes, merge + reconcile tags
    * 4. Generate embeddings if configured
    * 5. Update watermark
-   * 6. Return result
+   * 6. Evaluate outbound webhook rules
+   * 7. Return result
    */
   async sync(): Promise<DeltaSyncResult> {
     // T-2.3: In-memory lock check
@@ -273,6 +280,7 @@ export class DeltaSyncService {
       for await (const page of this.fetchChangedNodes(sinceMs)) {
         pages++;
         nodesFound += page.length;
+        const pageChanges: NodeChangeInput[] = [];
 
         for (const node of page) {
           const result = this.mergeNode(node);
@@ -281,7 +289,18 @@ export class DeltaSyncService {
 
           this.reconcileTags(node.id, node.tags);
           changedNodeIds.push(node.id);
+          if (result.inserted || result.updated) {
+            pageChanges.push({
+              nodeId: node.id,
+              change: result.inserted ? "created" : "updated",
+              name: node.name,
+              tags: node.tags.map((t) => t.name),
+            });
+          }
         }
+
+        // Change log for the webhook event stream
+        recordNodeChanges(this.db, pageChanges, "delta-sync");
       }
 
       // Step 4: Embedding generation
@@ -304,7 +323,22 @@ export class DeltaSyncService {
         this.updateWatermark(watermarkAfter, nodesFound);
       }
 
-      // Step 6: Return result
+      // Step 6: Outbound webhook rules (never fail the sync)
+      if (this.outboundWebhooks && nodesFound > 0) {
+        try {
+          const webhooks = await this.outboundWebhooks.run(this.db, {
+            workspace: this.workspace,
+            source: "delta-sync",
+          });
+          if (webhooks.events > 0) {
+            this.logger.info("Outbound webhooks", { ...webhooks });
+          }
+        } catch (error) {
+          this.logger.error("Outbound webhook evaluation failed", { error: String(error) });
+        }
+      }
+
+      // Step 7: Return result
       const durationMs = Math.round(performance.now() - startTime);
 
       return {
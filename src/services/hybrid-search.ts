@@ -0,0 +1,241 @@
+/**
+ * Hybrid Search
+ *
+ * Runs full-text (FTS5) and semantic (vector) retrieval for the same query
+ * and merges both ranked lists with weighted reciprocal-rank fusion (RRF):
+ *
+ *   score(node) = w_fts / (k + rank_fts) + w_semantic / (k + rank_semantic)
+ *
+ * Ranks are 1-based; a node missing from one list gets no contribution from
+ * it. FTS catches exact terms (product codes, names) that embeddings miss,
+ * while semantic search catches paraphrases that FTS misses.
+ */
+
+import { existsSync } from "fs";
+import type { Database, SQLQueryBindings } from "bun:sqlite";
+import { withDatabase, withQueryEngine } from "../db/with-database";
+import { ConfigManager } from "../config/manager";
+import {
+  getOverfetchLimit,
+  filterAndDeduplicateResults,
+  type RawSearchResult,
+} from "../embeddings/search-filter";
+
+/**
+ * Relative weight of each retriever in the fused score
+ */
+export interface HybridWeights {
+  fts: number;
+  semantic: number;
+}
+
+export const DEFAULT_HYBRID_WEIGHTS: HybridWeights = { fts: 1, semantic: 1 };
+
+/** RRF damping constant (60 is the value from the original RRF paper) */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * A fused hit with its position in each source list
+ */
+export interface FusedHit {
+  id: string;
+  /** Fused RRF score (higher is better) */
+  score: number;
+  /** 1-based rank in FTS results */
+  ftsRank?: number;
+  /** 1-based rank in semantic results */
+  semanticRank?: number;
+  /** Vector similarity (0-1) when found by semantic search */
+  similarity?: number;
+}
+
+export interface FusionOptions {
+  weights?: Partial<HybridWeights>;
+  k?: number;
+}
+
+/**
+ * Merge FTS and semantic result lists with weighted reciprocal-rank fusion
+ *
+ * @param ftsIds - Node IDs in FTS rank order (best first)
+ * @param semanticHits - Node IDs with similarity in semantic rank order (best first)
+ * @returns Fused hits sorted by score (ties keep FTS-first order)
+ */
+export function reciprocalRankFusion(
+  ftsIds: string[],
+  semanticHits: { id: string; similarity: number }[],
+  options: FusionOptions = {}
+): FusedHit[] {
+  const weights = { ...DEFAULT_HYBRID_WEIGHTS, ...options.weights };
+  const k = options.k ?? DEFAULT_RRF_K;
+  const hits = new Map<string, FusedHit>();
+
+  const hit = (id: string): FusedHit => {
+    let existing = hits.get(id);
+    if (!existing) {
+      existing = { id, score: 0 };
+      hits.set(id, existing);
+    }
+    return existing;
+  };
+
+  ftsIds.forEach((id, i) => {
+    const h = hit(id);
+    if (h.ftsRank !== undefined) return;
+    h.ftsRank = i + 1;
+    h.score += weights.fts / (k + i + 1);
+  });
+
+  semanticHits.forEach(({ id, similarity }, i) => {
+    const h = hit(id);
+    if (h.semanticRank !== undefined) return;
+    h.semanticRank = i + 1;
+    h.similarity = similarity;
+    h.score += weights.semantic / (k + i + 1);
+  });
+
+  return [...hits.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Validate fusion weights and k
+ *
+ * @throws Error on negative weights, all-zero weights, or k < 1
+ */
+export function validateFusionOptions(options: FusionOptions): void {
+  const weights = { ...DEFAULT_HYBRID_WEIGHTS, ...options.weights };
+  for (const [name, value] of Object.entries(weights)) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid ${name} weight: ${value}. Weights must be non-negative numbers`);
+    }
+  }
+  if (weights.fts === 0 && weights.semantic === 0) {
+    throw new Error("At least one of the FTS and semantic weights must be greater than 0");
+  }
+  if (options.k !== undefined && (!Number.isFinite(options.k) || options.k < 1)) {
+    throw new Error(`Invalid RRF k: ${options.k}. Must be at least 1`);
+  }
+}
+
+export interface HybridSearchOptions extends FusionOptions {
+  limit?: number;
+  /** Drop semantic hits below this similarity before fusion */
+  minSimilarity?: number;
+  createdAfter?: number;
+  createdBefore?: number;
+  updatedAfter?: number;
+  updatedBefore?: number;
+  /** Workspace alias, for workspace-specific embedding settings */
+  workspace?: string;
+}
+
+export interface HybridSearchResult extends FusedHit {
+  name: string;
+  tags: string[];
+}
+
+/**
+ * Run FTS and semantic search and fuse the results
+ *
+ * @param dbPath - Workspace SQLite database path (LanceDB path is derived from it)
+ * @param query - Search text
+ * @throws Error if the workspace has no embeddings
+ */
+export async function hybridSearch(
+  dbPath: string,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<HybridSearchResult[]> {
+  validateFusionOptions(options);
+
+  const limit = options.limit ?? 20;
+  const depth = getOverfetchLimit(limit);
+
+  const lanceDbPath = dbPath.replace(/\.db$/, ".lance");
+  if (!existsSync(lanceDbPath)) {
+    throw new Error("Hybrid search requires embeddings. Run: supertag embed generate");
+  }
+
+  // FTS retrieval (builds the index on first use, like `supertag search`)
+  const ftsResults = await withQueryEngine({ dbPath }, async ({ engine }) => {
+    if (!(await engine.hasFTSIndex())) {
+      await engine.initializeFTS();
+    }
+    return engine.searchNodes(query, {
+      limit: depth,
+      createdAfter: options.createdAfter,
+      createdBefore: options.createdBefore,
+      updatedAfter: options.updatedAfter,
+      updatedBefore: options.updatedBefore,
+    });
+  });
+
+  // Semantic retrieval
+  const { TanaEmbeddingService } = await import("../embeddings/tana-embedding-service");
+  const embeddingConfig = ConfigManager.getInstance().getEmbeddingConfig(options.workspace);
+  const embeddingService = new TanaEmbeddingService(lanceDbPath, embeddingConfig);
+
+  let rawSemantic: RawSearchResult[];
+  try {
+    rawSemantic = await embeddingService.search(query, depth);
+  } finally {
+    embeddingService.close();
+  }
+
+  return withDatabase({ dbPath, readonly: true }, ({ db }) => {
+    const semantic = filterAndDeduplicateResults(db, rawSemantic)
+      .filter((r) => options.minSimilarity === undefined || r.similarity >= options.minSimilarity);
+    const inRange = filterByDateRange(db, semantic.map((r) => r.nodeId), options);
+
+    const fused = reciprocalRankFusion(
+      ftsResults.map((r) => r.id),
+      semantic
+        .filter((r) => inRange.has(r.nodeId))
+        .map((r) => ({ id: r.nodeId, similarity: r.similarity })),
+      options
+    ).slice(0, limit);
+
+    const names = new Map<string, string>();
+    for (const r of ftsResults) names.set(r.id, r.name ?? "");
+    for (const r of semantic) names.set(r.nodeId, r.name);
+
+    const tagQuery = db.query("SELECT DISTINCT tag_name FROM tag_applications WHERE data_node_id = ?");
+    return fused.map((hit) => ({
+      ...hit,
+      score: Math.round(hit.score * 1e6) / 1e6,
+      name: names.get(hit.id) ?? "",
+      tags: (tagQuery.all(hit.id) as { tag_name: string }[]).map((t) => t.tag_name),
+    }));
+  });
+}
+
+/**
+ * Keep node IDs that satisfy the date range (semantic results are not date-aware)
+ */
+function filterByDateRange(db: Database, ids: string[], options: HybridSearchOptions): Set<string> {
+  const conditions: string[] = [];
+  const params: SQLQueryBindings[] = [];
+  if (options.createdAfter) {
+    conditions.push("created > ?");
+    params.push(options.createdAfter);
+  }
+  if (options.createdBefore) {
+    conditions.push("created < ?");
+    params.push(options.createdBefore);
+  }
+  if (options.updatedAfter) {
+    conditions.push("updated IS NOT NULL AND updated > ?");
+    params.push(options.updatedAfter);
+  }
+  if (options.updatedBefore) {
+    conditions.push("updated IS NOT NULL AND updated < ?");
+    params.push(options.updatedBefore);
+  }
+
+  if (conditions.length === 0 || ids.length === 0) return new Set(ids);
+
+  const rows = db
+    .query(`SELECT id FROM nodes WHERE id IN (${ids.map(() => "?").join(", ")}) AND ${conditions.join(" AND ")}`)
+    .all(...ids, ...params) as { id: string }[];
+  return new Set(rows.map((r) => r.id));
+}
@@ -0,0 +1,329 @@
+/**
+ * Field Value Lint Service
+ *
+ * Audits the field values of a supertag's nodes against its schema:
+ * - invalid-date:      date field value that is not a valid date
+ * - invalid-number:    number field value that is not a plain number
+ *                      (e.g. "5 hours", "1,5")
+ * - unknown-option:    options field value that is not a defined option
+ * - missing-required:  required field without a value (configured per tag)
+ * - trashed-reference: value pointing at a node in the trash
+ *
+ * Required fields are stored per workspace in a JSON file (see
+ * getLintRulesPath), keyed by supertag name.
+ *
+ * Used by CLI (commands/lint.ts).
+ */
+
+import type { Database } from 'bun:sqlite';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { ensureDir } from '../config/paths';
+import { SupertagMetadataService } from './supertag-metadata-service';
+import { UnifiedSchemaService } from './unified-schema-service';
+import type { InheritedField } from '../types/supertag-metadata';
+import { normalizeName } from '../utils/normalize-name';
+import { StructuredError } from '../utils/structured-errors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const LINT_RULES = [
+  'invalid-date',
+  'invalid-number',
+  'unknown-option',
+  'missing-required',
+  'trashed-reference',
+] as const;
+
+export type LintRule = (typeof LINT_RULES)[number];
+
+export interface LintOptions {
+  /** Supertag whose nodes are checked */
+  tag: string;
+  /** Field names that must have a value (default: none) */
+  required?: string[];
+}
+
+export interface LintIssue {
+  rule: LintRule;
+  nodeId: string;
+  nodeName: string | null;
+  field: string;
+  fieldId: string;
+  /** Offending value (absent for missing-required) */
+  value?: string;
+  valueNodeId?: string;
+  message: string;
+}
+
+export interface LintResult {
+  tag: string;
+  tagId: string;
+  /** Number of live nodes with the tag that were checked */
+  nodes: number;
+  /** Required fields that were checked */
+  required: string[];
+  /** Issue count per rule (all rules present) */
+  counts: Record<LintRule, number>;
+  issues: LintIssue[];
+}
+
+/** Lint settings of one supertag */
+export interface TagLintRules {
+  required?: string[];
+}
+
+/** Lint rules file: supertag name (lowercase) → settings */
+export type LintRulesFile = Record<string, TagLintRules>;
+
+interface TaggedNodeRow {
+  id: string;
+  name: string | null;
+}
+
+interface ValueRow {
+  parentId: string;
+  fieldDefId: string;
+  fieldName: string;
+  valueNodeId: string;
+  valueText: string;
+  trashed: number;
+}
+
+// =============================================================================
+// Rules file
+// =============================================================================
+
+/**
+ * Load the lint rules file (empty if it does not exist)
+ *
+ * @throws StructuredError if the file is not valid JSON
+ */
+export function loadLintRules(path: string): LintRulesFile {
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as LintRulesFile;
+  } catch {
+    throw new StructuredError('CONFIG_INVALID', `Lint rules file is not valid JSON: ${path}`);
+  }
+}
+
+/**
+ * Required fields configured for a supertag
+ */
+export function getRequiredFields(rules: LintRulesFile, tag: string): string[] {
+  return rules[tag.replace(/^#/, '').toLowerCase()]?.required ?? [];
+}
+
+/**
+ * Store the required fields of a supertag (an empty list removes them)
+ */
+export function saveRequiredFields(path: string, tag: string, required: string[]): void {
+  const rules = loadLintRules(path);
+  const key = tag.replace(/^#/, '').toLowerCase();
+  if (required.length > 0) {
+    rules[key] = { ...rules[key], required };
+  } else if (rules[key]) {
+    delete rules[key].required;
+    if (Object.keys(rules[key]).length === 0) delete rules[key];
+  }
+  ensureDir(dirname(path));
+  writeFileSync(path, JSON.stringify(rules, null, 2), 'utf-8');
+}
+
+// =============================================================================
+// Lint
+// =============================================================================
+
+/**
+ * Check the field values of all live nodes with a supertag
+ *
+ * Own, inherited and system fields of the tag are checked. Values are matched
+ * to fields by field definition ID or, failing that, by field name.
+ *
+ * @throws StructuredError TAG_NOT_FOUND if the supertag is unknown
+ * @throws StructuredError INVALID_PARAMETER if a required field is not a field of the tag
+ */
+export function lintTag(db: Database, options: LintOptions): LintResult {
+  const tag = options.tag.replace(/^#/, '');
+  const supertag = new UnifiedSchemaService(db).getSupertag(tag);
+  if (!supertag) {
+    throw new StructuredError('TAG_NOT_FOUND', `Supertag not found: ${tag}`, {
+      details: { tag },
+      suggestion: 'Check the tag name with: supertag tags list',
+    });
+  }
+
+  const tagId = supertag.id;
+  const fields = new SupertagMetadataService(db).getAllFields(tagId);
+  const required = resolveRequiredFields(fields, options.required ?? [], tag);
+  const nodes = getTaggedNodes(db, tagId);
+  const values = getValues(db, tagId);
+
+  const fieldOf = (row: ValueRow): InheritedField | undefined =>
+    fields.find((f) => f.fieldLabelId === row.fieldDefId) ?? fields.find((f) => f.fieldName === row.fieldName);
+
+  const issues: LintIssue[] = [];
+  for (const node of nodes) {
+    const filled = new Set<string>();
+    // Values in schema field order
+    const matched = (values.get(node.id) ?? [])
+      .map((row) => ({ row, field: fieldOf(row) }))
+      .filter((m): m is { row: ValueRow; field: InheritedField } => m.field !== undefined)
+      .sort((a, b) => fields.indexOf(a.field) - fields.indexOf(b.field));
+
+    for (const { row, field } of matched) {
+      if (row.valueText.trim()) filled.add(field.fieldLabelId);
+
+      const issue = checkValue(field, row);
+      if (issue) {
+        issues.push({
+          rule: issue.rule,
+          nodeId: node.id,
+          nodeName: node.name,
+          field: field.fieldName,
+          fieldId: field.fieldLabelId,
+          value: row.valueText,
+          valueNodeId: row.valueNodeId,
+          message: issue.message,
+        });
+      }
+    }
+
+    for (const field of required) {
+      if (!filled.has(field.fieldLabelId)) {
+        issues.push({
+          rule: 'missing-required',
+          nodeId: node.id,
+          nodeName: node.name,
+          field: field.fieldName,
+          fieldId: field.fieldLabelId,
+          message: `Required field ${field.fieldName} has no value`,
+        });
+      }
+    }
+  }
+
+  const counts = Object.fromEntries(LINT_RULES.map((rule) => [rule, 0])) as Record<LintRule, number>;
+  for (const issue of issues) counts[issue.rule]++;
+
+  return { tag: supertag.name, tagId, nodes: nodes.length, required: required.map((f) => f.fieldName), counts, issues };
+}
+
+/**
+ * Map configured required field names to the tag's fields
+ */
+function resolveRequiredFields(fields: InheritedField[], names: string[], tag: string): InheritedField[] {
+  return names.map((name) => {
+    const field = fields.find((f) => normalizeName(f.fieldName) === normalizeName(name));
+    if (!field) {
+      throw new StructuredError('INVALID_PARAMETER', `Required field "${name}" is not a field of #${tag}`, {
+        details: { tag, field: name, available: fields.map((f) => f.fieldName) },
+        suggestion: `Check the fields with: supertag tags fields ${tag} --all`,
+      });
+    }
+    return field;
+  });
+}
+
+/**
+ * First rule a value breaks, if any
+ */
+function checkValue(field: InheritedField, row: ValueRow): { rule: LintRule; message: string } | null {
+  if (row.trashed) {
+    return { rule: 'trashed-reference', message: `${field.fieldName} points at a node in the trash` };
+  }
+
+  const text = row.valueText.trim();
+  if (!text) return null;
+
+  if (field.optionValues && field.optionValues.length > 0 && !field.optionValues.includes(text)) {
+    return {
+      rule: 'unknown-option',
+      message: `"${text}" is not an option of ${field.fieldName} (${field.optionValues.join(', ')})`,
+    };
+  }
+  if (field.inferredDataType === 'date' && !isValidDateValue(text)) {
+    return { rule: 'invalid-date', message: `"${text}" is not a valid date` };
+  }
+  if (field.inferredDataType === 'number' && !isNumberValue(text)) {
+    return { rule: 'invalid-number', message: `"${text}" is not a number` };
+  }
+  return null;
+}
+
+/**
+ * Plain decimal number (no units, thousands separators or decimal commas)
+ */
+function isNumberValue(text: string): boolean {
+  return /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text);
+}
+
+/**
+ * A calendar date, date-time, month, year, ISO week or range of these;
+ * Tana date values are inline date references holding a dateTimeString
+ */
+export function isValidDateValue(text: string): boolean {
+  if (/^PARENT([+-]\d+)?$/.test(text)) return true;
+
+  let value = text;
+  if (text.includes('data-inlineref-date')) {
+    const match = text.replace(/&quot;/g, '"').match(/dateTimeString"\s*:\s*"([^"]+)"/);
+    if (!match) return false;
+    value = match[1];
+  }
+  return value.split('/').every(isValidDatePart);
+}
+
+function isValidDatePart(part: string): boolean {
+  if (/^\d{4}(-(0[1-9]|1[0-2]))?$/.test(part) || /^\d{4}-W(0[1-9]|[1-4]\d|5[0-3])$/.test(part)) {
+    return true;
+  }
+  const match = part.match(/^(\d{4})-(\d{2})-(\d{2})(T.*)?$/);
+  if (!match) return false;
+  const [, year, month, day, time] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  const validDay = date.getUTCMonth() === Number(month) - 1 && date.getUTCDate() === Number(day);
+  return validDay && (!time || !isNaN(Date.parse(part)));
+}
+
+/**
+ * Live (non-trashed) nodes with the tag
+ */
+function getTaggedNodes(db: Database, tagId: string): TaggedNodeRow[] {
+  return db
+    .query(`
+      SELECT DISTINCT n.id, n.name
+      FROM nodes n
+      INNER JOIN tag_applications ta ON ta.data_node_id = n.id
+      WHERE ta.tag_id = ?
+        AND COALESCE(json_extract(n.raw_data, '$.props._ownerId'), '') NOT LIKE '%TRASH%'
+      ORDER BY n.created, n.id
+    `)
+    .all(tagId) as TaggedNodeRow[];
+}
+
+/**
+ * Field values of the tagged nodes, by node ID, with whether the value node is in the trash
+ */
+function getValues(db: Database, tagId: string): Map<string, ValueRow[]> {
+  const rows = db
+    .query(`
+      SELECT fv.parent_id AS parentId, fv.field_def_id AS fieldDefId, fv.field_name AS fieldName,
+             fv.value_node_id AS valueNodeId, fv.value_text AS valueText,
+             COALESCE(json_extract(v.raw_data, '$.props._ownerId'), '') LIKE '%TRASH%' AS trashed
+      FROM field_values fv
+      LEFT JOIN nodes v ON v.id = fv.value_node_id
+      WHERE fv.parent_id IN (SELECT data_node_id FROM tag_applications WHERE tag_id = ?)
+      ORDER BY fv.parent_id, fv.value_order
+    `)
+    .all(tagId) as ValueRow[];
+
+  const byNode = new Map<string, ValueRow[]>();
+  for (const row of rows) {
+    byNode.set(row.parentId, [...(byNode.get(row.parentId) ?? []), row]);
+  }
+  return byNode;
+}
@@ -0,0 +1,423 @@
+/**
+ * Markdown Export Service
+ *
+ * Mirrors the indexed graph into a Markdown vault (Obsidian-compatible):
+ * - One file per tagged node, named after the node
+ * - YAML front-matter with id, tags, dates and field values
+ * - Children as nested bullets; tagged children and references as links
+ * - Inline references rewritten to [[wikilinks]]
+ *
+ * Re-runs are incremental: each file's source checksum is derived from the
+ * names, update times, tags and field values of the node's subtree (and the
+ * nodes it references) and kept in a manifest, so unchanged nodes are not
+ * re-rendered. Files of
+ * nodes that are no longer exported are removed.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { ensureDir } from '../config/paths';
+import { formatInlineRefs } from '../utils/inline-ref-formatter';
+
+export interface MarkdownExportOptions {
+  /** Output directory (created if missing) */
+  outDir: string;
+  /** Only export nodes with one of these supertags */
+  tags?: string[];
+  /** Maximum nesting depth of child bullets (default: 10) */
+  maxDepth?: number;
+  /** Re-render every file, ignoring the manifest */
+  force?: boolean;
+}
+
+export interface MarkdownExportResult {
+  outDir: string;
+  /** Tagged nodes exported */
+  total: number;
+  written: number;
+  unchanged: number;
+  removed: number;
+}
+
+interface ManifestEntry {
+  file: string;
+  checksum: string;
+}
+
+interface ExportManifest {
+  version: 1;
+  nodes: Record<string, ManifestEntry>;
+}
+
+interface ExportNode {
+  id: string;
+  name: string;
+  created: number | null;
+  updated: number | null;
+}
+
+interface NodeRow {
+  id: string;
+  name: string | null;
+  parent_id: string | null;
+  raw_data: string | null;
+}
+
+/** Manifest file written to the vault root */
+export const MANIFEST_FILE = '.supertag-export.json';
+
+const DEFAULT_MAX_DEPTH = 10;
+
+/** Child doc types that are structure, not content */
+const SKIPPED_DOC_TYPES = new Set(['tuple', 'metanode', 'associatedData', 'viewDef']);
+
+const INLINE_REF_PATTERN = /<span[^>]*\sdata-inlineref-node="([^"]+)"[^>]*>([^<]*)<\/span>/g;
+
+/**
+ * Export tagged nodes to Markdown files
+ */
+export function exportMarkdown(db: Database, options: MarkdownExportOptions): MarkdownExportResult {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  ensureDir(options.outDir);
+
+  const manifestPath = join(options.outDir, MANIFEST_FILE);
+  const previous: ExportManifest = options.force ? { version: 1, nodes: {} } : loadManifest(manifestPath);
+  const next: ExportManifest = { version: 1, nodes: {} };
+
+  const nodes = selectExportNodes(db, options.tags);
+  const files = assignFileNames(nodes);
+  const renderer = new MarkdownRenderer(db, files, maxDepth);
+  const hasChecksums = tableExists(db, 'node_checksums');
+
+  let written = 0;
+  let unchanged = 0;
+
+  for (const node of nodes) {
+    const file = files.get(node.id)!;
+    const path = join(options.outDir, file);
+    const prior = previous.nodes[node.id];
+
+    // Fast path: source checksum from the index, no rendering needed
+    const sourceChecksum = computeSourceChecksum(db, node.id, file, maxDepth, hasChecksums);
+    if (sourceChecksum && prior?.checksum === sourceChecksum && prior.file === file && existsSync(path)) {
+      next.nodes[node.id] = prior;
+      unchanged++;
+      continue;
+    }
+
+    const content = renderer.render(node);
+    const checksum = sourceChecksum ?? hash(file, content);
+    next.nodes[node.id] = { file, checksum };
+
+    if (prior?.checksum === checksum && prior.file === file && existsSync(path)) {
+      unchanged++;
+      continue;
+    }
+
+    writeFileSync(path, content, 'utf-8');
+    written++;
+  }
+
+  // Remove files of nodes that are gone or were renamed
+  const currentFiles = new Set(Object.values(next.nodes).map((e) => e.file));
+  let removed = 0;
+  for (const entry of Object.values(previous.nodes)) {
+    if (currentFiles.has(entry.file)) continue;
+    const path = join(options.outDir, entry.file);
+    if (existsSync(path)) {
+      unlinkSync(path);
+      removed++;
+    }
+  }
+
+  writeFileSync(manifestPath, JSON.stringify(next, null, 2), 'utf-8');
+
+  return { outDir: options.outDir, total: nodes.length, written, unchanged, removed };
+}
+
+/**
+ * Turn a node name into a safe, readable file base name
+ */
+export function toFileBaseName(name: string): string {
+  return formatInlineRefs(name, { nodeRefFormat: 'display' })
+    .replace(/<[^>]+>/g, '')
+    .replace(/[\\/:*?"<>|#^[\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100)
+    .trim();
+}
+
+/**
+ * Quote a value as a YAML scalar when needed
+ */
+export function yamlScalar(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  if (/^[\p{L}\p{N}][\p{L}\p{N} _.,()'-]*$/u.test(value) && !/^(true|false|null|yes|no|~)$/i.test(value) && !/^[\d.+-]/.test(value)) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Select tagged nodes (excluding trashed ones) in a stable order
+ */
+function selectExportNodes(db: Database, tags?: string[]): ExportNode[] {
+  const tagFilter = tags && tags.length > 0
+    ? `AND ta.tag_name IN (${tags.map(() => '?').join(', ')})`
+    : '';
+  return db
+    .query(`
+      SELECT DISTINCT n.id, n.name, n.created, n.updated
+      FROM nodes n
+      INNER JOIN tag_applications ta ON ta.data_node_id = n.id
+      WHERE n.name IS NOT NULL AND TRIM(n.name) != ''
+        AND (n.node_type IS NULL OR n.node_type != 'trash')
+        AND COALESCE(json_extract(n.raw_data, '$.props._ownerId'), '') NOT LIKE '%TRASH%'
+        ${tagFilter}
+      ORDER BY n.created, n.id
+    `)
+    .all(...(tags ?? [])) as ExportNode[];
+}
+
+/**
+ * Map node IDs to unique file names; later duplicates get their ID appended
+ */
+function assignFileNames(nodes: ExportNode[]): Map<string, string> {
+  const files = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    let base = toFileBaseName(node.name) || node.id;
+    if (used.has(base.toLowerCase())) {
+      base = `${base} (${node.id})`;
+    }
+    used.add(base.toLowerCase());
+    files.set(node.id, `${base}.md`);
+  }
+  return files;
+}
+
+/**
+ * Checksum of everything a node's file is rendered from, over its subtree
+ * (children and field tuples), referenced children and field values, and
+ * inline-referenced nodes: name, updated time, applied tags and field values
+ * of each, plus its node_checksums entry when the indexer wrote one.
+ * Delta-sync only touches nodes and tag_applications, so those are read directly.
+ */
+function computeSourceChecksum(
+  db: Database,
+  nodeId: string,
+  file: string,
+  maxDepth: number,
+  hasChecksums: boolean,
+): string | null {
+  const rows = db
+    .query(`
+      WITH RECURSIVE tree(id, depth) AS (
+        SELECT ?, 0
+        UNION ALL
+        SELECT n.id, t.depth + 1 FROM nodes n JOIN tree t ON n.parent_id = t.id
+        WHERE t.depth < ?
+      ),
+      sources(id) AS (
+        SELECT id FROM tree
+        UNION
+        SELECT j.value FROM tree t JOIN nodes n ON n.id = t.id, json_each(n.raw_data, '$.children') j
+        UNION
+        SELECT r.to_node FROM "references" r JOIN tree t ON r.from_node = t.id
+        WHERE r.reference_type = 'inline_ref'
+      )
+      SELECT n.id, n.name, n.updated,
+        ${hasChecksums ? '(SELECT checksum FROM node_checksums c WHERE c.node_id = n.id)' : 'NULL'} AS checksum,
+        (SELECT group_concat(tag_name, ',') FROM (
+          SELECT tag_name FROM tag_applications WHERE data_node_id = n.id ORDER BY tag_name
+        )) AS tags,
+        (SELECT group_concat(value, char(31)) FROM (
+          SELECT field_name || '=' || COALESCE(value_text, '') AS value FROM field_values
+          WHERE parent_id = n.id ORDER BY field_name, value_order, value_node_id
+        )) AS fields
+      FROM sources s JOIN nodes n ON n.id = s.id
+      ORDER BY n.id
+    `)
+    .all(nodeId, maxDepth + 2) as Array<{
+      id: string;
+      name: string | null;
+      updated: number | null;
+      checksum: string | null;
+      tags: string | null;
+      fields: string | null;
+    }>;
+
+  if (!rows.some((r) => r.id === nodeId)) return null;
+  return hash(file, ...rows.map((r) => [r.id, r.name, r.updated, r.checksum, r.tags, r.fields].map((v) => v ?? '').join('\x1e')));
+}
+
+function hash(...parts: string[]): string {
+  const h = createHash('sha1');
+  for (const part of parts) h.update(part).update('\0');
+  return h.digest('hex');
+}
+
+function loadManifest(path: string): ExportManifest {
+  if (!existsSync(path)) return { version: 1, nodes: {} };
+  try {
+    const manifest = JSON.parse(readFileSync(path, 'utf-8')) as ExportManifest;
+    return manifest.version === 1 && manifest.nodes ? manifest : { version: 1, nodes: {} };
+  } catch {
+    return { version: 1, nodes: {} };
+  }
+}
+
+function tableExists(db: Database, name: string): boolean {
+  return db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name) !== null;
+}
+
+/**
+ * Renders one node file (front-matter + child bullets)
+ */
+class MarkdownRenderer {
+  private nodeQuery;
+  private tagQuery;
+  private fieldQuery;
+  private hasFieldValues: boolean;
+
+  constructor(
+    private db: Database,
+    private files: Map<string, string>,
+    private maxDepth: number
+  ) {
+    this.nodeQuery = db.query('SELECT id, name, parent_id, raw_data FROM nodes WHERE id = ?');
+    this.tagQuery = db.query('SELECT DISTINCT tag_name FROM tag_applications WHERE data_node_id = ?');
+    this.hasFieldValues = tableExists(db, 'field_values');
+    this.fieldQuery = this.hasFieldValues
+      ? db.query(`
+          SELECT field_name, value_node_id, value_text FROM field_values
+          WHERE parent_id = ? ORDER BY field_name, value_order
+        `)
+      : null;
+  }
+
+  render(node: ExportNode): string {
+    const lines = ['---', `id: ${yamlScalar(node.id)}`, `title: ${yamlScalar(this.text(node.name))}`];
+
+    const tags = (this.tagQuery.all(node.id) as Array<{ tag_name: string }>)
+      .map((t) => t.tag_name.trim().replace(/\s+/g, '-'));
+    if (tags.length > 0) {
+      lines.push('tags:', ...tags.map((t) => `  - ${yamlScalar(t)}`));
+    }
+    if (node.created) lines.push(`created: ${new Date(node.created).toISOString()}`);
+    if (node.updated) lines.push(`updated: ${new Date(node.updated).toISOString()}`);
+
+    for (const [field, values] of this.fields(node.id)) {
+      if (values.length === 1) {
+        lines.push(`${yamlScalar(field)}: ${yamlScalar(values[0])}`);
+      } else {
+        lines.push(`${yamlScalar(field)}:`, ...values.map((v) => `  - ${yamlScalar(v)}`));
+      }
+    }
+    lines.push('---', '');
+
+    const body = this.children(node.id, 0);
+    if (body.length > 0) lines.push(...body, '');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Field values grouped by field name, with references as wikilinks
+   */
+  private fields(nodeId: string): Map<string, string[]> {
+    const grouped = new Map<string, string[]>();
+    if (!this.fieldQuery) return grouped;
+
+    const rows = this.fieldQuery.all(nodeId) as Array<{ field_name: string; value_node_id: string; value_text: string }>;
+    for (const row of rows) {
+      const linked = this.files.get(row.value_node_id);
+      const value = linked ? `[[${linked.slice(0, -3)}]]` : this.text(row.value_text);
+      if (!value) continue;
+      const values = grouped.get(row.field_name) ?? [];
+      values.push(value);
+      grouped.set(row.field_name, values);
+    }
+    return grouped;
+  }
+
+  private children(parentId: string, depth: number): string[] {
+    if (depth >= this.maxDepth) return [];
+    const parent = this.nodeQuery.get(parentId) as NodeRow | null;
+    const childIds = parseChildIds(parent?.raw_data ?? null);
+    const indent = '  '.repeat(depth);
+    const lines: string[] = [];
+
+    for (const childId of childIds) {
+      const child = this.nodeQuery.get(childId) as NodeRow | null;
+      if (!child || !child.raw_data) continue;
+
+      const raw = JSON.parse(child.raw_data) as { props?: { _docType?: string; _ownerId?: string } };
+      if (SKIPPED_DOC_TYPES.has(raw.props?._docType ?? '')) continue;
+      if ((raw.props?._ownerId ?? '').includes('TRASH')) continue;
+
+      // Tagged nodes have their own file; references point elsewhere in the graph
+      const file = this.files.get(childId);
+      if (file) {
+        lines.push(`${indent}- [[${file.slice(0, -3)}]]`);
+        continue;
+      }
+      if (child.parent_id !== parentId) {
+        lines.push(`${indent}- [[${this.linkTarget(childId, child.name ?? childId)}]]`);
+        continue;
+      }
+
+      const text = this.text(child.name ?? '');
+      if (!text) continue;
+      lines.push(`${indent}- ${text}`);
+      lines.push(...this.children(childId, depth + 1));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Convert Tana rich text to Markdown, rewriting inline references to wikilinks
+   */
+  private text(value: string): string {
+    const withLinks = value.replace(INLINE_REF_PATTERN, (_match, nodeId: string, display: string) => {
+      const target = this.linkTarget(nodeId, display);
+      return display && display !== target ? `[[${target}|${display}]]` : `[[${target}]]`;
+    });
+
+    return formatInlineRefs(withLinks, { nodeRefFormat: 'display' })
+      .replace(/<(b|strong)>(.*?)<\/\1>/g, '**$2**')
+      .replace(/<(i|em)>(.*?)<\/\1>/g, '*$2*')
+      .replace(/<a [^>]*href="([^"]+)"[^>]*>(.*?)<\/a>/g, '[$2]($1)')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&quot;/g, '"')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+      .replace(/\s*\n\s*/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Wikilink target for a node: its file when exported, else its name
+   */
+  private linkTarget(nodeId: string, fallback: string): string {
+    const file = this.files.get(nodeId);
+    if (file) return file.slice(0, -3);
+    const row = this.nodeQuery.get(nodeId) as NodeRow | null;
+    return toFileBaseName(row?.name ?? '') || toFileBaseName(fallback) || nodeId;
+  }
+}
+
+function parseChildIds(rawData: string | null): string[] {
+  if (!rawData) return [];
+  try {
+    const raw = JSON.parse(rawData) as { children?: unknown };
+    return Array.isArray(raw.children) ? raw.children.filter((c): c is string => typeof c === 'string') : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Outbound Webhooks
+ *
+ * After each reindex or delta-sync, the webhook rules (webhook-rules.ts) are
+ * evaluated against the index: per rule, the nodes carrying its supertag
+ * (tag_applications) and their value of the rule's field (field_values) are
+ * diffed against what the rule saw last time (webhook_rule_state). The
+ * transitions are POSTed as JSON events to the rule's URL:
+ * - tagged:  the node got the supertag (rule without condition)
+ * - matched: the node's field started matching the condition
+ * - changed: the node's field value changed ("<Field> changed")
+ *
+ * The first evaluation of a rule only records a baseline. Failed deliveries
+ * (network errors, 408, 429, 5xx) are retried with exponential backoff;
+ * events that still fail go to the dead-letter log, from where
+ * `supertag webhooks replay` resends them.
+ */
+
+import type { Database } from "bun:sqlite";
+import { randomUUID } from "crypto";
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { TANA_LOG_DIR, ensureDir } from "../config/paths";
+import { migrateWebhookRuleStateSchema, needsFieldValuesMigration } from "../db/migrate";
+import { describeNodeChanges, type NodeChangeSource } from "../db/node-changes";
+import { VERSION } from "../version";
+import { WebhookRuleStore, matchesWebhookCondition, type WebhookRule } from "./webhook-rules";
+
+/** Default dead-letter log location */
+export const WEBHOOK_DEAD_LETTER_FILE = join(TANA_LOG_DIR, "webhook-dead-letters.jsonl");
+
+/** Attempts per event (first try + retries) */
+const DEFAULT_MAX_ATTEMPTS = 4;
+
+/** First retry delay; doubles per attempt (1s, 2s, 4s) */
+const DEFAULT_BACKOFF_MS = 1000;
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** Statuses worth retrying; other 4xx mean the request itself is wrong */
+const RETRYABLE_STATUS_CODES = new Set([408, 429]);
+
+export type WebhookEventType = "tagged" | "matched" | "changed";
+
+export interface WebhookEvent {
+  /** Unique per event (also sent as X-Supertag-Delivery) */
+  id: string;
+  type: WebhookEventType;
+  rule: { id: string; name: string };
+  workspace?: string;
+  /** What triggered the evaluation ("test" for `supertag webhooks test`) */
+  source: NodeChangeSource | "test";
+  node: { id: string; name: string | null; tags: string[] };
+  /** The rule's field (rules with a condition) */
+  field?: { name: string; value: string | null; previous: string | null };
+  timestamp: string;
+}
+
+export interface WebhookContext {
+  /** Workspace alias (rules restricted to another workspace are skipped) */
+  workspace?: string;
+  source: NodeChangeSource;
+}
+
+export interface DeadLetter {
+  failedAt: string;
+  url: string;
+  attempts: number;
+  error: string;
+  event: WebhookEvent;
+}
+
+export interface DeliveryOptions {
+  maxAttempts?: number;
+  backoffMs?: number;
+  timeoutMs?: number;
+  /** Injectable for tests */
+  fetch?: typeof fetch;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+export interface OutboundWebhookRunResult {
+  events: number;
+  delivered: number;
+  deadLettered: number;
+}
+
+/**
+ * Append-only log of events that could not be delivered
+ */
+export class DeadLetterLog {
+  constructor(private filePath: string = WEBHOOK_DEAD_LETTER_FILE) {}
+
+  record(entry: DeadLetter): void {
+    ensureDir(dirname(this.filePath));
+    appendFileSync(this.filePath, JSON.stringify(entry) + "\n", "utf-8");
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  list(): DeadLetter[] {
+    if (!existsSync(this.filePath)) return [];
+    const entries: DeadLetter[] = [];
+    for (const line of readFileSync(this.filePath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as DeadLetter);
+      } catch {
+        // Skip a torn line from an interrupted write
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Replace the log (after a replay, with the entries that failed again)
+   */
+  replace(entries: DeadLetter[]): void {
+    ensureDir(dirname(this.filePath));
+    writeFileSync(this.filePath, entries.map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+  }
+}
+
+/**
+ * Nodes carrying the rule's supertag, with their value of the rule's field
+ * (multiple values comma-joined; null without a value or a condition)
+ */
+function readRuleState(db: Database, rule: WebhookRule): Map<string, string | null> {
+  const state = new Map<string, string | null>();
+  const nodes = db
+    .query("SELECT DISTINCT data_node_id AS id FROM tag_applications WHERE tag_name = ? COLLATE NOCASE")
+    .all(rule.tag) as Array<{ id: string }>;
+  for (const { id } of nodes) state.set(id, null);
+  if (!rule.when || needsFieldValuesMigration(db)) return state;
+
+  const values = db
+    .query(`
+      SELECT fv.parent_id AS id, fv.value_text AS value
+      FROM field_values fv
+      WHERE fv.field_name = ? COLLATE NOCASE
+        AND fv.parent_id IN (SELECT data_node_id FROM tag_applications WHERE tag_name = ? COLLATE NOCASE)
+      ORDER BY fv.parent_id, fv.value_order
+    `)
+    .all(rule.when.field, rule.tag) as Array<{ id: string; value: string }>;
+  for (const { id, value } of values) {
+    const current = state.get(id);
+    state.set(id, current ? `${current}, ${value}` : value);
+  }
+  return state;
+}
+
+/**
+ * Transitions between two states of a rule
+ */
+function diffRuleState(
+  rule: WebhookRule,
+  previous: Map<string, string | null>,
+  current: Map<string, string | null>
+): Array<{ nodeId: string; type: WebhookEventType; value: string | null; previous: string | null }> {
+  const fired: Array<{ nodeId: string; type: WebhookEventType; value: string | null; previous: string | null }> = [];
+  for (const [nodeId, value] of current) {
+    const known = previous.has(nodeId);
+    const before = previous.get(nodeId) ?? null;
+    if (!rule.when) {
+      if (!known) fired.push({ nodeId, type: "tagged", value, previous: before });
+    } else if (rule.when.operator === "changed") {
+      if (known && before !== value) fired.push({ nodeId, type: "changed", value, previous: before });
+    } else if (
+      matchesWebhookCondition(rule.when, value) &&
+      !(known && matchesWebhookCondition(rule.when, before))
+    ) {
+      fired.push({ nodeId, type: "matched", value, previous: before });
+    }
+  }
+  return fired;
+}
+
+/**
+ * Evaluate rules against the index and advance their state
+ *
+ * @returns Events to deliver, with their rule
+ */
+export function evaluateWebhookRules(
+  db: Database,
+  rules: WebhookRule[],
+  context: WebhookContext,
+  now: Date = new Date()
+): Array<{ rule: WebhookRule; event: WebhookEvent }> {
+  migrateWebhookRuleStateSchema(db);
+  const fired: Array<{ rule: WebhookRule; transition: ReturnType<typeof diffRuleState>[number] }> = [];
+
+  db.transaction(() => {
+    // Forget removed rules
+    const placeholders = rules.map(() => "?").join(",");
+    const ids = rules.map((r) => r.id);
+    db.run(`DELETE FROM webhook_rule_state WHERE rule_id NOT IN (${placeholders})`, ids);
+    db.run(`DELETE FROM webhook_rule_runs WHERE rule_id NOT IN (${placeholders})`, ids);
+
+    const insert = db.prepare("INSERT INTO webhook_rule_state (rule_id, node_id, value) VALUES (?, ?, ?)");
+    for (const rule of rules) {
+      if (rule.workspace && rule.workspace !== context.workspace) continue;
+
+      const current = readRuleState(db, rule);
+      const hasBaseline = db.query("SELECT 1 FROM webhook_rule_runs WHERE rule_id = ?").get(rule.id) !== null;
+      if (hasBaseline) {
+        const rows = db
+          .query("SELECT node_id, value FROM webhook_rule_state WHERE rule_id = ?")
+          .all(rule.id) as Array<{ node_id: string; value: string | null }>;
+        const previous = new Map(rows.map((r) => [r.node_id, r.value]));
+        for (const transition of diffRuleState(rule, previous, current)) fired.push({ rule, transition });
+      }
+
+      db.run("DELETE FROM webhook_rule_state WHERE rule_id = ?", [rule.id]);
+      for (const [nodeId, value] of current) insert.run(rule.id, nodeId, value);
+      db.run("INSERT OR REPLACE INTO webhook_rule_runs (rule_id, evaluated_at) VALUES (?, ?)", [rule.id, now.getTime()]);
+    }
+  })();
+
+  const nodes = new Map(
+    describeNodeChanges(db, [...new Set(fired.map((f) => f.transition.nodeId))], "updated").map((n) => [n.nodeId, n])
+  );
+  return fired.map(({ rule, transition }) => {
+    const node = nodes.get(transition.nodeId);
+    return {
+      rule,
+      event: {
+        id: randomUUID(),
+        type: transition.type,
+        rule: { id: rule.id, name: rule.name },
+        ...(context.workspace && { workspace: context.workspace }),
+        source: context.source,
+        node: { id: transition.nodeId, name: node?.name ?? null, tags: node?.tags ?? [] },
+        ...(rule.when && {
+          field: { name: rule.when.field, value: transition.value, previous: transition.previous },
+        }),
+        timestamp: now.toISOString(),
+      },
+    };
+  });
+}
+
+/**
+ * Sample event for `supertag webhooks test`
+ */
+export function createTestWebhookEvent(rule: WebhookRule): WebhookEvent {
+  return {
+    id: randomUUID(),
+    type: rule.when ? (rule.when.operator === "changed" ? "changed" : "matched") : "tagged",
+    rule: { id: rule.id, name: rule.name },
+    ...(rule.workspace && { workspace: rule.workspace }),
+    source: "test",
+    node: { id: "test-node", name: "Test node", tags: [rule.tag] },
+    ...(rule.when && { field: { name: rule.when.field, value: rule.when.value ?? null, previous: null } }),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * POST an event, retrying transient failures with exponential backoff
+ */
+export async function deliverWebhookEvent(
+  target: Pick<WebhookRule, "url" | "headers">,
+  event: WebhookEvent,
+  options: DeliveryOptions = {}
+): Promise<DeliveryResult> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+  const doFetch = options.fetch ?? fetch;
+  let last: DeliveryResult = { ok: false, attempts: 0 };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) await new Promise((resolve) => setTimeout(resolve, backoffMs * 2 ** (attempt - 2)));
+    try {
+      const response = await doFetch(target.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": `supertag-cli/${VERSION}`,
+          "X-Supertag-Event": event.type,
+          "X-Supertag-Delivery": event.id,
+          ...target.headers,
+        },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      if (response.ok) return { ok: true, attempts: attempt, status: response.status };
+      last = { ok: false, attempts: attempt, status: response.status, error: `HTTP ${response.status}` };
+      if (response.status < 500 && !RETRYABLE_STATUS_CODES.has(response.status)) return last;
+    } catch (error) {
+      last = { ok: false, attempts: attempt, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  return last;
+}
+
+/**
+ * Evaluates the configured rules after a sync and delivers their events
+ */
+export class OutboundWebhooks {
+  private rules: WebhookRuleStore;
+  private deadLetters: DeadLetterLog;
+
+  constructor(private options: DeliveryOptions & { rules?: WebhookRuleStore; deadLetters?: DeadLetterLog } = {}) {
+    this.rules = options.rules ?? new WebhookRuleStore();
+    this.deadLetters = options.deadLetters ?? new DeadLetterLog();
+  }
+
+  /**
+   * Evaluate all rules against a workspace's index and deliver the events
+   *
+   * Events for a target that already failed in this run go straight to the
+   * dead-letter log, so an unreachable target does not stall the sync.
+   */
+  async run(db: Database, context: WebhookContext): Promise<OutboundWebhookRunResult> {
+    const rules = this.rules.list();
+    if (rules.length === 0) return { events: 0, delivered: 0, deadLettered: 0 };
+
+    const pending = evaluateWebhookRules(db, rules, context);
+    const failing = new Map<string, string>();
+    let delivered = 0;
+    for (const { rule, event } of pending) {
+      const skipped = failing.get(rule.url);
+      const result: DeliveryResult = skipped
+        ? { ok: false, attempts: 0, error: `Skipped, target failing: ${skipped}` }
+        : await deliverWebhookEvent(rule, event, this.options);
+      if (result.ok) {
+        delivered++;
+        continue;
+      }
+      if (!skipped) failing.set(rule.url, result.error ?? "unknown error");
+      this.deadLetters.record({
+        failedAt: new Date().toISOString(),
+        url: rule.url,
+        attempts: result.attempts,
+        error: result.error ?? "unknown error",
+        event,
+      });
+    }
+    return { events: pending.length, delivered, deadLettered: pending.length - delivered };
+  }
+
+  /**
+   * Resend dead-lettered events (with the current headers of their rule)
+   *
+   * @returns Counts; events that fail again stay in the log
+   */
+  async replay(): Promise<{ delivered: number; failed: number }> {
+    const rules = new Map(this.rules.list().map((r) => [r.id, r]));
+    const entries = this.deadLetters.list();
+    const failed: DeadLetter[] = [];
+    for (const entry of entries) {
+      const result = await deliverWebhookEvent(
+        { url: entry.url, headers: rules.get(entry.event.rule.id)?.headers },
+        entry.event,
+        this.options
+      );
+      if (!result.ok) {
+        failed.push({
+          ...entry,
+          failedAt: new Date().toISOString(),
+          attempts: entry.attempts + result.attempts,
+          error: result.error ?? "unknown error",
+        });
+      }
+    }
+    // Keep entries a concurrent sync appended meanwhile
+    const appended = this.deadLetters.list().slice(entries.length);
+    this.deadLetters.replace([...failed, ...appended]);
+    return { delivered: entries.length - failed.length, failed: failed.length };
+  }
+}
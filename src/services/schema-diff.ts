@@ -0,0 +1,279 @@
+/**
+ * Schema Diff
+ *
+ * Detects schema drift between a baseline and the current index: added,
+ * removed and renamed supertags and fields, data type changes and option
+ * changes. Supertags and fields are matched by ID, so a renamed field is
+ * reported as a rename rather than as a removal plus an addition.
+ *
+ * The baseline is a snapshot saved earlier (supertag schema diff --save)
+ * or a previous Tana export, which is indexed into a temporary in-memory
+ * database so both sides go through the same extraction.
+ *
+ * Usage:
+ *   supertag schema diff --save            # Record the current schema as baseline
+ *   supertag schema diff                   # Report changes since the baseline
+ *   supertag schema diff --check           # Exit 1 if anything changed (CI gate)
+ *   supertag schema diff old-export.json   # Compare against a previous export
+ */
+
+import type { Database } from "bun:sqlite";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { TanaIndexer } from "../db/indexer";
+import { StructuredError } from "../utils/structured-errors";
+import { SupertagMetadataService } from "./supertag-metadata-service";
+import { UnifiedSchemaService } from "./unified-schema-service";
+
+export const SCHEMA_SNAPSHOT_VERSION = 1;
+
+export interface SnapshotField {
+  attributeId: string;
+  name: string;
+  dataType: string | null;
+  /** Option values (options fields with values known from the index) */
+  options?: string[];
+}
+
+export interface SnapshotSupertag {
+  id: string;
+  name: string;
+  /** Own fields (inherited fields belong to the parent) */
+  fields: SnapshotField[];
+}
+
+export interface SchemaSnapshot {
+  version: typeof SCHEMA_SNAPSHOT_VERSION;
+  /** ISO timestamp */
+  createdAt: string;
+  /** "index" or the path of the export the snapshot was built from */
+  source: string;
+  supertags: SnapshotSupertag[];
+}
+
+export type SchemaChangeType =
+  | "supertag-added"
+  | "supertag-removed"
+  | "supertag-renamed"
+  | "field-added"
+  | "field-removed"
+  | "field-renamed"
+  | "field-type-changed"
+  | "options-added"
+  | "options-removed";
+
+export interface SchemaChange {
+  type: SchemaChangeType;
+  /** Supertag name (the baseline's if removed, otherwise the current one) */
+  supertag: string;
+  supertagId: string;
+  /** Field name (the baseline's if removed, otherwise the current one) */
+  field?: string;
+  attributeId?: string;
+  /** Previous name or data type (renames and type changes) */
+  from?: string | null;
+  /** New name or data type (renames and type changes) */
+  to?: string | null;
+  /** Added or removed option values */
+  values?: string[];
+  /** Whether code or queries relying on the baseline may break */
+  breaking: boolean;
+}
+
+/**
+ * Build a snapshot of the supertags and fields in a database.
+ *
+ * @param db - Indexed database
+ * @param source - Where the schema comes from (stored in the snapshot)
+ */
+export function createSchemaSnapshot(db: Database, source = "index"): SchemaSnapshot {
+  const schema = new UnifiedSchemaService(db);
+  const metadata = new SupertagMetadataService(db);
+
+  const supertags = schema.listSupertags().map((tag): SnapshotSupertag => {
+    const optionValues = new Map(metadata.getFields(tag.id).map((f) => [f.fieldLabelId, f.optionValues]));
+    return {
+      id: tag.id,
+      name: tag.name,
+      fields: tag.fields.map((field): SnapshotField => {
+        const options = optionValues.get(field.attributeId);
+        return {
+          attributeId: field.attributeId,
+          name: field.name,
+          dataType: field.dataType ?? null,
+          ...(options && options.length > 0 && { options }),
+        };
+      }),
+    };
+  });
+
+  return { version: SCHEMA_SNAPSHOT_VERSION, createdAt: new Date().toISOString(), source, supertags };
+}
+
+/**
+ * Build a snapshot from a Tana export by indexing it into memory.
+ *
+ * @param exportPath - Path to a Tana export JSON file
+ */
+export async function createSchemaSnapshotFromExport(exportPath: string): Promise<SchemaSnapshot> {
+  const indexer = new TanaIndexer(":memory:");
+  try {
+    await indexer.initializeSchema();
+    await indexer.indexExport(exportPath);
+    return createSchemaSnapshot(indexer.getDatabase(), exportPath);
+  } finally {
+    indexer.close();
+  }
+}
+
+/**
+ * Write a snapshot to a file, creating its directory.
+ */
+export function saveSchemaSnapshot(snapshot: SchemaSnapshot, path: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(snapshot, null, 2) + "\n");
+}
+
+/**
+ * Load a baseline: a saved snapshot, or a Tana export.
+ *
+ * @throws StructuredError if the file is missing or neither a snapshot nor an export
+ */
+export async function loadSchemaBaseline(path: string): Promise<SchemaSnapshot> {
+  if (!existsSync(path)) {
+    throw new StructuredError("CONFIG_NOT_FOUND", `No schema baseline at ${path}`, {
+      details: { path },
+      suggestion: "Save one with: supertag schema diff --save (or pass a previous Tana export)",
+    });
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8")) as Record<string, unknown>;
+  } catch (error) {
+    throw new StructuredError("INVALID_FORMAT", `Invalid JSON in schema baseline ${path}: ${(error as Error).message}`, {
+      details: { path },
+    });
+  }
+
+  if (Array.isArray(data.docs) || data.storeData) {
+    return createSchemaSnapshotFromExport(path);
+  }
+  if (data.version === SCHEMA_SNAPSHOT_VERSION && typeof data.createdAt === "string" && Array.isArray(data.supertags)) {
+    return data as unknown as SchemaSnapshot;
+  }
+  throw new StructuredError("INVALID_FORMAT", `Not a schema snapshot or Tana export: ${path}`, {
+    details: { path },
+    suggestion: "Pass a file written by supertag schema diff --save, or a Tana export JSON",
+  });
+}
+
+/**
+ * Compare the fields of a supertag present in both snapshots.
+ */
+function diffFields(base: SnapshotSupertag, current: SnapshotSupertag): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const tag = { supertag: current.name, supertagId: current.id };
+  const currentFields = new Map(current.fields.map((f) => [f.attributeId, f]));
+  const baseFields = new Map(base.fields.map((f) => [f.attributeId, f]));
+
+  for (const field of base.fields) {
+    if (!currentFields.has(field.attributeId)) {
+      changes.push({ type: "field-removed", ...tag, field: field.name, attributeId: field.attributeId, breaking: true });
+    }
+  }
+
+  for (const field of current.fields) {
+    const ref = { ...tag, field: field.name, attributeId: field.attributeId };
+    const before = baseFields.get(field.attributeId);
+    if (!before) {
+      changes.push({ type: "field-added", ...ref, breaking: false });
+      continue;
+    }
+    if (before.name !== field.name) {
+      changes.push({ type: "field-renamed", ...ref, from: before.name, to: field.name, breaking: true });
+    }
+    if (before.dataType !== field.dataType) {
+      changes.push({ type: "field-type-changed", ...ref, from: before.dataType, to: field.dataType, breaking: true });
+    }
+    const removed = (before.options ?? []).filter((v) => !field.options?.includes(v));
+    if (removed.length > 0) {
+      changes.push({ type: "options-removed", ...ref, values: removed, breaking: true });
+    }
+    const added = (field.options ?? []).filter((v) => !before.options?.includes(v));
+    if (added.length > 0) {
+      changes.push({ type: "options-added", ...ref, values: added, breaking: false });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two snapshots.
+ *
+ * @param baseline - Earlier schema
+ * @param current - Current schema
+ * @returns Changes, grouped by supertag (sorted by name)
+ */
+export function diffSchemaSnapshots(baseline: SchemaSnapshot, current: SchemaSnapshot): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const currentTags = new Map(current.supertags.map((t) => [t.id, t]));
+  const baseTags = new Map(baseline.supertags.map((t) => [t.id, t]));
+
+  for (const tag of baseline.supertags) {
+    if (!currentTags.has(tag.id)) {
+      changes.push({ type: "supertag-removed", supertag: tag.name, supertagId: tag.id, breaking: true });
+    }
+  }
+
+  for (const tag of current.supertags) {
+    const before = baseTags.get(tag.id);
+    if (!before) {
+      changes.push({ type: "supertag-added", supertag: tag.name, supertagId: tag.id, breaking: false });
+      continue;
+    }
+    if (before.name !== tag.name) {
+      changes.push({
+        type: "supertag-renamed",
+        supertag: tag.name,
+        supertagId: tag.id,
+        from: before.name,
+        to: tag.name,
+        breaking: true,
+      });
+    }
+    changes.push(...diffFields(before, tag));
+  }
+
+  // Stable sort keeps the order within a supertag
+  return changes.sort((a, b) => a.supertag.localeCompare(b.supertag));
+}
+
+/**
+ * Describe a change in one line, e.g. "#task › Owner renamed to Assignee".
+ */
+export function formatSchemaChange(change: SchemaChange): string {
+  const tag = `#${change.supertag}`;
+  const field = `${tag} › ${change.field}`;
+  switch (change.type) {
+    case "supertag-added":
+      return `${tag} added`;
+    case "supertag-removed":
+      return `${tag} removed`;
+    case "supertag-renamed":
+      return `#${change.from} renamed to #${change.to}`;
+    case "field-added":
+      return `${field} added`;
+    case "field-removed":
+      return `${field} removed`;
+    case "field-renamed":
+      return `${tag} › ${change.from} renamed to ${change.to}`;
+    case "field-type-changed":
+      return `${field} type changed from ${change.from ?? "unknown"} to ${change.to ?? "unknown"}`;
+    case "options-added":
+      return `${field} options added: ${change.values?.join(", ")}`;
+    case "options-removed":
+      return `${field} options removed: ${change.values?.join(", ")}`;
+  }
+}
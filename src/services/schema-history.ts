@@ -0,0 +1,163 @@
+/**
+ * Schema History
+ *
+ * Point-in-time browsing of the schema versions stored by each sync (see
+ * db/schema-versions.ts):
+ * - openSchemaAt():        a database holding the schema as of a date, for
+ *                          tags show --at and codegen --at
+ * - getSupertagHistory():  when a supertag's fields were added, removed,
+ *                          renamed or changed type, version by version
+ *
+ * Usage:
+ *   supertag schema history task
+ *   supertag tags show task --at 2026-01-15
+ *   supertag codegen generate -o ./generated/schemas.ts --at 2026-01-15
+ */
+
+import type { Database } from "bun:sqlite";
+import { TanaIndexer } from "../db/indexer";
+import {
+  findSchemaVersionAt,
+  getSchemaVersionData,
+  listSchemaVersions,
+  restoreSchemaVersionData,
+  type SchemaVersion,
+} from "../db/schema-versions";
+import { parseDateValue } from "../query/date-resolver";
+import { StructuredError } from "../utils/structured-errors";
+import {
+  SCHEMA_SNAPSHOT_VERSION,
+  createSchemaSnapshot,
+  diffSchemaSnapshots,
+  type SchemaChange,
+  type SchemaSnapshot,
+  type SnapshotSupertag,
+} from "./schema-diff";
+
+export interface HistoricSchema {
+  /** In-memory database with the version's supertag metadata (close when done) */
+  db: Database;
+  version: SchemaVersion;
+}
+
+export interface SupertagHistoryEntry {
+  version: SchemaVersion;
+  /** The supertag is in the first stored version (history starts here) */
+  initial: boolean;
+  changes: SchemaChange[];
+}
+
+export interface SupertagHistory {
+  tagId: string;
+  /** Latest known name */
+  name: string;
+  entries: SupertagHistoryEntry[];
+}
+
+/**
+ * Open a stored version as a database: the full index schema (empty) with
+ * the version's supertag metadata, so schema services work on it unchanged.
+ */
+export async function openSchemaVersion(db: Database, version: SchemaVersion): Promise<HistoricSchema> {
+  const data = getSchemaVersionData(db, version.version);
+  if (!data) {
+    throw new StructuredError("INVALID_PARAMETER", `Schema version ${version.version} not found`);
+  }
+
+  const indexer = new TanaIndexer(":memory:");
+  await indexer.initializeSchema();
+  const historic = indexer.getDatabase();
+  restoreSchemaVersionData(historic, data);
+  return { db: historic, version };
+}
+
+/**
+ * Open the schema in effect at a date (the latest version stored at or before it).
+ *
+ * @param db - Index database
+ * @param at - ISO date/datetime, relative date (30d, 2w) or Unix ms
+ * @throws StructuredError if the date is invalid or before the first version
+ */
+export async function openSchemaAt(db: Database, at: string): Promise<HistoricSchema> {
+  let timestamp: number;
+  try {
+    timestamp = parseDateValue(at);
+  } catch (error) {
+    throw new StructuredError("INVALID_PARAMETER", (error as Error).message, { details: { at } });
+  }
+
+  const version = findSchemaVersionAt(db, timestamp);
+  if (!version) {
+    const first = listSchemaVersions(db)[0];
+    throw new StructuredError("INVALID_PARAMETER", `No schema version at or before ${at}`, {
+      details: { at },
+      suggestion: first
+        ? `Schema history starts at ${new Date(first.createdAt).toISOString()}`
+        : "Schema versions are stored by each sync; run supertag sync index first",
+    });
+  }
+  return openSchemaVersion(db, version);
+}
+
+function snapshotOf(tags: SnapshotSupertag[]): SchemaSnapshot {
+  return { version: SCHEMA_SNAPSHOT_VERSION, createdAt: "", source: "", supertags: tags };
+}
+
+/**
+ * Changes of one supertag across all stored versions.
+ *
+ * @param db - Index database
+ * @param tag - Supertag name (case-insensitive; the latest version using it wins) or ID
+ * @throws StructuredError if no version has the supertag
+ */
+export async function getSupertagHistory(db: Database, tag: string): Promise<SupertagHistory> {
+  const versions = listSchemaVersions(db);
+  const snapshots: Array<{ version: SchemaVersion; tags: Map<string, SnapshotSupertag> }> = [];
+  for (const version of versions) {
+    const historic = await openSchemaVersion(db, version);
+    try {
+      const { supertags } = createSchemaSnapshot(historic.db, `v${version.version}`);
+      snapshots.push({ version, tags: new Map(supertags.map((t) => [t.id, t])) });
+    } finally {
+      historic.db.close();
+    }
+  }
+
+  const wanted = tag.toLowerCase();
+  let match: SnapshotSupertag | undefined;
+  for (const { tags } of [...snapshots].reverse()) {
+    match = tags.get(tag) ?? [...tags.values()].find((t) => t.name.toLowerCase() === wanted);
+    if (match) break;
+  }
+  if (!match) {
+    throw new StructuredError("TAG_NOT_FOUND", `Supertag not found in schema history: ${tag}`, {
+      details: { tag },
+      suggestion: versions.length === 0 ? "Schema versions are stored by each sync; run supertag sync index first" : undefined,
+    });
+  }
+
+  const tagId = match.id;
+  const entries: SupertagHistoryEntry[] = [];
+  let previous: SnapshotSupertag | undefined;
+  snapshots.forEach(({ version, tags }, index) => {
+    const current = tags.get(tagId);
+    let changes: SchemaChange[] = [];
+    if (current && !previous) {
+      // New supertag: list its fields as added
+      changes = [
+        { type: "supertag-added", supertag: current.name, supertagId: current.id, breaking: false },
+        ...diffSchemaSnapshots(snapshotOf([{ ...current, fields: [] }]), snapshotOf([current])),
+      ];
+    } else if (previous && !current) {
+      changes = [{ type: "supertag-removed", supertag: previous.name, supertagId: previous.id, breaking: true }];
+    } else if (previous && current) {
+      changes = diffSchemaSnapshots(snapshotOf([previous]), snapshotOf([current]));
+    }
+    if (changes.length > 0) {
+      entries.push({ version, initial: index === 0, changes });
+    }
+    previous = current;
+  });
+
+  return { tagId, name: match.name, entries };
+}
@@ -0,0 +1,156 @@
+/**
+ * Similar Nodes Service ("more like this")
+ *
+ * Finds the nearest neighbours of an existing node in embedding space and
+ * merges them with its structural neighbours from GraphTraversalService,
+ * so duplicates and related items that nobody linked stand out.
+ *
+ * resona has no lookup of stored vectors by ID, so the node's embedding text
+ * (context text, plus chunk text for chunked nodes) is rebuilt and used as the
+ * query; with the model that generated the embeddings this reproduces the
+ * stored vector.
+ */
+
+import { GraphTraversalService } from './graph-traversal';
+import { withDatabase } from '../db/with-database';
+import { buildContextualizedNode } from '../embeddings/contextualize';
+import { getChunksById, parseChunkId } from '../embeddings/chunking';
+import { enrichSearchResults, filterByTag, filterReferenceSyntax, getOverfetchLimit } from '../embeddings/search-filter';
+import type { TanaSearchResult } from '../embeddings/tana-embedding-service';
+import { StructuredError } from '../utils/structured-errors';
+import { ALL_RELATIONSHIP_TYPES, type RelatedNode, type SimilarNode, type SimilarResult } from '../types/graph';
+
+/** Upper bound on chunk vectors used as queries for one node */
+const MAX_QUERY_VECTORS = 8;
+
+/**
+ * Vector index operations used for the lookup (TanaEmbeddingService)
+ */
+export interface SimilarityIndex {
+  search(query: string, k: number): Promise<TanaSearchResult[]>;
+  getEmbeddedIds(): Promise<string[]>;
+}
+
+/**
+ * Input for a similarity lookup
+ */
+export interface SimilarQuery {
+  /** Source node ID */
+  nodeId: string;
+  /** Maximum number of similar nodes */
+  limit: number;
+  /** Only return nodes with this supertag */
+  tag?: string;
+  /** Minimum similarity (0-1) */
+  minSimilarity?: number;
+  /** Merge in direct structural neighbours (default: true) */
+  includeStructural?: boolean;
+}
+
+/**
+ * Service for "more like this" lookups
+ */
+export class SimilarNodesService {
+  constructor(
+    private readonly dbPath: string,
+    private readonly index: SimilarityIndex
+  ) {}
+
+  /**
+   * Find nodes similar to the source node
+   *
+   * @throws StructuredError NODE_NOT_FOUND if the node doesn't exist or has no embedding
+   */
+  async findSimilar(query: SimilarQuery, workspace: string): Promise<SimilarResult> {
+    const { nodeId, limit, tag, minSimilarity, includeStructural = true } = query;
+
+    const vectorIds = (await this.index.getEmbeddedIds()).filter((id) => parseChunkId(id).nodeId === nodeId);
+
+    const source = await withDatabase({ dbPath: this.dbPath, readonly: true }, (ctx) => {
+      const node = ctx.db.query('SELECT id, name FROM nodes WHERE id = ?').get(nodeId) as { id: string; name: string | null } | null;
+      if (!node) {
+        throw new StructuredError('NODE_NOT_FOUND', `Node '${nodeId}' not found`, {
+          details: { nodeId },
+          suggestion: 'Check that the node ID is correct',
+        });
+      }
+      if (vectorIds.length === 0) {
+        throw new StructuredError('NODE_NOT_FOUND', `Node '${nodeId}' has no embedding`, {
+          details: { nodeId },
+          suggestion: 'Generate embeddings first: supertag embed generate',
+        });
+      }
+
+      const contextText = buildContextualizedNode(ctx.db, nodeId, node.name ?? '').contextText;
+      const chunks = getChunksById(ctx.db, vectorIds.filter((id) => id !== nodeId));
+      const texts = vectorIds
+        .slice(0, MAX_QUERY_VECTORS)
+        .map((id) => (chunks.has(id) ? `${contextText}\n${chunks.get(id)!.text}` : contextText));
+
+      return { name: node.name ?? '', texts: [...new Set(texts)] };
+    });
+
+    // Query with each of the node's vectors, keeping the best hit per node
+    const fetchLimit = tag ? getOverfetchLimit(limit) * 3 : getOverfetchLimit(limit);
+    const best = new Map<string, TanaSearchResult>();
+    for (const text of source.texts) {
+      for (const hit of await this.index.search(text, fetchLimit + 1)) {
+        if (hit.nodeId === nodeId) continue;
+        const current = best.get(hit.nodeId);
+        if (!current || hit.similarity > current.similarity) best.set(hit.nodeId, hit);
+      }
+    }
+    const hits = [...best.values()].sort((a, b) => b.similarity - a.similarity);
+
+    const lowerTag = tag?.replace(/^#/, '').toLowerCase();
+    const neighbours = includeStructural ? await this.getStructuralNeighbours(nodeId, workspace, limit) : new Map<string, RelatedNode>();
+
+    const similar = await withDatabase({ dbPath: this.dbPath, readonly: true }, (ctx) => {
+      let enriched = filterReferenceSyntax(enrichSearchResults(ctx.db, hits));
+      if (lowerTag) enriched = filterByTag(enriched, lowerTag);
+      if (minSimilarity !== undefined) enriched = enriched.filter((r) => r.similarity >= minSimilarity);
+
+      const nodes: SimilarNode[] = enriched.slice(0, limit).map((r) => ({
+        id: r.nodeId,
+        name: r.name,
+        ...(r.tags && { tags: r.tags }),
+        similarity: r.similarity,
+        ...(r.chunkId && { chunkId: r.chunkId }),
+        ...(neighbours.has(r.nodeId) && { relationship: neighbours.get(r.nodeId)!.relationship }),
+      }));
+      return nodes;
+    });
+
+    const unlinked = similar.filter((n) => !n.relationship).length;
+    const found = new Set(similar.map((n) => n.id));
+    for (const neighbour of neighbours.values()) {
+      if (found.has(neighbour.id)) continue;
+      if (lowerTag && !neighbour.tags?.some((t) => t.toLowerCase() === lowerTag)) continue;
+      similar.push({ ...neighbour, similarity: null });
+    }
+
+    return {
+      workspace,
+      sourceNode: { id: nodeId, name: source.name },
+      similar,
+      count: similar.length,
+      unlinked,
+    };
+  }
+
+  /**
+   * Direct neighbours of the node through any relationship type
+   */
+  private async getStructuralNeighbours(nodeId: string, workspace: string, limit: number): Promise<Map<string, RelatedNode>> {
+    const graph = new GraphTraversalService(this.dbPath);
+    try {
+      const result = await graph.traverse(
+        { nodeId, direction: 'both', types: [...ALL_RELATIONSHIP_TYPES], depth: 1, limit },
+        workspace
+      );
+      return new Map(result.related.map((n) => [n.id, n]));
+    } finally {
+      graph.close();
+    }
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Tana Paste Import Service
+ *
+ * Imports an arbitrary Tana Paste document (nested children, fields,
+ * supertags and [[references]]) into Tana:
+ *
+ * 1. Parse with TanaPasteConverter and split `#tags` out of node names
+ * 2. Resolve tags, fields and [[references]] against the local index
+ * 3. Create the tree with whichever backend is active:
+ *    - Local API: one importTanaPaste() call with resolved IDs
+ *    - Input API: createNodes() in chunks that respect the API limits
+ *
+ * Unresolved and ambiguous references are left as `[[Name]]` (Local API
+ * creates new nodes for them, Input API imports them as plain text) and
+ * reported.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { TanaApiNode, TanaApiFieldNode, TanaApiReferenceNode } from '../types';
+import type { TanaBackend, BackendType } from '../api/backend';
+import { TanaPasteConverter, type TanaNode } from '../converters/tana-paste';
+import { UnifiedSchemaService } from './unified-schema-service';
+import { MAX_NODES_PER_REQUEST, MAX_PAYLOAD_SIZE } from '../api/client';
+import { StructuredError } from '../utils/structured-errors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A supertag or field name with its resolved ID (if found in the index)
+ */
+export interface ResolvedName {
+  name: string;
+  id?: string;
+}
+
+export interface PasteField extends ResolvedName {
+  values: string[];
+}
+
+/**
+ * A node parsed from Tana Paste
+ */
+export interface PasteNode {
+  /** Node name without `#tag` tokens ([[references]] kept as written) */
+  name: string;
+  tags: ResolvedName[];
+  fields: PasteField[];
+  children: PasteNode[];
+}
+
+/**
+ * Looks up IDs in the local index
+ */
+export interface ImportResolver {
+  resolveTag(name: string): string | null;
+  resolveField(tagId: string, fieldName: string): string | null;
+  /** IDs of all nodes with this name */
+  resolveReference(name: string): string[];
+}
+
+/**
+ * A reference name matching more than one node
+ */
+export interface AmbiguousReference {
+  name: string;
+  nodeIds: string[];
+}
+
+export interface ImportReport {
+  /** Total nodes in the document (including nested children) */
+  nodeCount: number;
+  resolvedReferences: number;
+  /** Reference names that matched no node in the index */
+  unresolvedReferences: string[];
+  /** Reference names that matched several nodes (left unlinked) */
+  ambiguousReferences: AmbiguousReference[];
+  /** Supertags not found in the index (Local API creates them, Input API drops them) */
+  unresolvedTags: string[];
+  /** Field names not defined on the node's supertags */
+  unresolvedFields: string[];
+}
+
+/**
+ * A parsed and resolved import, ready to send to a backend
+ */
+export interface ImportPlan {
+  nodes: PasteNode[];
+  /** Reference name → node ID (null when unresolved or ambiguous) */
+  references: Map<string, string | null>;
+  report: ImportReport;
+}
+
+export interface ImportResult {
+  backend: BackendType;
+  target: string;
+  /** Number of API requests made */
+  requests: number;
+  nodeIds: string[];
+  /** Unknown supertags left off the nodes (the Input API cannot create supertags) */
+  droppedTags: string[];
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const TAG_PATTERN = /(^|\s)#(?:\[\[([^\]]+)\]\]|([\p{L}\p{N}_-]+))/gu;
+const REFERENCE_PATTERN = /\[\[([^\]^]+)\]\]/g;
+
+/**
+ * Split `#tag` and `#[[multi word tag]]` tokens out of a node name
+ */
+export function extractTags(line: string): { name: string; tags: string[] } {
+  const tags: string[] = [];
+  const name = line
+    .replace(TAG_PATTERN, (_match, lead: string, bracketed?: string, bare?: string) => {
+      const tag = (bracketed ?? bare ?? '').trim();
+      if (tag && !tags.includes(tag)) tags.push(tag);
+      return lead;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { name, tags };
+}
+
+/**
+ * Parse a Tana Paste document into a node tree
+ *
+ * @throws Error if the document has no nodes
+ */
+export function parseTanaPasteDocument(content: string): PasteNode[] {
+  const json = new TanaPasteConverter().tanaToJson(content);
+  const nodes = json.filter((n) => n.name !== undefined).map(toPasteNode);
+  if (nodes.length === 0) {
+    throw new StructuredError('INVALID_FORMAT', 'No nodes found in Tana Paste input', {
+      suggestion: 'Each node must be a line starting with "- "',
+    });
+  }
+  return nodes;
+}
+
+function toPasteNode(json: TanaNode): PasteNode {
+  const { name, tags } = extractTags(String(json.name ?? ''));
+  const fields: PasteField[] = [];
+
+  for (const [key, value] of Object.entries(json)) {
+    if (key === 'name' || key === 'children') continue;
+    const values = Array.isArray(value)
+      ? (value as TanaNode[]).map((v) => String(v.name ?? '')).filter((v) => v.length > 0)
+      : value === undefined ? [] : [String(value)];
+    fields.push({ name: key, values });
+  }
+
+  return {
+    name,
+    tags: tags.map((t) => ({ name: t })),
+    fields,
+    children: (json.children ?? []).filter((c: TanaNode) => c.name !== undefined).map(toPasteNode),
+  };
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Create a resolver backed by the workspace index
+ */
+export function createIndexResolver(db: Database): ImportResolver {
+  const schema = new UnifiedSchemaService(db);
+  return {
+    resolveTag: (name) => schema.getSupertag(name)?.id ?? null,
+    resolveField: (tagId, fieldName) => schema.getFieldByNormalizedName(tagId, fieldName)?.attributeId ?? null,
+    resolveReference: (name) => {
+      const rows = db
+        .query(`
+          SELECT id FROM nodes
+          WHERE name = ?
+            AND COALESCE(json_extract(raw_data, '$.props._ownerId'), '') NOT LIKE '%TRASH%'
+          ORDER BY created, id
+        `)
+        .all(name) as Array<{ id: string }>;
+      return rows.map((r) => r.id);
+    },
+  };
+}
+
+/**
+ * Parse a Tana Paste document and resolve it against the index
+ *
+ * @param content - Tana Paste text
+ * @param resolver - Index lookups (omit to import without resolution)
+ */
+export function planImport(content: string, resolver?: ImportResolver): ImportPlan {
+  const nodes = parseTanaPasteDocument(content);
+  const references = new Map<string, string | null>();
+  const tagIds = new Map<string, string | null>();
+  const unresolvedTags = new Set<string>();
+  const unresolvedFields = new Set<string>();
+  const ambiguousReferences: AmbiguousReference[] = [];
+  let nodeCount = 0;
+
+  const resolveReferences = (text: string) => {
+    for (const match of text.matchAll(REFERENCE_PATTERN)) {
+      const refName = match[1].trim();
+      if (references.has(refName)) continue;
+
+      const nodeIds = resolver?.resolveReference(refName) ?? [];
+      if (nodeIds.length > 1) {
+        ambiguousReferences.push({ name: refName, nodeIds });
+      }
+      references.set(refName, nodeIds.length === 1 ? nodeIds[0] : null);
+    }
+  };
+
+  const visit = (node: PasteNode) => {
+    nodeCount++;
+    resolveReferences(node.name);
+
+    for (const tag of node.tags) {
+      if (!tagIds.has(tag.name)) {
+        tagIds.set(tag.name, resolver?.resolveTag(tag.name) ?? null);
+      }
+      const id = tagIds.get(tag.name);
+      if (id) {
+        tag.id = id;
+      } else {
+        unresolvedTags.add(tag.name);
+      }
+    }
+
+    for (const field of node.fields) {
+      for (const tag of node.tags) {
+        const attributeId = tag.id ? resolver?.resolveField(tag.id, field.name) : null;
+        if (attributeId) {
+          field.id = attributeId;
+          break;
+        }
+      }
+      if (!field.id) unresolvedFields.add(field.name);
+      field.values.forEach(resolveReferences);
+    }
+
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+
+  const ambiguousNames = new Set(ambiguousReferences.map((r) => r.name));
+  const unresolvedReferences = [...references]
+    .filter(([name, id]) => id === null && !ambiguousNames.has(name))
+    .map(([name]) => name);
+
+  return {
+    nodes,
+    references,
+    report: {
+      nodeCount,
+      resolvedReferences: references.size - unresolvedReferences.length - ambiguousReferences.length,
+      unresolvedReferences,
+      ambiguousReferences,
+      unresolvedTags: [...unresolvedTags],
+      unresolvedFields: [...unresolvedFields],
+    },
+  };
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Render a plan as Tana Paste with resolved IDs (Local API import format)
+ *
+ * Tags and fields use the same ID syntax as convertNodesToTanaPaste();
+ * resolved references become `[[Name^id]]`.
+ */
+export function planToTanaPaste(plan: ImportPlan): string {
+  const withRefs = (text: string) =>
+    text.replace(REFERENCE_PATTERN, (match, refName: string) => {
+      const id = plan.references.get(refName.trim());
+      return id ? `[[${refName}^${id}]]` : match;
+    });
+
+  const render = (node: PasteNode, indent: number): string[] => {
+    const pad = '  '.repeat(indent);
+    const tags = node.tags.map((t) => (t.id ? ` #[[^${t.id}]]` : ` #[[${t.name}]]`)).join('');
+    const lines = [`${pad}- ${withRefs(node.name)}${tags}`];
+
+    for (const field of node.fields) {
+      const label = field.id ?? field.name;
+      const [first, ...rest] = field.values.map(withRefs);
+      lines.push(first === undefined ? `${pad}  - ${label}::` : `${pad}  - ${label}:: ${first}`);
+      for (const value of rest) {
+        lines.push(`${pad}    - ${value}`);
+      }
+    }
+
+    for (const child of node.children) {
+      lines.push(...render(child, indent + 1));
+    }
+    return lines;
+  };
+
+  return plan.nodes.flatMap((n) => render(n, 0)).join('\n');
+}
+
+/**
+ * Convert a plan to Input API nodes
+ *
+ * Resolved references become inline references; unresolved ones become
+ * plain text. Fields not defined on the node's supertags are kept as
+ * `Name:: value` child nodes, since the Input API needs attribute IDs.
+ */
+export function planToApiNodes(plan: ImportPlan): TanaApiNode[] {
+  const inline = (text: string) =>
+    text.replace(REFERENCE_PATTERN, (_match, refName: string) => {
+      const id = plan.references.get(refName.trim());
+      return id ? `<span data-inlineref-node="${id}">${refName}</span>` : refName;
+    });
+
+  const fieldValue = (value: string): TanaApiNode | TanaApiReferenceNode => {
+    const single = value.match(/^\[\[([^\]^]+)\]\]$/);
+    const id = single ? plan.references.get(single[1].trim()) : null;
+    return id ? { dataType: 'reference', id } : { name: inline(value) };
+  };
+
+  const convert = (node: PasteNode): TanaApiNode => {
+    const apiNode: TanaApiNode = { name: inline(node.name) };
+    const supertags = node.tags.filter((t) => t.id).map((t) => ({ id: t.id! }));
+    if (supertags.length > 0) apiNode.supertags = supertags;
+
+    const children: NonNullable<TanaApiNode['children']> = [];
+    for (const field of node.fields) {
+      if (field.id) {
+        const fieldNode: TanaApiFieldNode = {
+          type: 'field',
+          attributeId: field.id,
+          children: field.values.map(fieldValue),
+        };
+        children.push(fieldNode);
+      } else {
+        children.push({ name: `${field.name}:: ${field.values.map(inline).join(', ')}`.trim() });
+      }
+    }
+    children.push(...node.children.map(convert));
+    if (children.length > 0) apiNode.children = children;
+
+    return apiNode;
+  };
+
+  return plan.nodes.map(convert);
+}
+
+/**
+ * Split top-level nodes into Input API requests
+ *
+ * @throws StructuredError if a single top-level node exceeds the payload limit
+ */
+export function chunkApiNodes(
+  nodes: TanaApiNode[],
+  limits: { maxNodes?: number; maxChars?: number } = {}
+): TanaApiNode[][] {
+  const maxNodes = limits.maxNodes ?? MAX_NODES_PER_REQUEST;
+  const maxChars = limits.maxChars ?? MAX_PAYLOAD_SIZE;
+  const chunks: TanaApiNode[][] = [];
+  let current: TanaApiNode[] = [];
+
+  for (const node of nodes) {
+    const size = JSON.stringify([node]).length;
+    if (size > maxChars) {
+      throw new StructuredError('INVALID_PARAMETER', `Node "${node.name.slice(0, 40)}" is too large for the Input API (${size} > ${maxChars} characters)`, {
+        suggestion: 'Split it into smaller top-level nodes, or configure the Local API: supertag config --bearer-token <token>',
+      });
+    }
+
+    const candidate = [...current, node];
+    if (current.length > 0 && (candidate.length > maxNodes || JSON.stringify(candidate).length > maxChars)) {
+      chunks.push(current);
+      current = [node];
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+}
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+/**
+ * Create the planned nodes under a target node
+ */
+export async function executeImport(
+  plan: ImportPlan,
+  backend: TanaBackend,
+  target: string,
+  verbose?: boolean
+): Promise<ImportResult> {
+  if (backend.importTanaPaste) {
+    const response = await backend.importTanaPaste(target, planToTanaPaste(plan));
+    return {
+      backend: backend.type,
+      target,
+      requests: 1,
+      nodeIds: response.createdNodes.map((n) => n.id),
+      droppedTags: [],
+    };
+  }
+
+  const chunks = chunkApiNodes(planToApiNodes(plan));
+  const nodeIds: string[] = [];
+  for (const chunk of chunks) {
+    const response = await backend.createNodes(target, chunk, verbose);
+    if (!response.success) {
+      throw new StructuredError('API_ERROR', `Import failed after ${nodeIds.length} node(s) were created`, {
+        details: { createdNodeIds: nodeIds },
+      });
+    }
+    nodeIds.push(...(response.nodeIds ?? []));
+  }
+
+  return { backend: backend.type, target, requests: chunks.length, nodeIds, droppedTags: plan.report.unresolvedTags };
+}
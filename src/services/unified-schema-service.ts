@@ -567,6 +567,23 @@ export class UnifiedSchemaService {
     return normalized?.id ?? null;
   }
 
+  /**
+   * Resolve an option of an options field to its node ID.
+   *
+   * Unlike resolveReferenceByName, only the field's own options are
+   * searched (no fallback to other nodes with the same name).
+   *
+   * @param name - Option name
+   * @param fieldLabelId - Field definition node ID
+   * @returns Option node ID, or null if the field has no such option
+   */
+  resolveFieldOption(name: string, fieldLabelId: string): string | null {
+    if (!this.checkNodesTable() || !name.trim()) {
+      return null;
+    }
+    return this.findOptionInFieldChildren(name.trim(), fieldLabelId);
+  }
+
   /**
    * Find an option value in a field's Values tuple children.
    *
@@ -0,0 +1,213 @@
+/**
+ * Outbound Webhook Rules
+ *
+ * Rules stored in a JSON file in the config directory. Each rule names a
+ * supertag, an optional field condition and an HTTP target:
+ * - no condition:       fires when a node gets the tag
+ * - "Status = Done":    fires when a tagged node's field starts matching
+ *                       (operators: =, !=, ~ contains, exists)
+ * - "Status changed":   fires whenever a tagged node's field value changes
+ *
+ * Rules are evaluated after each reindex and delta-sync (see
+ * outbound-webhooks.ts).
+ *
+ * Usage:
+ *   supertag webhooks add --name incidents --tag incident --url https://chat.example.com/hook
+ *   supertag webhooks add --name done --tag task --when "Status = Done" --url https://ci.example.com/build
+ *   supertag webhooks list
+ *   supertag webhooks remove done
+ */
+
+import { randomBytes } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { TANA_CONFIG_DIR, ensureDir } from "../config/paths";
+import { StructuredError } from "../utils/structured-errors";
+
+/** Default rules file location */
+export const WEBHOOK_RULES_FILE = join(TANA_CONFIG_DIR, "webhooks.json");
+
+export const WEBHOOK_CONDITION_OPERATORS = ["=", "!=", "~", "exists", "changed"] as const;
+
+export type WebhookConditionOperator = (typeof WEBHOOK_CONDITION_OPERATORS)[number];
+
+export interface WebhookCondition {
+  field: string;
+  operator: WebhookConditionOperator;
+  /** Compared value (=, !=, ~) */
+  value?: string;
+}
+
+export interface WebhookRule {
+  id: string;
+  name: string;
+  /** Supertag name (without #) */
+  tag: string;
+  when?: WebhookCondition;
+  url: string;
+  /** Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Only evaluate for this workspace alias (default: all) */
+  workspace?: string;
+  createdAt: string;
+}
+
+interface WebhookRuleFile {
+  version: 1;
+  rules: WebhookRule[];
+}
+
+/**
+ * Parse a rule condition such as "Status = Done", "Title ~ urgent",
+ * "Due date exists" or "Status changed"
+ *
+ * @throws StructuredError for unparseable conditions
+ */
+export function parseWebhookCondition(text: string): WebhookCondition {
+  const unary = text.trim().match(/^(.+?)\s+(exists|changed)$/i);
+  if (unary) {
+    return { field: unary[1].trim(), operator: unary[2].toLowerCase() as WebhookConditionOperator };
+  }
+
+  const binary = text.trim().match(/^(.+?)\s*(!=|=|~)\s*(.+)$/);
+  if (!binary) {
+    throw new StructuredError("INVALID_PARAMETER", `Invalid webhook condition: ${text}`, {
+      details: { condition: text },
+      suggestion: 'Use "<Field> = <value>", "<Field> != <value>", "<Field> ~ <text>", "<Field> exists" or "<Field> changed"',
+    });
+  }
+  const value = binary[3].trim().replace(/^(["'])(.*)\1$/, "$2");
+  return { field: binary[1].trim(), operator: binary[2] as WebhookConditionOperator, value };
+}
+
+/**
+ * Format a condition for display (inverse of parseWebhookCondition)
+ */
+export function formatWebhookCondition(condition: WebhookCondition): string {
+  return condition.value === undefined
+    ? `${condition.field} ${condition.operator}`
+    : `${condition.field} ${condition.operator} ${condition.value}`;
+}
+
+/**
+ * Whether a field value satisfies a condition (case-insensitive)
+ *
+ * Multi-value fields are compared as their comma-joined text; "changed"
+ * conditions have no static match and always return false.
+ */
+export function matchesWebhookCondition(condition: WebhookCondition, value: string | null): boolean {
+  const actual = value?.trim().toLowerCase() ?? "";
+  const expected = condition.value?.trim().toLowerCase() ?? "";
+  switch (condition.operator) {
+    case "exists":
+      return actual !== "";
+    case "=":
+      return actual === expected;
+    case "!=":
+      return actual !== "" && actual !== expected;
+    case "~":
+      return actual.includes(expected);
+    case "changed":
+      return false;
+  }
+}
+
+/**
+ * Parse "Name: value" header options
+ *
+ * @throws StructuredError for headers without a colon
+ */
+export function parseWebhookHeaders(values: string[] = []): Record<string, string> | undefined {
+  if (values.length === 0) return undefined;
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.indexOf(":");
+    if (index <= 0) {
+      throw new StructuredError("INVALID_PARAMETER", `Invalid header: ${value}`, {
+        suggestion: 'Use "Name: value", e.g. --header "Authorization: Bearer <token>"',
+      });
+    }
+    headers[value.slice(0, index).trim()] = value.slice(index + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * File-backed webhook rule store
+ */
+export class WebhookRuleStore {
+  constructor(private filePath: string = WEBHOOK_RULES_FILE) {}
+
+  /**
+   * Add a rule
+   *
+   * @throws StructuredError for duplicate names or non-HTTP URLs
+   */
+  add(options: Omit<WebhookRule, "id" | "createdAt">): WebhookRule {
+    const rules = this.list();
+    if (rules.some((r) => r.name === options.name)) {
+      throw new StructuredError("INVALID_PARAMETER", `A webhook rule named "${options.name}" already exists`, {
+        suggestion: "Choose another name or remove the existing rule first",
+      });
+    }
+    let protocol: string;
+    try {
+      protocol = new URL(options.url).protocol;
+    } catch {
+      protocol = "";
+    }
+    if (protocol !== "http:" && protocol !== "https:") {
+      throw new StructuredError("INVALID_PARAMETER", `Invalid webhook URL: ${options.url}`, {
+        suggestion: "Use an http:// or https:// URL",
+      });
+    }
+
+    const rule: WebhookRule = {
+      id: randomBytes(4).toString("hex"),
+      ...options,
+      tag: options.tag.replace(/^#/, ""),
+      createdAt: new Date().toISOString(),
+    };
+    this.save([...rules, rule]);
+    return rule;
+  }
+
+  /**
+   * Remove a rule by ID or name
+   *
+   * @throws StructuredError if no rule matches
+   */
+  remove(idOrName: string): WebhookRule {
+    const rule = this.get(idOrName);
+    this.save(this.list().filter((r) => r.id !== rule.id));
+    return rule;
+  }
+
+  /**
+   * Find a rule by ID or name
+   *
+   * @throws StructuredError if no rule matches
+   */
+  get(idOrName: string): WebhookRule {
+    const rule = this.list().find((r) => r.id === idOrName || r.name === idOrName);
+    if (!rule) {
+      throw new StructuredError("INVALID_PARAMETER", `No webhook rule "${idOrName}"`, {
+        suggestion: "List rules with: supertag webhooks list",
+      });
+    }
+    return rule;
+  }
+
+  list(): WebhookRule[] {
+    if (!existsSync(this.filePath)) return [];
+    const parsed = JSON.parse(readFileSync(this.filePath, "utf-8")) as Partial<WebhookRuleFile>;
+    return Array.isArray(parsed.rules) ? parsed.rules : [];
+  }
+
+  private save(rules: WebhookRule[]): void {
+    ensureDir(dirname(this.filePath));
+    const file: WebhookRuleFile = { version: 1, rules };
+    // Headers may carry credentials
+    writeFileSync(this.filePath, JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+  }
+}
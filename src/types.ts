@@ -113,12 +113,79 @@ export interface CleanupConfig {
  * Embedding configuration for semantic search
  */
 export interface EmbeddingConfig {
+  /** Embedding provider (default: "ollama") */
+  provider?: EmbeddingProviderType;
   /** Embedding model name (e.g., "mxbai-embed-large", "nomic-embed-text") */
   model: string;
-  /** Ollama endpoint URL (default: "http://localhost:11434") */
+  /** Provider endpoint URL (default: "http://localhost:11434" for Ollama) */
   endpoint?: string;
+  /** API key sent as Bearer token (OpenAI-compatible servers only) */
+  apiKey?: string;
+  /** Vector dimensions; required for models unknown to the provider */
+  dimensions?: number;
+  /** Number of texts sent per embedding request */
+  batchSize?: number;
+  /** Split long nodes and transcripts into multiple vectors */
+  chunking?: ChunkingConfig;
+  /** Second-stage re-scoring of semantic search candidates */
+  rerank?: RerankConfig;
 }
 
+/**
+ * Re-ranking strategies for semantic search
+ * - none: raw vector similarity order
+ * - heuristic: similarity boosted by recency, tag priority and reference count
+ * - cross-encoder: local cross-encoder relevance, boosted like heuristic
+ */
+export type RerankStrategy = 'none' | 'heuristic' | 'cross-encoder';
+
+/**
+ * Re-ranking configuration
+ */
+export interface RerankConfig {
+  /** Strategy used when a search doesn't ask for one (default: "none") */
+  strategy?: RerankStrategy;
+  /** Number of top candidates to re-score (default: 50) */
+  candidates?: number;
+  /** Cross-encoder model (default: "Xenova/ms-marco-MiniLM-L-6-v2") */
+  model?: string;
+  /** Weights of the score components */
+  weights?: {
+    similarity?: number;
+    recency?: number;
+    tags?: number;
+    references?: number;
+  };
+  /** Age in days at which the recency boost halves (default: 90) */
+  recencyHalfLifeDays?: number;
+  /** Tag priorities from -1 (demote) to 1 (promote), e.g. { "project": 1, "day": -0.5 } */
+  tagPriority?: Record<string, number>;
+}
+
+/**
+ * Chunking of long content into multiple embeddings
+ */
+export interface ChunkingConfig {
+  /** Enable chunking (default: false - one vector per node) */
+  enabled?: boolean;
+  /** Maximum characters per subtree window (default: 1500) */
+  maxChars?: number;
+  /** Characters shared by consecutive subtree windows (default: 200) */
+  overlap?: number;
+  /** Transcript lines per chunk (default: 12) */
+  transcriptLines?: number;
+  /** Transcript lines shared by consecutive chunks (default: 2) */
+  transcriptOverlap?: number;
+}
+
+/**
+ * Supported embedding providers
+ * - ollama: Ollama server (/api/embed)
+ * - openai: any OpenAI-compatible /v1/embeddings server (llama.cpp, vLLM, LM Studio)
+ * - transformers: in-process ONNX model via @huggingface/transformers
+ */
+export type EmbeddingProviderType = 'ollama' | 'openai' | 'transformers';
+
 /**
  * Configuration for Tana CLI
  * Loaded from env vars, config file, or defaults
@@ -337,6 +404,8 @@ export interface WorkspaceConfig {
   apiToken?: string;
   /** Optional workspace-specific target node override */
   targetNode?: string;
+  /** Optional workspace-specific embedding overrides (merged over global embeddings) */
+  embeddings?: Partial<EmbeddingConfig>;
 }
 
 /**
@@ -451,7 +520,7 @@ export interface StandardOptions {
  * Search type for unified search command
  * Determines which search engine to use
  */
-export type SearchType = "fts" | "semantic" | "tagged";
+export type SearchType = "fts" | "semantic" | "hybrid" | "tagged";
 
 /**
  * Stats type for unified stats command
@@ -133,6 +133,54 @@ export const RelatedResultSchema = z.object({
 });
 export type RelatedResult = z.infer<typeof RelatedResultSchema>;
 
+/**
+ * A node similar to the source ("more like this")
+ */
+export const SimilarNodeSchema = z.object({
+  /** Node ID */
+  id: z.string(),
+
+  /** Node name */
+  name: z.string(),
+
+  /** Applied supertags (optional) */
+  tags: z.array(z.string()).optional(),
+
+  /** Vector similarity to the source (null for structural-only neighbours) */
+  similarity: z.number().nullable(),
+
+  /** Vector ID of the best-matching chunk, when the node was embedded in chunks */
+  chunkId: z.string().optional(),
+
+  /** Structural link to the source, when the graph has one */
+  relationship: RelationshipMetadataSchema.optional(),
+});
+export type SimilarNode = z.infer<typeof SimilarNodeSchema>;
+
+/**
+ * Similarity lookup result
+ */
+export const SimilarResultSchema = z.object({
+  /** Workspace alias */
+  workspace: z.string(),
+
+  /** Source node info */
+  sourceNode: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
+
+  /** Similar nodes (by similarity), then structural-only neighbours */
+  similar: z.array(SimilarNodeSchema),
+
+  /** Number of results returned */
+  count: z.number(),
+
+  /** Similar nodes without a structural link to the source */
+  unlinked: z.number(),
+});
+export type SimilarResult = z.infer<typeof SimilarResultSchema>;
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -9,6 +9,7 @@
  */
 
 import { z } from "zod";
+import type { OutboundWebhooks } from "../services/outbound-webhooks";
 
 // =============================================================================
 // Configuration Types
@@ -362,6 +363,10 @@ export interface DeltaSyncOptions {
     warn(message: string, data?: Record<string, unknown>): void;
     error(message: string, data?: Record<string, unknown>): void;
   };
+  /** Workspace alias (for outbound webhook rules and events) */
+  workspace?: string;
+  /** Webhook rules evaluated after each sync (default: configured rules; false: off) */
+  outboundWebhooks?: OutboundWebhooks | false;
 }
 
 /**
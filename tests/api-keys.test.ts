@@ -0,0 +1,75 @@
+/**
+ * Tests for webhook server API keys
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { rmSync, statSync } from "fs";
+import { join } from "path";
+import { ApiKeyStore, canAccessWorkspace, hasScope, parseApiKeyScope } from "../src/server/api-keys";
+import { getUniqueTestDir } from "./test-utils";
+
+let dir: string;
+let store: ApiKeyStore;
+
+beforeEach(() => {
+  dir = getUniqueTestDir("api-keys");
+  store = new ApiKeyStore(join(dir, "api-keys.json"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ApiKeyStore", () => {
+  it("should store only a hash and authenticate the token once", () => {
+    expect(store.hasActiveKeys()).toBe(false);
+    const { key, token } = store.create({ name: "ci", scope: "read", workspaces: ["main"] });
+
+    expect(token).toStartWith(`stk_${key.id}_`);
+    expect(JSON.stringify(store.list())).not.toContain(token);
+    expect(statSync(join(dir, "api-keys.json")).mode & 0o777).toBe(0o600);
+    expect(store.hasActiveKeys()).toBe(true);
+    expect(store.authenticate(token)?.name).toBe("ci");
+    expect(store.authenticate(token + "x")).toBeNull();
+    expect(store.authenticate("garbage")).toBeNull();
+  });
+
+  it("should reject duplicate names and revoke by ID or name", () => {
+    const first = store.create({ name: "ci", scope: "read" });
+    expect(() => store.create({ name: "ci", scope: "write" })).toThrow("already exists");
+
+    store.revoke("ci");
+    expect(store.authenticate(first.token)).toBeNull();
+    expect(store.hasActiveKeys()).toBe(false);
+    expect(() => store.revoke(first.key.id)).toThrow("No active API key");
+
+    const second = store.create({ name: "ci", scope: "write" });
+    expect(store.list().map((k) => [k.name, k.scope, !!k.revokedAt])).toEqual([
+      ["ci", "read", true],
+      ["ci", "write", false],
+    ]);
+    expect(store.authenticate(second.token)?.scope).toBe("write");
+  });
+
+  it("should see keys created by another store on the same file", () => {
+    store.hasActiveKeys();
+    const { token } = new ApiKeyStore(join(dir, "api-keys.json")).create({ name: "cli", scope: "read" });
+    expect(store.authenticate(token)?.name).toBe("cli");
+  });
+});
+
+describe("scopes and workspaces", () => {
+  it("should let write include read", () => {
+    expect(hasScope({ scope: "write" }, "read")).toBe(true);
+    expect(hasScope({ scope: "read" }, "read")).toBe(true);
+    expect(hasScope({ scope: "read" }, "write")).toBe(false);
+    expect(parseApiKeyScope("write")).toBe("write");
+    expect(() => parseApiKeyScope("admin")).toThrow("Unknown API key scope");
+  });
+
+  it("should treat an empty workspace list as all workspaces", () => {
+    expect(canAccessWorkspace({ workspaces: [] }, "any")).toBe(true);
+    expect(canAccessWorkspace({ workspaces: ["main"] }, "main")).toBe(true);
+    expect(canAccessWorkspace({ workspaces: ["main"] }, "work")).toBe(false);
+  });
+});
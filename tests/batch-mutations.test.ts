@@ -0,0 +1,189 @@
+/**
+ * Tests for batch mutation planning and resumable apply
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  migrateFieldValuesSchema,
+  migrateSchemaConsolidation,
+  migrateSupertagMetadataSchema,
+} from "../src/db/migrate";
+import {
+  parseBatchOps,
+  parseBatchPlan,
+  planBatch,
+  applyBatchPlan,
+  type BatchOpInput,
+} from "../src/services/batch-mutations";
+import type { TanaBackend } from "../src/api/backend";
+import { StructuredError } from "../src/utils/structured-errors";
+
+let db: Database;
+
+beforeAll(() => {
+  db = new Database(":memory:");
+  db.run(`
+    CREATE TABLE nodes (
+      id TEXT PRIMARY KEY, name TEXT, parent_id TEXT, node_type TEXT,
+      created INTEGER, updated INTEGER, done_at INTEGER, raw_data TEXT
+    )
+  `);
+  db.run(`CREATE TABLE tag_applications (id INTEGER PRIMARY KEY AUTOINCREMENT, tuple_node_id TEXT, data_node_id TEXT, tag_id TEXT, tag_name TEXT)`);
+  migrateFieldValuesSchema(db);
+  migrateSupertagMetadataSchema(db);
+  migrateSchemaConsolidation(db);
+
+  db.run(`INSERT INTO supertag_metadata (tag_id, tag_name, normalized_name) VALUES ('tag-task', 'task', 'task'), ('tag-project', 'project', 'project')`);
+  db.run(`
+    INSERT INTO supertag_fields (tag_id, tag_name, field_name, field_label_id, field_order, normalized_name)
+    VALUES ('tag-task', 'task', 'Status', 'attr-status', 0, 'status')
+  `);
+  db.run(`INSERT INTO nodes (id, name, done_at, raw_data) VALUES ('t1', 'Write docs', NULL, '{}'), ('t2', 'Ship it', 1700000000000, '{}')`);
+  db.run(`INSERT INTO nodes (id, name, raw_data) VALUES ('t3', 'Old', '{"props":{"_ownerId":"ws_TRASH"}}')`);
+  db.run(`INSERT INTO tag_applications (data_node_id, tag_id, tag_name) VALUES ('t1', 'tag-task', 'task'), ('t2', 'tag-task', 'task')`);
+  db.run(`
+    INSERT INTO field_values (tuple_id, parent_id, field_def_id, field_name, value_node_id, value_text)
+    VALUES ('tp1', 't1', 'attr-status', 'Status', 'v1', 'Open')
+  `);
+});
+
+afterAll(() => {
+  db.close();
+});
+
+/**
+ * Backend double that records calls and fails the configured node IDs
+ */
+function createBackend(failures: Record<string, Error[]> = {}) {
+  const calls: string[] = [];
+  const run = async (call: string, nodeId: string) => {
+    const queue = failures[nodeId];
+    if (queue && queue.length > 0) throw queue.shift();
+    calls.push(call);
+    return {};
+  };
+  const backend = {
+    type: "local-api",
+    supportsMutations: () => true,
+    updateNode: (id: string, update: object) => run(`update ${id} ${JSON.stringify(update)}`, id),
+    addTags: (id: string, tagIds: string[]) => run(`addTags ${id} ${tagIds.join(",")}`, id),
+    removeTags: (id: string, tagIds: string[]) => run(`removeTags ${id} ${tagIds.join(",")}`, id),
+    setFieldContent: (id: string, attr: string, content: string) => run(`setField ${id} ${attr}=${content}`, id),
+    setFieldOption: (id: string, attr: string, option: string) => run(`setOption ${id} ${attr}=${option}`, id),
+    checkNode: (id: string) => run(`check ${id}`, id),
+    uncheckNode: (id: string) => run(`uncheck ${id}`, id),
+    trashNode: (id: string) => run(`trash ${id}`, id),
+  } as unknown as TanaBackend;
+  return { backend, calls };
+}
+
+const OPS: BatchOpInput[] = [
+  { op: "tag", nodeId: "t1", tags: ["project", "task"] },
+  { op: "set-field", nodeId: "t1", field: "status", value: "Done" },
+  { op: "check", nodeId: "t2" },
+  { op: "update", nodeId: "t2", name: "Ship it now" },
+  { op: "untag", nodeId: "t2", tags: ["#task"] },
+];
+
+describe("parseBatchOps / parseBatchPlan", () => {
+  it("should require a JSON array of operations", () => {
+    expect(() => parseBatchOps('{"op":"tag"}')).toThrow("JSON array");
+    expect(parseBatchOps('[{"op":"trash","nodeId":"a"}]')).toHaveLength(1);
+  });
+
+  it("should reject an operations file as a plan", () => {
+    expect(() => parseBatchPlan('[{"op":"trash","nodeId":"a"}]')).toThrow("Not a batch plan");
+  });
+});
+
+describe("planBatch", () => {
+  it("should resolve names and diff against the index", () => {
+    const plan = planBatch(db, OPS);
+
+    expect(plan.ops.map((op) => op.status)).toEqual(["pending", "pending", "noop", "pending", "pending"]);
+    expect(plan.ops[0].diff).toEqual(["+#project"]);
+    expect(plan.ops[0].mutation).toEqual({ operation: "addTags", nodeId: "t1", params: { tagIds: ["tag-project"] } });
+    expect(plan.ops[1].diff).toEqual(['Status: "Open" → "Done"']);
+    expect(plan.ops[1].mutation?.params).toEqual({ attributeId: "attr-status", content: "Done" });
+    expect(plan.ops[3].diff).toEqual(['name: "Ship it" → "Ship it now"']);
+    expect(plan.ops[4].mutation).toEqual({ operation: "removeTags", nodeId: "t2", params: { tagIds: ["tag-task"] } });
+  });
+
+  it("should mark invalid operations with a reason", () => {
+    const plan = planBatch(db, [
+      { op: "tag", nodeId: "missing", tags: ["task"] },
+      { op: "tag", nodeId: "t1", tags: ["nope"] },
+      { op: "set-field", nodeId: "t1", field: "Priority", value: "High" },
+      { op: "rename" as BatchOpInput["op"], nodeId: "t1" },
+      { op: "check", nodeId: "t3" },
+    ]);
+
+    expect(plan.ops.every((op) => op.status === "invalid")).toBe(true);
+    expect(plan.ops.map((op) => op.error)).toEqual([
+      "Node not found in index: missing",
+      "Unknown supertag: nope",
+      'Field "Priority" is not defined on the node\'s supertags (#task)',
+      'Unknown op "rename" (expected: update, tag, untag, set-field, check, uncheck, trash)',
+      "Node is in the trash",
+    ]);
+  });
+});
+
+describe("applyBatchPlan", () => {
+  it("should apply pending operations and skip no-ops", async () => {
+    const { backend, calls } = createBackend();
+    const plan = planBatch(db, OPS);
+
+    const summary = await applyBatchPlan(plan, backend);
+
+    expect(calls).toEqual([
+      "addTags t1 tag-project",
+      "setField t1 attr-status=Done",
+      'update t2 {"name":"Ship it now"}',
+      "removeTags t2 tag-task",
+    ]);
+    expect(summary).toEqual({ total: 5, pending: 0, noop: 1, invalid: 0, applied: 4, failed: 0 });
+  });
+
+  it("should retry transient errors", async () => {
+    const transient = new StructuredError("LOCAL_API_UNAVAILABLE", "down", { recovery: { retryable: true } });
+    const { backend } = createBackend({ t1: [transient, transient] });
+    const plan = planBatch(db, OPS.slice(0, 1));
+
+    const summary = await applyBatchPlan(plan, backend, { retries: 2, retryDelayMs: 0 });
+
+    expect(summary.applied).toBe(1);
+    expect(plan.ops[0].attempts).toBe(3);
+  });
+
+  it("should stop at a failure and resume on re-apply", async () => {
+    const { backend, calls } = createBackend({ t2: [new Error("Node is locked")] });
+    const plan = planBatch(db, OPS);
+    const progress: number[] = [];
+
+    const first = await applyBatchPlan(plan, backend, { retryDelayMs: 0, onProgress: (op) => progress.push(op.index) });
+
+    expect(first).toMatchObject({ applied: 2, failed: 1, pending: 1 });
+    expect(plan.ops[3]).toMatchObject({ status: "failed", error: "Node is locked", attempts: 1 });
+    expect(progress).toEqual([0, 1, 3]);
+
+    // Round-trip through the plan file format, then resume
+    const resumed = parseBatchPlan(JSON.stringify(plan));
+    const second = await applyBatchPlan(resumed, backend, { retryDelayMs: 0 });
+
+    expect(second).toMatchObject({ applied: 4, failed: 0, pending: 0 });
+    expect(calls.filter((c) => c.startsWith("addTags t1"))).toHaveLength(1);
+  });
+
+  it("should refuse plans with invalid operations unless skipInvalid", async () => {
+    const { backend, calls } = createBackend();
+    const plan = planBatch(db, [...OPS.slice(0, 1), { op: "trash", nodeId: "missing" }]);
+
+    await expect(applyBatchPlan(plan, backend)).rejects.toThrow("1 invalid operation");
+    expect(calls).toEqual([]);
+
+    const summary = await applyBatchPlan(plan, backend, { skipInvalid: true });
+    expect(summary).toMatchObject({ applied: 1, invalid: 1 });
+  });
+});
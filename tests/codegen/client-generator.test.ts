@@ -0,0 +1,208 @@
+/**
+ * Tests for the typed client generator (codegen --client)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import ts from "typescript";
+import { generateSchemas } from "../../src/codegen/index";
+import type { CodegenOptions } from "../../src/codegen/types";
+import { getUniqueTestDir } from "../test-utils";
+
+function createTestDb(): Database {
+  const db = new Database(":memory:");
+  db.run(`
+    CREATE TABLE supertag_metadata (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tag_id TEXT UNIQUE NOT NULL,
+      tag_name TEXT NOT NULL,
+      normalized_name TEXT NOT NULL,
+      description TEXT,
+      color TEXT
+    )
+  `);
+  db.run(`
+    CREATE TABLE supertag_fields (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tag_id TEXT NOT NULL,
+      tag_name TEXT,
+      field_name TEXT NOT NULL,
+      field_label_id TEXT NOT NULL,
+      field_order INTEGER DEFAULT 0,
+      normalized_name TEXT,
+      description TEXT,
+      inferred_data_type TEXT,
+      target_supertag_id TEXT,
+      target_supertag_name TEXT,
+      default_value_id TEXT,
+      default_value_text TEXT,
+      option_values TEXT
+    )
+  `);
+  db.run(`
+    CREATE TABLE supertag_parents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      child_tag_id TEXT NOT NULL,
+      parent_tag_id TEXT NOT NULL
+    )
+  `);
+  db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, raw_data TEXT)");
+
+  db.run(`
+    INSERT INTO supertag_metadata (tag_id, tag_name, normalized_name)
+    VALUES ('person1', 'Person', 'person'), ('employee2', 'Employee', 'employee'), ('task3', 'Task', 'task')
+  `);
+  db.run(`
+    INSERT INTO supertag_fields (tag_id, field_name, field_label_id, field_order, inferred_data_type, target_supertag_id, option_values)
+    VALUES
+      ('person1', 'Email', 'attr_email', 0, 'email', NULL, NULL),
+      ('employee2', 'Team', 'attr_team', 0, 'text', NULL, NULL),
+      ('task3', 'Status', 'attr_status', 0, 'options', NULL, '["Open","Done"]'),
+      ('task3', 'Assignee', 'attr_assignee', 1, 'reference', 'employee2', NULL),
+      ('task3', 'Due', 'attr_due', 2, 'date', NULL, NULL),
+      ('task3', 'Urgent', 'attr_urgent', 3, 'checkbox', NULL, NULL)
+  `);
+  db.run(`INSERT INTO supertag_parents (child_tag_id, parent_tag_id) VALUES ('employee2', 'person1')`);
+
+  // Status field definition → "Values" tuple → options
+  const insertNode = db.prepare("INSERT INTO nodes (id, name, raw_data) VALUES (?, ?, ?)");
+  insertNode.run("attr_status", "Status", JSON.stringify({ children: ["values_tuple"] }));
+  insertNode.run("values_tuple", "Values", JSON.stringify({ props: { _docType: "tuple" }, children: ["opt_open", "opt_done"] }));
+  insertNode.run("opt_open", "Open", JSON.stringify({}));
+  insertNode.run("opt_done", "Done", JSON.stringify({}));
+  return db;
+}
+
+const options: CodegenOptions = {
+  outputPath: "./generated/tana-client.ts",
+  format: "effect",
+  optionalStrategy: "undefined",
+  naming: "camelCase",
+  includeMetadata: false,
+  split: false,
+  includeInherited: true,
+  client: true,
+};
+
+describe("client generator", () => {
+  let db: Database;
+  let dir: string;
+  let content: string;
+
+  beforeAll(async () => {
+    db = createTestDb();
+    dir = getUniqueTestDir("codegen-client");
+    mkdirSync(dir, { recursive: true });
+    content = (await generateSchemas(db, options)).files[0].content;
+  });
+
+  afterAll(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should bake in supertag, field and option IDs", () => {
+    expect(content).toContain('status: { name: "Status", attributeId: "attr_status", type: "options", options: {"Open":"opt_open","Done":"opt_done"} },');
+    // Inherited fields are part of the child's table and input
+    expect(content).toMatch(/ {2}Employee: \{\n {4}id: "employee2",\n {4}name: "Employee",\n {4}fields: \{\n {6}email: /);
+    expect(content).toContain("  assignee?: EmployeeId | EmployeeId[];");
+    expect(content).toContain("    setTaskStatus: (id: TaskId, value: TaskStatus) =>");
+    expect(content).toContain("    findEmployees: (where: EmployeeWhere = {}, findOptions: FindOptions = {}) =>");
+  });
+
+  it("should create, update and find nodes through the backend and server", async () => {
+    const file = join(dir, "tana-client.ts");
+    writeFileSync(file, content);
+    const { createSupertagClient } = await import(file);
+
+    const calls: unknown[][] = [];
+    const backend = {
+      createNodes: async (...args: unknown[]) => {
+        calls.push(["createNodes", ...args]);
+        return { success: true, nodeIds: ["new1"] };
+      },
+      setFieldContent: async (...args: unknown[]) => calls.push(["setFieldContent", ...args]),
+      setFieldOption: async (...args: unknown[]) => calls.push(["setFieldOption", ...args]),
+    };
+    const requests: { url: string; init: RequestInit }[] = [];
+    const fakeFetch = async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return Response.json({ results: [{ id: "t1", name: "Ship it", created: 1, updated: 2, parentId: "p" }], count: 1 });
+    };
+    const tana = createSupertagClient({ backend, fetch: fakeFetch, serverUrl: "http://tana.local/", apiKey: "k1", workspace: "work" });
+
+    expect(await tana.createTask({ name: "Ship it", status: "Done", assignee: ["e1", "e2"], urgent: false })).toBe("new1");
+    expect(calls[0]).toEqual([
+      "createNodes",
+      "INBOX",
+      [
+        {
+          name: "Ship it",
+          supertags: [{ id: "task3" }],
+          children: [
+            { type: "field", attributeId: "attr_status", children: [{ dataType: "reference", id: "opt_done" }] },
+            { type: "field", attributeId: "attr_assignee", children: [{ dataType: "reference", id: "e1" }, { dataType: "reference", id: "e2" }] },
+            { type: "field", attributeId: "attr_urgent", children: [{ name: "false" }] },
+          ],
+        },
+      ],
+    ]);
+
+    await tana.setTaskStatus("t1", "Open");
+    await tana.setTaskDue("t1", new Date("2026-03-01T00:00:00.000Z"));
+    expect(calls.slice(1)).toEqual([
+      ["setFieldOption", "t1", "attr_status", "opt_open"],
+      ["setFieldContent", "t1", "attr_due", "2026-03-01T00:00:00.000Z"],
+    ]);
+
+    const found = await tana.findTasks({ status: "Done", created: ">7d" }, { limit: 10 });
+    expect(found).toEqual([{ id: "t1", name: "Ship it", created: 1, updated: 2 }]);
+    expect(requests[0].url).toBe("http://tana.local/query");
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe("Bearer k1");
+    expect(JSON.parse(String(requests[0].init.body))).toEqual({
+      find: "Task",
+      where: { Status: "Done", created: ">7d" },
+      limit: 10,
+      workspace: "work",
+    });
+  });
+
+  it("should type-check, rejecting wrong brands and option values", () => {
+    const client = join(dir, "typed-client.ts");
+    writeFileSync(client, content);
+    const usage = join(dir, "usage.ts");
+    writeFileSync(
+      usage,
+      `import { createSupertagClient, type ClientBackend, type EmployeeId, type PersonId } from "./typed-client";
+declare const backend: ClientBackend;
+declare const employee: EmployeeId;
+declare const person: PersonId;
+const tana = createSupertagClient({ backend });
+export const created = tana.createTask({ name: "x", status: "Open", assignee: employee });
+export const found = tana.findEmployees({ team: { contains: "ops" } }).then((nodes) => nodes.map((n): PersonId => n.id));
+// @ts-expect-error a PersonId is not an EmployeeId
+tana.createTask({ name: "x", assignee: person });
+// @ts-expect-error not an option value
+tana.setTaskStatus("t1" as never, "Closed");
+`
+    );
+    const program = ts.createProgram([client, usage], {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+      types: [],
+    });
+    const diagnostics = ts.getPreEmitDiagnostics(program).map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("should not support split mode", async () => {
+    await expect(generateSchemas(db, { ...options, split: true })).rejects.toThrow("--split is not supported with --client");
+  });
+});
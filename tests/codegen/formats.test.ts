@@ -0,0 +1,200 @@
+/**
+ * Tests for the Zod, TypeScript and JSON Schema codegen formats
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import ts from "typescript";
+import { generateSchemas } from "../../src/codegen/index";
+import type { CodegenFormat, CodegenOptions } from "../../src/codegen/types";
+import { getUniqueTestDir } from "../test-utils";
+
+function createTestDb(): Database {
+  const db = new Database(":memory:");
+  db.run(`
+    CREATE TABLE supertag_metadata (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tag_id TEXT UNIQUE NOT NULL,
+      tag_name TEXT NOT NULL,
+      normalized_name TEXT NOT NULL,
+      description TEXT,
+      color TEXT,
+      created_at INTEGER DEFAULT (unixepoch())
+    )
+  `);
+  db.run(`
+    CREATE TABLE supertag_fields (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tag_id TEXT NOT NULL,
+      tag_name TEXT,
+      field_name TEXT NOT NULL,
+      field_label_id TEXT NOT NULL,
+      field_order INTEGER DEFAULT 0,
+      normalized_name TEXT,
+      description TEXT,
+      inferred_data_type TEXT,
+      target_supertag_id TEXT,
+      target_supertag_name TEXT,
+      default_value_id TEXT,
+      default_value_text TEXT,
+      option_values TEXT
+    )
+  `);
+  db.run(`
+    CREATE TABLE supertag_parents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      child_tag_id TEXT NOT NULL,
+      parent_tag_id TEXT NOT NULL
+    )
+  `);
+
+  db.run(`
+    INSERT INTO supertag_metadata (tag_id, tag_name, normalized_name)
+    VALUES ('person1', 'Person', 'person'), ('employee2', 'Employee', 'employee'), ('task3', 'Task', 'task')
+  `);
+  db.run(`
+    INSERT INTO supertag_fields (tag_id, field_name, field_label_id, field_order, inferred_data_type, target_supertag_id, option_values)
+    VALUES
+      ('person1', 'Name', 'name_id', 0, 'text', NULL, NULL),
+      ('employee2', 'Start Date', 'start_id', 0, 'date', NULL, NULL),
+      ('task3', 'Status', 'status_id', 0, 'options', NULL, '["Open","In progress","Done"]'),
+      ('task3', 'Priority', 'priority_id', 1, 'options', NULL, NULL),
+      ('task3', 'Assignee', 'assignee_id', 2, 'reference', 'employee2', NULL),
+      ('task3', 'Related', 'related_id', 3, 'reference', 'other9', NULL),
+      ('task3', 'Done', 'done_id', 4, 'checkbox', NULL, NULL)
+  `);
+  db.run(`INSERT INTO supertag_parents (child_tag_id, parent_tag_id) VALUES ('employee2', 'person1')`);
+  return db;
+}
+
+function options(format: CodegenFormat, overrides: Partial<CodegenOptions> = {}): CodegenOptions {
+  return {
+    outputPath: format === "json-schema" ? "./generated/schema.json" : "./generated/schemas.ts",
+    format,
+    optionalStrategy: "undefined",
+    naming: "camelCase",
+    includeMetadata: false,
+    split: false,
+    includeInherited: true,
+    ...overrides,
+  };
+}
+
+/** Type-check files, returning the diagnostics' messages */
+function typeCheck(paths: string[]): string[] {
+  const program = ts.createProgram(paths, {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    types: [],
+  });
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+}
+
+describe("codegen formats", () => {
+  let db: Database;
+  let dir: string;
+
+  beforeAll(() => {
+    db = createTestDb();
+    dir = getUniqueTestDir("codegen-formats");
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterAll(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should generate Zod schemas with enums, ID brands and inheritance", async () => {
+    const { files } = await generateSchemas(db, options("zod"));
+    const content = files[0].content;
+
+    expect(content).toContain('export const PersonIdSchema = NodeIdSchema.brand<"PersonId">();');
+    expect(content).toContain('export const EmployeeIdSchema = PersonIdSchema.brand<"EmployeeId">();');
+    expect(content).toContain('export const TaskStatusSchema = z.enum(["Open","In progress","Done"]);');
+    expect(content).toContain("export const EmployeeSchema = PersonSchema.extend({");
+    expect(content).toContain("  assignee: EmployeeIdSchema.optional(),");
+    expect(content).toContain("  related: NodeIdSchema.optional(),");
+    expect(content).toContain("  priority: z.string().optional(),");
+
+    // Evaluate the generated module (resolving zod from this repository)
+    const file = join(dir, "zod-schemas.ts");
+    writeFileSync(file, content.replace('from "zod"', `from "${Bun.resolveSync("zod", import.meta.dir)}"`));
+    const generated = await import(file);
+    const task = generated.TaskSchema.parse({ id: "t1", status: "Done", assignee: "e1", done: true });
+    expect(task).toEqual({ id: "t1", status: "Done", assignee: "e1", done: true });
+    expect(generated.TaskSchema.safeParse({ id: "t1", status: "Closed" }).success).toBe(false);
+    const employee = generated.EmployeeSchema.parse({ id: "e1", name: "Ada", startDate: "2026-01-15" });
+    expect(employee.startDate).toBeInstanceOf(Date);
+  });
+
+  it("should generate TypeScript interfaces whose brands type-check", async () => {
+    const { files } = await generateSchemas(db, options("typescript", { optionalStrategy: "option" }));
+    const content = files[0].content;
+
+    expect(content).toContain('export type EmployeeId = Brand<PersonId, "EmployeeId">;');
+    expect(content).toContain('export const TaskStatus = ["Open","In progress","Done"] as const;');
+    expect(content).toContain("export interface Employee extends Person {");
+    expect(content).toContain("  status?: TaskStatus;");
+    expect(content).toContain("  assignee?: EmployeeId;");
+
+    const schemas = join(dir, "ts-schemas.ts");
+    writeFileSync(schemas, content);
+    const usage = join(dir, "usage.ts");
+    writeFileSync(
+      usage,
+      `import type { Employee, Person, Task, NodeId } from "./ts-schemas";
+declare const employee: Employee;
+declare const person: Person;
+export const task: Task = { id: "t1" as Task["id"], status: "Done", assignee: employee.id };
+export const node: NodeId = employee.id;
+export const asPerson: Person = employee;
+// @ts-expect-error a PersonId is not an EmployeeId
+export const wrongBrand: Task = { id: "t1" as Task["id"], assignee: person.id };
+// @ts-expect-error not an option value
+export const wrongStatus: Task = { id: "t1" as Task["id"], status: "Closed" };
+`
+    );
+    expect(typeCheck([schemas, usage])).toEqual([]);
+  });
+
+  it("should generate a JSON Schema document with $defs", async () => {
+    const { files } = await generateSchemas(db, options("json-schema", { optionalStrategy: "nullable" }));
+    expect(files.map((f) => f.path)).toEqual(["./generated/schema.json"]);
+    const schema = JSON.parse(files[0].content);
+
+    expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    expect(schema.$defs.TaskStatus).toEqual({ type: "string", enum: ["Open", "In progress", "Done"] });
+    expect(schema.$defs.EmployeeId).toEqual({ $ref: "#/$defs/PersonId", description: "ID of a #Employee node" });
+    expect(schema.$defs.Employee.allOf[0]).toEqual({ $ref: "#/$defs/Person" });
+    expect(schema.$defs.Task.properties.status).toEqual({ anyOf: [{ $ref: "#/$defs/TaskStatus" }, { type: "null" }] });
+    expect(schema.$defs.Task.required).toEqual(["id", "status", "priority", "assignee", "related", "done"]);
+
+    await expect(generateSchemas(db, options("json-schema", { split: true }))).rejects.toThrow("--split is not supported");
+  });
+
+  it("should put all ID brands into ids.ts in split mode", async () => {
+    const { files } = await generateSchemas(db, options("zod", { split: true }));
+    expect(files.map((f) => f.path)).toEqual([
+      "./generated/schemas/ids.ts",
+      "./generated/schemas/Person.ts",
+      "./generated/schemas/Task.ts",
+      "./generated/schemas/Employee.ts",
+      "./generated/schemas/index.ts",
+    ]);
+    const employee = files[3].content;
+    expect(employee).toContain('import { z } from "zod";');
+    expect(employee).toContain('import { EmployeeIdSchema } from "./ids";');
+    expect(employee).toContain('import { PersonSchema } from "./Person";');
+    expect(files[2].content).toContain('import { EmployeeIdSchema, NodeIdSchema, TaskIdSchema } from "./ids";');
+    expect(files[4].content).toContain('export * from "./ids";');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for query command option parsing
+ *
+ * The ad-hoc query and its save/run/list/delete subcommands share option
+ * names; options after a subcommand name must reach the subcommand.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Command } from "commander";
+import { createQueryCommand } from "../../src/commands/query";
+
+/**
+ * Parse argv with the actions replaced by recorders
+ */
+async function parse(argv: string[]): Promise<{ command: string; args: unknown[]; options: Record<string, unknown> }> {
+  const query = createQueryCommand();
+  let received: { command: string; args: unknown[]; options: Record<string, unknown> } | undefined;
+  for (const cmd of [query, ...query.commands]) {
+    cmd.action((...args: unknown[]) => {
+      const command = args[args.length - 1] as Command;
+      received = { command: command.name(), args: args.slice(0, -2), options: command.opts() };
+    });
+  }
+
+  // Like the supertag program in src/index.ts
+  const program = new Command("supertag").enablePositionalOptions().exitOverride();
+  program.addCommand(query);
+  await program.parseAsync(["query", ...argv], { from: "user" });
+  return received!;
+}
+
+describe("query command options", () => {
+  it("should pass options after 'run' to the run subcommand", async () => {
+    const result = await parse(["run", "open-by-owner", "-w", "work", "--limit", "5", "--json", "--explain", "-p", "owner=Alice"]);
+
+    expect(result.command).toBe("run");
+    expect(result.args).toEqual(["open-by-owner"]);
+    expect(result.options).toMatchObject({
+      workspace: "work",
+      limit: "5",
+      json: true,
+      explain: true,
+      param: ["owner=Alice"],
+    });
+  });
+
+  it("should pass the workspace to save and list", async () => {
+    const saved = await parse(["save", "open", "find task", "-w", "work"]);
+    expect(saved.command).toBe("save");
+    expect(saved.options.workspace).toBe("work");
+
+    const listed = await parse(["list", "-w", "work", "--json"]);
+    expect(listed.command).toBe("list");
+    expect(listed.options).toMatchObject({ workspace: "work", json: true });
+  });
+
+  it("should keep options of an ad-hoc query", async () => {
+    const result = await parse(["find task where Status = Done", "-w", "work", "--limit", "5", "--json"]);
+
+    expect(result.command).toBe("query");
+    expect(result.args).toEqual(["find task where Status = Done"]);
+    expect(result.options).toMatchObject({ workspace: "work", limit: "5", json: true });
+  });
+});
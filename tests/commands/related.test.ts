@@ -0,0 +1,33 @@
+/**
+ * Tests for the related command's --limit defaults
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createRelatedCommand, resolveLimit } from "../../src/commands/related";
+
+/**
+ * Parse arguments without running the action
+ */
+function parse(args: string[]) {
+  const cmd = createRelatedCommand();
+  cmd.action(() => {});
+  cmd.parse(["node1", ...args], { from: "user" });
+  return resolveLimit(cmd, cmd.opts());
+}
+
+describe("related --limit", () => {
+  it("should default to 50 for structural traversal", () => {
+    expect(createRelatedCommand().options.find((o) => o.long === "--limit")?.defaultValue).toBe("50");
+    expect(parse([])).toBe(50);
+  });
+
+  it("should default to 20 with --similar", () => {
+    expect(parse(["--similar"])).toBe(20);
+  });
+
+  it("should use an explicit --limit in both modes, capped at 100", () => {
+    expect(parse(["--similar", "--limit", "50"])).toBe(50);
+    expect(parse(["--limit", "7"])).toBe(7);
+    expect(parse(["--limit", "500"])).toBe(100);
+  });
+});
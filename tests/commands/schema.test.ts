@@ -53,6 +53,20 @@ describe('Schema Command - Commander Subcommands', () => {
       const subcommands = cmd.commands.map(c => c.name());
       expect(subcommands).toContain('search');
     });
+
+    it('should have diff subcommand', async () => {
+      const { createSchemaCommand } = await import('../../src/commands/schema');
+      const cmd = createSchemaCommand();
+      const subcommands = cmd.commands.map(c => c.name());
+      expect(subcommands).toContain('diff');
+    });
+
+    it('should have history subcommand', async () => {
+      const { createSchemaCommand } = await import('../../src/commands/schema');
+      const cmd = createSchemaCommand();
+      const subcommands = cmd.commands.map(c => c.name());
+      expect(subcommands).toContain('history');
+    });
   });
 
   describe('command registration', () => {
@@ -63,7 +77,7 @@ describe('Schema Command - Commander Subcommands', () => {
 
       const schemaCmd = program.commands.find(c => c.name() === 'schema');
       expect(schemaCmd).toBeDefined();
-      expect(schemaCmd?.commands.length).toBe(4); // sync, list, show, search
+      expect(schemaCmd?.commands.length).toBe(6); // sync, list, show, search, diff, history
     });
   });
 
@@ -0,0 +1,164 @@
+/**
+ * Tests for the node change log and the webhook server's change stream
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { TanaIndexer } from "../../src/db/indexer";
+import { MAX_NODE_CHANGES, getLatestChangeSeq, readNodeChanges, recordNodeChanges } from "../../src/db/node-changes";
+import { ChangeStream, matchesChangeFilter, parseChangeTypes } from "../../src/server/change-stream";
+import type { NodeChange } from "../../src/db/node-changes";
+import { getUniqueTestDir } from "../test-utils";
+
+let testDir: string;
+let dbPath: string;
+
+beforeEach(() => {
+  testDir = getUniqueTestDir("node-changes");
+  mkdirSync(testDir, { recursive: true });
+  dbPath = join(testDir, "test.db");
+});
+
+afterEach(() => {
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+function writeExport(name: string, docs: Array<{ id: string; name: string; children?: string[] }>): string {
+  const exportPath = join(testDir, name);
+  writeFileSync(exportPath, JSON.stringify({
+    formatVersion: 1,
+    editors: [],
+    docs: docs.map((d, i) => ({ id: d.id, props: { name: d.name, created: 1000 + i }, children: d.children ?? [] })),
+    workspaces: { ws: "root" },
+  }));
+  return exportPath;
+}
+
+describe("reindex change log", () => {
+  it("should log created, updated and deleted nodes, but not the first index", async () => {
+    const indexer = new TanaIndexer(dbPath);
+    await indexer.initializeSchema();
+    await indexer.indexExport(writeExport("v1@2026-01-01.json", [
+      { id: "root", name: "Root", children: ["a", "b"] },
+      { id: "a", name: "Alpha" },
+      { id: "b", name: "Beta" },
+    ]));
+
+    const db = new Database(dbPath);
+    expect(getLatestChangeSeq(db)).toBe(0);
+
+    await indexer.indexExport(writeExport("v2@2026-01-02.json", [
+      { id: "root", name: "Root", children: ["a", "c"] },
+      { id: "a", name: "Alpha (edited)" },
+      { id: "c", name: "Gamma" },
+    ]));
+    indexer.close();
+
+    const changes = readNodeChanges(db, 0).map((c) => [c.change, c.nodeId, c.name, c.source]);
+    expect(changes).toContainEqual(["created", "c", "Gamma", "reindex"]);
+    expect(changes).toContainEqual(["updated", "a", "Alpha (edited)", "reindex"]);
+    expect(changes).toContainEqual(["deleted", "b", "Beta", "reindex"]);
+    expect(changes.filter(([, id]) => id === "c" || id === "b")).toHaveLength(2);
+    db.close();
+  });
+
+  it("should cap the log", () => {
+    const db = new Database(":memory:");
+    recordNodeChanges(db, [{ nodeId: "a", change: "created" }], "delta-sync");
+    db.run("UPDATE node_changes SET seq = 1");
+    db.run(`INSERT INTO node_changes (seq, node_id, change, source, changed_at) VALUES (${MAX_NODE_CHANGES + 1}, 'b', 'updated', 'reindex', 0)`);
+    recordNodeChanges(db, [{ nodeId: "c", change: "deleted" }], "reindex");
+
+    expect(readNodeChanges(db, 0).map((c) => c.nodeId)).toEqual(["b", "c"]);
+    db.close();
+  });
+});
+
+describe("ChangeStream", () => {
+  it("should deliver new changes matching the filter and resume after a seq", () => {
+    const writer = new Database(dbPath);
+    recordNodeChanges(writer, [{ nodeId: "old", change: "created", tags: ["person"] }], "reindex");
+
+    const reader = new Database(dbPath);
+    const stream = new ChangeStream(() => reader, { pollIntervalMs: 60_000 });
+    const people: NodeChange[] = [];
+    const all: NodeChange[] = [];
+    const replayed: NodeChange[] = [];
+    let ended = 0;
+    const end = () => ended++;
+
+    stream.subscribe("main", { tags: ["#Person"], types: ["created", "updated"] }, { send: (c) => people.push(c), end });
+    stream.subscribe("main", {}, { send: (c) => all.push(c), end });
+    stream.subscribe("main", {}, { send: (c) => replayed.push(c), end }, 0);
+    expect(replayed.map((c) => c.nodeId)).toEqual(["old"]);
+
+    recordNodeChanges(writer, [
+      { nodeId: "p1", change: "created", name: "Jane", tags: ["person"] },
+      { nodeId: "m1", change: "updated", name: "Kickoff", tags: ["meeting"] },
+      { nodeId: "p2", change: "deleted", name: "John", tags: ["person"] },
+    ], "delta-sync");
+    stream.poll();
+
+    expect(people.map((c) => c.nodeId)).toEqual(["p1"]);
+    expect(all.map((c) => [c.change, c.nodeId])).toEqual([["created", "p1"], ["updated", "m1"], ["deleted", "p2"]]);
+    expect(replayed).toHaveLength(4);
+
+    stream.poll();
+    expect(all).toHaveLength(3);
+
+    stream.close();
+    expect(ended).toBe(3);
+    expect(stream.size).toBe(0);
+    writer.close();
+    reader.close();
+  });
+
+  it("should keep polling other workspaces when one fails and retry it", () => {
+    const writer = new Database(dbPath);
+    const reader = new Database(dbPath);
+    let broken = false;
+    const stream = new ChangeStream(
+      (workspace) => {
+        if (broken && workspace === "broken") throw new Error("database is locked");
+        return reader;
+      },
+      { pollIntervalMs: 60_000 }
+    );
+    const main: string[] = [];
+    const other: string[] = [];
+    stream.subscribe("main", {}, { send: (c) => main.push(c.nodeId), end: () => {} });
+    stream.subscribe("broken", {}, { send: (c) => other.push(c.nodeId), end: () => {} });
+
+    recordNodeChanges(writer, [{ nodeId: "n1", change: "created", tags: [] }], "delta-sync");
+    broken = true;
+    const errors = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      stream.poll();
+    } finally {
+      errors.mockRestore();
+    }
+    expect(main).toEqual(["n1"]);
+    expect(other).toEqual([]);
+
+    broken = false;
+    stream.poll();
+    expect(other).toEqual(["n1"]);
+
+    stream.close();
+    writer.close();
+    reader.close();
+  });
+
+  it("should parse and match change filters", () => {
+    expect(parseChangeTypes("created, deleted")).toEqual(["created", "deleted"]);
+    expect(parseChangeTypes(undefined)).toBeUndefined();
+    expect(() => parseChangeTypes("moved")).toThrow("Unknown change type: moved");
+
+    const change = { seq: 1, nodeId: "a", change: "updated", name: null, tags: ["Meeting"], source: "reindex", changedAt: 0 } as NodeChange;
+    expect(matchesChangeFilter(change, { tags: ["meeting"] })).toBe(true);
+    expect(matchesChangeFilter(change, { tags: ["person"] })).toBe(false);
+    expect(matchesChangeFilter(change, { types: ["created"] })).toBe(false);
+  });
+});
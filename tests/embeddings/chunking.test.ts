@@ -0,0 +1,206 @@
+/**
+ * Tests for chunked embeddings (subtree windows and transcript groups)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  buildSubtreeOutline,
+  slidingWindows,
+  chunkSubtree,
+  chunkTranscript,
+  expandChunks,
+  collapseChunkResults,
+  findStaleVectorIds,
+  parseChunkId,
+  resolveChunking,
+  saveChunks,
+  getChunksById,
+  formatChunkPosition,
+  toChunkMatch,
+} from "../../src/embeddings/chunking";
+import type { ContextualizedNode } from "../../src/embeddings/contextualize";
+
+let db: Database;
+
+function insertNode(id: string, name: string | null, parentId: string | null, children: string[] = [], docType?: string) {
+  const props = docType ? { _docType: docType } : {};
+  db.run("INSERT INTO nodes (id, name, parent_id, raw_data) VALUES (?, ?, ?, ?)", [
+    id, name, parentId, JSON.stringify({ id, props, children }),
+  ]);
+}
+
+function contextualized(nodeId: string, nodeName: string): ContextualizedNode {
+  return { nodeId, nodeName, ancestorId: null, ancestorName: null, ancestorTags: ["meeting"], contextText: `Meeting: ${nodeName}` };
+}
+
+beforeAll(() => {
+  db = new Database(":memory:");
+  db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, parent_id TEXT, raw_data TEXT)");
+
+  // Page with a long child tree, a reference, and a field tuple
+  const paragraphs = Array.from({ length: 8 }, (_, i) => `p${i}`);
+  insertNode("page", "Design notes", null, [...paragraphs, "ref", "tuple1"]);
+  for (const [i, id] of paragraphs.entries()) {
+    insertNode(id, `Paragraph ${i} ${"lorem ipsum ".repeat(10).trim()}`, "page", i === 0 ? ["p0a"] : []);
+  }
+  insertNode("p0a", "Nested detail", "p0");
+  insertNode("ref", "Referenced elsewhere", "other", ["ref-child"]);
+  insertNode("ref-child", "Should not be expanded", "ref");
+  insertNode("tuple1", "Status", "page", [], "tuple");
+  insertNode("short", "Short note", null, ["short-child"]);
+  insertNode("short-child", "One child", "short");
+
+  // Transcript with 5 lines and speaker metadata
+  const lineIds = ["l0", "l1", "l2", "l3", "l4"];
+  insertNode("tr", null, "meeting", lineIds, "transcript");
+  for (const [i, id] of lineIds.entries()) {
+    insertNode(id, `Line ${i}`, "tr", [], "transcriptLine");
+    insertNode(`${id}-meta`, null, id, [`${id}-speaker`, `${id}-start`], "metanode");
+    db.run("UPDATE nodes SET raw_data = json_set(raw_data, '$.props._ownerId', ?) WHERE id = ?", [id, `${id}-meta`]);
+    insertNode(`${id}-speaker`, null, `${id}-meta`, ["SYS_A252", `${id}-speaker-v`]);
+    insertNode(`${id}-speaker-v`, i % 2 === 0 ? "Ana" : "Ben", `${id}-speaker`);
+    insertNode(`${id}-start`, null, `${id}-meta`, ["SYS_A253", `${id}-start-v`]);
+    insertNode(`${id}-start-v`, `1970-01-01T00:${String(10 + i).padStart(2, "0")}:00.000Z`, `${id}-start`);
+  }
+});
+
+afterAll(() => {
+  db.close();
+});
+
+describe("slidingWindows", () => {
+  it("should return one window for short text", () => {
+    expect(slidingWindows("abc", 10, 2)).toEqual([{ offset: 0, length: 3 }]);
+  });
+
+  it("should cover the text with overlapping windows broken at line ends", () => {
+    const text = Array.from({ length: 20 }, (_, i) => `line ${String(i).padStart(2, "0")}`).join("\n");
+    const windows = slidingWindows(text, 40, 10);
+
+    expect(windows[0].offset).toBe(0);
+    for (const [i, w] of windows.entries()) {
+      expect(w.length).toBeLessThanOrEqual(40);
+      const slice = text.slice(w.offset, w.offset + w.length);
+      expect(slice.startsWith("line")).toBe(true);
+      if (i > 0) {
+        const prev = windows[i - 1];
+        expect(w.offset).toBeLessThan(prev.offset + prev.length);
+      }
+    }
+    const last = windows[windows.length - 1];
+    expect(last.offset + last.length).toBe(text.length);
+  });
+});
+
+describe("buildSubtreeOutline", () => {
+  it("should render owned descendants, list references without expanding them, and skip system nodes", () => {
+    const outline = buildSubtreeOutline(db, "page", "Design notes");
+    const lines = outline.text.split("\n");
+
+    expect(lines[0]).toBe("Design notes");
+    expect(lines[1]).toStartWith("- Paragraph 0");
+    expect(lines[2]).toBe("  - Nested detail");
+    expect(outline.text).toContain("- Referenced elsewhere");
+    expect(outline.text).not.toContain("Should not be expanded");
+    expect(outline.text).not.toContain("Status");
+    expect(outline.lines[2]).toEqual({ nodeId: "p0a", offset: lines[0].length + lines[1].length + 2 });
+  });
+});
+
+describe("chunkSubtree", () => {
+  it("should not chunk nodes that fit into one window", () => {
+    expect(chunkSubtree(db, contextualized("short", "Short note"))).toBeNull();
+  });
+
+  it("should record offsets and anchor nodes for each window", () => {
+    const chunks = chunkSubtree(db, contextualized("page", "Design notes"), { maxChars: 300, overlap: 50 })!;
+    const outline = buildSubtreeOutline(db, "page", "Design notes");
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map((c) => c.chunkId)).toEqual(chunks.map((_, i) => `page#${i}`));
+    for (const chunk of chunks) {
+      expect(chunk.kind).toBe("subtree");
+      expect(outline.text.slice(chunk.offset, chunk.offset + chunk.length).trimEnd()).toBe(chunk.text);
+      const anchorLine = outline.lines.find((l) => l.nodeId === chunk.anchorId)!;
+      expect(anchorLine.offset).toBeLessThanOrEqual(chunk.offset);
+    }
+  });
+});
+
+describe("chunkTranscript", () => {
+  it("should group lines with speaker and start time", () => {
+    const chunks = chunkTranscript(db, contextualized("tr", "Transcript"), { transcriptLines: 3, transcriptOverlap: 1 });
+
+    expect(chunks.map((c) => [c.offset, c.length, c.anchorId])).toEqual([
+      [0, 3, "l0"],
+      [2, 3, "l2"],
+    ]);
+    expect(chunks[0].text).toBe("Ana: Line 0\nBen: Line 1\nAna: Line 2");
+    expect(chunks[1].startTime).toBe("1970-01-01T00:12:00.000Z");
+    expect(formatChunkPosition(toChunkMatch(chunks[1]))).toBe("chunk 2, lines 3-5 @ 12:00");
+  });
+});
+
+describe("expandChunks", () => {
+  it("should replace long nodes and transcripts by chunk items and drop transcript lines", () => {
+    const nodes = [
+      contextualized("page", "Design notes"),
+      contextualized("short", "Short note"),
+      contextualized("tr", "Transcript"),
+      contextualized("l1", "Line 1"),
+    ];
+
+    const { items, chunks } = expandChunks(db, nodes, { maxChars: 300, overlap: 50, transcriptLines: 3, transcriptOverlap: 1 });
+
+    expect(items.some((i) => i.nodeId === "l1")).toBe(false);
+    expect(items.find((i) => i.nodeId === "short")?.chunkId).toBeUndefined();
+    expect(items.filter((i) => i.nodeId === "tr").map((i) => i.chunkId)).toEqual(["tr#0", "tr#1"]);
+    expect(items.find((i) => i.chunkId === "tr#0")?.contextText).toBe("Meeting: Transcript\nAna: Line 0\nBen: Line 1\nAna: Line 2");
+    expect(chunks).toHaveLength(items.filter((i) => i.chunkId).length);
+  });
+});
+
+describe("chunk storage", () => {
+  it("should replace a node's chunks and look them up by vector ID", () => {
+    const chunks = chunkTranscript(db, contextualized("tr", "Transcript"), { transcriptLines: 3, transcriptOverlap: 1 });
+    saveChunks(db, ["tr"], chunks);
+    saveChunks(db, ["tr"], chunks.slice(0, 1));
+
+    const found = getChunksById(db, ["tr#0", "tr#1"]);
+    expect([...found.keys()]).toEqual(["tr#0"]);
+    expect(found.get("tr#0")).toEqual(chunks[0]);
+  });
+});
+
+describe("search result helpers", () => {
+  it("should parse chunk IDs", () => {
+    expect(parseChunkId("abc#3")).toEqual({ nodeId: "abc", index: 3 });
+    expect(parseChunkId("abc")).toEqual({ nodeId: "abc", index: null });
+  });
+
+  it("should collapse hits to the best chunk per node", () => {
+    const collapsed = collapseChunkResults([
+      { id: "a#2", distance: 0.1, similarity: 0.9 },
+      { id: "b", distance: 0.2, similarity: 0.8 },
+      { id: "a#0", distance: 0.3, similarity: 0.7 },
+    ]);
+
+    expect(collapsed).toEqual([
+      { nodeId: "a", distance: 0.1, similarity: 0.9, chunkId: "a#2" },
+      { nodeId: "b", distance: 0.2, similarity: 0.8 },
+    ]);
+  });
+
+  it("should find vectors the re-embedded nodes no longer produce", () => {
+    const stale = findStaleVectorIds(["a", "a#0", "a#1", "b#0", "c"], new Set(["a", "b"]), new Set(["a#0", "b#0"]));
+    expect(stale).toEqual(["a", "a#1"]);
+  });
+});
+
+describe("resolveChunking", () => {
+  it("should apply defaults and reject overlaps that would not advance", () => {
+    expect(resolveChunking({ maxChars: 800 })).toMatchObject({ maxChars: 800, overlap: 200, transcriptLines: 12 });
+    expect(() => resolveChunking({ maxChars: 300, overlap: 200 })).toThrow("less than half");
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for pluggable embedding providers
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "bun";
+import {
+  BatchingProvider,
+  OpenAICompatibleProvider,
+  TransformersProvider,
+  checkEmbeddingProvider,
+  parseProviderType,
+  type EmbeddingProvider,
+} from "../../src/embeddings/providers";
+
+/**
+ * Fake OpenAI-compatible server: vectors encode the input length,
+ * data is returned in reverse order to exercise index sorting
+ */
+let server: Server;
+let endpoint: string;
+const requests: Array<{ path: string; auth: string | null; input?: string[] }> = [];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const auth = req.headers.get("authorization");
+      if (url.pathname === "/v1/models") {
+        requests.push({ path: url.pathname, auth });
+        return auth === "Bearer bad" ? new Response("denied", { status: 401 }) : Response.json({ data: [] });
+      }
+      if (url.pathname !== "/v1/embeddings") {
+        return new Response("not found", { status: 404 });
+      }
+      const body = (await req.json()) as { model: string; input: string[] };
+      requests.push({ path: url.pathname, auth, input: body.input });
+      if (body.model === "broken") {
+        return new Response("model not loaded", { status: 503 });
+      }
+      const data = body.input.map((text, index) => ({ index, embedding: [text.length, index, 0] }));
+      return Response.json({ data: data.reverse() });
+    },
+  });
+  endpoint = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe("OpenAICompatibleProvider", () => {
+  it("should post to /v1/embeddings and restore input order", async () => {
+    requests.length = 0;
+    const provider = new OpenAICompatibleProvider("nomic", 3, endpoint, "secret");
+
+    const vectors = await provider.embed(["a", "bbb"]);
+
+    expect(vectors).toEqual([new Float32Array([1, 0, 0]), new Float32Array([3, 1, 0])]);
+    expect(requests).toEqual([{ path: "/v1/embeddings", auth: "Bearer secret", input: ["a", "bbb"] }]);
+  });
+
+  it("should accept endpoints that already end in /v1", async () => {
+    const provider = new OpenAICompatibleProvider("nomic", 3, `${endpoint}/v1/`);
+    expect(await provider.embedSingle("x")).toEqual(new Float32Array([1, 0, 0]));
+  });
+
+  it("should surface server errors as retryable API errors", async () => {
+    const provider = new OpenAICompatibleProvider("broken", 3, endpoint);
+    const error = await provider.embed(["x"]).catch((e) => e);
+
+    expect(error.code).toBe("API_ERROR");
+    expect(error.message).toContain("503");
+    expect(error.recovery?.retryable).toBe(true);
+  });
+});
+
+describe("BatchingProvider", () => {
+  it("should split requests into batches of batchSize", async () => {
+    const batches: string[][] = [];
+    const inner: EmbeddingProvider = {
+      name: "fake",
+      model: "fake",
+      dimensions: 1,
+      maxBatchSize: 10,
+      supportsAsync: false,
+      embed: async (texts) => {
+        batches.push(texts);
+        return texts.map((t) => new Float32Array([t.length]));
+      },
+      embedSingle: async (text) => new Float32Array([text.length]),
+    };
+
+    const provider = new BatchingProvider(inner, 2);
+    const vectors = await provider.embed(["a", "bb", "ccc", "dddd", "e"]);
+
+    expect(provider.maxBatchSize).toBe(2);
+    expect(batches).toEqual([["a", "bb"], ["ccc", "dddd"], ["e"]]);
+    expect(vectors.map((v) => [...v])).toEqual([[1], [2], [3], [4], [1]]);
+  });
+});
+
+describe("checkEmbeddingProvider", () => {
+  it("should report a rejected API key", async () => {
+    const health = await checkEmbeddingProvider({ provider: "openai", model: "m", endpoint, apiKey: "bad" });
+    expect(health.ok).toBe(false);
+    expect(health.message).toContain("401");
+  });
+
+  it("should accept a reachable OpenAI-compatible server", async () => {
+    const health = await checkEmbeddingProvider({ provider: "openai", model: "m", endpoint });
+    expect(health.ok).toBe(true);
+  });
+});
+
+describe("TransformersProvider", () => {
+  it("should explain how to install the optional dependency", async () => {
+    let installed = true;
+    try {
+      await import("@huggingface/transformers" as string);
+    } catch {
+      installed = false;
+    }
+    if (installed) return;
+
+    const error = await new TransformersProvider("Xenova/all-MiniLM-L6-v2", 384).embed(["x"]).catch((e) => e);
+    expect(error.code).toBe("CONFIG_INVALID");
+    expect(error.suggestion).toContain("@huggingface/transformers");
+  });
+});
+
+describe("parseProviderType", () => {
+  it("should reject unknown providers", () => {
+    expect(parseProviderType("openai")).toBe("openai");
+    expect(() => parseProviderType("cohere")).toThrow("Unknown embedding provider");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for embedding freshness tracking (content hashes per node)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  buildEmbeddingItems,
+  checkFreshness,
+  findOrphanedVectorIds,
+  getEmbedModeKey,
+  getEmbeddingState,
+  hashEmbeddingItems,
+  recordEmbeddingState,
+  removeEmbeddingState,
+  selectChangedNodes,
+} from "../../src/embeddings/freshness";
+
+let db: Database;
+
+const MODEL = "bge-m3";
+const filter = { excludeTimestamps: true };
+
+function nodes(ids: string[]) {
+  return ids.map((id) => db.query("SELECT id, name FROM nodes WHERE id = ?").get(id) as { id: string; name: string });
+}
+
+function record(ids: string[], embeddedIds = ids) {
+  recordEmbeddingState(db, buildEmbeddingItems(db, nodes(ids), {}), new Set(embeddedIds), { model: MODEL, mode: "plain", now: 1 });
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, parent_id TEXT, raw_data TEXT)");
+  db.run("CREATE TABLE tag_applications (id INTEGER PRIMARY KEY AUTOINCREMENT, tuple_node_id TEXT, data_node_id TEXT, tag_id TEXT, tag_name TEXT)");
+  for (const [id, name] of [["a", "Alpha launch plan"], ["b", "Beta retrospective"], ["c", "Gamma budget"]]) {
+    db.run("INSERT INTO nodes (id, name, raw_data) VALUES (?, ?, '{}')", [id, name]);
+  }
+});
+
+afterEach(() => {
+  db.close();
+});
+
+describe("content hashes", () => {
+  it("should hash all vectors of a node and change with the text", () => {
+    const items = [
+      { nodeId: "a", chunkId: "a#1", nodeName: "A", ancestorId: null, ancestorName: null, ancestorTags: [], contextText: "second" },
+      { nodeId: "a", chunkId: "a#0", nodeName: "A", ancestorId: null, ancestorName: null, ancestorTags: [], contextText: "first" },
+    ];
+    const hash = hashEmbeddingItems(items).get("a")!;
+    expect(hash.vectorCount).toBe(2);
+    expect(hashEmbeddingItems([...items].reverse()).get("a")!.hash).toBe(hash.hash);
+    expect(hashEmbeddingItems([{ ...items[0], contextText: "changed" }, items[1]]).get("a")!.hash).not.toBe(hash.hash);
+  });
+
+  it("should name embed modes by their options", () => {
+    expect(getEmbedModeKey({})).toBe("plain");
+    expect(getEmbedModeKey({ chunking: {}, includeFields: true })).toBe("chunked+fields");
+  });
+});
+
+describe("recordEmbeddingState / selectChangedNodes", () => {
+  it("should select nodes that are new, edited, or embedded with another model or mode", () => {
+    record(["a", "b"]);
+    db.run("UPDATE nodes SET name = 'Beta retrospective v2' WHERE id = 'b'");
+
+    const hashes = hashEmbeddingItems(buildEmbeddingItems(db, nodes(["a", "b", "c"]), {}));
+    const state = getEmbeddingState(db);
+
+    expect([...selectChangedNodes(hashes, state, { model: MODEL, mode: "plain" })]).toEqual(["b", "c"]);
+    expect([...selectChangedNodes(hashes, state, { model: "other", mode: "plain" })]).toEqual(["a", "b", "c"]);
+    expect([...selectChangedNodes(hashes, state, { model: MODEL, mode: "fields" })]).toEqual(["a", "b", "c"]);
+  });
+
+  it("should only record nodes whose vectors are in the index", () => {
+    record(["a", "b"], ["a"]);
+    expect([...getEmbeddingState(db).keys()]).toEqual(["a"]);
+
+    removeEmbeddingState(db, ["a"]);
+    expect(getEmbeddingState(db).size).toBe(0);
+  });
+});
+
+describe("checkFreshness", () => {
+  it("should report fresh, stale, missing, orphaned and untracked vectors", () => {
+    db.run("INSERT INTO nodes (id, name, raw_data) VALUES ('d', 'Delta notes', '{}')");
+    record(["a", "b"]);
+    db.run("UPDATE nodes SET name = 'Alpha launch plan (final)' WHERE id = 'a'");
+
+    const embeddedIds = ["a", "b", "d", "gone#0", "gone#1"];
+    const report = checkFreshness(db, embeddedIds, { model: MODEL, filter });
+
+    expect(report).toEqual({
+      vectors: 5,
+      nodes: 3,
+      fresh: 1,
+      stale: ["a"],
+      missing: ["c"],
+      orphaned: ["gone#0", "gone#1"],
+      untracked: ["d"],
+    });
+    expect(findOrphanedVectorIds(db, embeddedIds)).toEqual(["gone#0", "gone#1"]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for the semantic search re-ranking stage
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  getRerankFetchLimit,
+  parseRerankStrategy,
+  parseTagPriority,
+  rerankResults,
+  type RelevanceScorer,
+} from "../../src/embeddings/rerank";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+let db: Database;
+
+beforeAll(() => {
+  db = new Database(":memory:");
+  db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, created INTEGER, updated INTEGER)");
+  db.run("CREATE TABLE tag_applications (id INTEGER PRIMARY KEY AUTOINCREMENT, data_node_id TEXT, tag_name TEXT)");
+  db.run('CREATE TABLE "references" (id INTEGER PRIMARY KEY AUTOINCREMENT, from_node TEXT, to_node TEXT, reference_type TEXT)');
+
+  db.run("INSERT INTO nodes VALUES ('old', 'Old plan', ?, NULL)", [NOW - 720 * DAY]);
+  db.run("INSERT INTO nodes VALUES ('fresh', 'Fresh plan', ?, ?)", [NOW - 720 * DAY, NOW - DAY]);
+  db.run("INSERT INTO nodes VALUES ('daily', 'Daily note', ?, NULL)", [NOW - 720 * DAY]);
+  db.run("INSERT INTO nodes VALUES ('hub', 'Hub', ?, NULL)", [NOW - 720 * DAY]);
+  db.run("INSERT INTO tag_applications (data_node_id, tag_name) VALUES ('daily', 'day'), ('hub', 'Project'), ('hub', 'day')");
+  for (const from of ["a", "b", "c", "d"]) {
+    db.run(`INSERT INTO "references" (from_node, to_node, reference_type) VALUES (?, 'hub', 'inline')`, [from]);
+  }
+});
+
+afterAll(() => {
+  db.close();
+});
+
+const hit = (nodeId: string, similarity: number) => ({ nodeId, similarity, name: nodeId });
+
+describe("rerankResults", () => {
+  it("should keep the vector order for strategy none", async () => {
+    const results = [hit("old", 0.8), hit("fresh", 0.79)];
+    expect(await rerankResults(db, "plan", results)).toBe(results);
+  });
+
+  it("should boost recently updated nodes", async () => {
+    const reranked = await rerankResults(db, "plan", [hit("old", 0.8), hit("fresh", 0.79)], {
+      strategy: "heuristic",
+      now: NOW,
+    });
+
+    expect(reranked.map((r) => r.nodeId)).toEqual(["fresh", "old"]);
+    expect(reranked[0].rerankScore).toBeGreaterThan(reranked[1].rerankScore!);
+  });
+
+  it("should apply the strongest tag priority and reference counts", async () => {
+    const reranked = await rerankResults(db, "plan", [hit("daily", 0.9), hit("old", 0.85), hit("hub", 0.8)], {
+      strategy: "heuristic",
+      now: NOW,
+      weights: { recency: 0 },
+      tagPriority: { "#project": 1, day: -0.5 },
+    });
+
+    // hub: #project (1) beats #day (-0.5) and it has the most references
+    expect(reranked.map((r) => r.nodeId)).toEqual(["hub", "old", "daily"]);
+  });
+
+  it("should only re-rank the top candidates", async () => {
+    const reranked = await rerankResults(db, "plan", [hit("old", 0.8), hit("hub", 0.7), hit("fresh", 0.6)], {
+      strategy: "heuristic",
+      now: NOW,
+      candidates: 2,
+      tagPriority: { project: 1 },
+    });
+
+    expect(reranked.map((r) => r.nodeId)).toEqual(["hub", "old", "fresh"]);
+    expect(reranked[2].rerankScore).toBeUndefined();
+  });
+
+  it("should score relevance with the cross-encoder on candidate texts", async () => {
+    const seen: string[] = [];
+    const scorer: RelevanceScorer = async (_query, texts) => {
+      seen.push(...texts);
+      return texts.map((t) => (t.includes("quarterly") ? 0.95 : 0.1));
+    };
+
+    const reranked = await rerankResults(db, "quarterly plan", [hit("old", 0.9), hit("daily", 0.5)], {
+      strategy: "cross-encoder",
+      now: NOW,
+      scorer,
+      textOf: (r) => (r.nodeId === "daily" ? "quarterly review" : r.name ?? ""),
+    });
+
+    expect(seen).toEqual(["old", "quarterly review"]);
+    expect(reranked.map((r) => r.nodeId)).toEqual(["daily", "old"]);
+  });
+});
+
+describe("option parsing", () => {
+  it("should validate strategies and tag priorities", () => {
+    expect(parseRerankStrategy("cross-encoder")).toBe("cross-encoder");
+    expect(() => parseRerankStrategy("bm25")).toThrow("Unknown re-ranking strategy");
+    expect(parseTagPriority("#project=1, day=-0.5")).toEqual({ project: 1, day: -0.5 });
+    expect(() => parseTagPriority("project=2")).toThrow("Invalid tag priority");
+  });
+
+  it("should fetch at least the candidate count when re-ranking", () => {
+    expect(getRerankFetchLimit(30, "none", 100)).toBe(30);
+    expect(getRerankFetchLimit(30, "heuristic")).toBe(50);
+    expect(getRerankFetchLimit(150, "heuristic", 100)).toBe(150);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the GraphQL schema over the local index
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { TanaIndexer } from "../src/db/indexer";
+import { TanaQueryEngine } from "../src/query/tana-query-engine";
+import { UnifiedSchemaService } from "../src/services/unified-schema-service";
+import { buildGraphQLSchema, createGraphQLContext, executeGraphQL, nameSupertagTypes } from "../src/server/graphql";
+import { cleanupSqliteDatabase, getUniqueTestDbPath } from "./test-utils";
+
+let dbPath: string;
+let engine: TanaQueryEngine;
+
+beforeAll(async () => {
+  dbPath = getUniqueTestDbPath("graphql");
+  const indexer = new TanaIndexer(dbPath);
+  await indexer.initializeSchema();
+  indexer.close();
+
+  const db = new Database(dbPath);
+  const nodes: Array<[string, string, string | null, number, string[]]> = [
+    ["tag-person", "person", null, 1, []],
+    ["tag-employee", "employee", null, 1, []],
+    ["tag-company", "company", null, 1, []],
+    ["p1", "Jane Doe", "root", 10, []],
+    ["p2", "John Roe", "root", 20, []],
+    ["c1", "Acme", "root", 5, []],
+    ["m1", "Kickoff", "root", 30, ["m1-a", "m1-b"]],
+    ["m1-a", "Agenda", "m1", 31, []],
+    ["m1-b", "Notes", "m1", 32, []],
+  ];
+  for (const [id, name, parent, created, children] of nodes) {
+    db.run("INSERT INTO nodes (id, name, parent_id, created, updated, raw_data) VALUES (?, ?, ?, ?, ?, ?)", [
+      id, name, parent, created, created, JSON.stringify({ id, children }),
+    ]);
+  }
+
+  db.run(`
+    INSERT INTO supertag_metadata (tag_id, tag_name, normalized_name, description) VALUES
+      ('tag-person', 'person', 'person', 'A human'),
+      ('tag-employee', 'employee', 'employee', NULL),
+      ('tag-company', 'company', 'company', NULL)
+  `);
+  db.run("INSERT INTO supertag_parents (child_tag_id, parent_tag_id) VALUES ('tag-employee', 'tag-person')");
+  db.run(`
+    INSERT INTO supertag_fields (tag_id, tag_name, field_name, field_label_id, field_order, normalized_name, inferred_data_type, target_supertag_id, target_supertag_name) VALUES
+      ('tag-person', 'person', 'Email', 'attr-email', 0, 'email', 'email', NULL, NULL),
+      ('tag-person', 'person', 'Age', 'attr-age', 1, 'age', 'number', NULL, NULL),
+      ('tag-person', 'person', 'Active', 'attr-active', 2, 'active', 'checkbox', NULL, NULL),
+      ('tag-person', 'person', 'Employer', 'attr-employer', 3, 'employer', 'reference', 'tag-company', 'company'),
+      ('tag-person', 'person', 'Name', 'attr-name', 4, 'name', 'text', NULL, NULL),
+      ('tag-employee', 'employee', 'Team', 'attr-team', 0, 'team', 'text', NULL, NULL)
+  `);
+
+  db.run(`
+    INSERT INTO tag_applications (tuple_node_id, data_node_id, tag_id, tag_name) VALUES
+      ('t1', 'p1', 'tag-person', 'person'),
+      ('t2', 'p2', 'tag-employee', 'employee'),
+      ('t3', 'c1', 'tag-company', 'company')
+  `);
+  db.run(`
+    INSERT INTO field_values (tuple_id, parent_id, field_def_id, field_name, value_node_id, value_text, value_order) VALUES
+      ('f1', 'p1', 'attr-email', 'Email', 'v1', 'jane@acme.com', 0),
+      ('f1', 'p1', 'attr-email', 'Email', 'v2', 'jane@home.net', 1),
+      ('f2', 'p1', 'attr-age', 'Age', 'v3', '42', 0),
+      ('f3', 'p1', 'attr-active', 'Active', 'v4', 'true', 0),
+      ('f4', 'p1', 'attr-employer', 'Employer', 'c1', 'Acme', 0),
+      ('f5', 'p1', 'attr-name', 'Name', 'v5', 'Jane', 0),
+      ('f6', 'p2', 'attr-team', 'Team', 'v6', 'Platform', 0)
+  `);
+  db.run(`INSERT INTO "references" (from_node, to_node, reference_type) VALUES ('m1', 'p1', 'inline_ref')`);
+  db.close();
+
+  engine = new TanaQueryEngine(dbPath);
+});
+
+afterAll(() => {
+  engine.close();
+  cleanupSqliteDatabase(dbPath);
+});
+
+async function run(query: string, variables?: Record<string, unknown>) {
+  const schema = buildGraphQLSchema(new UnifiedSchemaService(engine.rawDb));
+  return executeGraphQL(schema, createGraphQLContext(engine), { query, variables });
+}
+
+describe("nameSupertagTypes", () => {
+  it("should name typed objects and rename fields that clash with built-in properties", () => {
+    const infos = nameSupertagTypes(new UnifiedSchemaService(engine.rawDb));
+    const person = infos.find((i) => i.tag.name === "person")!;
+
+    expect(infos.map((i) => [i.typeName, i.queryField])).toEqual([
+      ["Company", "company"],
+      ["Employee", "employee"],
+      ["Person", "person"],
+    ]);
+    expect([...person.properties.values()].map((p) => p.property)).toEqual(["email", "age", "active", "employer", "nameField"]);
+  });
+});
+
+describe("typed supertag objects", () => {
+  it("should expose fields as typed properties, including inherited ones", async () => {
+    const result = await run(`{
+      person { name email age active nameField employer { name } }
+      employee { name team email }
+    }`);
+
+    expect(result.status).toBe(200);
+    expect(result.body.errors).toBeUndefined();
+    expect(result.body.data).toEqual({
+      person: [
+        {
+          name: "Jane Doe",
+          email: "jane@acme.com, jane@home.net",
+          age: 42,
+          active: true,
+          nameField: "Jane",
+          employer: [{ name: "Acme" }],
+        },
+      ],
+      employee: [{ name: "John Roe", team: "Platform", email: null }],
+    });
+  });
+});
+
+describe("generic types", () => {
+  it("should resolve tags, field values, children and references of a node", async () => {
+    const result = await run(`query ($id: ID!) {
+      node(id: $id) {
+        name
+        tags { name description fields { name dataType targetSupertag { name } } }
+        fields { field value valueNode { id } }
+        references(direction: IN) { type from { name children { name } } }
+      }
+    }`, { id: "p1" });
+
+    const node = (result.body.data as { node: Record<string, any> }).node;
+    expect(node.name).toBe("Jane Doe");
+    expect(node.tags[0].name).toBe("person");
+    expect(node.tags[0].description).toBe("A human");
+    expect(node.tags[0].fields.find((f: { name: string }) => f.name === "Employer")).toEqual({
+      name: "Employer",
+      dataType: "reference",
+      targetSupertag: { name: "company" },
+    });
+    expect(node.fields.map((f: { field: string }) => f.field)).toEqual(["Active", "Age", "Email", "Email", "Employer", "Name"]);
+    expect(node.fields.find((f: { field: string }) => f.field === "Employer").valueNode).toEqual({ id: "c1" });
+    expect(node.references).toEqual([
+      { type: "inline_ref", from: { name: "Kickoff", children: [{ name: "Agenda" }, { name: "Notes" }] } },
+    ]);
+  });
+
+  it("should list supertags with inheritance", async () => {
+    const result = await run(`{ supertag(name: "employee") { name extends { name } fields { name } } }`);
+    expect(result.body.data).toEqual({
+      supertag: {
+        name: "employee",
+        extends: [{ name: "person" }],
+        fields: [{ name: "Team" }, { name: "Email" }, { name: "Age" }, { name: "Active" }, { name: "Employer" }, { name: "Name" }],
+      },
+    });
+  });
+});
+
+describe("executeGraphQL", () => {
+  it("should answer malformed and invalid queries with 400", async () => {
+    expect((await run("")).status).toBe(400);
+    expect((await run("{ node(id: ")).status).toBe(400);
+
+    const invalid = await run("{ person { salary } }");
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors?.[0].message).toContain('Cannot query field "salary" on type "Person"');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Tests for the Local API mutation journal and undo
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, appendFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  MutationJournal,
+  inverseOf,
+  parseDoneState,
+  parseFieldValue,
+  undoMutations,
+} from "../src/api/mutation-journal";
+import { LocalApiBackend } from "../src/api/local-api-backend";
+import type { LocalApiClient } from "../src/api/local-api-client";
+
+/**
+ * In-memory stand-in for the Local API with a single node
+ */
+function createMockClient() {
+  const node = { name: "Draft", description: "old" as string | null, done: false, status: "Open" };
+  const calls: string[] = [];
+  const client = {
+    readNode: async (id: string) => {
+      if (id === "attr-status") return { markdown: "- Status", name: "Status" };
+      return {
+        markdown: `- [${node.done ? "x" : " "}] ${node.name}\n  - Status:: ${node.status}`,
+        name: node.name,
+        description: node.description,
+      };
+    },
+    updateNode: async (nodeId: string, update: { name?: string | null; description?: string | null }) => {
+      calls.push(`update:${JSON.stringify(update)}`);
+      if (update.name !== undefined) node.name = update.name ?? "";
+      if (update.description !== undefined) node.description = update.description;
+      return { nodeId, name: node.name, description: node.description, message: "ok" };
+    },
+    addTags: async (nodeId: string, tagIds: string[]) => {
+      calls.push(`addTags:${tagIds.join(",")}`);
+      return {
+        nodeId, nodeName: node.name, action: "add",
+        results: tagIds.map((tagId) => ({ tagId, tagName: tagId, success: tagId !== "existing", message: "" })),
+      };
+    },
+    removeTags: async (nodeId: string, tagIds: string[]) => {
+      calls.push(`removeTags:${tagIds.join(",")}`);
+      return { nodeId, nodeName: node.name, action: "remove", results: [] };
+    },
+    setFieldContent: async (nodeId: string, attributeId: string, content: string) => {
+      calls.push(`setField:${content}`);
+      node.status = content;
+      return { nodeId, attributeId, content, message: "ok" };
+    },
+    checkNode: async (nodeId: string) => {
+      calls.push("check");
+      node.done = true;
+      return { nodeId, nodeName: node.name, done: true, message: "ok" };
+    },
+    uncheckNode: async (nodeId: string) => {
+      calls.push("uncheck");
+      node.done = false;
+      return { nodeId, nodeName: node.name, done: false, message: "ok" };
+    },
+    trashNode: async (nodeId: string) => {
+      if (nodeId === "locked") throw new Error("Node is locked");
+      calls.push("trash");
+      return { nodeId, nodeName: node.name, trashNodeId: "ws_TRASH", message: "ok" };
+    },
+  };
+  return { client: client as unknown as LocalApiClient, node, calls };
+}
+
+describe("MutationJournal", () => {
+  let dir: string;
+  let journal: MutationJournal;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "supertag-journal-"));
+    journal = new MutationJournal(join(dir, "journal.jsonl"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should fold begin/commit/fail records into entries", () => {
+    const a = journal.begin({ operation: "checkNode", nodeId: "n1", params: {} }, null);
+    const b = journal.begin({ operation: "trashNode", nodeId: "n2", params: {} }, null);
+    const c = journal.begin({ operation: "uncheckNode", nodeId: "n3", params: {} }, null);
+    journal.commit(a);
+    journal.fail(b, new Error("boom"));
+
+    expect(journal.entries().map((e) => [e.id, e.status])).toEqual([
+      [1, "applied"],
+      [2, "failed"],
+      [3, "pending"],
+    ]);
+    expect(journal.get(b)?.error).toBe("boom");
+    expect(journal.undoable(5).map((e) => e.id)).toEqual([a]);
+    expect(c).toBe(3);
+  });
+
+  it("should skip a torn trailing line", () => {
+    journal.commit(journal.begin({ operation: "checkNode", nodeId: "n1", params: {} }, null));
+    appendFileSync(join(dir, "journal.jsonl"), '{"phase":"beg');
+
+    expect(journal.entries()).toHaveLength(1);
+    expect(journal.lastId()).toBe(1);
+  });
+});
+
+describe("LocalApiBackend journaling", () => {
+  let dir: string;
+  let journal: MutationJournal;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "supertag-journal-"));
+    journal = new MutationJournal(join(dir, "journal.jsonl"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should record the before-state of each mutation", async () => {
+    const { client } = createMockClient();
+    const backend = new LocalApiBackend(client, journal);
+
+    await backend.updateNode("n1", { name: "Final" });
+    await backend.setFieldContent("n1", "attr-status", "Done");
+    await backend.addTags("n1", ["t1", "existing"]);
+
+    const [update, field, tags] = journal.entries();
+    expect(update.before?.name).toBe("Draft");
+    expect(update.status).toBe("applied");
+    expect(field.before?.field).toEqual({ attributeId: "attr-status", name: "Status", value: "Open" });
+    expect(tags.changed).toEqual(["t1"]);
+  });
+
+  it("should record failed mutations and rethrow", async () => {
+    const { client } = createMockClient();
+    const backend = new LocalApiBackend(client, journal);
+
+    await expect(backend.trashNode("locked")).rejects.toThrow("Node is locked");
+    expect(journal.entries()[0]).toMatchObject({ operation: "trashNode", status: "failed", error: "Node is locked" });
+  });
+
+  it("should not journal without a journal", async () => {
+    const { client, calls } = createMockClient();
+    await new LocalApiBackend(client).checkNode("n1");
+    expect(calls).toEqual(["check"]);
+  });
+});
+
+describe("undoMutations", () => {
+  let dir: string;
+  let journal: MutationJournal;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "supertag-journal-"));
+    journal = new MutationJournal(join(dir, "journal.jsonl"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should restore the before-state newest first and link the inverse entries", async () => {
+    const { client, node, calls } = createMockClient();
+    const backend = new LocalApiBackend(client, journal);
+    await backend.updateNode("n1", { name: "Final", description: null });
+    await backend.setFieldContent("n1", "attr-status", "Done");
+    await backend.checkNode("n1");
+    await backend.addTags("n1", ["t1", "existing"]);
+    calls.length = 0;
+
+    const ids = journal.undoable(10).map((e) => e.id);
+    const results = await undoMutations(journal, backend, ids);
+
+    expect(calls).toEqual([
+      "removeTags:t1",
+      "uncheck",
+      "setField:Open",
+      'update:{"name":"Draft","description":"old"}',
+    ]);
+    expect(node).toEqual({ name: "Draft", description: "old", done: false, status: "Open" });
+    expect(results.map((r) => r.id)).toEqual([4, 3, 2, 1]);
+    expect(journal.get(4)?.undoneBy).toEqual([5]);
+    expect(journal.get(5)?.undoOf).toBe(4);
+    expect(journal.undoable(10)).toEqual([]);
+  });
+
+  it("should refuse to undo twice", async () => {
+    const { client } = createMockClient();
+    const backend = new LocalApiBackend(client, journal);
+    await backend.checkNode("n1");
+    await undoMutations(journal, backend, [1]);
+
+    await expect(undoMutations(journal, backend, [1])).rejects.toThrow("already undone");
+  });
+
+  it("should refuse to undo a trash and leave it in the journal", async () => {
+    const { client, calls } = createMockClient();
+    const backend = new LocalApiBackend(client, journal);
+    await backend.trashNode("n1");
+    calls.length = 0;
+
+    const undo = undoMutations(journal, backend, [1]);
+    await expect(undo).rejects.toThrow("no endpoint to move a node out of the trash");
+    await expect(undo).rejects.toMatchObject({ suggestion: 'Restore "Draft" (n1) from the trash in Tana' });
+    expect(calls).toEqual([]);
+    expect(journal.get(1)).toMatchObject({ operation: "trashNode", status: "applied", before: { name: "Draft" } });
+    expect(journal.get(1)?.undoneBy).toBeUndefined();
+  });
+
+  it("should reject unknown IDs before applying anything", async () => {
+    const { client, calls } = createMockClient();
+    const backend = new LocalApiBackend(client, journal);
+    await backend.checkNode("n1");
+    calls.length = 0;
+
+    await expect(undoMutations(journal, backend, [1, 99])).rejects.toThrow("No mutation #99");
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("inverseOf", () => {
+  const base = { id: 1, timestamp: "", nodeId: "n1", status: "applied" as const };
+
+  it("should not undo trash", () => {
+    expect(() => inverseOf({ ...base, operation: "trashNode", params: {}, before: null })).toThrow("cannot be undone");
+  });
+
+  it("should be a no-op when the node was already done", () => {
+    const before = { markdown: "- [x] A", done: true };
+    expect(inverseOf({ ...base, operation: "checkNode", params: {}, before })).toEqual([]);
+  });
+
+  it("should restore option fields only when the previous option ID is known", () => {
+    const params = { attributeId: "a1", optionId: "o2" };
+    const known = { markdown: "", done: null, field: { attributeId: "a1", value: "[[High^o1]]" } };
+    const unknown = { markdown: "", done: null, field: { attributeId: "a1", value: "High" } };
+
+    expect(inverseOf({ ...base, operation: "setFieldOption", params, before: known })).toEqual([
+      { operation: "setFieldOption", nodeId: "n1", params: { attributeId: "a1", optionId: "o1" } },
+    ]);
+    expect(() => inverseOf({ ...base, operation: "setFieldOption", params, before: unknown })).toThrow("previous option is unknown");
+  });
+
+  it("should refuse to restore properties missing from the before-state", () => {
+    const before = { markdown: "- A", done: null, description: null };
+    expect(() => inverseOf({ ...base, operation: "updateNode", params: { name: "B" }, before })).toThrow(
+      "the before-state has no name"
+    );
+    expect(inverseOf({ ...base, operation: "updateNode", params: { description: "new" }, before })).toEqual([
+      { operation: "updateNode", nodeId: "n1", params: { description: null } },
+    ]);
+
+    const params = { attributeId: "a1", content: "Done" };
+    const unnamed = { markdown: "- A", done: null, field: { attributeId: "a1", value: null } };
+    expect(() => inverseOf({ ...base, operation: "setFieldContent", params, before: unnamed })).toThrow(
+      "previous field value was not recorded"
+    );
+  });
+});
+
+describe("markdown parsing", () => {
+  it("should parse the checkbox state", () => {
+    expect(parseDoneState("- [x] Task")).toBe(true);
+    expect(parseDoneState("- [ ] Task")).toBe(false);
+    expect(parseDoneState("- Note")).toBeNull();
+  });
+
+  it("should parse field values", () => {
+    const markdown = "- Task\n  - Due Date:: 2026-01-01\n  - **Owner**: Alice";
+    expect(parseFieldValue(markdown, "Due Date")).toBe("2026-01-01");
+    expect(parseFieldValue(markdown, "Owner")).toBe("Alice");
+    expect(parseFieldValue(markdown, "Status")).toBeNull();
+  });
+});
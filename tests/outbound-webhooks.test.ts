@@ -0,0 +1,180 @@
+/**
+ * Tests for outbound webhook rules, evaluation and delivery
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, rmSync } from "fs";
+import { join } from "path";
+import { TanaIndexer } from "../src/db/indexer";
+import {
+  DeadLetterLog,
+  OutboundWebhooks,
+  deliverWebhookEvent,
+  evaluateWebhookRules,
+  type WebhookEvent,
+} from "../src/services/outbound-webhooks";
+import {
+  WebhookRuleStore,
+  matchesWebhookCondition,
+  parseWebhookCondition,
+  parseWebhookHeaders,
+} from "../src/services/webhook-rules";
+import { getUniqueTestDir } from "./test-utils";
+
+let dir: string;
+let db: Database;
+let rules: WebhookRuleStore;
+let deadLetters: DeadLetterLog;
+
+beforeEach(async () => {
+  dir = getUniqueTestDir("outbound-webhooks");
+  mkdirSync(dir, { recursive: true });
+  const dbPath = join(dir, "test.db");
+  const indexer = new TanaIndexer(dbPath);
+  await indexer.initializeSchema();
+  indexer.close();
+  db = new Database(dbPath);
+  rules = new WebhookRuleStore(join(dir, "webhooks.json"));
+  deadLetters = new DeadLetterLog(join(dir, "dead-letters.jsonl"));
+});
+
+afterEach(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function addNode(id: string, name: string, tag?: string): void {
+  db.run("INSERT INTO nodes (id, name, created, updated) VALUES (?, ?, 0, 0)", [id, name]);
+  if (tag) tagNode(id, tag);
+}
+
+function tagNode(id: string, tag: string): void {
+  db.run("INSERT INTO tag_applications (tuple_node_id, data_node_id, tag_id, tag_name) VALUES (?, ?, ?, ?)", [
+    `tuple-${id}-${tag}`, id, `tag-${tag}`, tag,
+  ]);
+}
+
+function setStatus(id: string, value: string): void {
+  db.run("DELETE FROM field_values WHERE parent_id = ? AND field_name = 'Status'", [id]);
+  db.run(
+    "INSERT INTO field_values (tuple_id, parent_id, field_def_id, field_name, value_node_id, value_text, value_order) VALUES (?, ?, 'attr-status', 'Status', ?, ?, 0)",
+    [`f-${id}`, id, `v-${id}-${value}`, value]
+  );
+}
+
+/** fetch stand-in answering with the given statuses in turn (throws for 0) */
+function fakeFetch(statuses: number[]): { fetch: typeof fetch; bodies: WebhookEvent[] } {
+  const bodies: WebhookEvent[] = [];
+  let call = 0;
+  const fn = async (_url: string | URL | Request, init?: RequestInit) => {
+    const status = statuses[Math.min(call++, statuses.length - 1)];
+    if (status === 0) throw new Error("connect ECONNREFUSED");
+    bodies.push(JSON.parse(String(init?.body)) as WebhookEvent);
+    return new Response(null, { status });
+  };
+  return { fetch: fn as unknown as typeof fetch, bodies };
+}
+
+describe("webhook rules", () => {
+  it("should parse and match conditions", () => {
+    expect(parseWebhookCondition("Status = Done")).toEqual({ field: "Status", operator: "=", value: "Done" });
+    expect(parseWebhookCondition('Due date != "next week"')).toEqual({ field: "Due date", operator: "!=", value: "next week" });
+    expect(parseWebhookCondition("Status changed")).toEqual({ field: "Status", operator: "changed" });
+    expect(() => parseWebhookCondition("Status")).toThrow("Invalid webhook condition");
+
+    expect(matchesWebhookCondition({ field: "Status", operator: "=", value: "Done" }, "done")).toBe(true);
+    expect(matchesWebhookCondition({ field: "Status", operator: "!=", value: "Done" }, null)).toBe(false);
+    expect(matchesWebhookCondition({ field: "Title", operator: "~", value: "urgent" }, "Very URGENT fix")).toBe(true);
+    expect(matchesWebhookCondition({ field: "Due", operator: "exists" }, "")).toBe(false);
+    expect(parseWebhookHeaders(["Authorization: Bearer a:b"])).toEqual({ Authorization: "Bearer a:b" });
+  });
+
+  it("should validate, store and remove rules", () => {
+    expect(() => rules.add({ name: "x", tag: "task", url: "ftp://example.com" })).toThrow("Invalid webhook URL");
+    const rule = rules.add({ name: "incidents", tag: "#incident", url: "https://example.com/hook" });
+    expect(rule.tag).toBe("incident");
+    expect(() => rules.add({ name: "incidents", tag: "task", url: "https://example.com" })).toThrow("already exists");
+    expect(rules.remove("incidents").id).toBe(rule.id);
+    expect(rules.list()).toEqual([]);
+  });
+});
+
+describe("evaluateWebhookRules", () => {
+  it("should record a baseline, then fire on transitions only", () => {
+    const tagged = rules.add({ name: "incidents", tag: "incident", url: "https://example.com/a" });
+    const done = rules.add({
+      name: "done",
+      tag: "task",
+      when: { field: "Status", operator: "=", value: "Done" },
+      url: "https://example.com/b",
+    });
+    const changed = rules.add({ name: "status", tag: "task", when: { field: "Status", operator: "changed" }, url: "https://example.com/c" });
+    const other = rules.add({ name: "other", tag: "incident", url: "https://example.com/d", workspace: "books" });
+    const context = { workspace: "main", source: "reindex" as const };
+
+    addNode("i1", "Outage", "incident");
+    addNode("t1", "Ship it", "task");
+    setStatus("t1", "Open");
+    expect(evaluateWebhookRules(db, rules.list(), context)).toEqual([]);
+
+    addNode("i2", "Data loss", "incident");
+    tagNode("t1", "urgent");
+    setStatus("t1", "Done");
+    const events = evaluateWebhookRules(db, rules.list(), context);
+    expect(events.map(({ rule, event }) => [rule.id, event.type, event.node.id])).toEqual([
+      [tagged.id, "tagged", "i2"],
+      [done.id, "matched", "t1"],
+      [changed.id, "changed", "t1"],
+    ]);
+    const matched = events[1].event;
+    expect(matched.workspace).toBe("main");
+    expect(matched.node).toEqual({ id: "t1", name: "Ship it", tags: ["task", "urgent"] });
+    expect(matched.field).toEqual({ name: "Status", value: "Done", previous: "Open" });
+    expect(events.some((e) => e.rule.id === other.id)).toBe(false);
+
+    expect(evaluateWebhookRules(db, rules.list(), context)).toEqual([]);
+
+    rules.remove("done");
+    evaluateWebhookRules(db, rules.list(), context);
+    const left = db.query("SELECT COUNT(*) AS n FROM webhook_rule_state WHERE rule_id = ?").get(done.id) as { n: number };
+    expect(left.n).toBe(0);
+  });
+});
+
+describe("delivery", () => {
+  it("should retry transient failures and not retry client errors", async () => {
+    const rule = rules.add({ name: "a", tag: "task", url: "https://example.com/a", headers: { "X-Token": "s3cret" } });
+    const sample = { id: "e1", type: "tagged", rule: { id: rule.id, name: "a" }, source: "reindex", node: { id: "t1", name: "Ship it", tags: ["task"] }, timestamp: "" } as WebhookEvent;
+    const flaky = fakeFetch([0, 503, 200]);
+    expect(await deliverWebhookEvent(rule, sample, { fetch: flaky.fetch, backoffMs: 0 })).toEqual({ ok: true, attempts: 3, status: 200 });
+    expect(flaky.bodies[1]).toEqual(sample);
+
+    const rejected = fakeFetch([400, 200]);
+    const result = await deliverWebhookEvent(rule, sample, { fetch: rejected.fetch, backoffMs: 0 });
+    expect(result).toEqual({ ok: false, attempts: 1, status: 400, error: "HTTP 400" });
+  });
+
+  it("should dead-letter undeliverable events and replay them", async () => {
+    const rule = rules.add({ name: "incidents", tag: "incident", url: "https://example.com/hook" });
+    const down = fakeFetch([0]);
+    const webhooks = new OutboundWebhooks({ rules, deadLetters, fetch: down.fetch, backoffMs: 0, maxAttempts: 2 });
+    await webhooks.run(db, { source: "delta-sync" });
+
+    addNode("i1", "Outage", "incident");
+    addNode("i2", "Data loss", "incident");
+    expect(await webhooks.run(db, { source: "delta-sync" })).toEqual({ events: 2, delivered: 0, deadLettered: 2 });
+    const letters = deadLetters.list();
+    expect(letters.map((l) => [l.event.node.id, l.attempts])).toEqual([["i1", 2], ["i2", 0]]);
+    expect(letters[1].error).toContain("Skipped, target failing");
+
+    const up = fakeFetch([200]);
+    const replay = new OutboundWebhooks({ rules, deadLetters, fetch: up.fetch, backoffMs: 0 });
+    expect(await replay.replay()).toEqual({ delivered: 2, failed: 0 });
+    expect(up.bodies.map((b) => [b.rule.id, b.type, b.node.name])).toEqual([
+      [rule.id, "tagged", "Outage"],
+      [rule.id, "tagged", "Data loss"],
+    ]);
+    expect(deadLetters.list()).toEqual([]);
+  });
+});
@@ -6,8 +6,8 @@
  */
 
 import { describe, it, expect } from "bun:test";
-import { parseQuery, ParseError } from "../src/query/parser";
-import type { QueryAST, WhereClause } from "../src/query/types";
+import { parseQuery, extractQueryParams, ParseError } from "../src/query/parser";
+import type { QueryAST, RelationshipClause, WhereClause, WhereGroup } from "../src/query/types";
 
 describe("Query Parser", () => {
   describe("Basic Find", () => {
@@ -288,6 +288,226 @@ describe("Query Parser", () => {
     });
   });
 
+  describe("Group By and Aggregates", () => {
+    it("should parse group by field", () => {
+      const ast = parseQuery("find task group by Owner");
+      expect(ast.groupBy).toEqual([{ field: "Owner" }]);
+    });
+
+    it("should parse group by time period", () => {
+      const ast = parseQuery("find meeting group by month");
+      expect(ast.groupBy).toEqual([{ period: "month" }]);
+    });
+
+    it("should parse multiple group keys", () => {
+      const ast = parseQuery("find task group by Status, 'Due Week'");
+      expect(ast.groupBy).toEqual([{ field: "Status" }, { field: "Due Week" }]);
+    });
+
+    it("should parse aggregate functions in select", () => {
+      const ast = parseQuery("find task group by Owner select Owner, count(), sum(Points), avg(Points)");
+      expect(ast.select).toEqual(["Owner"]);
+      expect(ast.aggregate).toEqual([
+        { fn: "count" },
+        { fn: "sum", field: "Points" },
+        { fn: "avg", field: "Points" },
+      ]);
+    });
+
+    it("should parse count(*) and aliases", () => {
+      const ast = parseQuery("find task select count(*) as total, max(created) as latest");
+      expect(ast.select).toBeUndefined();
+      expect(ast.aggregate).toEqual([
+        { fn: "count", alias: "total" },
+        { fn: "max", field: "created", alias: "latest" },
+      ]);
+    });
+
+    it("should combine where, group by and order by", () => {
+      const ast = parseQuery("find task where Status != Done group by Owner order by -count limit 5 select Owner, count()");
+      expect(ast.where).toHaveLength(1);
+      expect(ast.groupBy).toEqual([{ field: "Owner" }]);
+      expect(ast.orderBy).toEqual({ field: "count", desc: true });
+      expect(ast.limit).toBe(5);
+    });
+
+    it("should still accept 'group' and 'as' as tag, field and value names", () => {
+      expect(parseQuery("find group").find).toBe("group");
+      const ast = parseQuery("find task where Group = as and As = group group by Group select Group, count() AS n");
+      expect(ast.where).toEqual([
+        { field: "Group", operator: "=", value: "as", negated: undefined },
+        { field: "As", operator: "=", value: "group", negated: undefined },
+      ]);
+      expect(ast.groupBy).toEqual([{ field: "Group" }]);
+      expect(ast.select).toEqual(["Group"]);
+      expect(ast.aggregate).toEqual([{ fn: "count", alias: "n" }]);
+    });
+
+    it("should throw on unknown aggregate function", () => {
+      expect(() => parseQuery("find task select median(Points)")).toThrow(ParseError);
+    });
+
+    it("should throw when sum has no field", () => {
+      expect(() => parseQuery("find task select sum()")).toThrow(ParseError);
+    });
+
+    it("should throw on group without by", () => {
+      expect(() => parseQuery("find task group Owner")).toThrow(ParseError);
+    });
+  });
+
+  describe("Relationship Predicates", () => {
+    it("should parse references() with tag:name target", () => {
+      const ast = parseQuery('find meeting where references(project:"Apollo")');
+      expect(ast.where).toEqual([
+        { relation: "references", target: { tag: "project", name: "Apollo" } },
+      ]);
+    });
+
+    it("should parse references() with unquoted tag:name and id targets", () => {
+      expect(parseQuery("find * where references(project:Apollo)").where![0]).toEqual({
+        relation: "references",
+        target: { tag: "project", name: "Apollo" },
+      });
+      expect(parseQuery("find * where references(id:abc123)").where![0]).toEqual({
+        relation: "references",
+        target: { id: "abc123" },
+      });
+    });
+
+    it("should parse child of #tag", () => {
+      const ast = parseQuery("find task where child of #meeting");
+      expect(ast.where![0]).toEqual({ relation: "child_of", target: { tag: "meeting" } });
+    });
+
+    it("should parse parent of with quoted name", () => {
+      const ast = parseQuery('find * where parent of "Fix login bug"');
+      expect(ast.where![0]).toEqual({ relation: "parent_of", target: { name: "Fix login bug" } });
+    });
+
+    it("should parse referenced by count comparison", () => {
+      const ast = parseQuery("find project where referenced by >= 3");
+      expect(ast.where![0]).toEqual({
+        relation: "referenced_by",
+        count: { operator: ">=", value: 3 },
+      });
+    });
+
+    it("should parse referenced by target", () => {
+      const ast = parseQuery("find project where referenced by #meeting");
+      expect(ast.where![0]).toEqual({ relation: "referenced_by", target: { tag: "meeting" } });
+    });
+
+    it("should parse negated relationship combined with field conditions", () => {
+      const ast = parseQuery("find task where Status = Open and not child of #meeting");
+      expect(ast.where).toHaveLength(2);
+      expect(ast.where![1]).toEqual({ relation: "child_of", target: { tag: "meeting" }, negated: true });
+    });
+
+    it("should parse relationships inside OR groups", () => {
+      const ast = parseQuery("find task where (child of #meeting or references(#project))");
+      const group = ast.where![0] as WhereGroup;
+      expect(group.type).toBe("or");
+      expect(group.clauses).toHaveLength(2);
+    });
+
+    it("should still treat 'child' as a field name when not followed by 'of'", () => {
+      const ast = parseQuery("find task where child = yes");
+      expect(ast.where![0]).toEqual({ field: "child", operator: "=", value: "yes", negated: undefined });
+    });
+
+    it("should accept #tag as find target", () => {
+      expect(parseQuery("find #task").find).toBe("task");
+    });
+
+    it("should throw on references() without target", () => {
+      expect(() => parseQuery("find * where references()")).toThrow(ParseError);
+    });
+  });
+
+  describe("Search Predicates", () => {
+    it("should parse text ~ as a full-text predicate", () => {
+      const ast = parseQuery('find meeting where text ~ "quarterly review"');
+      expect(ast.where).toEqual([{ search: "text", query: "quarterly review" }]);
+    });
+
+    it("should parse similar to with a threshold", () => {
+      const ast = parseQuery('find * where similar to "budget risks" > 0.7');
+      expect(ast.where).toEqual([{ search: "similar", query: "budget risks", threshold: 0.7 }]);
+    });
+
+    it("should parse similar to without a threshold", () => {
+      const ast = parseQuery('find * where similar to hiring');
+      expect(ast.where).toEqual([{ search: "similar", query: "hiring" }]);
+    });
+
+    it("should combine search predicates with structured conditions", () => {
+      const ast = parseQuery('find meeting where created > 30d and similar to "hiring" >= 0.6 and not text ~ standup');
+      expect(ast.where).toEqual([
+        { field: "created", operator: ">", value: "30d" },
+        { search: "similar", query: "hiring", threshold: 0.6 },
+        { search: "text", query: "standup", negated: true },
+      ]);
+    });
+
+    it("should keep text as a field name with other operators", () => {
+      const ast = parseQuery('find note where text = "hello"');
+      expect(ast.where).toEqual([{ field: "text", operator: "=", value: "hello" }]);
+    });
+
+    it("should reject other operators after similar to", () => {
+      expect(() => parseQuery('find * where similar to "x" < 0.5')).toThrow(ParseError);
+    });
+  });
+
+  describe("Parameters", () => {
+    it("should bind string parameters as values", () => {
+      const ast = parseQuery("find task where Owner = $owner", { owner: "Alice" });
+      expect(ast.where).toEqual([{ field: "Owner", operator: "=", value: "Alice" }]);
+    });
+
+    it("should bind numeric parameters as numbers", () => {
+      const ast = parseQuery("find task where Points > $min limit $n", { min: "3", n: 5 });
+      expect((ast.where![0] as WhereClause).value).toBe(3);
+      expect(ast.limit).toBe(5);
+    });
+
+    it("should keep numeric-looking strings as text outside number slots", () => {
+      const ast = parseQuery("find task where Code = $code and Ref ~ $ref limit $n offset $skip", {
+        code: "007",
+        ref: "42",
+        n: "10",
+        skip: "20",
+      });
+      expect(ast.where).toEqual([
+        { field: "Code", operator: "=", value: "007" },
+        { field: "Ref", operator: "~", value: "42" },
+      ]);
+      expect(ast.limit).toBe(10);
+      expect(ast.offset).toBe(20);
+
+      const referenced = parseQuery("find task where referenced by >= $n", { n: "2" }).where![0] as RelationshipClause;
+      expect(referenced.count).toEqual({ operator: ">=", value: 2 });
+    });
+
+    it("should bind the find target", () => {
+      expect(parseQuery("find $tag", { tag: "meeting" }).find).toBe("meeting");
+    });
+
+    it("should keep bound values literal", () => {
+      const ast = parseQuery("find task where Owner = $owner", { owner: "x or Status = Done" });
+      expect(ast.where).toEqual([{ field: "Owner", operator: "=", value: "x or Status = Done" }]);
+    });
+
+    it("should throw on missing parameter values", () => {
+      expect(() => parseQuery("find task where Owner = $owner")).toThrow("$owner");
+    });
+
+    it("should extract parameter names", () => {
+      expect(extractQueryParams("find $tag where Owner = $owner or Reviewer = $owner")).toEqual(["tag", "owner"]);
+    });
+  });
+
   describe("Error Handling", () => {
     it("should throw on missing find keyword", () => {
       expect(() => parseQuery("task")).toThrow(ParseError);
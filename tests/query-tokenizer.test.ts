@@ -26,6 +26,12 @@ describe("Query Tokenizer", () => {
       expect(tokens.find((t) => t.value === "by")?.type).toBe(TokenType.KEYWORD);
     });
 
+    it("should leave 'group' and 'as' to the parser (identifiers)", () => {
+      const tokens = tokenize("find task group by Owner select count() as n");
+      expect(tokens.find((t) => t.value === "group")?.type).toBe(TokenType.IDENTIFIER);
+      expect(tokens.find((t) => t.value === "as")?.type).toBe(TokenType.IDENTIFIER);
+    });
+
     it("should tokenize 'limit' keyword", () => {
       const tokens = tokenize("find task limit 10");
       expect(tokens.find((t) => t.value === "limit")?.type).toBe(TokenType.KEYWORD);
@@ -199,6 +205,31 @@ describe("Query Tokenizer", () => {
     });
   });
 
+  describe("Tags", () => {
+    it("should tokenize #tag", () => {
+      const tokens = tokenize("child of #meeting");
+      expect(tokens[2]).toEqual({ type: TokenType.TAG, value: "meeting" });
+    });
+
+    it("should tokenize quoted #tag", () => {
+      const tokens = tokenize('child of #"weekly review"');
+      expect(tokens[2]).toEqual({ type: TokenType.TAG, value: "weekly review" });
+    });
+  });
+
+  describe("Parameters", () => {
+    it("should tokenize $name placeholders", () => {
+      const tokens = tokenize("where Owner = $owner limit $max_rows");
+      expect(tokens[3]).toEqual({ type: TokenType.PARAM, value: "owner" });
+      expect(tokens[5]).toEqual({ type: TokenType.PARAM, value: "max_rows" });
+    });
+
+    it("should leave $ inside strings alone", () => {
+      const tokens = tokenize('where Price = "$5"');
+      expect(tokens[3]).toEqual({ type: TokenType.STRING, value: "$5" });
+    });
+  });
+
   describe("Comma", () => {
     it("should tokenize comma for select field lists", () => {
       const tokens = tokenize("select name,email");
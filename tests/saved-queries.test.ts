@@ -0,0 +1,94 @@
+/**
+ * Saved Queries Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, rmSync, writeFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { SavedQueryStore, parseParamPairs } from "../src/query/saved-queries";
+import { ParseError } from "../src/query/parser";
+
+const TEST_DIR = "/tmp/supertag-saved-queries-test";
+const TEST_FILE = join(TEST_DIR, "queries", "main.json");
+
+describe("SavedQueryStore", () => {
+  let store: SavedQueryStore;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    store = new SavedQueryStore(TEST_FILE);
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should return an empty list when no file exists", () => {
+    expect(store.list()).toEqual([]);
+    expect(existsSync(TEST_FILE)).toBe(false);
+  });
+
+  it("should save and reload queries with their parameters", () => {
+    store.save("by-owner", "find task where Owner = $owner", "Tasks by owner");
+
+    const reloaded = new SavedQueryStore(TEST_FILE).get("by-owner");
+    expect(reloaded?.query).toBe("find task where Owner = $owner");
+    expect(reloaded?.description).toBe("Tasks by owner");
+    expect(reloaded?.params).toEqual(["owner"]);
+  });
+
+  it("should keep createdAt when replacing a query", () => {
+    const first = store.save("q", "find task");
+    const second = store.save("q", "find meeting");
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(store.list()).toHaveLength(1);
+  });
+
+  it("should list queries sorted by name", () => {
+    store.save("zeta", "find task");
+    store.save("alpha", "find meeting");
+    expect(store.list().map((q) => q.name)).toEqual(["alpha", "zeta"]);
+  });
+
+  it("should reject invalid names and queries", () => {
+    expect(() => store.save("bad name", "find task")).toThrow("Invalid saved query name");
+    expect(() => store.save("q", "task where")).toThrow(ParseError);
+  });
+
+  it("should delete queries", () => {
+    store.save("q", "find task");
+    expect(store.delete("q")).toBe(true);
+    expect(store.delete("q")).toBe(false);
+    expect(store.get("q")).toBeUndefined();
+  });
+
+  it("should resolve a query with bound parameters", () => {
+    store.save("by-owner", "find task where Owner = $owner");
+    const { ast } = store.resolve("by-owner", { owner: "Alice" });
+    expect(ast.where).toEqual([{ field: "Owner", operator: "=", value: "Alice" }]);
+  });
+
+  it("should throw when resolving an unknown query", () => {
+    expect(() => store.resolve("missing")).toThrow("Saved query not found");
+  });
+
+  it("should throw on a corrupt file", () => {
+    mkdirSync(join(TEST_DIR, "queries"), { recursive: true });
+    writeFileSync(TEST_FILE, "{not json");
+    expect(() => store.list()).toThrow("not valid JSON");
+  });
+});
+
+describe("parseParamPairs", () => {
+  it("should parse name=value pairs", () => {
+    expect(parseParamPairs(["owner=Alice", "$since=7d", "q=a=b"])).toEqual({
+      owner: "Alice",
+      since: "7d",
+      q: "a=b",
+    });
+  });
+
+  it("should reject pairs without '='", () => {
+    expect(() => parseParamPairs(["owner"])).toThrow("Invalid parameter");
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for duplicate detection and merge planning
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  migrateFieldValuesSchema,
+  migrateSchemaConsolidation,
+  migrateSupertagMetadataSchema,
+} from "../../src/db/migrate";
+import { applyMerge, findDuplicates, planMerge } from "../../src/services/dedupe";
+import type { TanaBackend } from "../../src/api/backend";
+import type { TanaSearchResult } from "../../src/embeddings/tana-embedding-service";
+
+let db: Database;
+
+beforeAll(() => {
+  db = new Database(":memory:");
+  db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, parent_id TEXT, node_type TEXT, created INTEGER, updated INTEGER, done_at INTEGER, raw_data TEXT)");
+  db.run("CREATE TABLE tag_applications (id INTEGER PRIMARY KEY AUTOINCREMENT, tuple_node_id TEXT, data_node_id TEXT, tag_id TEXT, tag_name TEXT)");
+  db.run('CREATE TABLE "references" (id INTEGER PRIMARY KEY AUTOINCREMENT, from_node TEXT NOT NULL, to_node TEXT NOT NULL, reference_type TEXT NOT NULL)');
+  migrateFieldValuesSchema(db);
+  migrateSupertagMetadataSchema(db);
+  migrateSchemaConsolidation(db);
+
+  db.run("INSERT INTO supertag_metadata (tag_id, tag_name, normalized_name) VALUES ('tag-person', 'person', 'person'), ('tag-deal', 'deal', 'deal')");
+  db.run(`
+    INSERT INTO supertag_fields (tag_id, tag_name, field_name, field_label_id, field_order, normalized_name)
+    VALUES ('tag-deal', 'deal', 'Contact', 'attr-contact', 0, 'contact')
+  `);
+
+  const nodes: Array<[string, string, string, number]> = [
+    ["p1", "Jane Doe", "root", 1],
+    ["p2", "jane  doe", "root", 2],
+    ["p3", "Jane Doee", "root", 3],
+    ["p4", "John Smith", "root", 4],
+    ["p5", "J. Smith", "root", 5],
+    ["n1", 'Met <span data-inlineref-node="p2">jane doe</span>', "root", 6],
+    ["deal1", "Acme renewal", "root", 7],
+    ["list", "Contacts", "root", 8],
+    ["deal2", "Globex pilot", "root", 10],
+  ];
+  for (const [id, name, parent, created] of nodes) {
+    db.run("INSERT INTO nodes (id, name, parent_id, created, raw_data) VALUES (?, ?, ?, ?, '{}')", [id, name, parent, created]);
+  }
+  db.run(`INSERT INTO nodes (id, name, created, raw_data) VALUES ('p6', 'Jane Doe', 9, '{"props":{"_ownerId":"ws_TRASH"}}')`);
+
+  for (const id of ["p1", "p2", "p3", "p4", "p5", "p6"]) {
+    db.run("INSERT INTO tag_applications (data_node_id, tag_id, tag_name) VALUES (?, 'tag-person', 'person')", [id]);
+  }
+  db.run("INSERT INTO tag_applications (data_node_id, tag_id, tag_name) VALUES ('deal1', 'tag-deal', 'deal'), ('deal2', 'tag-deal', 'deal')");
+
+  db.run(`
+    INSERT INTO "references" (from_node, to_node, reference_type) VALUES
+      ('n2', 'p1', 'inline_ref'), ('n3', 'p1', 'inline_ref'), ('n4', 'p1', 'inline_ref'),
+      ('n1', 'p2', 'inline_ref'), ('root', 'p3', 'child'), ('list', 'p3', 'child')
+  `);
+  db.run(`
+    INSERT INTO field_values (tuple_id, parent_id, field_def_id, field_name, value_node_id, value_text) VALUES
+      ('t1', 'p1', 'attr-email', 'Email', 'e1', 'jane@acme.com'),
+      ('t2', 'p2', 'attr-email', 'Email', 'e2', 'jane@example.com'),
+      ('t3', 'p1', 'attr-company', 'Company', 'c1', 'Acme'),
+      ('t4', 'p2', 'attr-company', 'Company', 'c2', 'Acme'),
+      ('t5', 'deal1', 'attr-contact', 'Contact', 'p2', 'jane doe'),
+      ('t6', 'deal2', 'attr-contact', 'Contact', 'p4', 'John Smith'),
+      ('t6', 'deal2', 'attr-contact', 'Contact', 'p5', 'J. Smith')
+  `);
+});
+
+afterAll(() => {
+  db.close();
+});
+
+const hit = (nodeId: string, similarity: number): TanaSearchResult => ({ nodeId, similarity, distance: 1 - similarity });
+
+describe("findDuplicates", () => {
+  it("should cluster exact and fuzzy name matches and skip trashed nodes", async () => {
+    const result = await findDuplicates(db, { tag: "#person" });
+
+    expect(result.candidates).toBe(5);
+    expect(result.clusters).toHaveLength(1);
+    const [cluster] = result.clusters;
+    expect(cluster.members.map((m) => m.id)).toEqual(["p1", "p2", "p3"]);
+    expect(cluster.winnerId).toBe("p1");
+    expect(cluster.members.map((m) => m.references)).toEqual([3, 2, 0]);
+    expect(cluster.matches.map((m) => m.reason).sort()).toEqual(["fuzzy", "fuzzy", "name"]);
+  });
+
+  it("should line up field values and flag conflicts", async () => {
+    const [cluster] = (await findDuplicates(db, { tag: "person" })).clusters;
+
+    expect(cluster.fields).toEqual([
+      { field: "Company", values: { p1: "Acme", p2: "Acme" }, conflict: false },
+      { field: "Email", values: { p1: "jane@acme.com", p2: "jane@example.com" }, conflict: true },
+    ]);
+  });
+
+  it("should add semantic matches above the threshold", async () => {
+    const index = {
+      search: async (query: string) =>
+        query === "Person: John Smith" ? [hit("p4", 1), hit("p5", 0.93), hit("p1", 0.6)] : [],
+    };
+
+    const result = await findDuplicates(db, { tag: "person", index });
+    expect(result.clusters.map((c) => c.members.map((m) => m.id))).toEqual([["p1", "p2", "p3"], ["p4", "p5"]]);
+    expect(result.clusters[1].matches).toEqual([{ a: "p4", b: "p5", reason: "semantic", score: 0.93 }]);
+
+    const strict = await findDuplicates(db, { tag: "person", index, semanticThreshold: 0.95, threshold: 0.9 });
+    expect(strict.clusters.map((c) => c.members.map((m) => m.id))).toEqual([["p1", "p2"]]);
+  });
+
+  it("should report unknown tags", async () => {
+    await expect(findDuplicates(db, { tag: "nope" })).rejects.toThrow("No nodes tagged #nope");
+  });
+});
+
+describe("planMerge", () => {
+  it("should re-point references, trash losers and report what cannot be re-pointed", () => {
+    const merge = planMerge(db, "p1", ["p2", "p3"]);
+
+    expect(merge.plan.ops.map((op) => [op.input.op, op.input.nodeId, op.status])).toEqual([
+      ["set-field", "deal1", "pending"],
+      ["update", "n1", "pending"],
+      ["trash", "p2", "pending"],
+      ["trash", "p3", "pending"],
+    ]);
+    expect(merge.plan.ops[0].mutation?.params).toEqual({ attributeId: "attr-contact", optionId: "p1" });
+    expect(merge.plan.ops[1].input.name).toBe('Met <span data-inlineref-node="p1">jane doe</span>');
+    expect(merge.repoints).toEqual({ p2: [0, 1], p3: [] });
+    expect(merge.unresolved).toEqual([{ loserId: "p3", fromNodeId: "list", type: "child" }]);
+  });
+
+  it("should not overwrite reference fields with several values", () => {
+    const merge = planMerge(db, "p4", ["p5"]);
+
+    expect(merge.plan.ops.map((op) => [op.input.op, op.input.nodeId])).toEqual([["trash", "p5"]]);
+    expect(merge.unresolved).toEqual([{ loserId: "p5", fromNodeId: "deal2", type: "field" }]);
+  });
+});
+
+describe("applyMerge", () => {
+  function createBackend(failing: string[] = []) {
+    const calls: string[] = [];
+    const run = async (call: string, nodeId: string) => {
+      if (failing.includes(nodeId)) throw new Error(`Cannot change ${nodeId}`);
+      calls.push(call);
+      return {};
+    };
+    const backend = {
+      type: "local-api",
+      supportsMutations: () => true,
+      updateNode: (id: string) => run(`update ${id}`, id),
+      setFieldOption: (id: string, attr: string, option: string) => run(`setOption ${id} ${attr}=${option}`, id),
+      trashNode: (id: string) => run(`trash ${id}`, id),
+    } as unknown as TanaBackend;
+    return { backend, calls };
+  }
+
+  it("should trash losers after their references are re-pointed", async () => {
+    const { backend, calls } = createBackend();
+    const result = await applyMerge(planMerge(db, "p1", ["p2", "p3"]), backend);
+
+    expect(calls).toEqual(["setOption deal1 attr-contact=p1", "update n1", "trash p2", "trash p3"]);
+    expect(result.kept).toEqual([]);
+    expect(result.summary.applied).toBe(4);
+  });
+
+  it("should keep a loser whose references could not be re-pointed", async () => {
+    const { backend, calls } = createBackend(["deal1"]);
+    const merge = planMerge(db, "p1", ["p2", "p3"]);
+    const result = await applyMerge(merge, backend);
+
+    expect(calls).toEqual(["update n1", "trash p3"]);
+    expect(result.kept).toEqual(["p2"]);
+    expect(result.summary).toMatchObject({ applied: 2, failed: 1, pending: 1 });
+    expect(merge.plan.ops.find((op) => op.input.nodeId === "p2")?.status).toBe("pending");
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for hybrid search reciprocal-rank fusion
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  reciprocalRankFusion,
+  validateFusionOptions,
+  DEFAULT_RRF_K,
+} from "../../src/services/hybrid-search";
+
+describe("reciprocalRankFusion", () => {
+  it("should score nodes by weighted reciprocal rank", () => {
+    const fused = reciprocalRankFusion(["a", "b"], [{ id: "b", similarity: 0.9 }]);
+
+    const b = fused.find((h) => h.id === "b")!;
+    expect(b.score).toBeCloseTo(1 / (DEFAULT_RRF_K + 2) + 1 / (DEFAULT_RRF_K + 1));
+    expect(b.ftsRank).toBe(2);
+    expect(b.semanticRank).toBe(1);
+    expect(b.similarity).toBe(0.9);
+  });
+
+  it("should rank nodes found by both retrievers first", () => {
+    const fused = reciprocalRankFusion(
+      ["a", "b", "c"],
+      [
+        { id: "d", similarity: 0.9 },
+        { id: "c", similarity: 0.8 },
+      ]
+    );
+
+    expect(fused[0].id).toBe("c");
+    expect(fused.map((h) => h.id).sort()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("should keep FTS order for ties", () => {
+    const fused = reciprocalRankFusion(["a"], [{ id: "b", similarity: 0.5 }]);
+    expect(fused.map((h) => h.id)).toEqual(["a", "b"]);
+  });
+
+  it("should apply weights", () => {
+    const fused = reciprocalRankFusion(["a"], [{ id: "b", similarity: 0.5 }], {
+      weights: { semantic: 2 },
+    });
+    expect(fused[0].id).toBe("b");
+  });
+
+  it("should ignore a retriever with zero weight", () => {
+    const fused = reciprocalRankFusion(["a"], [{ id: "b", similarity: 0.5 }], {
+      weights: { fts: 0 },
+    });
+    expect(fused.find((h) => h.id === "a")!.score).toBe(0);
+  });
+
+  it("should use the first occurrence of duplicate IDs", () => {
+    const fused = reciprocalRankFusion(["a", "a"], []);
+    expect(fused).toHaveLength(1);
+    expect(fused[0].ftsRank).toBe(1);
+  });
+
+  it("should use custom k", () => {
+    const fused = reciprocalRankFusion(["a"], [], { k: 1 });
+    expect(fused[0].score).toBe(0.5);
+  });
+});
+
+describe("validateFusionOptions", () => {
+  it("should accept defaults", () => {
+    expect(() => validateFusionOptions({})).not.toThrow();
+  });
+
+  it("should reject negative or NaN weights", () => {
+    expect(() => validateFusionOptions({ weights: { fts: -1 } })).toThrow("Invalid fts weight");
+    expect(() => validateFusionOptions({ weights: { semantic: NaN } })).toThrow("Invalid semantic weight");
+  });
+
+  it("should reject all-zero weights", () => {
+    expect(() => validateFusionOptions({ weights: { fts: 0, semantic: 0 } })).toThrow("At least one");
+  });
+
+  it("should reject k below 1", () => {
+    expect(() => validateFusionOptions({ k: 0 })).toThrow("Invalid RRF k");
+  });
+});
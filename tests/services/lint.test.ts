@@ -0,0 +1,151 @@
+/**
+ * Tests for field value linting against the supertag schema
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, rmSync } from "fs";
+import { join } from "path";
+import {
+  migrateFieldValuesSchema,
+  migrateSchemaConsolidation,
+  migrateSupertagMetadataSchema,
+} from "../../src/db/migrate";
+import {
+  getRequiredFields,
+  isValidDateValue,
+  lintTag,
+  loadLintRules,
+  saveRequiredFields,
+} from "../../src/services/lint";
+import { getUniqueTestDir } from "../test-utils";
+
+let db: Database;
+
+beforeAll(() => {
+  db = new Database(":memory:");
+  db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, parent_id TEXT, node_type TEXT, created INTEGER, updated INTEGER, done_at INTEGER, raw_data TEXT)");
+  db.run("CREATE TABLE tag_applications (id INTEGER PRIMARY KEY AUTOINCREMENT, tuple_node_id TEXT, data_node_id TEXT, tag_id TEXT, tag_name TEXT)");
+  migrateFieldValuesSchema(db);
+  migrateSupertagMetadataSchema(db);
+  migrateSchemaConsolidation(db);
+
+  db.run("INSERT INTO supertag_metadata (tag_id, tag_name, normalized_name) VALUES ('tag-task', 'task', 'task')");
+  db.run(`
+    INSERT INTO supertag_fields (tag_id, tag_name, field_name, field_label_id, field_order, normalized_name, inferred_data_type, option_values)
+    VALUES
+      ('tag-task', 'task', 'Status', 'attr-status', 0, 'status', 'options', '["Open","Done"]'),
+      ('tag-task', 'task', 'Due', 'attr-due', 1, 'due', 'date', NULL),
+      ('tag-task', 'task', 'Estimate', 'attr-estimate', 2, 'estimate', 'number', NULL),
+      ('tag-task', 'task', 'Owner', 'attr-owner', 3, 'owner', 'reference', NULL)
+  `);
+
+  const nodes: Array<[string, string, number]> = [
+    ["t1", "Write report", 1],
+    ["t2", "Book venue", 2],
+    ["t3", "Call Jane", 3],
+    ["jane", "Jane Doe", 4],
+  ];
+  for (const [id, name, created] of nodes) {
+    db.run("INSERT INTO nodes (id, name, created, raw_data) VALUES (?, ?, ?, '{}')", [id, name, created]);
+  }
+  db.run(`INSERT INTO nodes (id, name, created, raw_data) VALUES ('bob', 'Bob', 5, '{"props":{"_ownerId":"ws_TRASH"}}')`);
+  db.run(`INSERT INTO nodes (id, name, created, raw_data) VALUES ('t4', 'Old task', 6, '{"props":{"_ownerId":"ws_TRASH"}}')`);
+
+  for (const id of ["t1", "t2", "t3", "t4"]) {
+    db.run("INSERT INTO tag_applications (data_node_id, tag_id, tag_name) VALUES (?, 'tag-task', 'task')", [id]);
+  }
+
+  const date = (value: string) => `<span data-inlineref-date="{&quot;dateTimeString&quot;:&quot;${value}&quot;}"></span>`;
+  const values: Array<[string, string, string, string, string]> = [
+    ["t1", "attr-status", "Status", "s1", "Done"],
+    ["t1", "attr-due", "Due", "d1", date("2026-01-15")],
+    ["t1", "attr-estimate", "Estimate", "e1", "2.5"],
+    ["t1", "attr-owner", "Owner", "jane", "Jane Doe"],
+    ["t2", "attr-status", "Status", "s2", "Blocked"],
+    ["t2", "attr-due", "Due", "d2", date("2026-02-30")],
+    ["t2", "attr-estimate", "Estimate", "e2", "5 hours"],
+    ["t2", "attr-owner", "Owner", "bob", "Bob"],
+    ["t3", "attr-due", "Due", "d3", "next week"],
+    ["t4", "attr-estimate", "Estimate", "e4", "lots"],
+  ];
+  for (const [parent, fieldId, field, valueNode, text] of values) {
+    db.run(
+      "INSERT INTO field_values (tuple_id, parent_id, field_def_id, field_name, value_node_id, value_text) VALUES (?, ?, ?, ?, ?, ?)",
+      [`tuple-${valueNode}`, parent, fieldId, field, valueNode, text]
+    );
+  }
+});
+
+afterAll(() => {
+  db.close();
+});
+
+describe("lintTag", () => {
+  it("should report invalid dates, numbers, options and trashed references of live nodes", () => {
+    const result = lintTag(db, { tag: "#Task" });
+
+    expect(result.tag).toBe("task");
+    expect(result.nodes).toBe(3);
+    expect(result.issues.map((i) => [i.nodeId, i.rule, i.field, i.value])).toEqual([
+      ["t2", "unknown-option", "Status", "Blocked"],
+      ["t2", "invalid-date", "Due", expect.stringContaining("2026-02-30")],
+      ["t2", "invalid-number", "Estimate", "5 hours"],
+      ["t2", "trashed-reference", "Owner", "Bob"],
+      ["t3", "invalid-date", "Due", "next week"],
+    ]);
+    expect(result.counts).toEqual({
+      "invalid-date": 2,
+      "invalid-number": 1,
+      "unknown-option": 1,
+      "missing-required": 0,
+      "trashed-reference": 1,
+    });
+  });
+
+  it("should report missing required fields", () => {
+    const result = lintTag(db, { tag: "task", required: ["status", "Owner"] });
+
+    expect(result.required).toEqual(["Status", "Owner"]);
+    expect(result.issues.filter((i) => i.rule === "missing-required").map((i) => [i.nodeId, i.field])).toEqual([
+      ["t3", "Status"],
+      ["t3", "Owner"],
+    ]);
+  });
+
+  it("should reject unknown tags and required fields", () => {
+    expect(() => lintTag(db, { tag: "meeting" })).toThrow("Supertag not found: meeting");
+    expect(() => lintTag(db, { tag: "task", required: ["Priority"] })).toThrow('Required field "Priority" is not a field of #task');
+  });
+});
+
+describe("isValidDateValue", () => {
+  it("should accept Tana date values and reject anything else", () => {
+    for (const value of ["2026-01-15", "2026-01-15T09:30:00.000+01:00", "2026-01", "2026-W03", "2026-01-15/2026-01-17", "PARENT+1"]) {
+      expect(isValidDateValue(value)).toBe(true);
+    }
+    for (const value of ["2026-13-01", "2026-02-29", "15.01.2026", "tomorrow", "2026-01-15T25:00"]) {
+      expect(isValidDateValue(value)).toBe(false);
+    }
+  });
+});
+
+describe("required fields file", () => {
+  it("should store required fields per tag", () => {
+    const dir = getUniqueTestDir("lint-rules");
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, "lint", "main.json");
+    try {
+      expect(getRequiredFields(loadLintRules(path), "task")).toEqual([]);
+
+      saveRequiredFields(path, "Task", ["Status", "Due"]);
+      saveRequiredFields(path, "meeting", ["Date"]);
+      expect(getRequiredFields(loadLintRules(path), "#task")).toEqual(["Status", "Due"]);
+
+      saveRequiredFields(path, "task", []);
+      expect(loadLintRules(path)).toEqual({ meeting: { required: ["Date"] } });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
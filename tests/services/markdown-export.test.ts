@@ -0,0 +1,212 @@
+/**
+ * Tests for Markdown vault export
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { exportMarkdown, toFileBaseName, yamlScalar, MANIFEST_FILE } from "../../src/services/markdown-export";
+import { DeltaSyncService } from "../../src/services/delta-sync";
+import type { LocalApiClient } from "../../src/api/local-api-client";
+
+function createDb(): Database {
+  const db = new Database(":memory:");
+  db.run(`
+    CREATE TABLE nodes (
+      id TEXT PRIMARY KEY, name TEXT, parent_id TEXT, node_type TEXT,
+      created INTEGER, updated INTEGER, done_at INTEGER, raw_data TEXT
+    )
+  `);
+  db.run(`CREATE TABLE "references" (id INTEGER PRIMARY KEY AUTOINCREMENT, from_node TEXT, to_node TEXT, reference_type TEXT)`);
+  db.run(`CREATE TABLE tag_applications (id INTEGER PRIMARY KEY AUTOINCREMENT, tuple_node_id TEXT, data_node_id TEXT, tag_id TEXT, tag_name TEXT)`);
+  db.run(`
+    CREATE TABLE field_values (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, tuple_id TEXT, parent_id TEXT, field_def_id TEXT,
+      field_name TEXT, value_node_id TEXT, value_text TEXT, value_order INTEGER DEFAULT 0, created INTEGER
+    )
+  `);
+  db.run(`CREATE TABLE node_checksums (node_id TEXT PRIMARY KEY, checksum TEXT NOT NULL, last_seen INTEGER NOT NULL)`);
+  return db;
+}
+
+function addNode(
+  db: Database,
+  id: string,
+  name: string,
+  parentId: string | null,
+  children: string[] = [],
+  props: Record<string, unknown> = {}
+): void {
+  db.run(
+    "INSERT INTO nodes (id, name, parent_id, created, raw_data) VALUES (?, ?, ?, ?, ?)",
+    [id, name, parentId, Date.UTC(2026, 0, 1), JSON.stringify({ id, children, props })]
+  );
+  db.run("INSERT INTO node_checksums (node_id, checksum, last_seen) VALUES (?, ?, 0)", [id, `${id}-v1`]);
+}
+
+function seed(db: Database): void {
+  addNode(db, "meet1", "Weekly sync", null, ["tuple1", "c1", "proj1", "shared"]);
+  addNode(db, "tuple1", "", "meet1", ["attr1", "v1"], { _docType: "tuple" });
+  addNode(db, "c1", 'Discussed <span data-inlineref-node="proj1">Apollo</span> launch', "meet1", ["c2"]);
+  addNode(db, "c2", "Nested <b>detail</b>", "c1");
+  addNode(db, "proj1", "Project Apollo", "meet1");
+  addNode(db, "shared", "Shared note", "other");
+  db.run("INSERT INTO tag_applications (data_node_id, tag_id, tag_name) VALUES ('meet1', 't1', 'meeting')");
+  db.run("INSERT INTO tag_applications (data_node_id, tag_id, tag_name) VALUES ('proj1', 't2', 'project')");
+  db.run("INSERT INTO \"references\" (from_node, to_node, reference_type) VALUES ('c1', 'proj1', 'inline_ref')");
+  db.run(
+    "INSERT INTO field_values (tuple_id, parent_id, field_def_id, field_name, value_node_id, value_text, value_order) VALUES ('tuple1', 'meet1', 'attr1', 'Status', 'v1', 'Done', 0)"
+  );
+}
+
+describe("exportMarkdown", () => {
+  let db: Database;
+  let outDir: string;
+
+  beforeEach(() => {
+    db = createDb();
+    seed(db);
+    outDir = mkdtempSync(join(tmpdir(), "supertag-md-export-"));
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("should write one file per tagged node with front-matter and bullets", () => {
+    const result = exportMarkdown(db, { outDir });
+
+    expect(result).toMatchObject({ total: 2, written: 2, unchanged: 0, removed: 0 });
+    expect(readFileSync(join(outDir, "Weekly sync.md"), "utf-8")).toBe(
+      [
+        "---",
+        "id: meet1",
+        "title: Weekly sync",
+        "tags:",
+        "  - meeting",
+        "created: 2026-01-01T00:00:00.000Z",
+        "Status: Done",
+        "---",
+        "",
+        "- Discussed [[Project Apollo|Apollo]] launch",
+        "  - Nested **detail**",
+        "- [[Project Apollo]]",
+        "- [[Shared note]]",
+        "",
+      ].join("\n")
+    );
+    expect(existsSync(join(outDir, "Project Apollo.md"))).toBe(true);
+  });
+
+  it("should filter by tag and limit depth", () => {
+    const result = exportMarkdown(db, { outDir, tags: ["meeting"], maxDepth: 1 });
+
+    expect(result.total).toBe(1);
+    const content = readFileSync(join(outDir, "Weekly sync.md"), "utf-8");
+    expect(content).not.toContain("Nested");
+    expect(existsSync(join(outDir, "Project Apollo.md"))).toBe(false);
+  });
+
+  it("should skip unchanged nodes on re-run", () => {
+    exportMarkdown(db, { outDir });
+    const marker = join(outDir, "Project Apollo.md");
+    writeFileSync(marker, "local edit");
+
+    const result = exportMarkdown(db, { outDir });
+
+    expect(result).toMatchObject({ written: 0, unchanged: 2 });
+    expect(readFileSync(marker, "utf-8")).toBe("local edit");
+  });
+
+  it("should re-render when a descendant or referenced node changes", () => {
+    exportMarkdown(db, { outDir });
+    db.run("UPDATE nodes SET name = 'Nested change' WHERE id = 'c2'");
+    db.run("UPDATE node_checksums SET checksum = 'c2-v2' WHERE node_id = 'c2'");
+
+    const result = exportMarkdown(db, { outDir });
+
+    expect(result).toMatchObject({ written: 1, unchanged: 1 });
+    expect(readFileSync(join(outDir, "Weekly sync.md"), "utf-8")).toContain("  - Nested change");
+  });
+
+  it("should re-render when a referenced child outside the subtree changes", () => {
+    exportMarkdown(db, { outDir });
+    db.run("UPDATE nodes SET name = 'Shared idea' WHERE id = 'shared'");
+    db.run("UPDATE node_checksums SET checksum = 'shared-v2' WHERE node_id = 'shared'");
+
+    const result = exportMarkdown(db, { outDir });
+
+    expect(result.written).toBe(1);
+    expect(readFileSync(join(outDir, "Weekly sync.md"), "utf-8")).toContain("- [[Shared idea]]");
+  });
+
+  it("should re-render nodes changed by delta-sync", () => {
+    const dbDir = mkdtempSync(join(tmpdir(), "supertag-md-export-db-"));
+    const dbPath = join(dbDir, "tana-index.db");
+    db.run("VACUUM INTO ?", [dbPath]);
+    const fileDb = new Database(dbPath);
+    const deltaSync = new DeltaSyncService({ dbPath, localApiClient: {} as LocalApiClient });
+    try {
+      exportMarkdown(fileDb, { outDir });
+
+      // Delta-sync leaves node_checksums alone
+      deltaSync.mergeNode({
+        id: "c2", name: "Renamed in Tana", breadcrumb: [], tags: [], tagIds: [],
+        workspaceId: "ws", docType: "node", created: "2026-01-01T00:00:00.000Z", inTrash: false,
+      });
+      deltaSync.reconcileTags("meet1", [{ id: "t1", name: "meeting" }, { id: "t3", name: "weekly" }]);
+
+      const result = exportMarkdown(fileDb, { outDir });
+
+      expect(result).toMatchObject({ written: 1, unchanged: 1 });
+      const content = readFileSync(join(outDir, "Weekly sync.md"), "utf-8");
+      expect(content).toContain("  - Renamed in Tana");
+      expect(content).toContain("  - weekly");
+    } finally {
+      deltaSync.close();
+      fileDb.close();
+      rmSync(dbDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should remove files of renamed or untagged nodes", () => {
+    exportMarkdown(db, { outDir });
+    db.run("UPDATE nodes SET name = 'Apollo Program' WHERE id = 'proj1'");
+    db.run("UPDATE node_checksums SET checksum = 'proj1-v2' WHERE node_id = 'proj1'");
+
+    const result = exportMarkdown(db, { outDir });
+
+    expect(result.removed).toBe(1);
+    expect(existsSync(join(outDir, "Project Apollo.md"))).toBe(false);
+    expect(readFileSync(join(outDir, "Weekly sync.md"), "utf-8")).toContain("[[Apollo Program|Apollo]]");
+    const manifest = JSON.parse(readFileSync(join(outDir, MANIFEST_FILE), "utf-8"));
+    expect(manifest.nodes.proj1.file).toBe("Apollo Program.md");
+  });
+
+  it("should suffix duplicate names with the node ID", () => {
+    addNode(db, "meet2", "Weekly sync", null);
+    db.run("INSERT INTO tag_applications (data_node_id, tag_id, tag_name) VALUES ('meet2', 't1', 'meeting')");
+
+    exportMarkdown(db, { outDir });
+
+    expect(existsSync(join(outDir, "Weekly sync (meet2).md"))).toBe(true);
+  });
+});
+
+describe("toFileBaseName", () => {
+  it("should strip characters that are invalid in file names or wikilinks", () => {
+    expect(toFileBaseName("Q3: plan / review #1 [draft]")).toBe("Q3 plan review 1 draft");
+  });
+});
+
+describe("yamlScalar", () => {
+  it("should quote values YAML would misread", () => {
+    expect(yamlScalar("Done")).toBe("Done");
+    expect(yamlScalar("yes")).toBe('"yes"');
+    expect(yamlScalar("2026-01-01")).toBe('"2026-01-01"');
+    expect(yamlScalar("a: b")).toBe('"a: b"');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for schema drift detection (supertag schema diff)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { migrateSchemaConsolidation, migrateSupertagMetadataSchema } from "../../src/db/migrate";
+import {
+  createSchemaSnapshot,
+  diffSchemaSnapshots,
+  formatSchemaChange,
+  loadSchemaBaseline,
+  saveSchemaSnapshot,
+} from "../../src/services/schema-diff";
+import { getUniqueTestDir } from "../test-utils";
+
+type FieldRow = [tagId: string, name: string, attributeId: string, dataType: string, options: string[] | null];
+
+function createSchemaDb(tags: Array<[id: string, name: string]>, fields: FieldRow[]): Database {
+  const db = new Database(":memory:");
+  migrateSupertagMetadataSchema(db);
+  migrateSchemaConsolidation(db);
+  for (const [id, name] of tags) {
+    db.run("INSERT INTO supertag_metadata (tag_id, tag_name, normalized_name) VALUES (?, ?, ?)", [id, name, name.toLowerCase()]);
+  }
+  fields.forEach(([tagId, name, attributeId, dataType, options], order) => {
+    db.run(
+      `INSERT INTO supertag_fields (tag_id, tag_name, field_name, field_label_id, field_order, inferred_data_type, option_values)
+       VALUES (?, '', ?, ?, ?, ?, ?)`,
+      [tagId, name, attributeId, order, dataType, options ? JSON.stringify(options) : null]
+    );
+  });
+  return db;
+}
+
+describe("schema diff", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = getUniqueTestDir("schema-diff");
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should report added, removed and renamed supertags and fields, type and option changes", () => {
+    const before = createSchemaDb(
+      [["tag-task", "task"], ["tag-project", "project"], ["tag-todo", "todo"]],
+      [
+        ["tag-task", "Status", "attr-status", "options", ["Open", "Waiting", "Done"]],
+        ["tag-task", "Owner", "attr-owner", "reference", null],
+        ["tag-task", "Due", "attr-due", "text", null],
+        ["tag-task", "Estimate", "attr-estimate", "number", null],
+        ["tag-todo", "Done", "attr-done", "checkbox", null],
+      ]
+    );
+    const after = createSchemaDb(
+      [["tag-task", "task"], ["tag-meeting", "meeting"], ["tag-todo", "checklist"]],
+      [
+        ["tag-task", "Status", "attr-status", "options", ["Open", "Blocked", "Done"]],
+        ["tag-task", "Assignee", "attr-owner", "reference", null],
+        ["tag-task", "Due", "attr-due", "date", null],
+        ["tag-task", "Priority", "attr-priority", "text", null],
+        ["tag-todo", "Done", "attr-done", "checkbox", null],
+      ]
+    );
+    const changes = diffSchemaSnapshots(createSchemaSnapshot(before), createSchemaSnapshot(after));
+    before.close();
+    after.close();
+
+    expect(changes.map((c) => [formatSchemaChange(c), c.breaking])).toEqual([
+      ["#todo renamed to #checklist", true],
+      ["#meeting added", false],
+      ["#project removed", true],
+      ["#task › Estimate removed", true],
+      ["#task › Status options removed: Waiting", true],
+      ["#task › Status options added: Blocked", false],
+      ["#task › Owner renamed to Assignee", true],
+      ["#task › Due type changed from text to date", true],
+      ["#task › Priority added", false],
+    ]);
+    expect(changes[6]).toMatchObject({ type: "field-renamed", supertagId: "tag-task", attributeId: "attr-owner", from: "Owner", to: "Assignee" });
+  });
+
+  it("should report no changes against a saved baseline of the same schema", async () => {
+    const db = createSchemaDb([["tag-task", "task"]], [["tag-task", "Status", "attr-status", "options", ["Open", "Done"]]]);
+    const path = join(dir, "baseline.json");
+    saveSchemaSnapshot(createSchemaSnapshot(db), path);
+
+    const baseline = await loadSchemaBaseline(path);
+    expect(baseline.supertags).toEqual([
+      { id: "tag-task", name: "task", fields: [{ attributeId: "attr-status", name: "Status", dataType: "options", options: ["Open", "Done"] }] },
+    ]);
+    expect(diffSchemaSnapshots(baseline, createSchemaSnapshot(db))).toEqual([]);
+    db.close();
+  });
+
+  it("should use a previous Tana export as baseline", async () => {
+    const path = join(dir, "export.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        formatVersion: 1,
+        editors: [],
+        docs: [
+          { id: "tag-contact", props: { name: "contact", _docType: "tagDef", created: 1000 }, children: ["tuple1"] },
+          { id: "tuple1", props: { _docType: "tuple", created: 1001 }, children: ["attr-email", "val1"] },
+          { id: "attr-email", props: { name: "Email", created: 1002 } },
+          { id: "val1", props: { name: "", created: 1003 } },
+        ],
+        workspaces: {},
+      })
+    );
+
+    const baseline = await loadSchemaBaseline(path);
+    expect(baseline.source).toBe(path);
+    expect(baseline.supertags.map((t) => [t.id, t.name, t.fields.map((f) => [f.attributeId, f.name])])).toEqual([
+      ["tag-contact", "contact", [["attr-email", "Email"]]],
+    ]);
+
+    const db = createSchemaDb([["tag-contact", "contact"]], [["tag-contact", "Mail", "attr-email", "text", null]]);
+    expect(diffSchemaSnapshots(baseline, createSchemaSnapshot(db)).map(formatSchemaChange)).toContain(
+      "#contact › Email renamed to Mail"
+    );
+    db.close();
+  });
+
+  it("should reject a missing or unknown baseline", async () => {
+    await expect(loadSchemaBaseline(join(dir, "missing.json"))).rejects.toThrow("No schema baseline at");
+    const path = join(dir, "other.json");
+    writeFileSync(path, JSON.stringify({ hello: "world" }));
+    await expect(loadSchemaBaseline(path)).rejects.toThrow("Not a schema snapshot or Tana export");
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for schema versions stored by sync and point-in-time browsing
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { TanaIndexer } from "../../src/db/indexer";
+import { listSchemaVersions } from "../../src/db/schema-versions";
+import { codegenCommand } from "../../src/commands/codegen";
+import { formatSchemaChange } from "../../src/services/schema-diff";
+import { getSupertagHistory, openSchemaAt } from "../../src/services/schema-history";
+import { SupertagMetadataService } from "../../src/services/supertag-metadata-service";
+import { getUniqueTestDir } from "../test-utils";
+
+/** Export with a #task tagDef and the given field labels (label node ID → name) */
+function writeExport(path: string, fields: Array<[id: string, name: string]>): void {
+  const docs: object[] = [
+    {
+      id: "tag-task",
+      props: { name: "task", _docType: "tagDef", created: 1000 },
+      children: fields.map(([id]) => `tuple-${id}`),
+    },
+  ];
+  for (const [id, name] of fields) {
+    docs.push(
+      { id: `tuple-${id}`, props: { _docType: "tuple", created: 1001 }, children: [id, `value-${id}`] },
+      { id, props: { name, created: 1002 } },
+      { id: `value-${id}`, props: { name: "", created: 1003 } }
+    );
+  }
+  writeFileSync(path, JSON.stringify({ formatVersion: 1, editors: [], docs, workspaces: {} }));
+}
+
+async function index(dbPath: string, exportPath: string): Promise<void> {
+  const indexer = new TanaIndexer(dbPath);
+  try {
+    await indexer.initializeSchema();
+    await indexer.indexExport(exportPath);
+  } finally {
+    indexer.close();
+  }
+}
+
+describe("schema history", () => {
+  let dir: string;
+  let dbPath: string;
+  let db: Database;
+
+  beforeAll(async () => {
+    dir = getUniqueTestDir("schema-history");
+    mkdirSync(dir, { recursive: true });
+    dbPath = join(dir, "tana-index.db");
+    const exportPath = join(dir, "export.json");
+
+    writeExport(exportPath, [["attr-status", "Status"], ["attr-owner", "Owner"]]);
+    await index(dbPath, exportPath);
+    // Unchanged schema: no new version
+    await index(dbPath, exportPath);
+    writeExport(exportPath, [["attr-status", "Status"], ["attr-owner", "Assignee"], ["attr-due", "Due"]]);
+    await index(dbPath, exportPath);
+
+    // Spread the versions out in time
+    db = new Database(dbPath);
+    db.run("UPDATE schema_versions SET created_at = ? WHERE version = 1", [Date.parse("2026-01-10T09:00:00Z")]);
+    db.run("UPDATE schema_versions SET created_at = ? WHERE version = 2", [Date.parse("2026-02-01T09:00:00Z")]);
+  });
+
+  afterAll(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should store a version per sync that changed the schema", () => {
+    expect(listSchemaVersions(db).map((v) => [v.version, v.source])).toEqual([
+      [1, "export.json"],
+      [2, "export.json"],
+    ]);
+  });
+
+  it("should show when fields of a supertag changed", async () => {
+    const history = await getSupertagHistory(db, "Task");
+    expect(history.tagId).toBe("tag-task");
+    expect(history.entries.map((e) => [e.version.version, e.initial, e.changes.map(formatSchemaChange)])).toEqual([
+      [1, true, ["#task added", "#task › Status added", "#task › Owner added"]],
+      [2, false, ["#task › Owner renamed to Assignee", "#task › Due added"]],
+    ]);
+    await expect(getSupertagHistory(db, "meeting")).rejects.toThrow("Supertag not found in schema history");
+  });
+
+  it("should open the schema in effect at a date", async () => {
+    const historic = await openSchemaAt(db, "2026-01-20");
+    try {
+      expect(historic.version.version).toBe(1);
+      const fields = new SupertagMetadataService(historic.db).getFields("tag-task").map((f) => f.fieldName);
+      expect(fields).toEqual(["Status", "Owner"]);
+    } finally {
+      historic.db.close();
+    }
+    await expect(openSchemaAt(db, "2025-12-31")).rejects.toThrow("No schema version at or before 2025-12-31");
+  });
+
+  it("should generate code from a historic schema", async () => {
+    const options = {
+      format: "typescript" as const,
+      optional: "undefined" as const,
+      naming: "camelCase" as const,
+      split: false,
+      dryRun: false,
+      noMetadata: true,
+    };
+    const before = join(dir, "before.ts");
+    await codegenCommand({ ...options, output: before, at: "2026-01-20" }, dbPath);
+    expect(readFileSync(before, "utf-8")).toContain("  owner?: string;");
+
+    const now = join(dir, "now.ts");
+    await codegenCommand({ ...options, output: now }, dbPath);
+    const current = readFileSync(now, "utf-8");
+    expect(current).toContain("  assignee?: string;");
+    expect(current).not.toContain("owner");
+
+    await expect(codegenCommand({ ...options, output: now, at: "2026-01-20", client: true }, dbPath)).rejects.toThrow(
+      "--at is not supported with --client"
+    );
+  });
+});
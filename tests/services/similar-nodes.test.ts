@@ -0,0 +1,125 @@
+/**
+ * Tests for "more like this" similarity lookups
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { unlinkSync } from "fs";
+import { SimilarNodesService, type SimilarityIndex } from "../../src/services/similar-nodes";
+import { saveChunks } from "../../src/embeddings/chunking";
+import type { TanaSearchResult } from "../../src/embeddings/tana-embedding-service";
+
+const dbPath = "/tmp/test-similar-nodes.db";
+
+beforeAll(() => {
+  const db = new Database(dbPath);
+  db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, parent_id TEXT, created INTEGER, updated INTEGER, raw_data TEXT)");
+  db.run('CREATE TABLE "references" (id INTEGER PRIMARY KEY AUTOINCREMENT, from_node TEXT NOT NULL, to_node TEXT NOT NULL, reference_type TEXT NOT NULL)');
+  db.run("CREATE TABLE tag_applications (tuple_node_id TEXT, data_node_id TEXT, tag_id TEXT, tag_name TEXT)");
+  db.run(`
+    CREATE TABLE field_values (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, tuple_id TEXT NOT NULL, parent_id TEXT NOT NULL,
+      field_def_id TEXT NOT NULL, field_name TEXT NOT NULL, value_node_id TEXT NOT NULL,
+      value_text TEXT NOT NULL, value_order INTEGER DEFAULT 0, created INTEGER
+    )
+  `);
+
+  const nodes = [
+    ["m1", "Weekly sync", null],
+    ["m2", "Weekly sync (copy)", null],
+    ["m3", "Sync notes", null],
+    ["p1", "Apollo project", null],
+    ["ref", "[[Weekly sync]]", null],
+    ["c1", "Agenda", "m1"],
+  ];
+  for (const [id, name, parent] of nodes) {
+    db.run("INSERT INTO nodes (id, name, parent_id, raw_data) VALUES (?, ?, ?, ?)", [id, name, parent, JSON.stringify({ id, props: {} })]);
+  }
+  db.run("INSERT INTO tag_applications (data_node_id, tag_name) VALUES ('m1', 'meeting'), ('m2', 'meeting'), ('m3', 'meeting'), ('p1', 'project')");
+  db.run(`INSERT INTO "references" (from_node, to_node, reference_type) VALUES ('m1', 'm3', 'inline_ref'), ('m1', 'c1', 'child')`);
+  saveChunks(db, ["m1"], [
+    { chunkId: "m1#0", nodeId: "m1", index: 0, kind: "subtree", offset: 0, length: 10, anchorId: null, startTime: null, text: "first part" },
+    { chunkId: "m1#1", nodeId: "m1", index: 1, kind: "subtree", offset: 8, length: 10, anchorId: null, startTime: null, text: "second part" },
+  ]);
+  db.close();
+});
+
+afterAll(() => {
+  unlinkSync(dbPath);
+});
+
+/**
+ * Index double: each query text maps to fixed hits
+ */
+function createIndex(embeddedIds: string[], hits: Record<string, TanaSearchResult[]>) {
+  const queries: string[] = [];
+  const index: SimilarityIndex = {
+    getEmbeddedIds: async () => embeddedIds,
+    search: async (query) => {
+      queries.push(query);
+      return hits[query] ?? [];
+    },
+  };
+  return { index, queries };
+}
+
+const hit = (nodeId: string, similarity: number): TanaSearchResult => ({ nodeId, similarity, distance: 1 - similarity });
+
+describe("SimilarNodesService", () => {
+  it("should query with each chunk of the node and keep the best hit per node", async () => {
+    const { index, queries } = createIndex(["m1#0", "m1#1", "m2", "m3", "p1"], {
+      "Meeting: Weekly sync\nfirst part": [hit("m1", 1), hit("m2", 0.8), hit("p1", 0.3)],
+      "Meeting: Weekly sync\nsecond part": [hit("m2", 0.9), hit("m3", 0.6), hit("ref", 0.95)],
+    });
+
+    const result = await new SimilarNodesService(dbPath, index).findSimilar({ nodeId: "m1", limit: 10 }, "main");
+
+    expect(queries).toEqual(["Meeting: Weekly sync\nfirst part", "Meeting: Weekly sync\nsecond part"]);
+    expect(result.sourceNode).toEqual({ id: "m1", name: "Weekly sync" });
+    expect(result.similar.map((n) => [n.id, n.similarity === null ? null : Number(n.similarity.toFixed(2))])).toEqual([
+      ["m2", 0.9],
+      ["m3", 0.6],
+      ["p1", 0.3],
+      ["c1", null],
+    ]);
+    expect(result.similar.find((n) => n.id === "m3")?.relationship).toMatchObject({ type: "reference", direction: "out" });
+    expect(result.similar.find((n) => n.id === "c1")?.relationship?.type).toBe("child");
+    expect(result.unlinked).toBe(2);
+  });
+
+  it("should restrict to a supertag and skip structural neighbours on request", async () => {
+    const { index } = createIndex(["m1#0", "m2", "p1"], {
+      "Meeting: Weekly sync\nfirst part": [hit("p1", 0.7), hit("m2", 0.5)],
+    });
+
+    const result = await new SimilarNodesService(dbPath, index).findSimilar(
+      { nodeId: "m1", limit: 10, tag: "#Meeting", includeStructural: false },
+      "main"
+    );
+
+    expect(result.similar.map((n) => n.id)).toEqual(["m2"]);
+    expect(result.unlinked).toBe(1);
+  });
+
+  it("should apply minSimilarity and the limit", async () => {
+    const { index } = createIndex(["p1", "m2", "m3"], {
+      "Project: Apollo project": [hit("m2", 0.9), hit("m3", 0.8), hit("m1", 0.2)],
+    });
+
+    const service = new SimilarNodesService(dbPath, index);
+
+    const limited = await service.findSimilar({ nodeId: "p1", limit: 1, includeStructural: false }, "main");
+    expect(limited.similar.map((n) => n.id)).toEqual(["m2"]);
+
+    const thresholded = await service.findSimilar({ nodeId: "p1", limit: 10, minSimilarity: 0.5, includeStructural: false }, "main");
+    expect(thresholded.similar.map((n) => n.id)).toEqual(["m2", "m3"]);
+  });
+
+  it("should report missing nodes and nodes without embeddings", async () => {
+    const { index } = createIndex(["m2"], {});
+    const service = new SimilarNodesService(dbPath, index);
+
+    await expect(service.findSimilar({ nodeId: "nope", limit: 5 }, "main")).rejects.toThrow("not found");
+    await expect(service.findSimilar({ nodeId: "m3", limit: 5 }, "main")).rejects.toThrow("has no embedding");
+  });
+});
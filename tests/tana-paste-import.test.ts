@@ -0,0 +1,219 @@
+/**
+ * Tests for Tana Paste import planning, serialization and chunking
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  extractTags,
+  parseTanaPasteDocument,
+  planImport,
+  planToTanaPaste,
+  planToApiNodes,
+  chunkApiNodes,
+  executeImport,
+  createIndexResolver,
+  type ImportResolver,
+} from "../src/services/tana-paste-import";
+import type { TanaBackend } from "../src/api/backend";
+import type { TanaApiNode } from "../src/types";
+
+const resolver: ImportResolver = {
+  resolveTag: (name) => ({ meeting: "tag-meeting", person: "tag-person" })[name] ?? null,
+  resolveField: (tagId, field) => (tagId === "tag-meeting" && field === "Attendees" ? "attr-attendees" : null),
+  resolveReference: (name) => ({ Alice: ["node-alice"], "Project Apollo": ["node-apollo"] })[name] ?? [],
+};
+
+const DOCUMENT = `%%tana%%
+- Weekly sync #meeting
+  - Attendees::
+    - [[Alice]]
+    - [[Bob]]
+  - Mood:: good
+  - Discussed [[Project Apollo]] timeline
+    - Follow up #[[action item]]
+- Second note`;
+
+describe("extractTags", () => {
+  it("should split bare and bracketed tags out of a name", () => {
+    expect(extractTags("Plan review #meeting #[[action item]]")).toEqual({
+      name: "Plan review",
+      tags: ["meeting", "action item"],
+    });
+  });
+
+  it("should not treat # inside words as a tag", () => {
+    expect(extractTags("Issue C#7 fix").tags).toEqual([]);
+  });
+});
+
+describe("parseTanaPasteDocument", () => {
+  it("should parse nested children, fields and tags", () => {
+    const nodes = parseTanaPasteDocument(DOCUMENT);
+
+    expect(nodes).toHaveLength(2);
+    expect(nodes[0].name).toBe("Weekly sync");
+    expect(nodes[0].tags).toEqual([{ name: "meeting" }]);
+    expect(nodes[0].fields).toEqual([
+      { name: "Attendees", values: ["[[Alice]]", "[[Bob]]"] },
+      { name: "Mood", values: ["good"] },
+    ]);
+    expect(nodes[0].children[0].children[0].tags).toEqual([{ name: "action item" }]);
+  });
+
+  it("should reject input without nodes", () => {
+    expect(() => parseTanaPasteDocument("%%tana%%\n")).toThrow("No nodes found");
+  });
+});
+
+describe("planImport", () => {
+  it("should resolve tags, fields and references", () => {
+    const plan = planImport(DOCUMENT, resolver);
+
+    expect(plan.nodes[0].tags[0].id).toBe("tag-meeting");
+    expect(plan.nodes[0].fields[0].id).toBe("attr-attendees");
+    expect(plan.report).toEqual({
+      nodeCount: 4,
+      resolvedReferences: 2,
+      unresolvedReferences: ["Bob"],
+      ambiguousReferences: [],
+      unresolvedTags: ["action item"],
+      unresolvedFields: ["Mood"],
+    });
+  });
+
+  it("should report everything unresolved without a resolver", () => {
+    const plan = planImport(DOCUMENT);
+    expect(plan.report.unresolvedReferences).toEqual(["Alice", "Bob", "Project Apollo"]);
+  });
+
+  it("should report references matching several nodes and leave them unlinked", () => {
+    const plan = planImport(DOCUMENT, {
+      ...resolver,
+      resolveReference: (name) => (name === "Bob" ? ["node-bob-1", "node-bob-2"] : resolver.resolveReference(name)),
+    });
+
+    expect(plan.references.get("Bob")).toBeNull();
+    expect(plan.report.resolvedReferences).toBe(2);
+    expect(plan.report.unresolvedReferences).toEqual([]);
+    expect(plan.report.ambiguousReferences).toEqual([{ name: "Bob", nodeIds: ["node-bob-1", "node-bob-2"] }]);
+  });
+});
+
+describe("createIndexResolver", () => {
+  it("should resolve references to live nodes only", () => {
+    const db = new Database(":memory:");
+    try {
+      db.run("CREATE TABLE nodes (id TEXT PRIMARY KEY, name TEXT, created INTEGER, raw_data TEXT)");
+      db.run(`INSERT INTO nodes VALUES
+        ('alice', 'Alice', 1, '{}'),
+        ('alice-old', 'Alice', 2, '{"props":{"_ownerId":"ws_TRASH"}}'),
+        ('bob-1', 'Bob', 3, '{}'),
+        ('bob-2', 'Bob', 4, NULL)`);
+      const index = createIndexResolver(db);
+
+      expect(index.resolveReference("Alice")).toEqual(["alice"]);
+      expect(index.resolveReference("Bob")).toEqual(["bob-1", "bob-2"]);
+      expect(index.resolveReference("Carol")).toEqual([]);
+    } finally {
+      db.close();
+    }
+  });
+});
+
+describe("planToTanaPaste", () => {
+  it("should render resolved IDs and keep unresolved names", () => {
+    const paste = planToTanaPaste(planImport(DOCUMENT, resolver));
+
+    expect(paste).toBe(
+      [
+        "- Weekly sync #[[^tag-meeting]]",
+        "  - attr-attendees:: [[Alice^node-alice]]",
+        "    - [[Bob]]",
+        "  - Mood:: good",
+        "  - Discussed [[Project Apollo^node-apollo]] timeline",
+        "    - Follow up #[[action item]]",
+        "- Second note",
+      ].join("\n")
+    );
+  });
+});
+
+describe("planToApiNodes", () => {
+  it("should build Input API nodes with references and field nodes", () => {
+    const [meeting] = planToApiNodes(planImport(DOCUMENT, resolver));
+
+    expect(meeting.supertags).toEqual([{ id: "tag-meeting" }]);
+    expect(meeting.children).toEqual([
+      {
+        type: "field",
+        attributeId: "attr-attendees",
+        children: [{ dataType: "reference", id: "node-alice" }, { name: "Bob" }],
+      },
+      { name: "Mood:: good" },
+      {
+        name: 'Discussed <span data-inlineref-node="node-apollo">Project Apollo</span> timeline',
+        children: [{ name: "Follow up" }],
+      },
+    ]);
+  });
+});
+
+describe("chunkApiNodes", () => {
+  const nodes: TanaApiNode[] = Array.from({ length: 5 }, (_, i) => ({ name: `Node ${i}` }));
+
+  it("should split by node count", () => {
+    expect(chunkApiNodes(nodes, { maxNodes: 2 }).map((c) => c.length)).toEqual([2, 2, 1]);
+  });
+
+  it("should split by payload size", () => {
+    const size = JSON.stringify(nodes.slice(0, 2)).length;
+    expect(chunkApiNodes(nodes, { maxChars: size }).map((c) => c.length)).toEqual([2, 2, 1]);
+  });
+
+  it("should reject a single node over the payload limit", () => {
+    expect(() => chunkApiNodes([{ name: "x".repeat(100) }], { maxChars: 50 })).toThrow("too large");
+  });
+});
+
+describe("executeImport", () => {
+  const baseBackend = {
+    supportsMutations: () => true,
+  } as unknown as TanaBackend;
+
+  it("should use importTanaPaste when the backend provides it", async () => {
+    const calls: string[] = [];
+    const backend = {
+      ...baseBackend,
+      type: "local-api",
+      importTanaPaste: async (parent: string, content: string) => {
+        calls.push(`${parent}:${content.split("\n")[0]}`);
+        return { parentNodeId: parent, targetNodeId: parent, createdNodes: [{ id: "n1", name: "Weekly sync" }], message: "ok" };
+      },
+    } as unknown as TanaBackend;
+
+    const result = await executeImport(planImport(DOCUMENT, resolver), backend, "INBOX");
+
+    expect(calls).toEqual(["INBOX:- Weekly sync #[[^tag-meeting]]"]);
+    expect(result).toEqual({ backend: "local-api", target: "INBOX", requests: 1, nodeIds: ["n1"], droppedTags: [] });
+  });
+
+  it("should fall back to createNodes", async () => {
+    let requests = 0;
+    const backend = {
+      ...baseBackend,
+      type: "input-api",
+      createNodes: async (_target: string, chunk: TanaApiNode[]) => {
+        requests++;
+        return { success: true, nodeIds: chunk.map((_, i) => `n${requests}-${i}`) };
+      },
+    } as unknown as TanaBackend;
+
+    const result = await executeImport(planImport(DOCUMENT, resolver), backend, "INBOX");
+
+    expect(result.backend).toBe("input-api");
+    expect(result.requests).toBe(1);
+    expect(result.nodeIds).toEqual(["n1-0", "n1-1"]);
+    expect(result.droppedTags).toEqual(["action item"]);
+  });
+});
@@ -7,8 +7,13 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { TanaWebhookServer } from "../src/server/tana-webhook-server";
 import { TanaIndexer } from "../src/db/indexer";
+import { Database } from "bun:sqlite";
+import { rmSync } from "fs";
 import { join } from "path";
-import { cleanupSqliteDatabase, getUniqueTestDbPath, getUniqueTestPort } from "./test-utils";
+import { ApiKeyStore } from "../src/server/api-keys";
+import { AuditLog } from "../src/server/audit-log";
+import { recordNodeChanges } from "../src/db/node-changes";
+import { cleanupSqliteDatabase, getUniqueTestDbPath, getUniqueTestDir, getUniqueTestPort } from "./test-utils";
 
 const FIXTURE_PATH = join(__dirname, "fixtures/sample-workspace.json");
 
@@ -510,3 +515,297 @@ describe("TanaWebhookServer - Embed Stats Endpoint", () => {
     }
   });
 });
+
+describe("TanaWebhookServer - GraphQL Endpoint", () => {
+  let server: TanaWebhookServer;
+  let dbPath: string;
+  let port: number;
+
+  beforeAll(async () => {
+    dbPath = getUniqueDbPath("graphql-endpoint");
+    port = getUniquePort();
+
+    const indexer = new TanaIndexer(dbPath);
+    await indexer.initializeSchema();
+    await indexer.indexExport(FIXTURE_PATH);
+    indexer.close();
+
+    server = new TanaWebhookServer(createTestServerConfig(port, dbPath));
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    cleanupSqliteDatabase(dbPath);
+  });
+
+  test("should answer typed supertag queries", async () => {
+    const response = await fetch(`http://localhost:${port}/graphql`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: "{ book(limit: 2) { id name language node { tags { name } } } }" }),
+    });
+
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.errors).toBeUndefined();
+    expect(result.data.book).toHaveLength(2);
+    expect(result.data.book[0].node.tags.map((t: { name: string }) => t.name)).toContain("book");
+  });
+
+  test("should accept GET and reject invalid queries with 400", async () => {
+    const ok = await fetch(`http://localhost:${port}/graphql?query=${encodeURIComponent("{ supertags { name } }")}`);
+    expect(ok.status).toBe(200);
+    expect((await ok.json()).data.supertags.length).toBeGreaterThan(0);
+
+    const invalid = await fetch(`http://localhost:${port}/graphql?query=${encodeURIComponent("{ nope }")}`);
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).errors).toHaveLength(1);
+  });
+});
+
+describe("TanaWebhookServer - Query Endpoint", () => {
+  let server: TanaWebhookServer;
+  let dbPath: string;
+  let port: number;
+
+  beforeAll(async () => {
+    dbPath = getUniqueDbPath("query-endpoint");
+    port = getUniquePort();
+
+    const indexer = new TanaIndexer(dbPath);
+    await indexer.initializeSchema();
+    await indexer.indexExport(FIXTURE_PATH);
+    indexer.close();
+
+    server = new TanaWebhookServer(createTestServerConfig(port, dbPath));
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    cleanupSqliteDatabase(dbPath);
+  });
+
+  const query = (body: unknown) =>
+    fetch(`http://localhost:${port}/query`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  test("should run structured queries with field conditions", async () => {
+    const response = await query({ find: "chapter", where: { "Chapter number": "8" }, limit: 5 });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.workspace).toBe("test");
+    expect(result.count).toBeGreaterThan(0);
+    expect(result.results[0]).toHaveProperty("id");
+    expect(result.results[0]).toHaveProperty("name");
+
+    const all = await (await query({ find: "book" })).json();
+    expect(all.count).toBe(3);
+  });
+
+  test("should reject invalid input with 400", async () => {
+    const response = await query({ where: { Status: "Done" } });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("find");
+  });
+});
+
+describe("TanaWebhookServer - Events Endpoint", () => {
+  let server: TanaWebhookServer;
+  let dbPath: string;
+  let port: number;
+
+  beforeAll(async () => {
+    dbPath = getUniqueDbPath("events-endpoint");
+    port = getUniquePort();
+
+    const indexer = new TanaIndexer(dbPath);
+    await indexer.initializeSchema();
+    indexer.close();
+
+    server = new TanaWebhookServer({ ...createTestServerConfig(port, dbPath), eventPollIntervalMs: 20 });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    cleanupSqliteDatabase(dbPath);
+  });
+
+  /**
+   * Read the stream until `count` events arrived
+   */
+  async function readEvents(response: Response, count: number): Promise<Array<{ id: string; event: string; data: any }>> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    const events: Array<{ id: string; event: string; data: any }> = [];
+    while (events.length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value);
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop()!;
+      for (const block of blocks) {
+        const fields = Object.fromEntries(block.split("\n").map((line) => [line.slice(0, line.indexOf(":")), line.slice(line.indexOf(":") + 2)]));
+        if (fields.data) events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+      }
+    }
+    await reader.cancel();
+    return events;
+  }
+
+  test("should stream node changes matching the tag filter", async () => {
+    const controller = new AbortController();
+    const response = await fetch(`http://localhost:${port}/events?tag=person`, { signal: controller.signal });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+    const writer = new Database(dbPath);
+    recordNodeChanges(writer, [
+      { nodeId: "m1", change: "updated", name: "Kickoff", tags: ["meeting"] },
+      { nodeId: "p1", change: "created", name: "Jane", tags: ["person"] },
+    ], "delta-sync");
+    writer.close();
+
+    const [event] = await readEvents(response, 1);
+    controller.abort();
+    expect(event.event).toBe("created");
+    expect(event.data).toMatchObject({ nodeId: "p1", name: "Jane", type: "created", tags: ["person"], workspace: "test" });
+  });
+
+  test("should replay changes after Last-Event-ID", async () => {
+    const controller = new AbortController();
+    const response = await fetch(`http://localhost:${port}/events`, {
+      headers: { "Last-Event-ID": "0" },
+      signal: controller.signal,
+    });
+    const events = await readEvents(response, 2);
+    controller.abort();
+    expect(events.map((e) => e.data.nodeId)).toEqual(["m1", "p1"]);
+    expect(events[1].id).toBe(String(events[0].data.seq + 1));
+  });
+
+  test("should reject unknown change types", async () => {
+    const response = await fetch(`http://localhost:${port}/events?type=moved`);
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("TanaWebhookServer - Authentication", () => {
+  let server: TanaWebhookServer;
+  let dbPath: string;
+  let dir: string;
+  let port: number;
+  let apiKeys: ApiKeyStore;
+  let auditLog: AuditLog;
+  let mainToken: string;
+  let allToken: string;
+
+  beforeAll(async () => {
+    dbPath = getUniqueDbPath("auth");
+    dir = getUniqueTestDir("webhook-auth");
+    port = getUniquePort();
+
+    const indexer = new TanaIndexer(dbPath);
+    await indexer.initializeSchema();
+    await indexer.indexExport(FIXTURE_PATH);
+    indexer.close();
+
+    apiKeys = new ApiKeyStore(join(dir, "api-keys.json"));
+    auditLog = new AuditLog(join(dir, "audit.jsonl"));
+    mainToken = apiKeys.create({ name: "main-only", scope: "read", workspaces: ["test"] }).token;
+    allToken = apiKeys.create({ name: "everything", scope: "write" }).token;
+
+    const workspaces = new Map([["test", dbPath], ["other", dbPath]]);
+    server = new TanaWebhookServer({ port, host: "localhost", workspaces, defaultWorkspace: "test", apiKeys, auditLog });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    cleanupSqliteDatabase(dbPath);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const get = (path: string, token?: string) =>
+    fetch(`http://localhost:${port}${path}`, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+  const post = (path: string, body: object, token: string) =>
+    fetch(`http://localhost:${port}${path}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  test("should keep /health public", async () => {
+    expect(server.isAuthRequired()).toBe(true);
+    expect((await get("/health")).status).toBe(200);
+  });
+
+  test("should reject missing and invalid keys with 401", async () => {
+    const missing = await get("/stats?format=json");
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+    expect((await get("/stats?format=json", "stk_00000000_nope")).status).toBe(401);
+  });
+
+  test("should restrict keys to their workspaces", async () => {
+    expect((await get("/stats?format=json", mainToken)).status).toBe(200);
+    expect((await get("/stats?format=json&workspace=other", mainToken)).status).toBe(403);
+    expect((await get("/stats?format=json&workspace=other", allToken)).status).toBe(200);
+
+    const workspaces = await (await get("/workspaces", mainToken)).json();
+    expect(workspaces.workspaces).toEqual(["test"]);
+  });
+
+  test("should check the workspace the handler uses", async () => {
+    expect((await post("/search", { query: "meeting", workspace: "other" }, mainToken)).status).toBe(403);
+    expect((await post("/search?workspace=test", { query: "meeting", workspace: "other" }, mainToken)).status).toBe(400);
+    expect((await post("/search?workspace=other", { query: "meeting" }, mainToken)).status).toBe(400);
+    expect((await post("/search?workspace=test", { query: "meeting", workspace: "test" }, mainToken)).status).toBe(200);
+  });
+
+  test("should require write scope on routes that change data", async () => {
+    const writes: Array<[string, object]> = [
+      ["/nodes/create", { supertag: "todo", name: "Call Anna" }],
+      ["/nodes/abc123/update", { name: "Renamed" }],
+      ["/nodes/abc123/fields", { attributeId: "attr1", content: "Done" }],
+      ["/nodes/abc123/trash", {}],
+    ];
+    for (const [path, body] of writes) {
+      const res = await post(path, body, mainToken);
+      expect(res.status).toBe(403);
+      expect((await res.json()).error).toContain("write required");
+    }
+    expect(auditLog.tail(1)[0]).toMatchObject({ path: "/nodes/abc123/trash", status: 403, denied: "scope write required" });
+
+    // A write key gets past auth to the route's own validation
+    expect((await post("/nodes/create", { name: "No tag" }, allToken)).status).toBe(400);
+    expect((await post("/nodes/abc123/fields", { content: "Done" }, allToken)).status).toBe(400);
+  });
+
+  test("should reject revoked keys without a restart", async () => {
+    const { token } = new ApiKeyStore(join(dir, "api-keys.json")).create({ name: "temp", scope: "read" });
+    expect((await get("/stats?format=json", token)).status).toBe(200);
+    new ApiKeyStore(join(dir, "api-keys.json")).revoke("temp");
+    expect((await get("/stats?format=json", token)).status).toBe(401);
+  });
+
+  test("should audit log every request", async () => {
+    await get("/stats?format=json&workspace=other", mainToken);
+    const [entry] = auditLog.tail(1);
+    expect(entry).toMatchObject({
+      method: "GET",
+      path: "/stats",
+      workspace: "other",
+      status: 403,
+      keyName: "main-only",
+      denied: "workspace other not allowed",
+    });
+    expect(auditLog.tail(100).some((e) => e.status === 401 && e.denied === "missing key")).toBe(true);
+  });
+});
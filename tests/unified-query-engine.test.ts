@@ -7,7 +7,7 @@
 
 import { describe, it, expect, beforeAll, afterAll } from "bun:test";
 import { Database } from "bun:sqlite";
-import { UnifiedQueryEngine } from "../src/query/unified-query-engine";
+import { UnifiedQueryEngine, QueryValidationError } from "../src/query/unified-query-engine";
 import type { QueryAST } from "../src/query/types";
 
 describe("Unified Query Engine", () => {
@@ -457,4 +457,339 @@ describe("Unified Query Engine", () => {
       expect(result.count).toBe(3);
     });
   });
+
+  describe("Group By and Aggregates", () => {
+    it("should count nodes per field value", async () => {
+      const result = await engine.execute({
+        find: "task",
+        groupBy: [{ field: "Status" }],
+        aggregate: [{ fn: "count" }],
+      });
+      expect(result.columns).toEqual(["Status", "count"]);
+      expect(result.results).toEqual([
+        { Status: "Active", count: 2 },
+        { Status: "Done", count: 1 },
+      ]);
+    });
+
+    it("should default to count() when only group by is given", async () => {
+      const result = await engine.execute({ find: "task", groupBy: [{ field: "Status" }] });
+      expect(result.columns).toEqual(["Status", "count"]);
+      expect(result.count).toBe(2);
+    });
+
+    it("should place nodes without the field in a (none) group", async () => {
+      const result = await engine.execute({ find: "task", groupBy: [{ field: "Priority" }] });
+      const none = result.results.find((r) => r.Priority === "(none)");
+      expect(none?.count).toBe(1);
+    });
+
+    it("should compute sum, avg, min and max of numeric fields", async () => {
+      const result = await engine.execute({
+        find: "task",
+        aggregate: [
+          { fn: "sum", field: "Priority" },
+          { fn: "avg", field: "Priority" },
+          { fn: "min", field: "Priority" },
+          { fn: "max", field: "Priority", alias: "top" },
+        ],
+      });
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0]).toEqual({
+        "sum(Priority)": 4,
+        "avg(Priority)": 2,
+        "min(Priority)": 1,
+        top: 3,
+      });
+    });
+
+    it("should apply where filters before grouping", async () => {
+      const result = await engine.execute({
+        find: "task",
+        where: [{ field: "Status", operator: "=", value: "Active" }],
+        groupBy: [{ field: "parentId" }],
+      });
+      const rows = [...result.results].sort((a, b) => String(a.parentId).localeCompare(String(b.parentId)));
+      expect(rows).toEqual([
+        { parentId: "project1", count: 1 },
+        { parentId: "project2", count: 1 },
+      ]);
+    });
+
+    it("should order by a group key or aggregate column", async () => {
+      const result = await engine.execute({
+        find: "task",
+        groupBy: [{ field: "Status" }],
+        orderBy: { field: "Status", desc: true },
+      });
+      expect(result.results.map((r) => r.Status)).toEqual(["Done", "Active"]);
+    });
+
+    it("should reject ordering by a column that is not in the result", async () => {
+      const ast: QueryAST = {
+        find: "task",
+        groupBy: [{ field: "Status" }],
+        orderBy: { field: "created", desc: true },
+      };
+      await expect(engine.execute(ast)).rejects.toThrow("Cannot order grouped results");
+    });
+
+    it("should reject selected fields that are not grouped", async () => {
+      const ast: QueryAST = {
+        find: "task",
+        groupBy: [{ field: "Status" }],
+        select: ["Priority"],
+      };
+      await expect(engine.execute(ast)).rejects.toThrow("must appear in 'group by'");
+    });
+  });
+
+  describe("Relationship Predicates", () => {
+    beforeAll(() => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS "references" (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          from_node TEXT NOT NULL,
+          to_node TEXT NOT NULL,
+          reference_type TEXT NOT NULL
+        )
+      `);
+      // meeting1 mentions task1 inline; task2 and meeting1 link project2 via fields
+      db.run(`INSERT INTO "references" (from_node, to_node, reference_type) VALUES ('meeting1', 'task1', 'inline_ref')`);
+      db.run(
+        "INSERT INTO field_values (tuple_id, parent_id, field_name, value_node_id, value_text, created) VALUES (?, ?, ?, ?, ?, ?)",
+        ["tuple7", "task2", "Related", "project2", "Infra Project", Date.now()]
+      );
+      db.run(
+        "INSERT INTO field_values (tuple_id, parent_id, field_name, value_node_id, value_text, created) VALUES (?, ?, ?, ?, ?, ?)",
+        ["tuple8", "meeting1", "Project", "project2", "Infra Project", Date.now()]
+      );
+    });
+
+    it("should filter by field references to a tag:name target", async () => {
+      const result = await engine.execute({
+        find: "task",
+        where: [{ relation: "references", target: { tag: "project", name: "infra project" } }],
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["task2"]);
+    });
+
+    it("should filter by inline references", async () => {
+      const result = await engine.execute({
+        find: "meeting",
+        where: [{ relation: "references", target: { id: "task1" } }],
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["meeting1"]);
+    });
+
+    it("should filter by referenced by target", async () => {
+      const result = await engine.execute({
+        find: "task",
+        where: [{ relation: "referenced_by", target: { tag: "meeting" } }],
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["task1"]);
+    });
+
+    it("should filter by referenced by count", async () => {
+      const result = await engine.execute({
+        find: "project",
+        where: [{ relation: "referenced_by", count: { operator: ">=", value: 2 } }],
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["project2"]);
+    });
+
+    it("should filter by child of tag", async () => {
+      const result = await engine.execute({
+        find: "task",
+        where: [{ relation: "child_of", target: { name: "Auth Project" } }],
+      });
+      expect(result.count).toBe(2);
+    });
+
+    it("should filter by parent of", async () => {
+      const result = await engine.execute({
+        find: "project",
+        where: [{ relation: "parent_of", target: { name: "Deploy to prod" } }],
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["project2"]);
+    });
+
+    it("should support negated relationships", async () => {
+      const result = await engine.execute({
+        find: "task",
+        where: [{ relation: "child_of", target: { tag: "project" }, negated: true }],
+      });
+      expect(result.count).toBe(0);
+    });
+
+    it("should combine relationships with field conditions in OR groups", async () => {
+      const result = await engine.execute({
+        find: "task",
+        where: [
+          {
+            type: "or",
+            clauses: [
+              { field: "Status", operator: "=", value: "Done" },
+              { relation: "referenced_by", target: { tag: "meeting" } },
+            ],
+          },
+        ],
+      });
+      const ids = result.results.map((r) => r.id).sort();
+      expect(ids).toEqual(["task1", "task2"]);
+    });
+  });
+
+  describe("Explain", () => {
+    it("should return SQL, params and query plan without executing", async () => {
+      const explanation = await engine.explain({ find: "task", where: [{ field: "Status", operator: "=", value: "Active" }] });
+      expect(explanation.sql).toContain("FROM nodes n");
+      expect(explanation.params).toEqual(["task", "Status", "Active", 100]);
+      expect(explanation.plan.length).toBeGreaterThan(0);
+      expect(explanation.plan[0].detail).toBeString();
+    });
+
+    it("should report the find tag and its node count", async () => {
+      expect((await engine.explain({ find: "task" })).find).toEqual({ tag: "task", nodes: 3 });
+      expect((await engine.explain({ find: "*" })).find.nodes).toBeUndefined();
+    });
+
+    it("should resolve core and custom fields", async () => {
+      const { fields } = await engine.explain({
+        find: "task",
+        where: [
+          { field: "Status", operator: "=", value: "Active" },
+          { field: "Stauts", operator: "=", value: "Active" },
+          { field: "name", operator: "~", value: "bug" },
+        ],
+        orderBy: { field: "created", desc: true },
+      });
+      expect(fields).toEqual([
+        { field: "Status", usage: "where", kind: "field", target: "field_values.field_name = 'Status'", values: 3 },
+        { field: "Stauts", usage: "where", kind: "field", target: "field_values.field_name = 'Stauts'", values: 0 },
+        { field: "name", usage: "where", kind: "core", target: "n.name" },
+        { field: "created", usage: "order by", kind: "core", target: "n.created" },
+      ]);
+    });
+
+    it("should list resolved relative dates", async () => {
+      const { dates } = await engine.explain({ find: "task", where: [{ field: "created", operator: ">", value: "7d" }] });
+      expect(dates).toHaveLength(1);
+      expect(dates[0].input).toBe("7d");
+      expect(dates[0].resolved).toBeNumber();
+      expect(dates[0].iso).toBe(new Date(dates[0].resolved).toISOString());
+    });
+
+    it("should explain grouped queries", async () => {
+      const explanation = await engine.explain({ find: "task", groupBy: [{ field: "Status" }], aggregate: [{ fn: "count" }] });
+      expect(explanation.sql).toContain("GROUP BY");
+      expect(explanation.fields[0]).toMatchObject({ field: "Status", usage: "group by", kind: "field" });
+    });
+  });
+
+  describe("Search Predicates", () => {
+    let searchEngine: UnifiedQueryEngine;
+    const similarities: Record<string, { nodeId: string; similarity: number }[]> = {
+      "auth work": [
+        { nodeId: "task2", similarity: 0.9 },
+        { nodeId: "task1", similarity: 0.75 },
+        { nodeId: "project1", similarity: 0.6 },
+      ],
+    };
+
+    beforeAll(() => {
+      db.run(`
+        CREATE VIRTUAL TABLE nodes_fts USING fts5(id UNINDEXED, name, content='nodes', content_rowid='rowid')
+      `);
+      db.run("INSERT INTO nodes_fts(rowid, id, name) SELECT rowid, id, name FROM nodes WHERE name IS NOT NULL");
+
+      searchEngine = new UnifiedQueryEngine(db, {
+        semanticSearch: async (query) => similarities[query] ?? [],
+      });
+    });
+
+    it("should filter by full-text match", async () => {
+      const result = await searchEngine.execute({
+        find: "*",
+        where: [{ search: "text", query: "project" }],
+      });
+      const ids = result.results.map((r) => r.id).sort();
+      expect(ids).toEqual(["project1", "project2"]);
+      expect(result.results[0].score).toBeGreaterThan(0);
+    });
+
+    it("should filter by similarity threshold and rank by score", async () => {
+      const result = await searchEngine.execute({
+        find: "task",
+        where: [{ search: "similar", query: "auth work", threshold: 0.7 }],
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["task2", "task1"]);
+      expect(result.results.map((r) => r.score)).toEqual([0.9, 0.75]);
+    });
+
+    it("should rank by combined score across predicates", async () => {
+      const result = await searchEngine.execute({
+        find: "*",
+        where: [
+          {
+            type: "or",
+            clauses: [
+              { search: "text", query: "login" },
+              { search: "similar", query: "auth work" },
+            ],
+          },
+        ],
+      });
+      // task1 matches both predicates, so it outranks the similarity-only nodes
+      expect(result.results[0].id).toBe("task1");
+      expect(result.results.map((r) => r.id)).toContain("project1");
+    });
+
+    it("should paginate after ranking", async () => {
+      const result = await searchEngine.execute({
+        find: "*",
+        where: [{ search: "similar", query: "auth work" }],
+        limit: 1,
+        offset: 1,
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["task1"]);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it("should keep explicit order by instead of ranking", async () => {
+      const result = await searchEngine.execute({
+        find: "task",
+        where: [{ search: "similar", query: "auth work" }],
+        orderBy: { field: "created", desc: false },
+      });
+      expect(result.results.map((r) => r.id)).toEqual(["task2", "task1"]);
+      expect(result.results[0].score).toBeUndefined();
+    });
+
+    it("should exclude negated matches", async () => {
+      const result = await searchEngine.execute({
+        find: "task",
+        where: [{ search: "text", query: "login", negated: true }],
+      });
+      const ids = result.results.map((r) => r.id).sort();
+      expect(ids).toEqual(["task2", "task3"]);
+    });
+
+    it("should require a semantic search backend for similar to", async () => {
+      await expect(
+        engine.execute({ find: "*", where: [{ search: "similar", query: "auth work" }] })
+      ).rejects.toThrow(QueryValidationError);
+    });
+
+    it("should require the FTS index for text ~", async () => {
+      const emptyDb = new Database(":memory:");
+      try {
+        await expect(
+          new UnifiedQueryEngine(emptyDb).execute({ find: "*", where: [{ search: "text", query: "x" }] })
+        ).rejects.toThrow("Full-text index not found");
+      } finally {
+        emptyDb.close();
+      }
+    });
+  });
 });
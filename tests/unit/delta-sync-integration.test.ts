@@ -14,6 +14,9 @@ import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { Database } from "bun:sqlite";
 import { DeltaSyncService } from "../../src/services/delta-sync";
 import { ensureDeltaSyncSchema } from "../../src/db/delta-sync-schema";
+import { readNodeChanges } from "../../src/db/node-changes";
+import { DeadLetterLog, OutboundWebhooks, type WebhookEvent } from "../../src/services/outbound-webhooks";
+import { WebhookRuleStore } from "../../src/services/webhook-rules";
 import type { SearchResultNode } from "../../src/types/local-api";
 
 // =============================================================================
@@ -572,6 +575,67 @@ describe("Delta-Sync Integration (T-6.1)", () => {
       db.close();
     });
 
+    it("logs created and updated nodes with their tags to node_changes", async () => {
+      const firstClient = createMockClient([[makeNode({ id: "log-1", name: "First" })]]);
+      service = new DeltaSyncService({ dbPath, localApiClient: firstClient });
+      await service.sync();
+      service.close();
+
+      const secondClient = createMockClient([[
+        makeNode({ id: "log-1", name: "First (edited)", tags: [{ id: "t1", name: "meeting" }], tagIds: ["t1"] }),
+        makeNode({ id: "log-2", name: "Second" }),
+      ]]);
+      service = new DeltaSyncService({ dbPath, localApiClient: secondClient });
+      await service.sync();
+
+      const db = new Database(dbPath, { readonly: true });
+      const changes = readNodeChanges(db, 0).map((c) => [c.change, c.nodeId, c.name, c.tags, c.source]);
+      db.close();
+
+      expect(changes).toEqual([
+        ["created", "log-1", "First", ["project"], "delta-sync"],
+        ["updated", "log-1", "First (edited)", ["meeting"], "delta-sync"],
+        ["created", "log-2", "Second", ["project"], "delta-sync"],
+      ]);
+    });
+
+    it("evaluates outbound webhook rules after each sync", async () => {
+      const rulesPath = dbPath.replace(/\.db$/, "-webhooks.json");
+      const deadLetterPath = dbPath.replace(/\.db$/, "-dead-letters.jsonl");
+      const rules = new WebhookRuleStore(rulesPath);
+      rules.add({ name: "meetings", tag: "meeting", url: "https://example.com/hook" });
+      const received: WebhookEvent[] = [];
+      const outboundWebhooks = new OutboundWebhooks({
+        rules,
+        deadLetters: new DeadLetterLog(deadLetterPath),
+        fetch: (async (_url: string, init: RequestInit) => {
+          received.push(JSON.parse(String(init.body)));
+          return new Response(null, { status: 204 });
+        }) as unknown as typeof fetch,
+      });
+
+      try {
+        service = new DeltaSyncService({ dbPath, localApiClient: createMockClient([[makeNode({ id: "wh-1" })]]), workspace: "main", outboundWebhooks });
+        await service.sync();
+        service.close();
+        expect(received).toEqual([]);
+
+        service = new DeltaSyncService({
+          dbPath,
+          localApiClient: createMockClient([[makeNode({ id: "wh-1", name: "Kickoff", tags: [{ id: "t1", name: "meeting" }], tagIds: ["t1"] })]]),
+          workspace: "main",
+          outboundWebhooks,
+        });
+        await service.sync();
+
+        expect(received.map((e) => [e.type, e.node.id, e.node.name, e.workspace, e.source])).toEqual([
+          ["tagged", "wh-1", "Kickoff", "main", "delta-sync"],
+        ]);
+      } finally {
+        require("fs").rmSync(rulesPath, { force: true });
+      }
+    });
+
     it("watermark advances after each sync with changes", async () => {
       // First sync
       const firstClient = createMockClient([[makeNode({ id: "wm-1" })]]);
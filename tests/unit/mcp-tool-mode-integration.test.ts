@@ -26,6 +26,7 @@ const ALL_TOOL_DEFS = [
   { name: 'tana_field_values', description: 'Query field values', inputSchema: {} },
   { name: 'tana_batch_get', description: 'Batch fetch nodes', inputSchema: {} },
   { name: 'tana_query', description: 'Unified query', inputSchema: {} },
+  { name: 'tana_saved_query', description: 'Run saved query', inputSchema: {} },
   { name: 'tana_aggregate', description: 'Aggregate nodes', inputSchema: {} },
   { name: 'tana_timeline', description: 'Time-bucketed view', inputSchema: {} },
   { name: 'tana_recent', description: 'Recent items', inputSchema: {} },
@@ -36,6 +37,7 @@ const ALL_TOOL_DEFS = [
   { name: 'tana_supertag_info', description: 'Supertag info', inputSchema: {} },
   { name: 'tana_node', description: 'Show node', inputSchema: {} },
   { name: 'tana_related', description: 'Related nodes', inputSchema: {} },
+  { name: 'tana_similar', description: 'Similar nodes', inputSchema: {} },
 
   // Transcript tools (excluded in slim)
   { name: 'tana_transcript_list', description: 'List transcripts', inputSchema: {} },
@@ -129,6 +131,7 @@ describe('MCP Tool Mode Integration (T-5.2)', () => {
       expect(names).not.toContain('tana_supertag_info');
       expect(names).not.toContain('tana_node');
       expect(names).not.toContain('tana_related');
+      expect(names).not.toContain('tana_similar');
     });
 
     it('excludes transcript tools in slim mode', () => {
@@ -252,8 +255,8 @@ describe('MCP Tool Mode Integration (T-5.2)', () => {
 
   describe('Tool count consistency', () => {
     it('ALL_TOOL_DEFS matches the real MCP server tool count', () => {
-      // The real server has 32 tools as of F-095
-      expect(ALL_TOOL_DEFS.length).toBe(32);
+      // The real server has 34 tools (32 as of F-095, plus tana_saved_query and tana_similar)
+      expect(ALL_TOOL_DEFS.length).toBe(34);
     });
 
     it('slim mode returns 16 tools (from SLIM_MODE_TOOLS)', () => {
@@ -261,9 +264,9 @@ describe('MCP Tool Mode Integration (T-5.2)', () => {
       expect(filtered.length).toBe(16);
     });
 
-    it('slim mode excludes 16 tools', () => {
+    it('slim mode excludes 18 tools', () => {
       const filtered = filterToolsByMode(ALL_TOOL_DEFS, 'slim');
-      expect(ALL_TOOL_DEFS.length - filtered.length).toBe(16);
+      expect(ALL_TOOL_DEFS.length - filtered.length).toBe(18);
     });
   });
 });
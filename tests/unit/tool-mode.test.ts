@@ -24,6 +24,7 @@ const ALL_TOOL_NAMES = [
   'tana_field_values',
   'tana_batch_get',
   'tana_query',
+  'tana_saved_query',
   'tana_aggregate',
   'tana_timeline',
   'tana_recent',
@@ -32,6 +33,7 @@ const ALL_TOOL_NAMES = [
   'tana_supertag_info',
   'tana_node',
   'tana_related',
+  'tana_similar',
   'tana_transcript_list',
   'tana_transcript_show',
   'tana_transcript_search',
@@ -89,6 +91,7 @@ describe('MCP Tool Mode Filter (T-5.1)', () => {
         'tana_field_values',
         'tana_batch_get',
         'tana_query',
+        'tana_saved_query',
         'tana_aggregate',
         'tana_timeline',
         'tana_recent',
@@ -106,6 +109,7 @@ describe('MCP Tool Mode Filter (T-5.1)', () => {
         'tana_supertag_info',
         'tana_node',
         'tana_related',
+        'tana_similar',
       ];
 
       for (const tool of exploreTools) {
@@ -181,6 +185,7 @@ describe('MCP Tool Mode Filter (T-5.1)', () => {
         'tana_supertag_info',
         'tana_node',
         'tana_related',
+        'tana_similar',
         'tana_transcript_list',
         'tana_transcript_show',
         'tana_transcript_search',
@@ -231,6 +236,7 @@ describe('MCP Tool Mode Filter (T-5.1)', () => {
       expect(excluded).toContain('tana_supertag_info');
       expect(excluded).toContain('tana_node');
       expect(excluded).toContain('tana_related');
+      expect(excluded).toContain('tana_similar');
       expect(excluded).toContain('tana_transcript_list');
       expect(excluded).toContain('tana_transcript_show');
       expect(excluded).toContain('tana_transcript_search');